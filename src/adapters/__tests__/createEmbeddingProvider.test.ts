@@ -0,0 +1,65 @@
+import { DEFAULT_SETTINGS, type IgniteSettings } from '@/settings';
+import { describe, expect, it } from 'vitest';
+import { createEmbeddingProvider } from '../createEmbeddingProvider';
+import { HashedNgramEmbeddingAdapter } from '../local';
+import { OpenAIEmbeddingAdapter } from '../openai';
+import { VoyageEmbeddingAdapter } from '../voyage';
+
+function settings(overrides: Partial<IgniteSettings>): IgniteSettings {
+  return { ...DEFAULT_SETTINGS, ...overrides };
+}
+
+describe('createEmbeddingProvider', () => {
+  it('should create the Voyage adapter when its API key is configured', () => {
+    const provider = createEmbeddingProvider(settings({ voyageApiKey: 'pa-test-key-12345' }));
+
+    expect(provider).toBeInstanceOf(VoyageEmbeddingAdapter);
+  });
+
+  it('should return null when Voyage is selected without an API key', () => {
+    expect(createEmbeddingProvider(settings({}))).toBeNull();
+  });
+
+  it('should create the Voyage adapter with the selected model', () => {
+    const provider = createEmbeddingProvider(
+      settings({ voyageApiKey: 'pa-test-key-12345', voyageEmbeddingModel: 'voyage-3' }),
+    );
+
+    expect(provider?.getModelName()).toBe('voyage-3');
+    expect(provider?.getDimensions()).toBe(1024);
+  });
+
+  it('should create the OpenAI adapter with the selected model and vector size', () => {
+    const provider = createEmbeddingProvider(
+      settings({
+        embeddingProvider: 'openai',
+        openaiEmbeddingApiKey: 'sk-test',
+        openaiEmbeddingModel: 'text-embedding-3-large',
+        openaiEmbeddingDimensions: 1024,
+      }),
+    );
+
+    expect(provider).toBeInstanceOf(OpenAIEmbeddingAdapter);
+    expect(provider?.getModelName()).toBe('text-embedding-3-large');
+    expect(provider?.getDimensions()).toBe(1024);
+  });
+
+  it('should return null when OpenAI is selected without an API key', () => {
+    expect(createEmbeddingProvider(settings({ embeddingProvider: 'openai' }))).toBeNull();
+  });
+
+  it('should not use the chat provider API key for OpenAI embeddings', () => {
+    expect(
+      createEmbeddingProvider(settings({ embeddingProvider: 'openai', openaiApiKey: 'sk-chat' })),
+    ).toBeNull();
+  });
+
+  it('should create the local adapter without an API key', () => {
+    const provider = createEmbeddingProvider(
+      settings({ embeddingProvider: 'local', localEmbeddingDimensions: 1024 }),
+    );
+
+    expect(provider).toBeInstanceOf(HashedNgramEmbeddingAdapter);
+    expect(provider?.getDimensions()).toBe(1024);
+  });
+});
@@ -0,0 +1,47 @@
+import { DEFAULT_SETTINGS, type IgniteSettings } from '@/settings';
+import { describe, expect, it } from 'vitest';
+import { AnthropicLLMAdapter } from '../anthropic';
+import { createLLMProvider } from '../createLLMProvider';
+import { OllamaLLMAdapter } from '../ollama';
+import { OpenAIChatLLMAdapter } from '../openai';
+
+function settings(overrides: Partial<IgniteSettings>): IgniteSettings {
+  return { ...DEFAULT_SETTINGS, ...overrides };
+}
+
+describe('createLLMProvider', () => {
+  it('should create the Anthropic adapter by default', () => {
+    const provider = createLLMProvider(settings({ anthropicApiKey: 'sk-ant-test-key' }));
+
+    expect(provider).toBeInstanceOf(AnthropicLLMAdapter);
+  });
+
+  it('should create the OpenAI-compatible adapter with the configured model', () => {
+    const provider = createLLMProvider(
+      settings({
+        llmProvider: 'openai',
+        openaiBaseUrl: 'http://localhost:8000/v1',
+        openaiModel: 'llama-3.1-8b',
+      }),
+    );
+
+    expect(provider).toBeInstanceOf(OpenAIChatLLMAdapter);
+    expect(provider.getModelName()).toBe('llama-3.1-8b');
+  });
+
+  it('should create the Ollama adapter without an API key', () => {
+    const provider = createLLMProvider(
+      settings({ llmProvider: 'ollama', ollamaModel: 'qwen2.5:7b' }),
+    );
+
+    expect(provider).toBeInstanceOf(OllamaLLMAdapter);
+    expect(provider.getProviderName()).toBe('Ollama');
+    expect(provider.getModelName()).toBe('qwen2.5:7b');
+  });
+
+  it('should throw when the selected provider is missing its API key', () => {
+    expect(() => createLLMProvider(settings({ llmProvider: 'openai' }))).toThrow(
+      'OpenAI API key is required',
+    );
+  });
+});
@@ -41,3 +41,26 @@ Before outputting the JSON, ensure you've discussed:
 - What "success" looks like for this goal
 
 Be conversational, encouraging, and help them think through their learning journey.`;
+
+/**
+ * Build the request that asks the AI to refine an existing goal.
+ * The milestones are shown for context only; they are edited separately.
+ */
+export function buildGoalRefinementRequest(
+  goal: { name: string; description: string; deadline: string; milestones: string[] },
+  instructions?: string,
+): string {
+  const focus = instructions?.trim()
+    ? instructions.trim()
+    : 'Make the name clear and concise, the description specific about what I want to learn and why, and the deadline realistic.';
+
+  return `Here is a learning goal I already created:
+
+\`\`\`json
+${JSON.stringify(goal, null, 2)}
+\`\`\`
+
+Please refine it. ${focus}
+
+Keep the milestones exactly as they are. Do not ask follow-up questions; reply with the refined goal in the JSON format.`;
+}
@@ -1,3 +1,5 @@
+import type { DiscussMode } from '@/domain/goal/types';
+
 /**
  * System prompt for discussion conversations about learning materials.
  * Guides the AI to provide helpful explanations with source attribution.
@@ -32,6 +34,41 @@ Format your responses in markdown for better readability:
 
 Remember: Your goal is to help the user deeply understand their learning materials and make progress toward their goal.`;
 
+/**
+ * Mode-specific instructions appended to the base discussion prompt.
+ */
+export const DISCUSS_MODE_PROMPTS: Record<DiscussMode, string> = {
+  explore: `Current mode: EXPLORE
+
+Engage in open-ended discussion with "yes, and" energy:
+- Build on the user's ideas and help them brainstorm
+- Suggest new angles, connections, and questions worth exploring
+- Follow the user's curiosity rather than steering toward a fixed lesson`,
+
+  'teach-me': `Current mode: TEACH ME
+
+Explain concepts simply and assume the user is a beginner:
+- Start from fundamentals and define any jargon before using it
+- Use short steps, concrete examples, and everyday analogies
+- Check understanding by ending with a brief question the user can try to answer
+- Avoid overwhelming detail; offer to go deeper instead`,
+
+  challenge: `Current mode: CHALLENGE
+
+Act as a constructive devil's advocate:
+- Push back on the user's assumptions and ask them to justify their claims
+- Point out gaps, counterexamples, and edge cases in their reasoning
+- Present the strongest opposing viewpoints, citing their notes where possible
+- Stay respectful and focused on deepening understanding, not winning the argument`,
+};
+
+/**
+ * Get the system prompt for a discussion mode.
+ */
+export function getDiscussSystemPrompt(mode: DiscussMode): string {
+  return `${DISCUSS_SYSTEM_PROMPT}\n\n${DISCUSS_MODE_PROMPTS[mode]}`;
+}
+
 /**
  * Build the context message containing note contents for the discussion.
  */
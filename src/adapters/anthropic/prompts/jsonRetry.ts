@@ -0,0 +1,7 @@
+/**
+ * Follow-up sent when a reply should have contained a JSON code block but could not be parsed.
+ * Smaller local models often drift from the format; asking again usually fixes it.
+ */
+export const JSON_RETRY_PROMPT = `Your previous reply did not contain valid JSON in the required format.
+
+Reply again with only the JSON, inside a \`\`\`json code block, following the format from your instructions exactly. Do not include any other text.`;
@@ -1,20 +1,26 @@
+import type { QuestionDifficulty, QuestionType, RubricPoint } from '@/domain/goal/types';
+
 /**
  * System prompt for generating Q&A questions from learning materials.
- * Guides the AI to create a mix of multiple-choice and open-ended questions.
+ * The question count, difficulty and allowed types are given in the context message.
  */
 export const QA_GENERATION_SYSTEM_PROMPT = `You are an expert educator creating assessment questions to test understanding of learning materials.
 
 Your task is to generate high-quality questions that:
 1. Test understanding, not just memorization
 2. Cover key concepts from the provided notes
-3. Vary in difficulty (easy, medium, hard)
-4. Include a mix of multiple-choice and open-ended questions
+3. Match the requested difficulty
+4. Use only the requested question types
 
 For each question, you must provide:
 - The question text
 - The source note path it's based on
 - For multiple-choice: 4 options and the correct answer index (0-3)
-- For open-ended: no options needed
+- For open-ended: no options, but a rubric of 2-5 key points a complete answer covers, each weighted 1-3 by importance
+- For true-false: a statement as the text and whether it is true (correctAnswer: true or false)
+- For cloze: text with exactly one blank written as "____" and every acceptable fill in acceptedAnswers
+- For ordering: 3-6 items listed in the correct order (they are shuffled before display)
+- For multi-select: 4-6 options and the indices of every correct option (at least one)
 
 Output your questions as a JSON array in a code block:
 
@@ -31,24 +37,60 @@ Output your questions as a JSON array in a code block:
     {
       "type": "open-ended",
       "text": "Explain how... relates to...",
-      "sourceNotePath": "path/to/note.md"
+      "sourceNotePath": "path/to/note.md",
+      "rubric": [
+        { "point": "States that...", "weight": 2 },
+        { "point": "Explains why...", "weight": 1 }
+      ]
+    },
+    {
+      "type": "true-false",
+      "text": "... always happens before ...",
+      "sourceNotePath": "path/to/note.md",
+      "correctAnswer": false
+    },
+    {
+      "type": "cloze",
+      "text": "The process of ... is called ____.",
+      "sourceNotePath": "path/to/note.md",
+      "acceptedAnswers": ["Term", "Alternative spelling"]
+    },
+    {
+      "type": "ordering",
+      "text": "Arrange the steps of ... in order",
+      "sourceNotePath": "path/to/note.md",
+      "items": ["First step", "Second step", "Third step"]
+    },
+    {
+      "type": "multi-select",
+      "text": "Which of the following are ...? Select all that apply.",
+      "sourceNotePath": "path/to/note.md",
+      "options": ["Option A", "Option B", "Option C", "Option D"],
+      "correctAnswers": [0, 2]
     }
   ]
 }
 \`\`\`
 
 Guidelines:
-- Generate 5-10 questions per session
-- Aim for roughly 60% multiple-choice and 40% open-ended
-- Multiple-choice options should have plausible distractors
+- Generate exactly the number of questions requested
+- When several types are allowed, use a mix of them, favouring multiple-choice and open-ended
+- Multiple-choice and multi-select options should have plausible distractors
 - Open-ended questions should require explanation or synthesis
-- Questions should progress from easier to harder
+- True/false statements must be unambiguously true or false according to the notes
+- Cloze blanks should hide a key term, with short accepted answers (synonyms, abbreviations)
+- Ordering items must have a single correct order stated or implied by the notes
+- For mixed difficulty, questions should progress from easier to harder
 - Always cite the source note for each question
 - Make questions specific to the content, not generic
 
 Question Types:
 - Multiple-choice: Good for testing factual recall and concept recognition
-- Open-ended: Good for testing deeper understanding and application`;
+- Open-ended: Good for testing deeper understanding and application
+- True-false: Good for checking misconceptions quickly
+- Cloze: Good for testing recall of key terms
+- Ordering: Good for testing processes and sequences
+- Multi-select: Good for testing classification and recognizing several correct facts`;
 
 /**
  * System prompt for evaluating open-ended answers.
@@ -56,32 +98,85 @@ Question Types:
 export const QA_EVALUATION_SYSTEM_PROMPT = `You are an expert educator evaluating student answers to learning assessment questions.
 
 Your task is to:
-1. Evaluate if the answer demonstrates understanding of the concept
+1. Grade the answer against the rubric of key points, marking each point as hit or missed
 2. Provide constructive feedback
-3. Determine if the answer is correct (acceptable understanding shown)
+3. Estimate an overall score from 0 to 1
+
+If no rubric is given, first write 2-5 key points a complete answer would cover, then grade against them.
 
 For open-ended questions, consider:
 - Does the answer address the core concept?
 - Is the explanation accurate?
 - Does it show understanding beyond surface-level recall?
 
-Be encouraging but honest. Partial credit is acceptable - if the answer shows some understanding but is incomplete, acknowledge what they got right and explain what was missing.
+Be encouraging but honest. Partial credit is expected - a key point is hit if the answer conveys it correctly, even in different words. Acknowledge what they got right and explain what was missing.
 
 Output your evaluation as JSON in a code block:
 
 \`\`\`json
 {
-  "isCorrect": true,
+  "keyPoints": [
+    { "point": "States that...", "hit": true },
+    { "point": "Explains why...", "hit": false }
+  ],
+  "score": 0.6,
   "explanation": "Your answer correctly identifies... However, you could strengthen it by..."
 }
 \`\`\`
 
 Guidelines:
+- List the key points in the same order as the rubric, using its wording
 - Be specific about what was correct or incorrect
 - Reference the actual content from the notes when explaining
 - Provide actionable feedback for improvement
 - Don't be overly harsh - learning is the goal`;
 
+/**
+ * System prompt for grouping incorrectly answered questions into weak concepts.
+ */
+export const WEAK_CONCEPTS_SYSTEM_PROMPT = `You are an expert educator analyzing a student's mistakes on assessment questions.
+
+You will receive a numbered list of questions the student answered incorrectly. Identify the underlying concepts the student is struggling with and group the questions by concept.
+
+Output your analysis as JSON in a code block:
+
+\`\`\`json
+{
+  "concepts": [
+    {
+      "concept": "Generic type constraints",
+      "questions": [1, 4]
+    }
+  ]
+}
+\`\`\`
+
+Guidelines:
+- Name each concept in 2-6 words, specific to the material (not "Understanding" or "Details")
+- Every question number should belong to exactly one concept
+- Prefer fewer, broader concepts over one concept per question
+- List the concepts with the most questions first`;
+
+/**
+ * What to generate in a single question generation request.
+ */
+export interface QAGenerationRequest {
+  questionCount: number;
+  difficulty: QuestionDifficulty;
+  questionTypes: QuestionType[];
+  /** Milestones the questions should target */
+  focusMilestones?: string[];
+  /** Questions already generated, which must not be repeated */
+  existingQuestions?: string[];
+}
+
+const DIFFICULTY_INSTRUCTIONS: Record<QuestionDifficulty, string> = {
+  mixed: 'a mix of easy, medium and hard questions',
+  easy: 'easy questions that check recall of key facts and definitions',
+  medium: 'medium questions that require understanding and applying concepts',
+  hard: 'hard questions that require analysis, synthesis or connecting multiple ideas',
+};
+
 /**
  * Build the context message for question generation.
  */
@@ -89,9 +184,27 @@ export function buildQAContext(
   goalName: string,
   goalDescription: string,
   notes: Array<{ path: string; content: string }>,
+  request: QAGenerationRequest,
 ): string {
   let context = `Goal: ${goalName}\nDescription: ${goalDescription}\n\n`;
-  context += 'Generate questions based on the following notes:\n\n';
+
+  context += `Generate exactly ${request.questionCount} question${request.questionCount !== 1 ? 's' : ''}.\n`;
+  context += `Difficulty: ${DIFFICULTY_INSTRUCTIONS[request.difficulty]}.\n`;
+  context += `Allowed question types: ${request.questionTypes.join(', ')}.\n`;
+
+  if (request.focusMilestones && request.focusMilestones.length > 0) {
+    context += '\nFocus the questions on these milestones:\n';
+    context += request.focusMilestones.map((m) => `- ${m}`).join('\n');
+    context += '\n';
+  }
+
+  if (request.existingQuestions && request.existingQuestions.length > 0) {
+    context += '\nDo not repeat or rephrase these existing questions:\n';
+    context += request.existingQuestions.map((q) => `- ${q}`).join('\n');
+    context += '\n';
+  }
+
+  context += '\nGenerate questions based on the following notes:\n\n';
 
   for (const note of notes) {
     context += `--- START: ${note.path} ---\n${note.content}\n--- END: ${note.path} ---\n\n`;
@@ -107,14 +220,32 @@ export function buildEvaluationContext(
   question: string,
   sourceContent: string,
   userAnswer: string,
+  rubric: RubricPoint[] = [],
 ): string {
+  const rubricSection =
+    rubric.length > 0
+      ? `\n\nRubric (key points, with weights):\n${rubric
+          .map((r, i) => `${i + 1}. ${r.point} (weight ${r.weight})`)
+          .join('\n')}`
+      : '';
+
   return `Question: ${question}
 
 Source material for this question:
 ${sourceContent}
 
 Student's answer:
-${userAnswer}
+${userAnswer}${rubricSection}
 
 Evaluate the student's answer based on the source material.`;
 }
+
+/**
+ * Build the context message for weak concept extraction.
+ */
+export function buildWeakConceptsContext(
+  questions: Array<{ text: string; sourceNotePath: string }>,
+): string {
+  const lines = questions.map((q, i) => `${i + 1}. ${q.text} (source: ${q.sourceNotePath})`);
+  return `Questions answered incorrectly:\n\n${lines.join('\n')}`;
+}
@@ -0,0 +1,31 @@
+import { HashedNgramEmbeddingAdapter } from '@/adapters/local';
+import { OpenAIEmbeddingAdapter } from '@/adapters/openai';
+import { VoyageEmbeddingAdapter } from '@/adapters/voyage';
+import type { IEmbeddingProvider } from '@/ports';
+import { type IgniteSettings, isEmbeddingProviderConfigured } from '@/settings';
+
+/**
+ * Create the embedding provider selected in settings.
+ * Returns null if the selected provider is missing required configuration.
+ */
+export function createEmbeddingProvider(settings: IgniteSettings): IEmbeddingProvider | null {
+  if (!isEmbeddingProviderConfigured(settings)) {
+    return null;
+  }
+
+  switch (settings.embeddingProvider) {
+    case 'openai':
+      return new OpenAIEmbeddingAdapter({
+        apiKey: settings.openaiEmbeddingApiKey,
+        model: settings.openaiEmbeddingModel,
+        dimensions: settings.openaiEmbeddingDimensions,
+      });
+    case 'local':
+      return new HashedNgramEmbeddingAdapter({ dimensions: settings.localEmbeddingDimensions });
+    default:
+      return new VoyageEmbeddingAdapter({
+        apiKey: settings.voyageApiKey,
+        model: settings.voyageEmbeddingModel,
+      });
+  }
+}
@@ -0,0 +1,29 @@
+import { AnthropicLLMAdapter } from '@/adapters/anthropic';
+import { OllamaLLMAdapter } from '@/adapters/ollama';
+import { OpenAIChatLLMAdapter } from '@/adapters/openai/OpenAIChatLLMAdapter';
+import type { ILLMProvider } from '@/ports';
+import type { IgniteSettings } from '@/settings';
+
+/**
+ * Create the LLM provider selected in settings.
+ * Throws if the selected provider is missing required configuration.
+ */
+export function createLLMProvider(settings: IgniteSettings): ILLMProvider {
+  switch (settings.llmProvider) {
+    case 'openai':
+      return new OpenAIChatLLMAdapter({
+        apiKey: settings.openaiApiKey,
+        baseUrl: settings.openaiBaseUrl,
+        model: settings.openaiModel,
+      });
+    case 'ollama':
+      return new OllamaLLMAdapter({
+        host: settings.ollamaHost,
+        model: settings.ollamaModel,
+      });
+    default:
+      return new AnthropicLLMAdapter({
+        apiKey: settings.anthropicApiKey,
+      });
+  }
+}
@@ -13,10 +13,11 @@ import {
   rmSync,
   statSync,
   unlinkSync,
+  watch,
   writeFileSync,
 } from 'node:fs';
-import { basename, dirname, join } from 'node:path';
-import type { FileInfo, IVaultProvider } from '@/ports/IVaultProvider';
+import { basename, dirname, join, sep } from 'node:path';
+import type { FileInfo, IVaultProvider, VaultChangeListener } from '@/ports/IVaultProvider';
 
 /**
  * Recursively find all markdown files in a directory
@@ -143,4 +144,29 @@ export class FileSystemVaultAdapter implements IVaultProvider {
     }
     rmSync(fullPath, { recursive: true, force: true });
   }
+
+  /**
+   * Watch the vault folder for note changes.
+   * The file system reports renames as a delete of the old path and a create of the new one.
+   */
+  onChange(listener: VaultChangeListener): () => void {
+    const watcher = watch(this.vaultPath, { recursive: true }, (eventType, filename) => {
+      if (!filename || !filename.endsWith('.md')) return;
+
+      const segments = filename.split(sep);
+      // Same folders listMarkdownFiles skips
+      if (segments.some((segment) => segment.startsWith('.') || segment === 'node_modules')) {
+        return;
+      }
+
+      const path = segments.join('/');
+      if (!existsSync(join(this.vaultPath, filename))) {
+        listener({ type: 'delete', path });
+      } else {
+        listener({ type: eventType === 'rename' ? 'create' : 'modify', path });
+      }
+    });
+
+    return () => watcher.close();
+  }
 }
@@ -1,6 +1,7 @@
-import { existsSync, mkdirSync, rmSync, writeFileSync } from 'node:fs';
+import { existsSync, mkdirSync, rmSync, unlinkSync, writeFileSync } from 'node:fs';
 import { tmpdir } from 'node:os';
 import { join } from 'node:path';
+import type { VaultChangeEvent } from '@/ports/IVaultProvider';
 import { afterEach, beforeEach, describe, expect, it } from 'vitest';
 import { FileSystemVaultAdapter } from '../FileSystemVaultAdapter';
 
@@ -157,4 +158,50 @@ describe('FileSystemVaultAdapter', () => {
       expect(adapter.getFolder('note.md')).toBe('');
     });
   });
+
+  describe('onChange', () => {
+    async function waitFor(condition: () => boolean): Promise<void> {
+      const deadline = Date.now() + 2000;
+      while (!condition()) {
+        if (Date.now() > deadline) {
+          throw new Error('Timed out waiting for vault change');
+        }
+        await new Promise((resolve) => setTimeout(resolve, 20));
+      }
+    }
+
+    it('should report created, modified and deleted notes', async () => {
+      const events: VaultChangeEvent[] = [];
+      const unsubscribe = adapter.onChange((event) => events.push(event));
+
+      try {
+        createFile('folder/new.md', '# New');
+        await waitFor(() => events.some((e) => e.path === 'folder/new.md'));
+
+        unlinkSync(join(testVaultDir, 'folder/new.md'));
+        await waitFor(() => events.some((e) => e.type === 'delete'));
+
+        expect(events.find((e) => e.path === 'folder/new.md')?.type).toMatch(/create|modify/);
+        expect(events.at(-1)).toEqual({ type: 'delete', path: 'folder/new.md' });
+      } finally {
+        unsubscribe();
+      }
+    });
+
+    it('should ignore non-markdown files and hidden folders', async () => {
+      const events: VaultChangeEvent[] = [];
+      const unsubscribe = adapter.onChange((event) => events.push(event));
+
+      try {
+        createFile('image.png', 'binary');
+        createFile('.obsidian/workspace.md', '{}');
+        createFile('visible.md', '# Visible');
+        await waitFor(() => events.length > 0);
+
+        expect(events.every((e) => e.path === 'visible.md')).toBe(true);
+      } finally {
+        unsubscribe();
+      }
+    });
+  });
 });
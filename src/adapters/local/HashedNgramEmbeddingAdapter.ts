@@ -0,0 +1,219 @@
+import { filterEmptyTexts } from '@/domain/embedding/filterEmptyTexts';
+import { estimateTokens } from '@/domain/embedding/tokenUtils';
+import type {
+  BatchEmbeddingResult,
+  EmbeddingConfig,
+  EmbeddingInput,
+  EmbeddingResult,
+  IEmbeddingProvider,
+} from '@/ports/IEmbeddingProvider';
+
+/**
+ * Extended configuration for the hashed n-gram embedding adapter
+ */
+export interface HashedNgramEmbeddingConfig extends EmbeddingConfig {
+  /** Number of dimensions features are hashed into */
+  dimensions: number;
+}
+
+/**
+ * Default configuration for the hashed n-gram embedding adapter.
+ * Retry settings are unused since nothing leaves the machine.
+ */
+export const DEFAULT_HASHED_NGRAM_EMBEDDING_CONFIG: HashedNgramEmbeddingConfig = {
+  model: 'hashed-ngram-v1',
+  maxTokensPerText: 16000,
+  batchSize: 256,
+  maxRetries: 0,
+  retryBaseDelay: 0,
+  dimensions: 512,
+};
+
+/**
+ * Vector sizes that can be chosen in settings
+ */
+export const HASHED_NGRAM_DIMENSION_OPTIONS = [256, 512, 1024];
+
+/**
+ * Relative weights of each feature type.
+ * Whole words carry the meaning; character trigrams match inflections and typos.
+ */
+const FEATURE_WEIGHTS = {
+  word: 1,
+  bigram: 0.7,
+  trigram: 0.3,
+};
+
+/**
+ * Common English words that add noise without adding meaning
+ */
+const STOP_WORDS = new Set([
+  'a',
+  'an',
+  'and',
+  'are',
+  'as',
+  'at',
+  'be',
+  'but',
+  'by',
+  'for',
+  'from',
+  'has',
+  'have',
+  'in',
+  'is',
+  'it',
+  'its',
+  'of',
+  'on',
+  'or',
+  'that',
+  'the',
+  'this',
+  'to',
+  'was',
+  'were',
+  'will',
+  'with',
+]);
+
+/**
+ * 32-bit FNV-1a hash
+ */
+function fnv1a(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Split text into lowercase word tokens, dropping stop words.
+ */
+function tokenize(text: string): string[] {
+  const words = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+  return words.filter((word) => !STOP_WORDS.has(word));
+}
+
+/**
+ * Embedding provider that runs entirely on the local machine.
+ *
+ * Words, word bigrams and character trigrams are hashed into a fixed-size
+ * vector (the "hashing trick") with sublinear term frequency, then unit
+ * normalized. Similar wording gives similar vectors, which is enough to
+ * pre-filter notes without an API key or network access.
+ */
+export class HashedNgramEmbeddingAdapter implements IEmbeddingProvider {
+  private config: HashedNgramEmbeddingConfig;
+
+  constructor(config: Partial<HashedNgramEmbeddingConfig> = {}) {
+    this.config = { ...DEFAULT_HASHED_NGRAM_EMBEDDING_CONFIG, ...config };
+  }
+
+  async embed(notePath: string, text: string): Promise<EmbeddingResult> {
+    const result = await this.embedBatch([{ notePath, text }]);
+    return result.embeddings[0];
+  }
+
+  /**
+   * Hashed features are symmetric: queries are embedded like documents
+   */
+  async embedQuery(text: string): Promise<number[]> {
+    const result = await this.embed('__query__', text);
+    return result.embedding;
+  }
+
+  async embedBatch(texts: EmbeddingInput[]): Promise<BatchEmbeddingResult> {
+    // Match the API adapters: empty texts produce no embedding
+    const { nonEmptyTexts } = filterEmptyTexts(texts);
+
+    const embeddings = nonEmptyTexts.map((input) => ({
+      notePath: input.notePath,
+      embedding: this.vectorize(input.text),
+      tokenCount: this.estimateTokens(input.text),
+    }));
+    const totalTokens = embeddings.reduce((sum, e) => sum + e.tokenCount, 0);
+
+    return {
+      embeddings,
+      totalTokens,
+      usage: { totalTokens, estimatedCost: 0, apiCalls: 0 },
+    };
+  }
+
+  getDimensions(): number {
+    return this.config.dimensions;
+  }
+
+  getProviderName(): string {
+    return 'local';
+  }
+
+  /**
+   * Model name includes the dimensions so cached vectors of another size are never reused
+   */
+  getModelName(): string {
+    return `${this.config.model}-${this.config.dimensions}`;
+  }
+
+  /**
+   * Estimate tokens using a simple approximation
+   */
+  estimateTokens(text: string): number {
+    return estimateTokens(text);
+  }
+
+  getConfig(): EmbeddingConfig {
+    return { ...this.config };
+  }
+
+  updateConfig(config: Partial<HashedNgramEmbeddingConfig>): void {
+    this.config = { ...this.config, ...config };
+  }
+
+  // ============ Private Methods ============
+
+  /**
+   * Hash weighted features into a unit-length vector.
+   */
+  private vectorize(text: string): number[] {
+    const features = new Map<string, { count: number; weight: number }>();
+    const add = (feature: string, weight: number) => {
+      const existing = features.get(feature);
+      if (existing) {
+        existing.count++;
+      } else {
+        features.set(feature, { count: 1, weight });
+      }
+    };
+
+    const words = tokenize(text);
+    for (let i = 0; i < words.length; i++) {
+      const word = words[i];
+      add(`w:${word}`, FEATURE_WEIGHTS.word);
+
+      if (i > 0) {
+        add(`b:${words[i - 1]} ${word}`, FEATURE_WEIGHTS.bigram);
+      }
+
+      const padded = `<${word}>`;
+      for (let j = 0; j + 3 <= padded.length; j++) {
+        add(`t:${padded.slice(j, j + 3)}`, FEATURE_WEIGHTS.trigram);
+      }
+    }
+
+    const vector = new Array<number>(this.config.dimensions).fill(0);
+    for (const [feature, { count, weight }] of features) {
+      const hash = fnv1a(feature);
+      // A second hash bit picks the sign so collisions tend to cancel out
+      const sign = fnv1a(`~${feature}`) & 1 ? 1 : -1;
+      vector[hash % this.config.dimensions] += sign * weight * (1 + Math.log(count));
+    }
+
+    const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+    return norm > 0 ? vector.map((v) => v / norm) : vector;
+  }
+}
@@ -0,0 +1,62 @@
+import { cosineSimilarity } from '@/domain/embedding/similarity';
+import { describe, expect, it } from 'vitest';
+import { HashedNgramEmbeddingAdapter } from '../HashedNgramEmbeddingAdapter';
+
+describe('HashedNgramEmbeddingAdapter', () => {
+  const adapter = new HashedNgramEmbeddingAdapter();
+
+  async function embedText(text: string): Promise<number[]> {
+    return (await adapter.embed('note.md', text)).embedding;
+  }
+
+  it('should describe itself as a local provider', () => {
+    expect(adapter.getProviderName()).toBe('local');
+    expect(adapter.getModelName()).toBe('hashed-ngram-v1-512');
+    expect(adapter.getDimensions()).toBe(512);
+  });
+
+  it('should produce unit-length vectors of the configured size', async () => {
+    const small = new HashedNgramEmbeddingAdapter({ dimensions: 64 });
+
+    const { embedding } = await small.embed('note.md', 'TypeScript generics and type inference');
+
+    expect(embedding).toHaveLength(64);
+    expect(Math.hypot(...embedding)).toBeCloseTo(1);
+    expect(small.getModelName()).toBe('hashed-ngram-v1-64');
+  });
+
+  it('should be deterministic', async () => {
+    const text = 'Spaced repetition helps long-term memory';
+
+    expect(await embedText(text)).toEqual(await embedText(text));
+  });
+
+  it('should rank related text above unrelated text', async () => {
+    const query = await embedText('Learn TypeScript generic types');
+    const related = await embedText(
+      'Generics in TypeScript let functions accept many types while keeping type safety.',
+    );
+    const unrelated = await embedText('Sourdough bread needs a long fermentation and hot oven.');
+
+    expect(cosineSimilarity(query, related)).toBeGreaterThan(cosineSimilarity(query, unrelated));
+  });
+
+  it('should match word variants through character trigrams', async () => {
+    const base = await embedText('embedding');
+    const variant = await embedText('embeddings');
+    const other = await embedText('photosynthesis');
+
+    expect(cosineSimilarity(base, variant)).toBeGreaterThan(cosineSimilarity(base, other));
+  });
+
+  it('should skip empty texts and report no cost', async () => {
+    const result = await adapter.embedBatch([
+      { notePath: 'a.md', text: 'Some content' },
+      { notePath: 'b.md', text: '   ' },
+    ]);
+
+    expect(result.embeddings.map((e) => e.notePath)).toEqual(['a.md']);
+    expect(result.usage.estimatedCost).toBe(0);
+    expect(result.usage.apiCalls).toBe(0);
+  });
+});
@@ -0,0 +1,6 @@
+export type { HashedNgramEmbeddingConfig } from './HashedNgramEmbeddingAdapter';
+export {
+  DEFAULT_HASHED_NGRAM_EMBEDDING_CONFIG,
+  HASHED_NGRAM_DIMENSION_OPTIONS,
+  HashedNgramEmbeddingAdapter,
+} from './HashedNgramEmbeddingAdapter';
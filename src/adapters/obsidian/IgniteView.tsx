@@ -1,3 +1,4 @@
+import type { EmbeddingCacheManager } from '@/domain/embedding';
 import type { IgniteSettings } from '@/settings';
 import { ItemView, type WorkspaceLeaf } from 'obsidian';
 import type { Root } from 'react-dom/client';
@@ -7,10 +8,16 @@ export const IGNITE_VIEW_TYPE = 'ignite-view';
 export class IgniteView extends ItemView {
   private root: Root | null = null;
   private settings: IgniteSettings;
+  private getEmbeddingCache: (provider: string) => EmbeddingCacheManager;
 
-  constructor(leaf: WorkspaceLeaf, settings: IgniteSettings) {
+  constructor(
+    leaf: WorkspaceLeaf,
+    settings: IgniteSettings,
+    getEmbeddingCache: (provider: string) => EmbeddingCacheManager,
+  ) {
     super(leaf);
     this.settings = settings;
+    this.getEmbeddingCache = getEmbeddingCache;
   }
 
   getViewType(): string {
@@ -42,15 +49,13 @@ export class IgniteView extends ItemView {
     const { ObsidianVaultAdapter } = await import('./ObsidianVaultAdapter');
     const { ObsidianStorageAdapter } = await import('./ObsidianStorageAdapter');
     const { ObsidianMetadataAdapter } = await import('./ObsidianMetadataAdapter');
-    const { AnthropicLLMAdapter } = await import('@/adapters/anthropic');
+    const { createLLMProvider } = await import('@/adapters/createLLMProvider');
 
     // Create adapters
     const vaultProvider = new ObsidianVaultAdapter(this.app);
     const storageAdapter = new ObsidianStorageAdapter(this.app);
     const metadataProvider = new ObsidianMetadataAdapter(this.app);
-    const llmProvider = new AnthropicLLMAdapter({
-      apiKey: this.settings.anthropicApiKey,
-    });
+    const llmProvider = createLLMProvider(this.settings);
 
     const appContext = {
       vaultProvider,
@@ -58,6 +63,7 @@ export class IgniteView extends ItemView {
       metadataProvider,
       llmProvider,
       settings: this.settings,
+      getEmbeddingCache: this.getEmbeddingCache,
     };
 
     // Remove loading state and mount React
@@ -1,5 +1,5 @@
-import type { FileInfo, IVaultProvider } from '@/ports/IVaultProvider';
-import { type App, TFile, TFolder } from 'obsidian';
+import type { FileInfo, IVaultProvider, VaultChangeListener } from '@/ports/IVaultProvider';
+import { type App, type TAbstractFile, TFile, TFolder } from 'obsidian';
 
 /**
  * Real Obsidian implementation of IVaultProvider
@@ -71,6 +71,37 @@ export class ObsidianVaultAdapter implements IVaultProvider {
     await this.app.vault.delete(folder, true);
   }
 
+  onChange(listener: VaultChangeListener): () => void {
+    const { vault } = this.app;
+    const isNote = (file: TAbstractFile) => file instanceof TFile && file.extension === 'md';
+
+    const refs = [
+      vault.on('create', (file) => {
+        if (isNote(file)) listener({ type: 'create', path: file.path });
+      }),
+      vault.on('modify', (file) => {
+        if (isNote(file)) listener({ type: 'modify', path: file.path });
+      }),
+      vault.on('delete', (file) => {
+        if (isNote(file)) listener({ type: 'delete', path: file.path });
+      }),
+      vault.on('rename', (file, oldPath) => {
+        if (isNote(file)) {
+          listener({ type: 'rename', path: file.path, oldPath });
+        } else if (oldPath.endsWith('.md')) {
+          // A note renamed to another extension is no longer a note
+          listener({ type: 'delete', path: oldPath });
+        }
+      }),
+    ];
+
+    return () => {
+      for (const ref of refs) {
+        vault.offref(ref);
+      }
+    };
+  }
+
   private toFileInfo(file: TFile): FileInfo {
     return {
       path: file.path,
@@ -0,0 +1,318 @@
+import type {
+  ILLMProvider,
+  LLMChatOptions,
+  LLMMessage,
+  LLMResponse,
+  LLMStreamCallbacks,
+} from '@/ports';
+
+/**
+ * Default host of a local Ollama server.
+ */
+export const DEFAULT_OLLAMA_HOST = 'http://localhost:11434';
+
+/**
+ * Default model for the Ollama adapter.
+ */
+export const DEFAULT_OLLAMA_MODEL = 'llama3.1';
+
+/**
+ * Ollama chat request body.
+ */
+interface OllamaChatRequest {
+  model: string;
+  messages: Array<{ role: 'system' | 'user' | 'assistant'; content: string }>;
+  stream: boolean;
+  options: {
+    num_predict: number;
+    num_ctx: number;
+    temperature?: number;
+    stop?: string[];
+  };
+}
+
+/**
+ * Ollama chat response, and each line of a streamed response.
+ * Token counts are only present once `done` is true.
+ */
+interface OllamaChatResponse {
+  model: string;
+  message?: { role: 'assistant'; content: string };
+  done: boolean;
+  prompt_eval_count?: number;
+  eval_count?: number;
+  error?: string;
+}
+
+/**
+ * Ollama response listing locally available models.
+ */
+interface OllamaTagsResponse {
+  models?: Array<{ name: string }>;
+}
+
+/**
+ * Configuration for the Ollama LLM adapter.
+ */
+export interface OllamaLLMConfig {
+  host?: string; // Default: http://localhost:11434
+  model?: string; // Default: llama3.1
+  maxTokens?: number; // Default: 4096
+  /** Context size requested from the server. Default: 8192 */
+  contextWindow?: number;
+}
+
+/**
+ * Adapter for a local Ollama server's native chat API.
+ * Notes never leave the machine, so it works on air-gapped vaults.
+ * Implements the ILLMProvider port for goal-oriented features.
+ */
+export class OllamaLLMAdapter implements ILLMProvider {
+  private readonly host: string;
+  private readonly model: string;
+  private readonly defaultMaxTokens: number;
+  private readonly contextWindow: number;
+
+  constructor(config: OllamaLLMConfig = {}) {
+    this.host = (config.host?.trim() || DEFAULT_OLLAMA_HOST).replace(/\/+$/, '');
+    this.model = config.model?.trim() || DEFAULT_OLLAMA_MODEL;
+    this.defaultMaxTokens = config.maxTokens ?? 4096;
+    this.contextWindow = config.contextWindow ?? 8192;
+  }
+
+  async chat(messages: LLMMessage[], options?: LLMChatOptions): Promise<LLMResponse> {
+    const response = await this.post(this.buildRequestBody(messages, options, false));
+    const data = (await response.json()) as OllamaChatResponse;
+    const content = data.message?.content ?? '';
+
+    return { content, usage: this.getUsage(data, messages, content) };
+  }
+
+  async streamChat(
+    messages: LLMMessage[],
+    callbacks: LLMStreamCallbacks,
+    options?: LLMChatOptions,
+  ): Promise<void> {
+    try {
+      const response = await this.post(
+        this.buildRequestBody(messages, options, true),
+        callbacks.signal,
+      );
+      await this.processStream(response, messages, callbacks);
+    } catch (error) {
+      if (error instanceof Error) {
+        callbacks.onError(error);
+      } else {
+        callbacks.onError(new Error('Unknown error during streaming'));
+      }
+    }
+  }
+
+  getProviderName(): string {
+    return 'Ollama';
+  }
+
+  getModelName(): string {
+    return this.model;
+  }
+
+  getMaxTokens(): number {
+    return this.contextWindow;
+  }
+
+  estimateTokens(text: string): number {
+    // Rough estimation: ~4 characters per token for English text
+    // Add 20% safety margin to avoid underestimating
+    const baseEstimate = Math.ceil(text.length / 4);
+    return Math.ceil(baseEstimate * 1.2);
+  }
+
+  /**
+   * List the models installed on the server.
+   */
+  async listModels(): Promise<string[]> {
+    let response: Response;
+    try {
+      response = await fetch(`${this.host}/api/tags`);
+    } catch (error) {
+      throw this.connectionError(error);
+    }
+
+    if (!response.ok) {
+      this.handleErrorResponse(response.status, await response.text());
+    }
+
+    const data = (await response.json()) as OllamaTagsResponse;
+    return (data.models ?? []).map((m) => m.name);
+  }
+
+  /**
+   * Check whether the configured model is installed.
+   * Ollama reports untagged models with an implicit ":latest" tag.
+   */
+  async hasModel(): Promise<boolean> {
+    const models = await this.listModels();
+    const wanted = this.model.includes(':') ? this.model : `${this.model}:latest`;
+    return models.some((name) => name === this.model || name === wanted);
+  }
+
+  /**
+   * POST a chat request, turning failures into user-friendly errors.
+   */
+  private async post(body: OllamaChatRequest, signal?: AbortSignal): Promise<Response> {
+    let response: Response;
+    try {
+      response = await fetch(`${this.host}/api/chat`, {
+        method: 'POST',
+        headers: { 'content-type': 'application/json' },
+        body: JSON.stringify(body),
+        signal,
+      });
+    } catch (error) {
+      // Aborts are passed through unchanged so callers can recognize them
+      if (signal?.aborted) throw error;
+      throw this.connectionError(error);
+    }
+
+    if (!response.ok) {
+      this.handleErrorResponse(response.status, await response.text());
+    }
+
+    return response;
+  }
+
+  /**
+   * Build the request body. Ollama accepts system messages in the message list.
+   */
+  private buildRequestBody(
+    messages: LLMMessage[],
+    options: LLMChatOptions | undefined,
+    stream: boolean,
+  ): OllamaChatRequest {
+    return {
+      model: this.model,
+      messages: messages.map((m) => ({ role: m.role, content: m.content })),
+      stream,
+      options: {
+        num_predict: options?.maxTokens ?? this.defaultMaxTokens,
+        // Ollama's default context is too small for note-heavy prompts
+        num_ctx: this.contextWindow,
+        ...(options?.temperature !== undefined && { temperature: options.temperature }),
+        ...(options?.stopSequences && { stop: options.stopSequences }),
+      },
+    };
+  }
+
+  /**
+   * Read token counts from a final response, estimating any the server left out.
+   */
+  private getUsage(
+    data: OllamaChatResponse,
+    messages: LLMMessage[],
+    content: string,
+  ): LLMResponse['usage'] {
+    return {
+      inputTokens:
+        data.prompt_eval_count ?? this.estimateTokens(messages.map((m) => m.content).join('\n')),
+      outputTokens: data.eval_count ?? this.estimateTokens(content),
+    };
+  }
+
+  /**
+   * Process a streamed response: one JSON object per line.
+   */
+  private async processStream(
+    response: Response,
+    messages: LLMMessage[],
+    callbacks: LLMStreamCallbacks,
+  ): Promise<void> {
+    const reader = response.body?.getReader();
+    if (!reader) {
+      throw new Error('Response body is not readable');
+    }
+
+    const decoder = new TextDecoder();
+    let buffer = '';
+    let fullContent = '';
+    let finalChunk: OllamaChatResponse | undefined;
+
+    const handleLine = (line: string) => {
+      if (!line.trim()) return;
+
+      const chunk = JSON.parse(line) as OllamaChatResponse;
+      if (chunk.error) {
+        throw new Error(`Ollama error: ${chunk.error}`);
+      }
+
+      const token = chunk.message?.content;
+      if (token) {
+        callbacks.onToken(token);
+        fullContent += token;
+      }
+      if (chunk.done) {
+        finalChunk = chunk;
+      }
+    };
+
+    try {
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split('\n');
+        buffer = lines.pop() ?? '';
+        lines.forEach(handleLine);
+      }
+      handleLine(buffer);
+    } finally {
+      reader.releaseLock();
+    }
+
+    if (!finalChunk) {
+      throw new Error('Ollama stream ended unexpectedly');
+    }
+
+    callbacks.onComplete({
+      content: fullContent,
+      usage: this.getUsage(finalChunk, messages, fullContent),
+    });
+  }
+
+  /**
+   * Error for a server that could not be reached.
+   */
+  private connectionError(error: unknown): Error {
+    const reason = error instanceof Error ? error.message : 'Unknown error';
+    return new Error(
+      `Could not connect to Ollama at ${this.host}. Is the server running? (${reason})`,
+    );
+  }
+
+  /**
+   * Handle API error responses with user-friendly messages.
+   */
+  private handleErrorResponse(status: number, errorText: string): never {
+    let message = errorText;
+    try {
+      message = (JSON.parse(errorText) as { error?: string }).error ?? errorText;
+    } catch {
+      // Not JSON; use the raw text
+    }
+
+    switch (status) {
+      case 404:
+        throw new Error(
+          `Model "${this.model}" not found. Run "ollama pull ${this.model}" or check the model in settings.`,
+        );
+      case 500:
+      case 502:
+      case 503:
+        throw new Error(`Ollama server error: ${message}`);
+      case 400:
+        throw new Error(`Invalid request: ${message}`);
+      default:
+        throw new Error(`Ollama API error (${status}): ${message}`);
+    }
+  }
+}
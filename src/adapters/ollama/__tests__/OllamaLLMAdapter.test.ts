@@ -0,0 +1,201 @@
+// @vitest-environment node
+import { type Server, type ServerResponse, createServer } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { createStreamCallbacks } from '@/test/mocks/llm';
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { OllamaLLMAdapter } from '../OllamaLLMAdapter';
+
+/**
+ * A request received by the stand-in server.
+ */
+interface RecordedRequest {
+  method: string;
+  url: string;
+  body: Record<string, unknown>;
+}
+
+type Handler = (req: RecordedRequest, res: ServerResponse) => void;
+
+function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+/**
+ * Write chunks as newline-delimited JSON, the way Ollama streams.
+ */
+function sendLines(res: ServerResponse, chunks: unknown[]): void {
+  res.writeHead(200, { 'Content-Type': 'application/x-ndjson' });
+  res.end(chunks.map((chunk) => `${JSON.stringify(chunk)}\n`).join(''));
+}
+
+function textChunk(content: string) {
+  return { model: 'test-model', message: { role: 'assistant', content }, done: false };
+}
+
+/**
+ * Tests run against a local stand-in for the Ollama server.
+ */
+describe('OllamaLLMAdapter', () => {
+  let server: Server;
+  let host: string;
+  let requests: RecordedRequest[];
+  let handler: Handler;
+  let adapter: OllamaLLMAdapter;
+
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      let raw = '';
+      req.on('data', (chunk) => {
+        raw += chunk;
+      });
+      req.on('end', () => {
+        const body = raw ? (JSON.parse(raw) as Record<string, unknown>) : {};
+        const request = { method: req.method ?? '', url: req.url ?? '', body };
+        requests.push(request);
+        handler(request, res);
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    host = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    server.closeAllConnections();
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    requests = [];
+    handler = (_req, res) => sendJson(res, 500, { error: 'No handler' });
+    adapter = new OllamaLLMAdapter({ host: `${host}/`, model: 'test-model' });
+  });
+
+  describe('constructor', () => {
+    it('should use defaults for host and model', () => {
+      const defaultAdapter = new OllamaLLMAdapter();
+
+      expect(defaultAdapter.getProviderName()).toBe('Ollama');
+      expect(defaultAdapter.getModelName()).toBe('llama3.1');
+      expect(defaultAdapter.getMaxTokens()).toBe(8192);
+    });
+  });
+
+  describe('chat', () => {
+    it('should send messages to the chat endpoint and report usage', async () => {
+      handler = (_req, res) =>
+        sendJson(res, 200, {
+          model: 'test-model',
+          message: { role: 'assistant', content: 'Hello there!' },
+          done: true,
+          prompt_eval_count: 12,
+          eval_count: 3,
+        });
+
+      const result = await adapter.chat(
+        [
+          { role: 'system', content: 'Be brief.' },
+          { role: 'user', content: 'Hi' },
+        ],
+        { temperature: 0.2, maxTokens: 50, stopSequences: ['END'] },
+      );
+
+      expect(result).toEqual({
+        content: 'Hello there!',
+        usage: { inputTokens: 12, outputTokens: 3 },
+      });
+
+      const [request] = requests;
+      expect(request.method).toBe('POST');
+      expect(request.url).toBe('/api/chat');
+      expect(request.body).toEqual({
+        model: 'test-model',
+        messages: [
+          { role: 'system', content: 'Be brief.' },
+          { role: 'user', content: 'Hi' },
+        ],
+        stream: false,
+        options: { num_predict: 50, num_ctx: 8192, temperature: 0.2, stop: ['END'] },
+      });
+    });
+
+    it('should explain how to install a missing model', async () => {
+      handler = (_req, res) => sendJson(res, 404, { error: "model 'test-model' not found" });
+
+      await expect(adapter.chat([{ role: 'user', content: 'Hi' }])).rejects.toThrow(
+        'Run "ollama pull test-model"',
+      );
+    });
+
+    it('should report unreachable servers', async () => {
+      const offline = new OllamaLLMAdapter({ host: 'http://127.0.0.1:1' });
+
+      await expect(offline.chat([{ role: 'user', content: 'Hi' }])).rejects.toThrow(
+        'Could not connect to Ollama at http://127.0.0.1:1',
+      );
+    });
+  });
+
+  describe('streamChat', () => {
+    it('should stream tokens and report usage from the final line', async () => {
+      handler = (_req, res) =>
+        sendLines(res, [
+          textChunk('Hello'),
+          textChunk(', world'),
+          { model: 'test-model', done: true, prompt_eval_count: 8, eval_count: 2 },
+        ]);
+      const { callbacks, tokens, completed, errors } = createStreamCallbacks();
+
+      await adapter.streamChat([{ role: 'user', content: 'Hi' }], callbacks);
+
+      expect(tokens).toEqual(['Hello', ', world']);
+      expect(completed).toEqual([
+        { content: 'Hello, world', usage: { inputTokens: 8, outputTokens: 2 } },
+      ]);
+      expect(errors).toEqual([]);
+      expect(requests[0].body).toMatchObject({ stream: true });
+    });
+
+    it('should report errors sent mid-stream', async () => {
+      handler = (_req, res) => sendLines(res, [textChunk('Hel'), { error: 'out of memory' }]);
+      const { callbacks, completed, errors } = createStreamCallbacks();
+
+      await adapter.streamChat([{ role: 'user', content: 'Hi' }], callbacks);
+
+      expect(completed).toEqual([]);
+      expect(errors.map((e) => e.message)).toEqual(['Ollama error: out of memory']);
+    });
+
+    it('should stop streaming when aborted', async () => {
+      const controller = new AbortController();
+      // Send one line, then hold the connection open
+      handler = (_req, res) => {
+        res.writeHead(200, { 'Content-Type': 'application/x-ndjson' });
+        res.write(`${JSON.stringify(textChunk('Partial'))}\n`);
+      };
+      const { callbacks, tokens, completed, errors } = createStreamCallbacks(controller.signal);
+      callbacks.onToken = (token: string) => {
+        tokens.push(token);
+        controller.abort();
+      };
+
+      await adapter.streamChat([{ role: 'user', content: 'Hi' }], callbacks);
+
+      expect(tokens).toEqual(['Partial']);
+      expect(completed).toEqual([]);
+      expect(errors).toHaveLength(1);
+      expect(errors[0].name).toBe('AbortError');
+    });
+  });
+
+  describe('hasModel', () => {
+    it('should match models with an implicit latest tag', async () => {
+      handler = (_req, res) =>
+        sendJson(res, 200, { models: [{ name: 'test-model:latest' }, { name: 'other:7b' }] });
+
+      await expect(adapter.hasModel()).resolves.toBe(true);
+      await expect(new OllamaLLMAdapter({ host, model: 'other' }).hasModel()).resolves.toBe(false);
+      expect(requests[0]).toMatchObject({ method: 'GET', url: '/api/tags' });
+    });
+  });
+});
@@ -0,0 +1,2 @@
+export { DEFAULT_OLLAMA_HOST, DEFAULT_OLLAMA_MODEL, OllamaLLMAdapter } from './OllamaLLMAdapter';
+export type { OllamaLLMConfig } from './OllamaLLMAdapter';
@@ -0,0 +1,218 @@
+import type {
+  ILLMProvider,
+  LLMChatOptions,
+  LLMMessage,
+  LLMResponse,
+  LLMStreamCallbacks,
+} from '@/ports';
+import OpenAI from 'openai';
+
+/**
+ * Default base URL for the OpenAI API.
+ */
+export const DEFAULT_OPENAI_BASE_URL = 'https://api.openai.com/v1';
+
+/**
+ * Configuration for the OpenAI-compatible chat adapter.
+ */
+export interface OpenAIChatLLMConfig {
+  /** Required for the OpenAI API; optional for self-hosted servers without auth */
+  apiKey?: string;
+  model?: string; // Default: gpt-4o-mini
+  baseUrl?: string; // Default: https://api.openai.com/v1
+  maxTokens?: number; // Default: 4096
+  contextWindow?: number; // Default: 128000
+  providerName?: string; // Default: OpenAI
+}
+
+/**
+ * Adapter for OpenAI's chat completions API and servers that implement it
+ * (vLLM, LM Studio, OpenRouter and similar).
+ * Implements the ILLMProvider port for goal-oriented features.
+ */
+export class OpenAIChatLLMAdapter implements ILLMProvider {
+  private readonly client: OpenAI;
+  private readonly model: string;
+  private readonly defaultMaxTokens: number;
+  private readonly contextWindow: number;
+  private readonly providerName: string;
+
+  constructor(config: OpenAIChatLLMConfig) {
+    const baseUrl = (config.baseUrl?.trim() || DEFAULT_OPENAI_BASE_URL).replace(/\/+$/, '');
+    const apiKey = config.apiKey?.trim() ?? '';
+
+    if (!apiKey && baseUrl === DEFAULT_OPENAI_BASE_URL) {
+      throw new Error('OpenAI API key is required');
+    }
+
+    this.client = new OpenAI({
+      // The SDK requires a key even when the server ignores it
+      apiKey: apiKey || 'not-needed',
+      baseURL: baseUrl,
+      // Obsidian runs plugins in a browser context; the key is the user's own
+      dangerouslyAllowBrowser: true,
+      // Match the Anthropic adapter: callers decide whether to retry
+      maxRetries: 0,
+    });
+    this.model = config.model?.trim() || 'gpt-4o-mini';
+    this.defaultMaxTokens = config.maxTokens ?? 4096;
+    this.contextWindow = config.contextWindow ?? 128000;
+    this.providerName = config.providerName ?? 'OpenAI';
+  }
+
+  async chat(messages: LLMMessage[], options?: LLMChatOptions): Promise<LLMResponse> {
+    try {
+      const completion = await this.client.chat.completions.create({
+        ...this.buildRequestBody(messages, options),
+        stream: false,
+      });
+
+      const content = completion.choices[0]?.message?.content ?? '';
+      return {
+        content,
+        usage: completion.usage
+          ? {
+              inputTokens: completion.usage.prompt_tokens,
+              outputTokens: completion.usage.completion_tokens,
+            }
+          : this.estimateUsage(messages, content),
+      };
+    } catch (error) {
+      throw this.toUserFacingError(error);
+    }
+  }
+
+  async streamChat(
+    messages: LLMMessage[],
+    callbacks: LLMStreamCallbacks,
+    options?: LLMChatOptions,
+  ): Promise<void> {
+    try {
+      const stream = await this.client.chat.completions.create(
+        {
+          ...this.buildRequestBody(messages, options),
+          stream: true,
+          stream_options: { include_usage: true },
+        },
+        { signal: callbacks.signal },
+      );
+
+      let fullContent = '';
+      let usage: LLMResponse['usage'];
+
+      for await (const chunk of stream) {
+        const token = chunk.choices[0]?.delta?.content;
+        if (token) {
+          callbacks.onToken(token);
+          fullContent += token;
+        }
+
+        // With include_usage, the final chunk carries usage and no choices
+        if (chunk.usage) {
+          usage = {
+            inputTokens: chunk.usage.prompt_tokens,
+            outputTokens: chunk.usage.completion_tokens,
+          };
+        }
+      }
+
+      // The SDK ends the stream quietly on abort; report it like the Anthropic adapter does
+      if (callbacks.signal?.aborted) {
+        throw new OpenAI.APIUserAbortError();
+      }
+
+      callbacks.onComplete({
+        content: fullContent,
+        usage: usage ?? this.estimateUsage(messages, fullContent),
+      });
+    } catch (error) {
+      callbacks.onError(this.toUserFacingError(error));
+    }
+  }
+
+  getProviderName(): string {
+    return this.providerName;
+  }
+
+  getModelName(): string {
+    return this.model;
+  }
+
+  getMaxTokens(): number {
+    return this.contextWindow;
+  }
+
+  estimateTokens(text: string): number {
+    // Rough estimation: ~4 characters per token for English text
+    // Add 20% safety margin to avoid underestimating
+    const baseEstimate = Math.ceil(text.length / 4);
+    return Math.ceil(baseEstimate * 1.2);
+  }
+
+  /**
+   * Build the request body shared by streaming and non-streaming calls.
+   * System messages stay in the message list, as the chat completions API expects.
+   */
+  private buildRequestBody(messages: LLMMessage[], options: LLMChatOptions | undefined) {
+    return {
+      model: this.model,
+      messages: messages.map((m) => ({ role: m.role, content: m.content })),
+      max_tokens: options?.maxTokens ?? this.defaultMaxTokens,
+      ...(options?.temperature !== undefined && { temperature: options.temperature }),
+      ...(options?.stopSequences && { stop: options.stopSequences }),
+    };
+  }
+
+  /**
+   * Estimate usage for servers that don't report it.
+   */
+  private estimateUsage(messages: LLMMessage[], content: string): LLMResponse['usage'] {
+    return {
+      inputTokens: this.estimateTokens(messages.map((m) => m.content).join('\n')),
+      outputTokens: this.estimateTokens(content),
+    };
+  }
+
+  /**
+   * Convert SDK errors to user-friendly messages.
+   * Aborts are passed through unchanged so callers can recognize them.
+   */
+  private toUserFacingError(error: unknown): Error {
+    if (error instanceof OpenAI.APIUserAbortError) {
+      return error;
+    }
+
+    if (error instanceof OpenAI.APIError && error.status !== undefined) {
+      switch (error.status) {
+        case 401:
+          return new Error(
+            `Invalid API key. Please check your ${this.providerName} API key in settings.`,
+          );
+        case 404:
+          return new Error(
+            `Model "${this.model}" or endpoint not found. Please check the model and base URL in settings.`,
+          );
+        case 429:
+          return new Error(
+            `Rate limited by ${this.providerName} API. Please wait a moment before trying again.`,
+          );
+        case 500:
+        case 502:
+        case 503:
+          return new Error(
+            `${this.providerName} API is temporarily unavailable. Please try again in a few moments.`,
+          );
+        case 400:
+          return new Error(`Invalid request: ${error.message}`);
+        default:
+          return new Error(`${this.providerName} API error (${error.status}): ${error.message}`);
+      }
+    }
+
+    if (error instanceof OpenAI.APIConnectionError) {
+      return new Error(`Could not connect to ${this.providerName}: ${error.message}`);
+    }
+
+    return error instanceof Error ? error : new Error('Unknown error during chat request');
+  }
+}
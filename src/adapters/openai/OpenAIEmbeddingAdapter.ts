@@ -9,10 +9,18 @@ import type {
 } from '@/ports/IEmbeddingProvider';
 import OpenAI from 'openai';
 
+/**
+ * Extended configuration for OpenAI embedding adapter
+ */
+export interface OpenAIEmbeddingConfig extends EmbeddingConfig {
+  /** Shortened vector size; only text-embedding-3 models support it. Default: the model's full size */
+  dimensions?: number;
+}
+
 /**
  * Default configuration for OpenAI embedding adapter
  */
-export const DEFAULT_OPENAI_EMBEDDING_CONFIG: EmbeddingConfig = {
+export const DEFAULT_OPENAI_EMBEDDING_CONFIG: OpenAIEmbeddingConfig = {
   model: 'text-embedding-3-small',
   maxTokensPerText: 8191,
   batchSize: 100,
@@ -38,6 +46,15 @@ const MODEL_DIMENSIONS: Record<string, number> = {
   'text-embedding-ada-002': 1536,
 };
 
+/**
+ * Vector sizes each model can produce, largest (the model's full size) last
+ */
+export const OPENAI_EMBEDDING_DIMENSION_OPTIONS: Record<string, number[]> = {
+  'text-embedding-3-small': [256, 512, 1024, 1536],
+  'text-embedding-3-large': [256, 512, 1024, 3072],
+  'text-embedding-ada-002': [1536],
+};
+
 /**
  * Errors that should not be retried
  */
@@ -48,11 +65,11 @@ const NON_RETRYABLE_STATUS_CODES = [400, 401, 403, 404];
  */
 export class OpenAIEmbeddingAdapter implements IEmbeddingProvider {
   private client: OpenAI;
-  private config: EmbeddingConfig;
+  private config: OpenAIEmbeddingConfig;
 
-  constructor(config: Partial<EmbeddingConfig> & { apiKey: string }) {
+  constructor(config: Partial<OpenAIEmbeddingConfig> & { apiKey: string }) {
     this.config = { ...DEFAULT_OPENAI_EMBEDDING_CONFIG, ...config };
-    this.client = new OpenAI({ apiKey: config.apiKey });
+    this.client = this.createClient(config.apiKey);
   }
 
   async embed(notePath: string, text: string): Promise<EmbeddingResult> {
@@ -60,6 +77,14 @@ export class OpenAIEmbeddingAdapter implements IEmbeddingProvider {
     return result.embeddings[0];
   }
 
+  /**
+   * OpenAI models are symmetric: queries are embedded like documents
+   */
+  async embedQuery(text: string): Promise<number[]> {
+    const result = await this.embed('__query__', text);
+    return result.embedding;
+  }
+
   async embedBatch(texts: EmbeddingInput[]): Promise<BatchEmbeddingResult> {
     if (texts.length === 0) {
       return {
@@ -108,7 +133,7 @@ export class OpenAIEmbeddingAdapter implements IEmbeddingProvider {
   }
 
   getDimensions(): number {
-    return MODEL_DIMENSIONS[this.config.model] ?? 1536;
+    return this.getRequestedDimensions() ?? MODEL_DIMENSIONS[this.config.model] ?? 1536;
   }
 
   getProviderName(): string {
@@ -131,12 +156,12 @@ export class OpenAIEmbeddingAdapter implements IEmbeddingProvider {
     return { ...this.config };
   }
 
-  updateConfig(config: Partial<EmbeddingConfig>): void {
+  updateConfig(config: Partial<OpenAIEmbeddingConfig>): void {
     this.config = { ...this.config, ...config };
 
     // Update client if API key changed
     if (config.apiKey) {
-      this.client = new OpenAI({ apiKey: config.apiKey });
+      this.client = this.createClient(config.apiKey);
     }
   }
 
@@ -172,9 +197,11 @@ export class OpenAIEmbeddingAdapter implements IEmbeddingProvider {
   private async callEmbeddingAPI(
     inputs: EmbeddingInput[],
   ): Promise<{ embeddings: EmbeddingResult[]; totalTokens: number }> {
+    const dimensions = this.getRequestedDimensions();
     const response = await this.client.embeddings.create({
       model: this.config.model,
       input: inputs.map((i) => i.text),
+      ...(dimensions !== undefined && { dimensions }),
     });
 
     const embeddings: EmbeddingResult[] = response.data.map((item, index) => ({
@@ -190,6 +217,22 @@ export class OpenAIEmbeddingAdapter implements IEmbeddingProvider {
     };
   }
 
+  private createClient(apiKey: string): OpenAI {
+    // Obsidian runs plugins in a browser context; the key is the user's own
+    return new OpenAI({ apiKey, dangerouslyAllowBrowser: true });
+  }
+
+  /**
+   * Shortened vector size to request, if the model supports it
+   */
+  private getRequestedDimensions(): number | undefined {
+    const { dimensions, model } = this.config;
+    if (dimensions === undefined || !model.startsWith('text-embedding-3')) {
+      return undefined;
+    }
+    return dimensions;
+  }
+
   private isRetryableError(error: unknown): boolean {
     // Check for OpenAI API errors by duck typing (works with mocks)
     if (this.isAPIError(error)) {
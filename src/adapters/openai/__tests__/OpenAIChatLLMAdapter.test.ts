@@ -0,0 +1,247 @@
+// @vitest-environment node
+import { type IncomingMessage, type Server, type ServerResponse, createServer } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { createStreamCallbacks } from '@/test/mocks/llm';
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { OpenAIChatLLMAdapter } from '../OpenAIChatLLMAdapter';
+
+/**
+ * A request received by the stand-in server.
+ */
+interface RecordedRequest {
+  url: string;
+  headers: IncomingMessage['headers'];
+  body: Record<string, unknown>;
+}
+
+type Handler = (body: Record<string, unknown>, res: ServerResponse) => void;
+
+/**
+ * Write chunks as server-sent events, ending with [DONE].
+ */
+function sendEvents(res: ServerResponse, chunks: unknown[]): void {
+  res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+  for (const chunk of chunks) {
+    res.write(`data: ${JSON.stringify(chunk)}\n\n`);
+  }
+  res.end('data: [DONE]\n\n');
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+function textChunk(content: string) {
+  return {
+    id: 'chatcmpl-1',
+    object: 'chat.completion.chunk',
+    created: 0,
+    model: 'test-model',
+    choices: [{ index: 0, delta: { content }, finish_reason: null }],
+  };
+}
+
+/**
+ * Tests run against a local OpenAI-compatible stand-in server,
+ * so the real SDK handles HTTP, SSE parsing and aborts.
+ */
+describe('OpenAIChatLLMAdapter', () => {
+  let server: Server;
+  let baseUrl: string;
+  let requests: RecordedRequest[];
+  let handler: Handler;
+  let adapter: OpenAIChatLLMAdapter;
+
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      let raw = '';
+      req.on('data', (chunk) => {
+        raw += chunk;
+      });
+      req.on('end', () => {
+        const body = raw ? (JSON.parse(raw) as Record<string, unknown>) : {};
+        requests.push({ url: req.url ?? '', headers: req.headers, body });
+        handler(body, res);
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`;
+  });
+
+  afterAll(async () => {
+    server.closeAllConnections();
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    requests = [];
+    handler = (_body, res) => sendJson(res, 500, { error: { message: 'No handler' } });
+    adapter = new OpenAIChatLLMAdapter({ apiKey: 'test-key', baseUrl, model: 'test-model' });
+  });
+
+  describe('constructor', () => {
+    it('should use defaults for model and provider name', () => {
+      const defaultAdapter = new OpenAIChatLLMAdapter({ apiKey: 'test-key' });
+
+      expect(defaultAdapter.getProviderName()).toBe('OpenAI');
+      expect(defaultAdapter.getModelName()).toBe('gpt-4o-mini');
+      expect(defaultAdapter.getMaxTokens()).toBe(128000);
+    });
+
+    it('should require an API key for the OpenAI API', () => {
+      expect(() => new OpenAIChatLLMAdapter({ apiKey: '  ' })).toThrow(
+        'OpenAI API key is required',
+      );
+    });
+
+    it('should allow a missing API key for a custom base URL', () => {
+      expect(() => new OpenAIChatLLMAdapter({ baseUrl })).not.toThrow();
+    });
+  });
+
+  describe('chat', () => {
+    it('should send messages to the configured base URL and report usage', async () => {
+      handler = (_body, res) =>
+        sendJson(res, 200, {
+          id: 'chatcmpl-1',
+          object: 'chat.completion',
+          created: 0,
+          model: 'test-model',
+          choices: [
+            {
+              index: 0,
+              message: { role: 'assistant', content: 'Hello there!' },
+              finish_reason: 'stop',
+            },
+          ],
+          usage: { prompt_tokens: 12, completion_tokens: 3, total_tokens: 15 },
+        });
+
+      const result = await adapter.chat(
+        [
+          { role: 'system', content: 'Be brief.' },
+          { role: 'user', content: 'Hi' },
+        ],
+        { temperature: 0.2, maxTokens: 50, stopSequences: ['END'] },
+      );
+
+      expect(result).toEqual({
+        content: 'Hello there!',
+        usage: { inputTokens: 12, outputTokens: 3 },
+      });
+
+      const [request] = requests;
+      expect(request.url).toBe('/v1/chat/completions');
+      expect(request.headers.authorization).toBe('Bearer test-key');
+      expect(request.body).toMatchObject({
+        model: 'test-model',
+        messages: [
+          { role: 'system', content: 'Be brief.' },
+          { role: 'user', content: 'Hi' },
+        ],
+        max_tokens: 50,
+        temperature: 0.2,
+        stop: ['END'],
+      });
+    });
+
+    it('should estimate usage when the server does not report it', async () => {
+      handler = (_body, res) =>
+        sendJson(res, 200, {
+          id: 'chatcmpl-1',
+          object: 'chat.completion',
+          created: 0,
+          model: 'test-model',
+          choices: [
+            { index: 0, message: { role: 'assistant', content: 'Hi!' }, finish_reason: 'stop' },
+          ],
+        });
+
+      const result = await adapter.chat([{ role: 'user', content: 'Hello' }]);
+
+      expect(result.usage?.inputTokens).toBeGreaterThan(0);
+      expect(result.usage?.outputTokens).toBeGreaterThan(0);
+    });
+
+    it('should turn API errors into user-friendly messages', async () => {
+      handler = (_body, res) => sendJson(res, 401, { error: { message: 'Bad key' } });
+
+      await expect(adapter.chat([{ role: 'user', content: 'Hi' }])).rejects.toThrow(
+        'Invalid API key. Please check your OpenAI API key in settings.',
+      );
+    });
+
+    it('should report unreachable servers', async () => {
+      const offline = new OpenAIChatLLMAdapter({ baseUrl: 'http://127.0.0.1:1/v1' });
+
+      await expect(offline.chat([{ role: 'user', content: 'Hi' }])).rejects.toThrow(
+        'Could not connect to OpenAI',
+      );
+    });
+  });
+
+  describe('streamChat', () => {
+    it('should stream tokens and report usage from the final chunk', async () => {
+      handler = (_body, res) =>
+        sendEvents(res, [
+          textChunk('Hello'),
+          textChunk(', world'),
+          {
+            id: 'chatcmpl-1',
+            object: 'chat.completion.chunk',
+            created: 0,
+            model: 'test-model',
+            choices: [],
+            usage: { prompt_tokens: 8, completion_tokens: 2, total_tokens: 10 },
+          },
+        ]);
+      const { callbacks, tokens, completed, errors } = createStreamCallbacks();
+
+      await adapter.streamChat([{ role: 'user', content: 'Hi' }], callbacks);
+
+      expect(tokens).toEqual(['Hello', ', world']);
+      expect(completed).toEqual([
+        { content: 'Hello, world', usage: { inputTokens: 8, outputTokens: 2 } },
+      ]);
+      expect(errors).toEqual([]);
+      expect(requests[0].body).toMatchObject({
+        stream: true,
+        stream_options: { include_usage: true },
+      });
+    });
+
+    it('should stop streaming when aborted', async () => {
+      const controller = new AbortController();
+      // Send one chunk, then hold the connection open
+      handler = (_body, res) => {
+        res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+        res.write(`data: ${JSON.stringify(textChunk('Partial'))}\n\n`);
+      };
+      const { callbacks, tokens, completed, errors } = createStreamCallbacks(controller.signal);
+      callbacks.onToken = vi.fn((token: string) => {
+        tokens.push(token);
+        controller.abort();
+      });
+
+      await adapter.streamChat([{ role: 'user', content: 'Hi' }], callbacks);
+
+      expect(tokens).toEqual(['Partial']);
+      expect(completed).toEqual([]);
+      expect(errors).toHaveLength(1);
+      expect(errors[0].message).toMatch(/abort/i);
+    });
+
+    it('should report API errors through onError', async () => {
+      handler = (_body, res) => sendJson(res, 429, { error: { message: 'Slow down' } });
+      const { callbacks, completed, errors } = createStreamCallbacks();
+
+      await adapter.streamChat([{ role: 'user', content: 'Hi' }], callbacks);
+
+      expect(completed).toEqual([]);
+      expect(errors.map((e) => e.message)).toEqual([
+        'Rate limited by OpenAI API. Please wait a moment before trying again.',
+      ]);
+    });
+  });
+});
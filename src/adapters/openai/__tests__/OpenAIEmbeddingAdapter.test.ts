@@ -89,6 +89,20 @@ describe('OpenAIEmbeddingAdapter', () => {
     });
   });
 
+  describe('embedQuery', () => {
+    it('should embed queries the same way as documents', async () => {
+      mockEmbeddingResponse([[0.3, 0.2, 0.1]]);
+
+      const embedding = await adapter.embedQuery('What are generics?');
+
+      expect(embedding).toEqual([0.3, 0.2, 0.1]);
+      expect(mockCreate).toHaveBeenCalledWith({
+        model: 'text-embedding-3-small',
+        input: ['What are generics?'],
+      });
+    });
+  });
+
   describe('embedBatch', () => {
     it('should embed multiple texts', async () => {
       mockEmbeddingResponse([
@@ -322,6 +336,30 @@ describe('OpenAIEmbeddingAdapter', () => {
       expect(largeAdapter.getDimensions()).toBe(3072);
     });
 
+    it('should request and report a shortened vector size', async () => {
+      const shortAdapter = new OpenAIEmbeddingAdapter({ apiKey: 'test-key', dimensions: 512 });
+      mockEmbeddingResponse([[0.1, 0.2]]);
+
+      await shortAdapter.embed('test.md', 'Hello');
+
+      expect(shortAdapter.getDimensions()).toBe(512);
+      expect(mockCreate).toHaveBeenCalledWith(expect.objectContaining({ dimensions: 512 }));
+    });
+
+    it('should ignore a vector size for models that do not support it', async () => {
+      const adaAdapter = new OpenAIEmbeddingAdapter({
+        apiKey: 'test-key',
+        model: 'text-embedding-ada-002',
+        dimensions: 512,
+      });
+      mockEmbeddingResponse([[0.1, 0.2]]);
+
+      await adaAdapter.embed('test.md', 'Hello');
+
+      expect(adaAdapter.getDimensions()).toBe(1536);
+      expect(mockCreate.mock.calls[0][0]).not.toHaveProperty('dimensions');
+    });
+
     it('should return default for unknown model', () => {
       const unknownAdapter = new OpenAIEmbeddingAdapter({
         apiKey: 'test-key',
@@ -1 +1,11 @@
-export { DEFAULT_OPENAI_EMBEDDING_CONFIG, OpenAIEmbeddingAdapter } from './OpenAIEmbeddingAdapter';
+export {
+  DEFAULT_OPENAI_BASE_URL,
+  OpenAIChatLLMAdapter,
+} from './OpenAIChatLLMAdapter';
+export type { OpenAIChatLLMConfig } from './OpenAIChatLLMAdapter';
+export type { OpenAIEmbeddingConfig } from './OpenAIEmbeddingAdapter';
+export {
+  DEFAULT_OPENAI_EMBEDDING_CONFIG,
+  OPENAI_EMBEDDING_DIMENSION_OPTIONS,
+  OpenAIEmbeddingAdapter,
+} from './OpenAIEmbeddingAdapter';
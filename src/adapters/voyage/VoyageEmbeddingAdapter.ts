@@ -55,11 +55,21 @@ const MODEL_DIMENSIONS: Record<string, number> = {
   'voyage-law-2': 1024,
 };
 
+/**
+ * Voyage embedding models that can be chosen in settings
+ */
+export const VOYAGE_EMBEDDING_MODELS = Object.keys(MODEL_DIMENSIONS);
+
 /**
  * Errors that should not be retried
  */
 const NON_RETRYABLE_STATUS_CODES = [400, 401, 403, 404];
 
+/**
+ * Voyage input type: documents are stored and searched, queries search them
+ */
+type VoyageInputType = 'document' | 'query';
+
 /**
  * Voyage AI API response
  */
@@ -113,6 +123,15 @@ export class VoyageEmbeddingAdapter implements IEmbeddingProvider {
     return result.embeddings[0];
   }
 
+  async embedQuery(text: string): Promise<number[]> {
+    if (!text.trim()) {
+      throw new Error('Cannot embed an empty query');
+    }
+
+    const result = await this.embedBatchWithRetry([{ notePath: '__query__', text }], 'query');
+    return result.embeddings[0].embedding;
+  }
+
   async embedBatch(texts: EmbeddingInput[]): Promise<BatchEmbeddingResult> {
     if (texts.length === 0) {
       return {
@@ -142,7 +161,7 @@ export class VoyageEmbeddingAdapter implements IEmbeddingProvider {
     // Process non-empty texts in batches
     for (let i = 0; i < nonEmptyTexts.length; i += this.config.batchSize) {
       const batch = nonEmptyTexts.slice(i, i + this.config.batchSize);
-      const batchResult = await this.embedBatchWithRetry(batch);
+      const batchResult = await this.embedBatchWithRetry(batch, 'document');
 
       results.push(...batchResult.embeddings);
       totalTokens += batchResult.totalTokens;
@@ -195,12 +214,13 @@ export class VoyageEmbeddingAdapter implements IEmbeddingProvider {
 
   private async embedBatchWithRetry(
     inputs: EmbeddingInput[],
+    inputType: VoyageInputType,
   ): Promise<{ embeddings: EmbeddingResult[]; totalTokens: number }> {
     let lastError: Error | null = null;
 
     for (let attempt = 0; attempt < this.config.maxRetries; attempt++) {
       try {
-        return await this.callEmbeddingAPI(inputs);
+        return await this.callEmbeddingAPI(inputs, inputType);
       } catch (error) {
         lastError = error as Error;
 
@@ -222,6 +242,7 @@ export class VoyageEmbeddingAdapter implements IEmbeddingProvider {
 
   private async callEmbeddingAPI(
     inputs: EmbeddingInput[],
+    inputType: VoyageInputType,
   ): Promise<{ embeddings: EmbeddingResult[]; totalTokens: number }> {
     const apiUrl = this.config.apiUrl ?? DEFAULT_VOYAGE_API_URL;
     const response = await fetch(apiUrl, {
@@ -233,7 +254,7 @@ export class VoyageEmbeddingAdapter implements IEmbeddingProvider {
       body: JSON.stringify({
         model: this.config.model,
         input: inputs.map((i) => i.text),
-        input_type: 'document',
+        input_type: inputType,
       }),
     });
 
@@ -92,6 +92,27 @@ describe('VoyageEmbeddingAdapter', () => {
     });
   });
 
+  describe('embedQuery', () => {
+    it('should embed the text as a query', async () => {
+      mockSuccessResponse([[0.3, 0.2, 0.1]]);
+
+      const embedding = await adapter.embedQuery('What are generics?');
+
+      expect(embedding).toEqual([0.3, 0.2, 0.1]);
+      const [, init] = mockFetch.mock.calls[0];
+      expect(JSON.parse(init.body)).toEqual({
+        model: 'voyage-3-lite',
+        input: ['What are generics?'],
+        input_type: 'query',
+      });
+    });
+
+    it('should reject an empty query without calling the API', async () => {
+      await expect(adapter.embedQuery('   ')).rejects.toThrow('Cannot embed an empty query');
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+  });
+
   describe('embedBatch', () => {
     it('should embed multiple texts', async () => {
       mockSuccessResponse([
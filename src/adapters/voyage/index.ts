@@ -2,6 +2,7 @@ export type { VoyageEmbeddingConfig } from './VoyageEmbeddingAdapter';
 export {
   DEFAULT_VOYAGE_API_URL,
   DEFAULT_VOYAGE_EMBEDDING_CONFIG,
+  VOYAGE_EMBEDDING_MODELS,
   VoyageAPIError,
   VoyageEmbeddingAdapter,
 } from './VoyageEmbeddingAdapter';
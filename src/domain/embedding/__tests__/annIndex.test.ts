@@ -0,0 +1,210 @@
+import { AnnIndexManager, createRandom } from '@/domain/embedding/annIndex';
+import { findTopKSimilar } from '@/domain/embedding/similarity';
+import type { IStorageAdapter } from '@/ports';
+import { createMemoryStorage } from '@/test/mocks/storage';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+function normalize(vector: number[]): number[] {
+  const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+  return vector.map((v) => v / norm);
+}
+
+/**
+ * Generate unit vectors around random topic centers, like embeddings of notes on a few topics.
+ */
+function createClusteredVectors(
+  count: number,
+  options: { dimensions: number; clusters: number; noise: number; seed: number },
+): number[][] {
+  const random = createRandom(options.seed);
+  const gaussian = () => {
+    const u = Math.max(random(), 1e-12);
+    return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * random());
+  };
+  const centers = Array.from({ length: options.clusters }, () =>
+    normalize(Array.from({ length: options.dimensions }, gaussian)),
+  );
+
+  return Array.from({ length: count }, () => {
+    const center = centers[Math.floor(random() * centers.length)];
+    return normalize(center.map((v) => v + gaussian() * options.noise));
+  });
+}
+
+/**
+ * Map that counts lookups, to measure how many vectors a search compares
+ */
+class CountingMap extends Map<string, number[]> {
+  lookups = 0;
+
+  get(key: string): number[] | undefined {
+    this.lookups++;
+    return super.get(key);
+  }
+}
+
+describe('AnnIndexManager', () => {
+  let storedData: Map<string, unknown>;
+  let storage: IStorageAdapter;
+
+  const vectorOptions = { dimensions: 32, clusters: 40, noise: 0.05, seed: 7 };
+
+  function createEntries(vectors: number[][], hash = 'v1') {
+    return vectors.map((embedding, i) => ({ key: `note-${i}.md`, contentHash: hash, embedding }));
+  }
+
+  function toMap(entries: Array<{ key: string; embedding: number[] }>) {
+    return new Map(entries.map((e) => [e.key, e.embedding]));
+  }
+
+  beforeEach(() => {
+    ({ storage, storedData } = createMemoryStorage());
+  });
+
+  describe('small vaults', () => {
+    it('uses exact search and stores nothing', async () => {
+      const entries = createEntries(createClusteredVectors(50, vectorOptions));
+      const index = new AnnIndexManager(storage);
+      await index.sync('model', entries);
+
+      const query = entries[3].embedding;
+      const vectors = toMap(entries);
+
+      expect(index.isReady()).toBe(false);
+      expect(storedData.size).toBe(0);
+      expect(index.search(query, vectors, 5)).toEqual(findTopKSimilar(query, vectors, 5));
+    });
+
+    it('drops the index when the vault shrinks below the minimum size', async () => {
+      const entries = createEntries(createClusteredVectors(300, vectorOptions));
+      const index = new AnnIndexManager(storage, { minIndexSize: 100 });
+      await index.sync('model', entries);
+      expect(index.isReady()).toBe(true);
+
+      await index.sync('model', entries.slice(0, 50));
+
+      expect(index.isReady()).toBe(false);
+      expect(storedData.size).toBe(0);
+    });
+  });
+
+  describe('recall benchmark', () => {
+    it('finds most exact nearest neighbors while comparing a fraction of the vectors', async () => {
+      const entries = createEntries(createClusteredVectors(3000, vectorOptions));
+      const queries = createClusteredVectors(50, { ...vectorOptions, seed: 8 });
+      const index = new AnnIndexManager(storage);
+      await index.sync('model', entries);
+      expect(index.isReady()).toBe(true);
+
+      const vectors = new CountingMap(entries.map((e) => [e.key, e.embedding]));
+      let found = 0;
+      let lookups = 0;
+      for (const query of queries) {
+        const exact = findTopKSimilar(query, vectors, 10).map((r) => r.notePath);
+        vectors.lookups = 0;
+        const approximate = new Set(index.search(query, vectors, 10).map((r) => r.notePath));
+        found += exact.filter((path) => approximate.has(path)).length;
+
+        lookups += vectors.lookups;
+      }
+
+      const recall = found / (queries.length * 10);
+      expect(recall).toBeGreaterThanOrEqual(0.9);
+      // On average, well under a third of the vault is compared per query
+      expect(lookups / queries.length).toBeLessThan(entries.length * 0.3);
+    });
+
+    it('returns results sorted by similarity', async () => {
+      const entries = createEntries(createClusteredVectors(3000, vectorOptions));
+      const index = new AnnIndexManager(storage);
+      await index.sync('model', entries);
+
+      const results = index.search(entries[0].embedding, toMap(entries), 10);
+
+      expect(results[0]).toEqual({ notePath: 'note-0.md', similarity: expect.closeTo(1, 5) });
+      for (let i = 1; i < results.length; i++) {
+        expect(results[i].similarity).toBeLessThanOrEqual(results[i - 1].similarity);
+      }
+    });
+  });
+
+  describe('persistence', () => {
+    it('stores lists in chunks and reloads them without retraining', async () => {
+      const entries = createEntries(createClusteredVectors(3000, vectorOptions));
+      const index = new AnnIndexManager(storage, { listsPerChunk: 8, provider: 'local' });
+      await index.sync('model', entries);
+
+      const chunkKeys = [...storedData.keys()].filter((key) => key.startsWith('ann/local/lists-'));
+      expect(chunkKeys.length).toBeGreaterThan(1);
+      expect(storedData.has('ann/local/index')).toBe(true);
+
+      const reloaded = new AnnIndexManager(storage, { listsPerChunk: 8, provider: 'local' });
+      vi.mocked(storage.write).mockClear();
+      await reloaded.sync('model', entries);
+
+      expect(storage.write).not.toHaveBeenCalled();
+      expect(reloaded.getSize()).toBe(3000);
+      const query = entries[42].embedding;
+      expect(reloaded.search(query, toMap(entries), 5)).toEqual(
+        index.search(query, toMap(entries), 5),
+      );
+    });
+
+    it('retrains when a list chunk is missing', async () => {
+      const entries = createEntries(createClusteredVectors(300, vectorOptions));
+      await new AnnIndexManager(storage, { minIndexSize: 100 }).sync('model', entries);
+      storedData.delete('ann/lists-0');
+
+      const reloaded = new AnnIndexManager(storage, { minIndexSize: 100 });
+      await reloaded.initialize();
+      expect(reloaded.isReady()).toBe(false);
+
+      await reloaded.sync('model', entries);
+      expect(reloaded.getSize()).toBe(300);
+    });
+  });
+
+  describe('incremental updates', () => {
+    it('adds, updates and removes entries without retraining', async () => {
+      const vectors = createClusteredVectors(320, vectorOptions);
+      const entries = createEntries(vectors.slice(0, 300));
+      const index = new AnnIndexManager(storage, { minIndexSize: 100 });
+      await index.sync('model', entries);
+      const centroids = JSON.stringify(
+        (storedData.get('ann/index') as { centroids: unknown }).centroids,
+      );
+
+      const added = { key: 'new.md', contentHash: 'v1', embedding: vectors[310] };
+      const changed = { ...entries[1], contentHash: 'v2', embedding: vectors[311] };
+      const updated = [added, entries[0], changed, ...entries.slice(3)];
+      await index.sync('model', updated);
+
+      expect(index.getSize()).toBe(300);
+      const meta = storedData.get('ann/index') as { centroids: unknown };
+      expect(JSON.stringify(meta.centroids)).toBe(centroids);
+
+      const map = toMap(updated);
+      expect(index.search(vectors[310], map, 1)[0].notePath).toBe('new.md');
+      expect(index.search(vectors[311], map, 1)[0].notePath).toBe('note-1.md');
+      expect(index.search(vectors[2], map, 5).map((r) => r.notePath)).not.toContain('note-2.md');
+    });
+
+    it('retrains when the model changes', async () => {
+      const entries = createEntries(createClusteredVectors(300, vectorOptions));
+      const index = new AnnIndexManager(storage, { minIndexSize: 100 });
+      await index.sync('model-a', entries);
+      await index.sync('model-b', entries);
+
+      expect((storedData.get('ann/index') as { model: string }).model).toBe('model-b');
+    });
+
+    it('retrains when the vault grows past the retrain factor', async () => {
+      const vectors = createClusteredVectors(700, vectorOptions);
+      const index = new AnnIndexManager(storage, { minIndexSize: 100 });
+      await index.sync('model', createEntries(vectors.slice(0, 300)));
+      await index.sync('model', createEntries(vectors));
+
+      expect((storedData.get('ann/index') as { trainedSize: number }).trainedSize).toBe(700);
+    });
+  });
+});
@@ -0,0 +1,243 @@
+import {
+  BackgroundIndexer,
+  type BackgroundIndexerStatus,
+} from '@/domain/embedding/backgroundIndexer';
+import { EmbeddingCacheManager } from '@/domain/embedding/cache';
+import type {
+  IEmbeddingProvider,
+  IStorageAdapter,
+  IVaultProvider,
+  VaultChangeEvent,
+  VaultChangeListener,
+} from '@/ports';
+import { createMemoryStorage } from '@/test/mocks/storage';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+describe('BackgroundIndexer', () => {
+  let notes: Map<string, string>;
+  let modifiedAt: Map<string, number>;
+  let listener: VaultChangeListener | null;
+  let unsubscribe: ReturnType<typeof vi.fn>;
+  let vaultProvider: IVaultProvider;
+  let embeddingProvider: IEmbeddingProvider;
+  let storage: IStorageAdapter;
+  let cache: EmbeddingCacheManager;
+  let statuses: BackgroundIndexerStatus[];
+  let indexer: BackgroundIndexer;
+
+  const DEBOUNCE_MS = 1000;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+
+    notes = new Map([
+      ['notes/a.md', '# A\n\nAbout TypeScript generics.'],
+      ['notes/b.md', '# B\n\nAbout React hooks.'],
+    ]);
+    modifiedAt = new Map();
+    listener = null;
+    unsubscribe = vi.fn();
+
+    vaultProvider = {
+      listMarkdownFiles: vi.fn(async () =>
+        [...notes.keys()].map((path) => ({
+          path,
+          basename: path.split('/').pop()?.replace('.md', '') ?? '',
+          folder: path.split('/').slice(0, -1).join('/'),
+          modifiedAt: modifiedAt.get(path) ?? 0,
+          createdAt: 0,
+        })),
+      ),
+      readFile: vi.fn(async (path: string) => {
+        const content = notes.get(path);
+        if (content === undefined) throw new Error(`File not found: ${path}`);
+        return content;
+      }),
+      onChange: vi.fn((callback: VaultChangeListener) => {
+        listener = callback;
+        return unsubscribe;
+      }),
+    } as unknown as IVaultProvider;
+
+    embeddingProvider = {
+      embedBatch: vi.fn(async (inputs: Array<{ notePath: string; text: string }>) => ({
+        embeddings: inputs.map((input) => ({
+          notePath: input.notePath,
+          embedding: [input.text.length, 1],
+          tokenCount: 10,
+        })),
+        totalTokens: inputs.length * 10,
+        usage: { totalTokens: inputs.length * 10, estimatedCost: 0, apiCalls: 1 },
+      })),
+      getProviderName: () => 'mock',
+      getModelName: () => 'mock-model',
+      getDimensions: () => 2,
+    } as unknown as IEmbeddingProvider;
+
+    ({ storage } = createMemoryStorage());
+    cache = new EmbeddingCacheManager(storage, { provider: 'mock' });
+
+    statuses = [];
+    indexer = new BackgroundIndexer(
+      vaultProvider,
+      embeddingProvider,
+      cache,
+      { debounceMs: DEBOUNCE_MS, batchSize: 1 },
+      (status) => statuses.push(status),
+    );
+  });
+
+  afterEach(() => {
+    indexer.stop();
+    vi.useRealTimers();
+  });
+
+  /**
+   * Let the debounce timer fire and wait for the pass to finish
+   */
+  async function settle(): Promise<void> {
+    await vi.advanceTimersByTimeAsync(DEBOUNCE_MS);
+    await indexer.flush();
+  }
+
+  function emit(event: VaultChangeEvent): void {
+    listener?.(event);
+  }
+
+  function embeddedPaths(): string[] {
+    const calls = vi.mocked(embeddingProvider.embedBatch).mock.calls;
+    return calls.flatMap(([inputs]) => inputs.map((input) => input.notePath.split('#')[0]));
+  }
+
+  async function cachedPaths(): Promise<string[]> {
+    const cache = new EmbeddingCacheManager(storage, { provider: 'mock' });
+    return (await cache.getAllPaths()).sort();
+  }
+
+  it('should index the whole vault after starting', async () => {
+    indexer.start();
+    expect(embeddingProvider.embedBatch).not.toHaveBeenCalled();
+
+    await settle();
+
+    expect(await cachedPaths()).toEqual(['notes/a.md', 'notes/b.md']);
+    expect(statuses[0]).toEqual({ indexing: true, completed: 0, total: 2 });
+    expect(statuses.at(-1)).toEqual({ indexing: false, completed: 2, total: 2 });
+  });
+
+  it('should not embed unchanged notes again on restart', async () => {
+    indexer.start();
+    await settle();
+    indexer.stop();
+    vi.mocked(embeddingProvider.embedBatch).mockClear();
+
+    indexer.start();
+    await settle();
+
+    expect(embeddingProvider.embedBatch).not.toHaveBeenCalled();
+  });
+
+  it('should only read notes modified since they were indexed on restart', async () => {
+    indexer.start();
+    await settle();
+    indexer.stop();
+    vi.mocked(vaultProvider.readFile).mockClear();
+
+    notes.set('notes/b.md', '# B\n\nAbout React hooks and context.');
+    modifiedAt.set('notes/b.md', Date.now());
+    indexer.start();
+    await settle();
+
+    expect(vaultProvider.readFile).toHaveBeenCalledTimes(1);
+    expect(vaultProvider.readFile).toHaveBeenCalledWith('notes/b.md');
+    expect(statuses.at(-1)).toEqual({ indexing: false, completed: 1, total: 1 });
+  });
+
+  it('should debounce changes and embed only dirty notes', async () => {
+    indexer.start();
+    await settle();
+    vi.mocked(embeddingProvider.embedBatch).mockClear();
+
+    notes.set('notes/a.md', '# A\n\nAbout TypeScript conditional types.');
+    emit({ type: 'modify', path: 'notes/a.md' });
+    await vi.advanceTimersByTimeAsync(DEBOUNCE_MS / 2);
+    notes.set('notes/c.md', '# C\n\nNew note.');
+    emit({ type: 'create', path: 'notes/c.md' });
+    emit({ type: 'modify', path: 'notes/a.md' });
+
+    await vi.advanceTimersByTimeAsync(DEBOUNCE_MS / 2);
+    expect(embeddingProvider.embedBatch).not.toHaveBeenCalled();
+
+    await settle();
+
+    expect(embeddedPaths().sort()).toEqual(['notes/a.md', 'notes/c.md']);
+    expect(await cachedPaths()).toEqual(['notes/a.md', 'notes/b.md', 'notes/c.md']);
+  });
+
+  it('should remove deleted notes from the cache', async () => {
+    indexer.start();
+    await settle();
+
+    notes.delete('notes/b.md');
+    emit({ type: 'delete', path: 'notes/b.md' });
+    await settle();
+
+    expect(await cachedPaths()).toEqual(['notes/a.md']);
+  });
+
+  it('should move renamed notes to their new path', async () => {
+    indexer.start();
+    await settle();
+
+    notes.set('archive/b.md', notes.get('notes/b.md') ?? '');
+    notes.delete('notes/b.md');
+    emit({ type: 'rename', path: 'archive/b.md', oldPath: 'notes/b.md' });
+    await settle();
+
+    expect(await cachedPaths()).toEqual(['archive/b.md', 'notes/a.md']);
+  });
+
+  it('should skip excluded notes and the ignite folder', async () => {
+    indexer = new BackgroundIndexer(vaultProvider, embeddingProvider, cache, {
+      debounceMs: DEBOUNCE_MS,
+      excludePatterns: ['notes/b.md'],
+    });
+    notes.set('ignite/goal/goal.md', '# Goal');
+
+    indexer.start();
+    await settle();
+
+    expect(await cachedPaths()).toEqual(['notes/a.md']);
+  });
+
+  it('should stop listening for changes when stopped', async () => {
+    indexer.start();
+    await settle();
+    vi.mocked(embeddingProvider.embedBatch).mockClear();
+
+    indexer.stop();
+    emit({ type: 'create', path: 'notes/c.md' });
+    await settle();
+
+    expect(unsubscribe).toHaveBeenCalled();
+    expect(indexer.isRunning()).toBe(false);
+    expect(embeddingProvider.embedBatch).not.toHaveBeenCalled();
+  });
+
+  it('should report errors and retry the failed notes with the next pass', async () => {
+    const consoleSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.mocked(embeddingProvider.embedBatch).mockRejectedValueOnce(new Error('Rate limited'));
+
+    indexer.start();
+    await settle();
+
+    expect(statuses).toContainEqual({
+      indexing: false,
+      completed: 0,
+      total: 2,
+      error: 'Rate limited',
+    });
+    expect(await cachedPaths()).toEqual(['notes/a.md', 'notes/b.md']);
+    consoleSpy.mockRestore();
+  });
+});
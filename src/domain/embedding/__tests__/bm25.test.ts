@@ -0,0 +1,172 @@
+import { BM25IndexManager, tokenizeForSearch } from '@/domain/embedding/bm25';
+import { generateContentHash } from '@/domain/embedding/prepareText';
+import type { IStorageAdapter } from '@/ports';
+import { createMemoryStorage } from '@/test/mocks/storage';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+describe('tokenizeForSearch', () => {
+  it('lowercases words and drops punctuation', () => {
+    expect(tokenizeForSearch('Hello, World!')).toEqual(['hello', 'world']);
+  });
+
+  it('keeps compound terms together and also indexes their parts', () => {
+    expect(tokenizeForSearch('Using Node.js and gpt-4')).toEqual([
+      'using',
+      'node.js',
+      'node',
+      'js',
+      'and',
+      'gpt-4',
+      'gpt',
+      '4',
+    ]);
+  });
+
+  it('keeps trailing symbols of language names', () => {
+    expect(tokenizeForSearch('C++ vs C#')).toEqual(['c++', 'vs', 'c#']);
+  });
+});
+
+describe('BM25IndexManager', () => {
+  let storedData: Map<string, unknown>;
+  let storage: IStorageAdapter;
+
+  const notes = [
+    {
+      notePath: 'notes/auth.md',
+      content: '# Auth\n\nThe PKCE extension protects OAuth authorization codes.',
+    },
+    { notePath: 'notes/oauth.md', content: '# OAuth\n\nOAuth lets apps act on behalf of users.' },
+    { notePath: 'notes/cooking.md', content: '# Cooking\n\nPasta, soup and bread recipes.' },
+  ];
+
+  beforeEach(() => {
+    ({ storage, storedData } = createMemoryStorage());
+  });
+
+  it('ranks notes containing rare query terms first', async () => {
+    const index = new BM25IndexManager(storage);
+    await index.update(notes);
+
+    const results = await index.search('OAuth PKCE', 10);
+
+    expect(results.map((r) => r.notePath)).toEqual(['notes/auth.md', 'notes/oauth.md']);
+    expect(results[0].score).toBeGreaterThan(results[1].score);
+  });
+
+  it('returns nothing when no note contains a query term', async () => {
+    const index = new BM25IndexManager(storage);
+    await index.update(notes);
+
+    expect(await index.search('kubernetes', 10)).toEqual([]);
+    expect(await index.search('', 10)).toEqual([]);
+  });
+
+  it('respects the result limit', async () => {
+    const index = new BM25IndexManager(storage);
+    await index.update(notes);
+
+    expect(await index.search('oauth', 1)).toHaveLength(1);
+  });
+
+  it('ignores frontmatter when indexing', async () => {
+    const index = new BM25IndexManager(storage);
+    await index.update([{ notePath: 'notes/a.md', content: '---\ntags: secret\n---\n# Title' }]);
+
+    expect(await index.search('secret', 10)).toEqual([]);
+    expect(await index.search('title', 10)).toHaveLength(1);
+  });
+
+  it('persists the index and reloads it in a new instance', async () => {
+    await new BM25IndexManager(storage).update(notes);
+    expect(storedData.has('bm25/index')).toBe(true);
+
+    const reloaded = new BM25IndexManager(storage);
+    const results = await reloaded.search('pkce', 10);
+
+    expect(results.map((r) => r.notePath)).toEqual(['notes/auth.md']);
+    expect(reloaded.getDocumentCount()).toBe(3);
+  });
+
+  it('only writes to storage when notes change', async () => {
+    const index = new BM25IndexManager(storage);
+    await index.update(notes);
+    vi.mocked(storage.write).mockClear();
+    await index.update(notes);
+
+    expect(storage.write).not.toHaveBeenCalled();
+
+    await index.update([
+      ...notes.slice(1),
+      { notePath: 'notes/auth.md', content: '# Auth\n\nNow about WebAuthn.' },
+    ]);
+
+    // The chunk holding the note, then the header
+    expect(storage.write).toHaveBeenCalledTimes(2);
+    expect((await index.search('webauthn', 10)).map((r) => r.notePath)).toEqual(['notes/auth.md']);
+    expect(await index.search('pkce', 10)).toEqual([]);
+  });
+
+  it('stores notes in chunks and rewrites only the chunks that changed', async () => {
+    const index = new BM25IndexManager(storage, { chunkSize: 2 });
+    await index.update(notes);
+
+    expect(storedData.has('bm25/documents-0')).toBe(true);
+    expect(storedData.has('bm25/documents-1')).toBe(true);
+
+    vi.mocked(storage.write).mockClear();
+    await index.update([
+      ...notes.slice(0, 2),
+      { notePath: 'notes/cooking.md', content: '# Cooking\n\nPasta only.' },
+    ]);
+
+    expect(vi.mocked(storage.write).mock.calls.map(([key]) => key)).toEqual([
+      'bm25/documents-1',
+      'bm25/index',
+    ]);
+
+    const reloaded = new BM25IndexManager(storage, { chunkSize: 2 });
+    expect((await reloaded.search('pasta', 10)).map((r) => r.notePath)).toEqual([
+      'notes/cooking.md',
+    ]);
+    expect(reloaded.getDocumentCount()).toBe(3);
+  });
+
+  it('reuses room left by removed notes', async () => {
+    const index = new BM25IndexManager(storage, { chunkSize: 2 });
+    await index.update(notes);
+    await index.update([notes[1], notes[2], { notePath: 'notes/new.md', content: '# New' }]);
+
+    expect(storedData.has('bm25/documents-2')).toBe(false);
+    expect(index.getDocumentCount()).toBe(3);
+  });
+
+  it('drops notes that are no longer present', async () => {
+    const index = new BM25IndexManager(storage);
+    await index.update(notes);
+    await index.update(notes.slice(1));
+
+    expect(index.getDocumentCount()).toBe(2);
+    expect(await index.search('pkce', 10)).toEqual([]);
+  });
+
+  it('keeps unchanged notes indexed without their content', async () => {
+    const index = new BM25IndexManager(storage);
+    await index.update(notes);
+    await index.update(notes.slice(1), ['notes/auth.md']);
+
+    expect(index.getDocumentCount()).toBe(3);
+    expect((await index.search('pkce', 10)).map((r) => r.notePath)).toEqual(['notes/auth.md']);
+    expect(await index.has('notes/auth.md', generateContentHash(notes[0].content))).toBe(true);
+    expect(await index.has('notes/auth.md', 'outdated')).toBe(false);
+  });
+
+  it('clears the index from storage', async () => {
+    const index = new BM25IndexManager(storage);
+    await index.update(notes);
+    await index.clear();
+
+    expect([...storedData.keys()].filter((key) => key.startsWith('bm25/'))).toEqual([]);
+    expect(index.getDocumentCount()).toBe(0);
+  });
+});
@@ -0,0 +1,323 @@
+import { EmbeddingCacheManager } from '@/domain/embedding/cache';
+import type { CachedNoteEmbedding } from '@/domain/embedding/types';
+import type { IStorageAdapter } from '@/ports';
+import { createMemoryStorage } from '@/test/mocks/storage';
+import { beforeEach, describe, expect, it } from 'vitest';
+
+describe('EmbeddingCacheManager', () => {
+  let storedData: Map<string, unknown>;
+  let storage: IStorageAdapter;
+
+  function createEmbedding(
+    notePath: string,
+    contentHash: string,
+    noteChunkId?: string,
+    vector: number[] = [1, 0],
+  ): CachedNoteEmbedding {
+    return {
+      notePath,
+      noteChunkId,
+      contentHash,
+      embedding: vector,
+      provider: 'mock',
+      model: 'mock-model',
+      createdAt: Date.now(),
+      tokenCount: 10,
+    };
+  }
+
+  beforeEach(() => {
+    ({ storage, storedData } = createMemoryStorage());
+  });
+
+  describe('chunk embeddings', () => {
+    it('should store and retrieve all chunks of a note', async () => {
+      const cache = new EmbeddingCacheManager(storage);
+      await cache.setChunks('notes/a.md', [
+        createEmbedding('notes/a.md', 'h1', 'intro'),
+        createEmbedding('notes/a.md', 'h1', 'details'),
+      ]);
+      await cache.flush();
+
+      const reloaded = new EmbeddingCacheManager(storage);
+      const chunks = await reloaded.getChunks('notes/a.md', 'h1');
+
+      expect(chunks?.map((c) => c.noteChunkId)).toEqual(['intro', 'details']);
+      expect(await reloaded.getAllPaths()).toEqual(['notes/a.md']);
+    });
+
+    it('should miss when the note content hash changed', async () => {
+      const cache = new EmbeddingCacheManager(storage);
+      await cache.setChunks('notes/a.md', [createEmbedding('notes/a.md', 'h1', 'intro')]);
+
+      expect(await cache.getChunks('notes/a.md', 'h2')).toBeNull();
+    });
+
+    it('should drop chunks that are no longer in the note', async () => {
+      const cache = new EmbeddingCacheManager(storage);
+      await cache.setChunks('notes/a.md', [
+        createEmbedding('notes/a.md', 'h1', 'intro'),
+        createEmbedding('notes/a.md', 'h1', 'details'),
+      ]);
+      await cache.setChunks('notes/a.md', [createEmbedding('notes/a.md', 'h2', 'intro')]);
+
+      const chunks = await cache.getChunks('notes/a.md', 'h2');
+      expect(chunks?.map((c) => c.noteChunkId)).toEqual(['intro']);
+      expect(cache.getStats().size).toBe(1);
+    });
+
+    it('should invalidate the whole note and its chunks', async () => {
+      const cache = new EmbeddingCacheManager(storage);
+      await cache.set(createEmbedding('notes/a.md', 'h1'));
+      await cache.setChunks('notes/a.md', [createEmbedding('notes/a.md', 'h1', 'intro')]);
+
+      await cache.invalidate('notes/a.md');
+
+      expect(await cache.get('notes/a.md', 'h1')).toBeNull();
+      expect(await cache.getChunks('notes/a.md', 'h1')).toBeNull();
+      expect(cache.getStats().size).toBe(0);
+    });
+  });
+
+  describe('invalidate', () => {
+    it('should keep other entries readable after flushing a removal', async () => {
+      const cache = new EmbeddingCacheManager(storage);
+      await cache.set(createEmbedding('notes/a.md', 'ha', undefined, [1, 0]));
+      await cache.set(createEmbedding('notes/b.md', 'hb', undefined, [0, 1]));
+      await cache.invalidate('notes/a.md');
+      await cache.flush();
+
+      const reloaded = new EmbeddingCacheManager(storage);
+      const cached = await reloaded.get('notes/b.md', 'hb');
+
+      expect(cached?.embedding).toEqual([0, 1]);
+    });
+  });
+
+  describe('shared instance', () => {
+    it('should keep unflushed writes when initialized again', async () => {
+      const cache = new EmbeddingCacheManager(storage);
+      await cache.set(createEmbedding('notes/a.md', 'ha'));
+      await cache.initialize();
+
+      expect(await cache.get('notes/a.md', 'ha')).not.toBeNull();
+    });
+
+    it('should store concurrent writes without overwriting each other', async () => {
+      const cache = new EmbeddingCacheManager(storage);
+      await Promise.all([
+        cache.setChunks('notes/a.md', [createEmbedding('notes/a.md', 'ha', 'intro', [1, 0])]),
+        cache.setChunks('notes/b.md', [createEmbedding('notes/b.md', 'hb', 'intro', [0, 1])]),
+        cache.set(createEmbedding('notes/c.md', 'hc', undefined, [1, 1])),
+      ]);
+      await cache.flush();
+
+      const reloaded = new EmbeddingCacheManager(storage);
+
+      expect((await reloaded.getChunks('notes/a.md', 'ha'))?.[0]?.embedding).toEqual([1, 0]);
+      expect((await reloaded.getChunks('notes/b.md', 'hb'))?.[0]?.embedding).toEqual([0, 1]);
+      expect((await reloaded.get('notes/c.md', 'hc'))?.embedding).toEqual([1, 1]);
+      expect((await reloaded.checkIntegrity()).issues).toEqual([]);
+    });
+  });
+
+  describe('provider separation', () => {
+    it('should keep separate caches per provider', async () => {
+      const voyage = new EmbeddingCacheManager(storage, { provider: 'voyage' });
+      await voyage.set(createEmbedding('notes/a.md', 'h1', undefined, [1, 0]));
+      await voyage.flush();
+
+      const local = new EmbeddingCacheManager(storage, { provider: 'local' });
+      expect(await local.get('notes/a.md', 'h1')).toBeNull();
+      await local.set(createEmbedding('notes/a.md', 'h1', undefined, [0, 1]));
+      await local.flush();
+
+      const reloaded = new EmbeddingCacheManager(storage, { provider: 'voyage' });
+      expect((await reloaded.get('notes/a.md', 'h1'))?.embedding).toEqual([1, 0]);
+      expect(storedData.has('embeddings/voyage/index')).toBe(true);
+      expect(storedData.has('embeddings/local/index')).toBe(true);
+    });
+
+    it('should move a legacy cache built by the same provider', async () => {
+      const legacy = new EmbeddingCacheManager(storage);
+      await legacy.set({ ...createEmbedding('notes/a.md', 'h1'), provider: 'voyage' });
+      await legacy.flush();
+
+      const voyage = new EmbeddingCacheManager(storage, { provider: 'voyage' });
+      expect(await voyage.get('notes/a.md', 'h1')).not.toBeNull();
+      expect(storedData.has('embeddings/index')).toBe(false);
+      expect(storedData.has('embeddings/chunk-00')).toBe(false);
+      expect(storedData.has('embeddings/voyage/chunk-00')).toBe(true);
+    });
+
+    it('should leave a legacy cache built by another provider alone', async () => {
+      const legacy = new EmbeddingCacheManager(storage);
+      await legacy.set({ ...createEmbedding('notes/a.md', 'h1'), provider: 'voyage' });
+      await legacy.flush();
+
+      const local = new EmbeddingCacheManager(storage, { provider: 'local' });
+
+      expect(await local.get('notes/a.md', 'h1')).toBeNull();
+      expect(storedData.has('embeddings/index')).toBe(true);
+    });
+  });
+
+  describe('setProviderModel', () => {
+    it('should invalidate the cache when the model changes', async () => {
+      const cache = new EmbeddingCacheManager(storage, { provider: 'openai' });
+      await cache.setProviderModel('openai', 'text-embedding-3-small', 1536);
+      await cache.set(createEmbedding('notes/a.md', 'h1'));
+      await cache.flush();
+
+      const reloaded = new EmbeddingCacheManager(storage, { provider: 'openai' });
+      await reloaded.setProviderModel('openai', 'text-embedding-3-large', 3072);
+
+      expect(await reloaded.get('notes/a.md', 'h1')).toBeNull();
+      expect(reloaded._getIndex()).toMatchObject({
+        model: 'text-embedding-3-large',
+        dimensions: 3072,
+      });
+    });
+
+    it('should invalidate the cache when only the dimensions change', async () => {
+      const cache = new EmbeddingCacheManager(storage, { provider: 'openai' });
+      await cache.setProviderModel('openai', 'text-embedding-3-small', 1536);
+      await cache.set(createEmbedding('notes/a.md', 'h1'));
+      await cache.flush();
+
+      await cache.setProviderModel('openai', 'text-embedding-3-small', 512);
+
+      expect(await cache.get('notes/a.md', 'h1')).toBeNull();
+    });
+
+    it('should keep the cache when nothing changed and persist the dimensions', async () => {
+      const cache = new EmbeddingCacheManager(storage);
+      await cache.set(createEmbedding('notes/a.md', 'h1'));
+      await cache.flush();
+
+      // Caches written before dimensions were recorded are kept
+      const reloaded = new EmbeddingCacheManager(storage);
+      await reloaded.setProviderModel('mock', 'mock-model', 2);
+      await reloaded.initialize();
+
+      expect(await reloaded.get('notes/a.md', 'h1')).not.toBeNull();
+      expect(reloaded._getIndex()?.dimensions).toBe(2);
+    });
+  });
+
+  describe('maintenance', () => {
+    async function fillCache(cache: EmbeddingCacheManager, paths: string[]): Promise<void> {
+      for (const path of paths) {
+        await cache.set(createEmbedding(path, `hash-${path}`));
+      }
+      await cache.flush();
+    }
+
+    it('should remove embeddings of notes no longer in the vault', async () => {
+      const cache = new EmbeddingCacheManager(storage, { chunkSize: 2 });
+      await fillCache(cache, ['a.md', 'b.md', 'c.md']);
+      await cache.setChunks('d.md', [createEmbedding('d.md', 'h1', 'intro')]);
+      await cache.flush();
+
+      const removed = await cache.collectGarbage(['a.md', 'c.md']);
+
+      expect(removed).toBe(2);
+      const reloaded = new EmbeddingCacheManager(storage, { chunkSize: 2 });
+      expect((await reloaded.getAllPaths()).sort()).toEqual(['a.md', 'c.md']);
+    });
+
+    it('should report a consistent cache with its tombstones', async () => {
+      const cache = new EmbeddingCacheManager(storage, { chunkSize: 2 });
+      await fillCache(cache, ['a.md', 'b.md', 'c.md']);
+      await cache.invalidate('b.md');
+      await cache.flush();
+
+      const report = await new EmbeddingCacheManager(storage, { chunkSize: 2 }).checkIntegrity();
+
+      expect(report).toMatchObject({ entries: 2, notes: 2, chunks: 2, unusedSlots: 1 });
+      expect(report.bytes).toBeGreaterThan(0);
+      expect(report.issues).toEqual([]);
+    });
+
+    it('should detect entries that do not match their chunks', async () => {
+      const cache = new EmbeddingCacheManager(storage, { chunkSize: 2 });
+      await fillCache(cache, ['a.md', 'b.md', 'c.md']);
+
+      // Simulate an index written against shifted chunk positions
+      const index = storedData.get('embeddings/index') as {
+        entries: Record<string, { indexInChunk: number; chunkId: string }>;
+      };
+      index.entries['a.md'].indexInChunk = 1;
+      index.entries['b.md'].indexInChunk = 5;
+      index.entries['c.md'].chunkId = '07';
+      storedData.set('embeddings/chunk-09', { id: '09', embeddings: [] });
+
+      const report = await new EmbeddingCacheManager(storage, { chunkSize: 2 }).checkIntegrity();
+
+      expect(report.issues).toEqual(
+        expect.arrayContaining([
+          { type: 'mismatched-entry', key: 'a.md' },
+          { type: 'missing-embedding', key: 'b.md' },
+          { type: 'missing-chunk', key: 'c.md' },
+          { type: 'orphaned-chunk', key: '01' },
+          { type: 'orphaned-chunk', key: '09' },
+        ]),
+      );
+    });
+
+    it('should compact chunks and keep every embedding reachable', async () => {
+      const cache = new EmbeddingCacheManager(storage, { chunkSize: 2 });
+      await fillCache(cache, ['a.md', 'b.md', 'c.md', 'd.md', 'e.md']);
+      await cache.collectGarbage(['a.md', 'c.md', 'e.md']);
+
+      const result = await cache.compact();
+
+      expect(result).toEqual({
+        entries: 3,
+        droppedEntries: 0,
+        removedSlots: 2,
+        chunksBefore: 3,
+        chunksAfter: 2,
+      });
+
+      const reloaded = new EmbeddingCacheManager(storage, { chunkSize: 2 });
+      for (const path of ['a.md', 'c.md', 'e.md']) {
+        expect((await reloaded.get(path, `hash-${path}`))?.notePath).toBe(path);
+      }
+      const report = await reloaded.checkIntegrity();
+      expect(report).toMatchObject({ entries: 3, chunks: 2, unusedSlots: 0, issues: [] });
+      expect([...storedData.keys()].filter((key) => key.includes('chunk-'))).toHaveLength(2);
+    });
+
+    it('should drop broken entries and orphaned chunks when compacting', async () => {
+      const cache = new EmbeddingCacheManager(storage, { chunkSize: 2 });
+      await fillCache(cache, ['a.md', 'b.md']);
+      const index = storedData.get('embeddings/index') as {
+        entries: Record<string, { indexInChunk: number }>;
+      };
+      index.entries['b.md'].indexInChunk = 0;
+      storedData.set('embeddings/chunk-09', { id: '09', embeddings: [] });
+
+      const reloaded = new EmbeddingCacheManager(storage, { chunkSize: 2 });
+      const result = await reloaded.compact();
+
+      expect(result.droppedEntries).toBe(1);
+      expect(await reloaded.getAllPaths()).toEqual(['a.md']);
+      expect(storedData.has('embeddings/chunk-09')).toBe(false);
+      expect((await reloaded.checkIntegrity()).issues).toEqual([]);
+    });
+
+    it('should keep adding embeddings after compaction', async () => {
+      const cache = new EmbeddingCacheManager(storage, { chunkSize: 2 });
+      await fillCache(cache, ['a.md', 'b.md', 'c.md']);
+      await cache.collectGarbage(['c.md']);
+      await cache.compact();
+
+      await fillCache(cache, ['d.md', 'e.md']);
+
+      const reloaded = new EmbeddingCacheManager(storage, { chunkSize: 2 });
+      expect((await reloaded.getAllPaths()).sort()).toEqual(['c.md', 'd.md', 'e.md']);
+      expect((await reloaded.checkIntegrity()).issues).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,84 @@
+import { chunkNoteByHeadings, slugifyHeading } from '@/domain/embedding/chunkNotes';
+import { describe, expect, it } from 'vitest';
+
+describe('chunkNoteByHeadings', () => {
+  it('should split a note at its headings', () => {
+    const content = `Intro paragraph.
+
+# Generics
+
+Generics let you write reusable types.
+
+## Constraints
+
+Use extends to constrain a type parameter.`;
+
+    const chunks = chunkNoteByHeadings('notes/ts.md', content);
+
+    expect(chunks.map((c) => c.id)).toEqual(['intro', 'generics', 'constraints']);
+    expect(chunks[1].heading).toBe('Generics');
+    expect(chunks[1].content).toBe('# Generics\n\nGenerics let you write reusable types.');
+    expect(chunks.every((c) => c.notePath === 'notes/ts.md')).toBe(true);
+    expect(chunks.every((c) => c.tokenCount > 0)).toBe(true);
+  });
+
+  it('should strip frontmatter and drop heading-only sections', () => {
+    const content = `---
+tags: [typescript]
+---
+# Types
+
+## Primitives
+
+string, number and boolean.`;
+
+    const chunks = chunkNoteByHeadings('notes/ts.md', content);
+
+    expect(chunks).toHaveLength(1);
+    expect(chunks[0].id).toBe('primitives');
+    expect(chunks[0].content).not.toContain('tags:');
+  });
+
+  it('should ignore headings inside code blocks', () => {
+    const content = `# Shell
+
+\`\`\`bash
+# not a heading
+echo hi
+\`\`\``;
+
+    const chunks = chunkNoteByHeadings('notes/shell.md', content);
+
+    expect(chunks).toHaveLength(1);
+    expect(chunks[0].content).toContain('# not a heading');
+  });
+
+  it('should give repeated headings unique ids', () => {
+    const content = '# Example\n\nFirst.\n\n# Example\n\nSecond.';
+
+    const chunks = chunkNoteByHeadings('notes/a.md', content);
+
+    expect(chunks.map((c) => c.id)).toEqual(['example', 'example-2']);
+  });
+
+  it('should split oversized sections at paragraph boundaries', () => {
+    const paragraph = 'word '.repeat(60).trim();
+    const content = `# Long\n\n${paragraph}\n\n${paragraph}\n\n${paragraph}`;
+
+    const chunks = chunkNoteByHeadings('notes/long.md', content, { maxChunkTokens: 250 });
+
+    expect(chunks.length).toBeGreaterThan(1);
+    expect(chunks.every((c) => c.heading === 'Long')).toBe(true);
+    expect(chunks[0].content.startsWith('# Long')).toBe(true);
+  });
+
+  it('should return no chunks for an empty note', () => {
+    expect(chunkNoteByHeadings('notes/empty.md', '')).toEqual([]);
+  });
+});
+
+describe('slugifyHeading', () => {
+  it('should lowercase and dash-separate words', () => {
+    expect(slugifyHeading('Getting Started: Part 1!')).toBe('getting-started-part-1');
+  });
+});
@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { reciprocalRankFusion } from '../fusion';
+
+describe('reciprocalRankFusion', () => {
+  const semantic = [
+    { notePath: 'a.md', similarity: 0.9 },
+    { notePath: 'b.md', similarity: 0.8 },
+    { notePath: 'c.md', similarity: 0.7 },
+  ];
+
+  it('ranks notes found by both searches above notes found by one', () => {
+    const lexical = [
+      { notePath: 'c.md', score: 5 },
+      { notePath: 'd.md', score: 2 },
+    ];
+
+    const results = reciprocalRankFusion(semantic, lexical, 10);
+
+    expect(results.map((r) => r.notePath)).toEqual(['c.md', 'a.md', 'b.md', 'd.md']);
+  });
+
+  it('gives notes found only by keyword search a similarity of 0', () => {
+    const results = reciprocalRankFusion(semantic, [{ notePath: 'd.md', score: 1 }], 10);
+
+    expect(results.find((r) => r.notePath === 'd.md')?.similarity).toBe(0);
+  });
+
+  it('reports the share of each search in the fused score', () => {
+    const results = reciprocalRankFusion(semantic, [{ notePath: 'a.md', score: 3 }], 10);
+
+    const a = results.find((r) => r.notePath === 'a.md');
+    const b = results.find((r) => r.notePath === 'b.md');
+    expect(a?.semanticContribution).toBeCloseTo(0.5);
+    expect(a?.lexicalContribution).toBeCloseTo(0.5);
+    expect(b?.semanticContribution).toBe(1);
+    expect(b?.lexicalContribution).toBe(0);
+  });
+
+  it('applies the fusion weights', () => {
+    const lexical = [{ notePath: 'c.md', score: 5 }];
+
+    const semanticOnly = reciprocalRankFusion(semantic, lexical, 10, {
+      semanticWeight: 1,
+      lexicalWeight: 0,
+      rrfK: 60,
+    });
+    const keywordHeavy = reciprocalRankFusion(semantic, lexical, 10, {
+      semanticWeight: 1,
+      lexicalWeight: 3,
+      rrfK: 60,
+    });
+
+    expect(semanticOnly.map((r) => r.notePath)).toEqual(['a.md', 'b.md', 'c.md']);
+    expect(keywordHeavy[0].notePath).toBe('c.md');
+    expect(keywordHeavy[0].lexicalContribution).toBeGreaterThan(0.5);
+  });
+
+  it('respects k', () => {
+    expect(reciprocalRankFusion(semantic, [], 2)).toHaveLength(2);
+    expect(reciprocalRankFusion(semantic, [], 0)).toEqual([]);
+  });
+});
@@ -1,8 +1,11 @@
 import { describe, expect, it } from 'vitest';
 import {
+  aggregateChunkSimilarities,
   cosineSimilarity,
   findTopKSimilar,
+  findTopKSimilarByChunks,
   relevanceScoreToSimilarity,
+  selectTopK,
   similarityToRelevanceScore,
 } from '../similarity';
 
@@ -120,6 +123,31 @@ describe('findTopKSimilar', () => {
   });
 });
 
+describe('selectTopK', () => {
+  const results = [0.2, 0.9, 0.5, 0.9, 0.1, 0.7].map((similarity, i) => ({
+    notePath: `note${i}.md`,
+    similarity,
+  }));
+
+  it('returns the k highest similarities in descending order', () => {
+    expect(selectTopK(results, 3).map((r) => r.similarity)).toEqual([0.9, 0.9, 0.7]);
+  });
+
+  it('keeps input order for ties, like a stable sort', () => {
+    expect(selectTopK(results, 2).map((r) => r.notePath)).toEqual(['note1.md', 'note3.md']);
+  });
+
+  it('matches a full sort', () => {
+    const sorted = [...results].sort((a, b) => b.similarity - a.similarity);
+    expect(selectTopK(results, results.length)).toEqual(sorted);
+    expect(selectTopK(results, 100)).toEqual(sorted);
+  });
+
+  it('returns empty array for k <= 0', () => {
+    expect(selectTopK(results, 0)).toEqual([]);
+  });
+});
+
 describe('similarityToRelevanceScore', () => {
   it('converts -1 to 0', () => {
     expect(similarityToRelevanceScore(-1)).toBe(0);
@@ -202,3 +230,46 @@ describe('round-trip conversion', () => {
     expect(roundTrip).toBe(original);
   });
 });
+
+describe('aggregateChunkSimilarities', () => {
+  it('returns the best chunk similarity for max', () => {
+    expect(aggregateChunkSimilarities([0.2, 0.9, 0.5], 'max')).toBe(0.9);
+  });
+
+  it('averages the top n chunk similarities for mean-top-n', () => {
+    expect(aggregateChunkSimilarities([0.2, 0.9, 0.5], 'mean-top-n', 2)).toBeCloseTo(0.7);
+  });
+
+  it('averages all chunks when there are fewer than n', () => {
+    expect(aggregateChunkSimilarities([0.4, 0.6], 'mean-top-n', 5)).toBeCloseTo(0.5);
+  });
+
+  it('returns -1 for a note without chunks', () => {
+    expect(aggregateChunkSimilarities([], 'max')).toBe(-1);
+  });
+});
+
+describe('findTopKSimilarByChunks', () => {
+  it('ranks notes by their aggregated chunk similarity', () => {
+    const query = [1, 0];
+    const chunkEmbeddings = new Map([
+      ['a.md', [[0, 1]]],
+      [
+        'b.md',
+        [
+          [0, 1],
+          [1, 0],
+        ],
+      ],
+    ]);
+
+    const results = findTopKSimilarByChunks(query, chunkEmbeddings, 2, 'max');
+
+    expect(results[0]).toEqual({ notePath: 'b.md', similarity: 1 });
+    expect(results[1]).toEqual({ notePath: 'a.md', similarity: 0 });
+  });
+
+  it('returns empty array for k <= 0', () => {
+    expect(findTopKSimilarByChunks([1, 0], new Map([['a.md', [[1, 0]]]]), 0, 'max')).toEqual([]);
+  });
+});
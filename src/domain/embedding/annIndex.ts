@@ -0,0 +1,475 @@
+import type { IStorageAdapter } from '@/ports/IStorageAdapter';
+import { type SimilarityResult, cosineSimilarity, findTopKSimilar, selectTopK } from './similarity';
+
+/**
+ * Configuration for the approximate nearest-neighbor index
+ */
+export interface AnnIndexConfig {
+  /** Storage key prefix */
+  keyPrefix: string;
+  /** Embedding provider whose vectors are indexed; each provider gets its own index */
+  provider?: string;
+  /** Below this many vectors, exact search is used and no index is kept */
+  minIndexSize: number;
+  /** Fraction of lists searched per query; higher means better recall but slower search */
+  probeRatio: number;
+  /** Minimum number of lists searched per query */
+  minProbes: number;
+  /** Inverted lists stored per storage chunk */
+  listsPerChunk: number;
+  /** k-means iterations when training centroids */
+  trainingIterations: number;
+  /** Retrain once the vector count grows or shrinks by this factor since training */
+  retrainFactor: number;
+}
+
+/**
+ * Default ANN index configuration
+ */
+export const DEFAULT_ANN_INDEX_CONFIG: AnnIndexConfig = {
+  keyPrefix: 'ann',
+  minIndexSize: 2000,
+  probeRatio: 0.1,
+  minProbes: 6,
+  listsPerChunk: 32,
+  trainingIterations: 8,
+  retrainFactor: 2,
+};
+
+/**
+ * Vector to index, keyed like the embedding cache (note path or note path#chunk id)
+ */
+export interface AnnEntry {
+  key: string;
+  contentHash: string;
+  embedding: number[];
+}
+
+/**
+ * Persisted index header: the trained centroids
+ */
+export interface AnnIndexMeta {
+  version: number;
+  /** Model the centroids were trained on; vectors from another model are not comparable */
+  model: string;
+  dimensions: number;
+  /** One unit-length centroid per inverted list */
+  centroids: number[][];
+  /** Number of vectors when the centroids were trained */
+  trainedSize: number;
+  chunkCount: number;
+  updatedAt: number;
+}
+
+/**
+ * Persisted group of inverted lists
+ */
+export interface AnnListChunk {
+  id: number;
+  /** List number -> entry key -> content hash */
+  lists: Record<string, Record<string, string>>;
+}
+
+/**
+ * Current index version for migrations
+ */
+const INDEX_VERSION = 1;
+
+/**
+ * Training samples per centroid; more gives better centroids but slower training
+ */
+const SAMPLES_PER_LIST = 32;
+
+/**
+ * Deterministic pseudo-random generator (mulberry32), so training is reproducible
+ */
+export function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Scale a vector to unit length
+ */
+function normalize(vector: number[]): number[] {
+  const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+  return norm > 0 ? vector.map((v) => v / norm) : vector;
+}
+
+/**
+ * Index of the centroid most similar to a vector
+ */
+function nearestCentroid(vector: number[], centroids: number[][]): number {
+  let best = 0;
+  let bestSimilarity = Number.NEGATIVE_INFINITY;
+  for (let i = 0; i < centroids.length; i++) {
+    const similarity = cosineSimilarity(vector, centroids[i]);
+    if (similarity > bestSimilarity) {
+      best = i;
+      bestSimilarity = similarity;
+    }
+  }
+  return best;
+}
+
+/**
+ * Train unit-length centroids with spherical k-means, seeded with k-means++.
+ */
+function trainCentroids(vectors: number[][], k: number, iterations: number): number[][] {
+  const random = createRandom(vectors.length);
+
+  // k-means++: each new centroid is picked with probability proportional to its distance
+  const centroids = [vectors[Math.floor(random() * vectors.length)]];
+  const distances = vectors.map((v) => 1 - cosineSimilarity(v, centroids[0]));
+  while (centroids.length < k) {
+    const total = distances.reduce((sum, d) => sum + d, 0);
+    let target = random() * total;
+    let picked = vectors.length - 1;
+    for (let i = 0; i < vectors.length; i++) {
+      target -= distances[i];
+      if (target <= 0) {
+        picked = i;
+        break;
+      }
+    }
+    centroids.push(vectors[picked]);
+    for (let i = 0; i < vectors.length; i++) {
+      distances[i] = Math.min(distances[i], 1 - cosineSimilarity(vectors[i], vectors[picked]));
+    }
+  }
+
+  // Lloyd iterations; an empty cluster keeps its previous centroid
+  for (let iteration = 0; iteration < iterations; iteration++) {
+    const sums = centroids.map(() => new Array<number>(vectors[0].length).fill(0));
+    const counts = new Array<number>(centroids.length).fill(0);
+
+    for (const vector of vectors) {
+      const list = nearestCentroid(vector, centroids);
+      counts[list]++;
+      for (let d = 0; d < vector.length; d++) {
+        sums[list][d] += vector[d];
+      }
+    }
+
+    for (let i = 0; i < centroids.length; i++) {
+      if (counts[i] > 0) {
+        centroids[i] = normalize(sums[i]);
+      }
+    }
+  }
+
+  return centroids;
+}
+
+/**
+ * Approximate nearest-neighbor index (IVF) for large vaults.
+ *
+ * Vectors are clustered around k-means centroids into inverted lists. A query
+ * compares against the centroids, then only against the vectors in the closest
+ * lists, instead of every vector in the vault. The index stores list membership
+ * only; vectors stay in the embedding cache and are passed in at search time.
+ *
+ * Lists are stored in chunks and updated incrementally as notes change.
+ * Centroids are retrained when the vault grows or shrinks a lot, and small
+ * vaults skip the index and use exact search.
+ */
+export class AnnIndexManager {
+  private storage: IStorageAdapter;
+  private config: AnnIndexConfig;
+  private meta: AnnIndexMeta | null = null;
+  private chunks: Map<number, AnnListChunk> = new Map();
+  private assignments: Map<string, { list: number; contentHash: string }> = new Map();
+  private dirty: Set<number> = new Set(); // Chunks that need saving
+  private initialized = false;
+
+  constructor(storage: IStorageAdapter, config: Partial<AnnIndexConfig> = {}) {
+    this.storage = storage;
+    this.config = { ...DEFAULT_ANN_INDEX_CONFIG, ...config };
+  }
+
+  /**
+   * Initialize the index by loading the centroids and all list chunks
+   */
+  async initialize(): Promise<void> {
+    this.meta = null;
+    this.chunks.clear();
+    this.assignments.clear();
+    this.dirty.clear();
+    this.initialized = true;
+
+    const meta = await this.storage.read<AnnIndexMeta>(this.getMetaKey());
+    if (!meta || meta.version !== INDEX_VERSION) {
+      return;
+    }
+
+    this.meta = meta;
+    for (let id = 0; id < meta.chunkCount; id++) {
+      const chunk = await this.storage.read<AnnListChunk>(this.getChunkKey(id));
+      if (!chunk) {
+        // A missing chunk leaves vectors unreachable; an empty index retrains on the next sync
+        this.chunks.clear();
+        this.assignments.clear();
+        return;
+      }
+
+      this.chunks.set(id, chunk);
+      for (const [list, members] of Object.entries(chunk.lists)) {
+        for (const [key, contentHash] of Object.entries(members)) {
+          this.assignments.set(key, { list: Number(list), contentHash });
+        }
+      }
+    }
+  }
+
+  /**
+   * Bring the index in line with the given vectors.
+   * New and changed vectors are added to their nearest list and missing ones removed.
+   *
+   * @param model - Model that produced the vectors; a different model retrains the index
+   * @param entries - Every vector that should be searchable
+   */
+  async sync(model: string, entries: AnnEntry[]): Promise<void> {
+    if (!this.initialized) {
+      await this.initialize();
+    }
+
+    if (entries.length < this.config.minIndexSize) {
+      // Exact search is fast enough; drop any index left from a larger vault
+      if (this.meta) {
+        await this.clear();
+      }
+      return;
+    }
+
+    if (this.needsTraining(model, entries)) {
+      await this.train(model, entries);
+      return;
+    }
+
+    const meta = this.getMeta();
+    const currentKeys = new Set<string>();
+    for (const entry of entries) {
+      currentKeys.add(entry.key);
+      const existing = this.assignments.get(entry.key);
+      if (existing?.contentHash === entry.contentHash) {
+        continue;
+      }
+      if (existing) {
+        this.removeFromList(entry.key, existing.list);
+      }
+      this.addToList(
+        entry.key,
+        entry.contentHash,
+        nearestCentroid(entry.embedding, meta.centroids),
+      );
+    }
+
+    for (const [key, { list }] of [...this.assignments]) {
+      if (!currentKeys.has(key)) {
+        this.removeFromList(key, list);
+      }
+    }
+
+    if (this.dirty.size > 0) {
+      meta.updatedAt = Date.now();
+      await this.flush();
+    }
+  }
+
+  /**
+   * Find the k vectors most similar to the query.
+   * Uses exact search when there is no index, e.g. for small vaults.
+   *
+   * @param queryEmbedding - The query embedding vector
+   * @param vectors - Map of entry keys to their embeddings, as passed to sync()
+   * @param k - Number of top results to return
+   * @returns Array of similarity results sorted by similarity (highest first)
+   */
+  search(queryEmbedding: number[], vectors: Map<string, number[]>, k: number): SimilarityResult[] {
+    if (!this.isReady() || this.meta?.dimensions !== queryEmbedding.length) {
+      return findTopKSimilar(queryEmbedding, vectors, k);
+    }
+
+    const { centroids } = this.getMeta();
+    const probeCount = Math.max(
+      this.config.minProbes,
+      Math.ceil(centroids.length * this.config.probeRatio),
+    );
+    const probedLists = selectTopK(
+      centroids.map((centroid, list) => ({
+        notePath: String(list),
+        similarity: cosineSimilarity(queryEmbedding, centroid),
+      })),
+      probeCount,
+    );
+
+    const candidates: SimilarityResult[] = [];
+    for (const { notePath: list } of probedLists) {
+      const members = this.chunks.get(this.getChunkId(Number(list)))?.lists[list] ?? {};
+      for (const key of Object.keys(members)) {
+        const embedding = vectors.get(key);
+        if (embedding) {
+          candidates.push({
+            notePath: key,
+            similarity: cosineSimilarity(queryEmbedding, embedding),
+          });
+        }
+      }
+    }
+
+    return selectTopK(candidates, k);
+  }
+
+  /**
+   * Whether searches use the index rather than exact search
+   */
+  isReady(): boolean {
+    return this.meta !== null && this.assignments.size > 0;
+  }
+
+  /**
+   * Number of indexed vectors
+   */
+  getSize(): number {
+    return this.assignments.size;
+  }
+
+  /**
+   * Remove the index from memory and storage
+   */
+  async clear(): Promise<void> {
+    const chunkCount = this.meta?.chunkCount ?? 0;
+    for (let id = 0; id < chunkCount; id++) {
+      await this.storage.delete(this.getChunkKey(id));
+    }
+    await this.storage.delete(this.getMetaKey());
+
+    this.meta = null;
+    this.chunks.clear();
+    this.assignments.clear();
+    this.dirty.clear();
+  }
+
+  // ============ Private Methods ============
+
+  private getMeta(): AnnIndexMeta {
+    if (!this.meta) {
+      throw new Error('ANN index not trained');
+    }
+    return this.meta;
+  }
+
+  private needsTraining(model: string, entries: AnnEntry[]): boolean {
+    if (!this.meta || this.assignments.size === 0) {
+      return true;
+    }
+
+    const { retrainFactor } = this.config;
+    return (
+      this.meta.model !== model ||
+      this.meta.dimensions !== entries[0].embedding.length ||
+      entries.length > this.meta.trainedSize * retrainFactor ||
+      entries.length * retrainFactor < this.meta.trainedSize
+    );
+  }
+
+  /**
+   * Train new centroids on a sample of the vectors and rebuild every list.
+   * About sqrt(n) / 2 lists of 2 * sqrt(n) vectors each keeps both the centroid
+   * comparison and the list scan small.
+   */
+  private async train(model: string, entries: AnnEntry[]): Promise<void> {
+    const listCount = Math.max(1, Math.round(Math.sqrt(entries.length) / 2));
+    const sampleSize = Math.min(entries.length, listCount * SAMPLES_PER_LIST);
+    const stride = entries.length / sampleSize;
+    const sample = Array.from(
+      { length: sampleSize },
+      (_, i) => entries[Math.floor(i * stride)].embedding,
+    );
+
+    const centroids = trainCentroids(sample, listCount, this.config.trainingIterations);
+
+    await this.clear();
+    const chunkCount = Math.ceil(listCount / this.config.listsPerChunk);
+    this.meta = {
+      version: INDEX_VERSION,
+      model,
+      dimensions: entries[0].embedding.length,
+      centroids,
+      trainedSize: entries.length,
+      chunkCount,
+      updatedAt: Date.now(),
+    };
+    for (let id = 0; id < chunkCount; id++) {
+      this.chunks.set(id, { id, lists: {} });
+      this.dirty.add(id);
+    }
+
+    for (const entry of entries) {
+      this.addToList(entry.key, entry.contentHash, nearestCentroid(entry.embedding, centroids));
+    }
+
+    await this.flush();
+  }
+
+  private addToList(key: string, contentHash: string, list: number): void {
+    const id = this.getChunkId(list);
+    const chunk = this.chunks.get(id);
+    if (!chunk) {
+      return;
+    }
+
+    chunk.lists[list] = chunk.lists[list] ?? {};
+    chunk.lists[list][key] = contentHash;
+    this.assignments.set(key, { list, contentHash });
+    this.dirty.add(id);
+  }
+
+  private removeFromList(key: string, list: number): void {
+    const id = this.getChunkId(list);
+    const members = this.chunks.get(id)?.lists[list];
+    if (members) {
+      delete members[key];
+      this.dirty.add(id);
+    }
+    this.assignments.delete(key);
+  }
+
+  /**
+   * Save dirty chunks, then the header
+   */
+  private async flush(): Promise<void> {
+    for (const id of this.dirty) {
+      const chunk = this.chunks.get(id);
+      if (chunk) {
+        await this.storage.write(this.getChunkKey(id), chunk);
+      }
+    }
+    this.dirty.clear();
+
+    await this.storage.write(this.getMetaKey(), this.getMeta());
+  }
+
+  private getChunkId(list: number): number {
+    return Math.floor(list / this.config.listsPerChunk);
+  }
+
+  private getMetaKey(): string {
+    return `${this.getKeyPrefix()}/index`;
+  }
+
+  private getChunkKey(id: number): string {
+    return `${this.getKeyPrefix()}/lists-${id}`;
+  }
+
+  private getKeyPrefix(): string {
+    const { keyPrefix, provider } = this.config;
+    return provider ? `${keyPrefix}/${provider}` : keyPrefix;
+  }
+}
@@ -0,0 +1,283 @@
+import { filterNotePaths } from '@/domain/pipeline/pathFilter';
+import type { IEmbeddingProvider } from '@/ports/IEmbeddingProvider';
+import type { FileInfo, IVaultProvider, VaultChangeEvent } from '@/ports/IVaultProvider';
+import type { EmbeddingCacheManager } from './cache';
+import { EmbeddingOrchestrator, type NoteForEmbedding } from './embedBatch';
+
+/**
+ * Configuration for the background indexer
+ */
+export interface BackgroundIndexerConfig {
+  /** Quiet time after the last vault change before indexing starts, in ms (default: 2000) */
+  debounceMs: number;
+  /** Notes read and embedded per batch (default: 50) */
+  batchSize: number;
+  /** Embed heading-level chunks, matching EmbeddingRelevanceService's useChunks (default: true) */
+  useChunks: boolean;
+  /** Glob patterns for notes to index; empty indexes all notes */
+  includePatterns: string[];
+  /** Glob patterns for notes to skip */
+  excludePatterns: string[];
+}
+
+/**
+ * Default background indexer configuration
+ */
+export const DEFAULT_BACKGROUND_INDEXER_CONFIG: BackgroundIndexerConfig = {
+  debounceMs: 2000,
+  batchSize: 50,
+  useChunks: true,
+  includePatterns: [],
+  excludePatterns: [],
+};
+
+/**
+ * Progress of the background indexer
+ */
+export interface BackgroundIndexerStatus {
+  /** Whether notes are being embedded */
+  indexing: boolean;
+  /** Notes processed in the current pass */
+  completed: number;
+  /** Notes in the current pass */
+  total: number;
+  /** Message of the error that stopped the last pass */
+  error?: string;
+}
+
+/**
+ * Callback for indexer progress
+ */
+export type BackgroundIndexerStatusCallback = (status: BackgroundIndexerStatus) => void;
+
+/**
+ * Keeps the embedding cache up to date as notes change.
+ *
+ * On start the whole vault is checked once; notes not modified since they were
+ * embedded are skipped without being read, so only new and edited notes are embedded. After that, vault change events
+ * mark notes dirty and a debounced pass embeds them in batches. Deleted and
+ * renamed notes are removed from the cache. Relevance scoring then finds most
+ * embeddings already cached instead of computing them on the first goal.
+ */
+export class BackgroundIndexer {
+  private config: BackgroundIndexerConfig;
+  private cache: EmbeddingCacheManager;
+  private orchestrator: EmbeddingOrchestrator;
+  private dirtyPaths: Set<string> = new Set();
+  private deletedPaths: Set<string> = new Set();
+  private fullScanPending = false;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private unsubscribe: (() => void) | null = null;
+  private queue: Promise<void> = Promise.resolve();
+  private running = false;
+
+  constructor(
+    private vaultProvider: IVaultProvider,
+    private embeddingProvider: IEmbeddingProvider,
+    cache: EmbeddingCacheManager,
+    config: Partial<BackgroundIndexerConfig> = {},
+    private onStatus?: BackgroundIndexerStatusCallback,
+  ) {
+    this.config = { ...DEFAULT_BACKGROUND_INDEXER_CONFIG, ...config };
+    // The instance EmbeddingRelevanceService uses too, so scoring reuses what is indexed here
+    this.cache = cache;
+    this.orchestrator = new EmbeddingOrchestrator(embeddingProvider, this.cache);
+  }
+
+  /**
+   * Subscribe to vault changes and schedule a check of the whole vault
+   */
+  start(): void {
+    if (this.running) return;
+
+    this.running = true;
+    this.unsubscribe = this.vaultProvider.onChange((event) => this.handleChange(event));
+    this.fullScanPending = true;
+    this.schedule();
+  }
+
+  /**
+   * Unsubscribe from vault changes. A pass in progress stops after its current batch.
+   */
+  stop(): void {
+    this.running = false;
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Index pending changes now instead of waiting for the debounce delay
+   */
+  async flush(): Promise<void> {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    this.queue = this.queue.then(() => this.indexPending());
+    await this.queue;
+  }
+
+  /**
+   * Whether the indexer is subscribed to vault changes
+   */
+  isRunning(): boolean {
+    return this.running;
+  }
+
+  // ============ Private Methods ============
+
+  private handleChange(event: VaultChangeEvent): void {
+    switch (event.type) {
+      case 'delete':
+        this.dirtyPaths.delete(event.path);
+        this.deletedPaths.add(event.path);
+        break;
+      case 'rename':
+        this.dirtyPaths.delete(event.oldPath);
+        this.deletedPaths.add(event.oldPath);
+        this.deletedPaths.delete(event.path);
+        this.dirtyPaths.add(event.path);
+        break;
+      default:
+        this.deletedPaths.delete(event.path);
+        this.dirtyPaths.add(event.path);
+    }
+    this.schedule();
+  }
+
+  /**
+   * Restart the debounce timer
+   */
+  private schedule(): void {
+    if (!this.running) return;
+
+    if (this.timer) {
+      clearTimeout(this.timer);
+    }
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      // Passes run one after another so they never write the cache at the same time
+      this.queue = this.queue.then(() => this.indexPending());
+    }, this.config.debounceMs);
+  }
+
+  /**
+   * Remove deleted notes from the cache, then embed dirty notes in batches.
+   * Errors are reported through the status callback, never thrown.
+   */
+  private async indexPending(): Promise<void> {
+    if (!this.running) return;
+
+    const deleted = [...this.deletedPaths];
+    this.deletedPaths.clear();
+    const fullScan = this.fullScanPending;
+    this.fullScanPending = false;
+    let paths: string[] = fullScan ? [] : [...this.dirtyPaths];
+    this.dirtyPaths.clear();
+
+    let completed = 0;
+    try {
+      let files: FileInfo[] | null = null;
+      if (fullScan) {
+        files = await this.vaultProvider.listMarkdownFiles();
+        paths = files.map((file) => file.path);
+      }
+      paths = this.filterPaths(paths);
+
+      if (deleted.length > 0) {
+        for (const path of deleted) {
+          await this.cache.invalidate(path);
+        }
+        await this.cache.flush();
+      }
+
+      if (paths.length === 0) return;
+
+      // Drop cached vectors if the model or vector size changed in settings
+      await this.cache.setProviderModel(
+        this.embeddingProvider.getProviderName(),
+        this.embeddingProvider.getModelName(),
+        this.embeddingProvider.getDimensions(),
+      );
+
+      if (files) {
+        paths = await this.filterModified(paths, files);
+        if (paths.length === 0) return;
+      }
+
+      this.onStatus?.({ indexing: true, completed, total: paths.length });
+
+      for (let i = 0; i < paths.length && this.running; i += this.config.batchSize) {
+        const notes = await this.readNotes(paths.slice(i, i + this.config.batchSize));
+        if (this.config.useChunks) {
+          await this.orchestrator.embedNoteChunks(notes);
+        } else {
+          await this.orchestrator.embedNotes(notes);
+        }
+        completed = Math.min(i + this.config.batchSize, paths.length);
+        this.onStatus?.({ indexing: true, completed, total: paths.length });
+      }
+
+      this.onStatus?.({ indexing: false, completed, total: paths.length });
+    } catch (error) {
+      // Retry the rest with the next change; scoring embeds anything still missing
+      if (fullScan && paths.length === 0) {
+        this.fullScanPending = true;
+      }
+      for (const path of paths.slice(completed)) {
+        this.dirtyPaths.add(path);
+      }
+      const message = error instanceof Error ? error.message : String(error);
+      console.warn('Background indexing failed:', error);
+      this.onStatus?.({ indexing: false, completed, total: paths.length, error: message });
+    }
+  }
+
+  /**
+   * Apply the same path filters as relevance scoring
+   */
+  private filterPaths(paths: string[]): string[] {
+    return filterNotePaths(
+      paths.filter((path) => path.endsWith('.md')).map((path) => ({ path })),
+      this.config.includePatterns,
+      this.config.excludePatterns,
+    ).map((file) => file.path);
+  }
+
+  /**
+   * Keep the notes modified since their cached embeddings were made, so a full scan
+   * does not read and hash the whole vault
+   */
+  private async filterModified(paths: string[], files: FileInfo[]): Promise<string[]> {
+    const modifiedAt = new Map(files.map((file) => [file.path, file.modifiedAt]));
+    const modified: string[] = [];
+    for (const path of paths) {
+      const cached = await this.cache.getLatest(path, this.config.useChunks);
+      const fileModifiedAt = modifiedAt.get(path) ?? Number.POSITIVE_INFINITY;
+      if (!cached || cached.some((embedding) => embedding.createdAt <= fileModifiedAt)) {
+        modified.push(path);
+      }
+    }
+    return modified;
+  }
+
+  /**
+   * Read note contents. Notes deleted since they were marked dirty are skipped.
+   */
+  private async readNotes(paths: string[]): Promise<NoteForEmbedding[]> {
+    const notes = await Promise.all(
+      paths.map(async (notePath) => {
+        try {
+          return { notePath, content: await this.vaultProvider.readFile(notePath) };
+        } catch {
+          return null;
+        }
+      }),
+    );
+    return notes.filter((note): note is NoteForEmbedding => note !== null);
+  }
+}
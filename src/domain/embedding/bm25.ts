@@ -0,0 +1,387 @@
+import type { IStorageAdapter } from '@/ports/IStorageAdapter';
+import { generateContentHash, prepareTextForEmbedding } from './prepareText';
+
+/**
+ * Configuration for the BM25 keyword index
+ */
+export interface BM25Config {
+  /** Storage key prefix */
+  keyPrefix: string;
+  /** Maximum notes per storage chunk */
+  chunkSize: number;
+  /** Term frequency saturation; higher values reward repeated terms more */
+  k1: number;
+  /** Document length normalization, from 0 (none) to 1 (full) */
+  b: number;
+}
+
+/**
+ * Default BM25 configuration
+ */
+export const DEFAULT_BM25_CONFIG: BM25Config = {
+  keyPrefix: 'bm25',
+  chunkSize: 500,
+  k1: 1.2,
+  b: 0.75,
+};
+
+/**
+ * Term counts of one indexed note
+ */
+export interface BM25Document {
+  /** Hash of the note content, as in the embedding cache, for change detection */
+  contentHash: string;
+  /** Number of terms in the note */
+  length: number;
+  /** Term -> number of occurrences */
+  terms: Record<string, number>;
+}
+
+/**
+ * Persisted index header
+ */
+export interface BM25IndexMeta {
+  version: number;
+  chunkCount: number;
+  updatedAt: number;
+}
+
+/**
+ * Persisted group of indexed notes
+ */
+export interface BM25DocumentChunk {
+  id: number;
+  /** Note path -> indexed document */
+  documents: Record<string, BM25Document>;
+}
+
+/**
+ * Result of a keyword search
+ */
+export interface LexicalResult {
+  /** Path to the note */
+  notePath: string;
+  /** BM25 score; only positive scores are returned */
+  score: number;
+}
+
+/**
+ * Current index version for migrations
+ */
+const INDEX_VERSION = 2;
+
+/**
+ * Words joined by dots, dashes or underscores stay together ("node.js", "gpt-4"),
+ * and trailing + or # is kept ("c++", "c#") so library names and jargon match exactly.
+ */
+const TERM_PATTERN = /[\p{L}\p{N}]+(?:[._-][\p{L}\p{N}]+)*[+#]*/gu;
+
+/**
+ * Split text into lowercase search terms.
+ * Compound terms are also indexed by their parts, so "node.js" matches a search for "node".
+ */
+export function tokenizeForSearch(text: string): string[] {
+  const terms: string[] = [];
+
+  for (const match of text.toLowerCase().matchAll(TERM_PATTERN)) {
+    const term = match[0];
+    terms.push(term);
+
+    const parts = term.split(/[._-]/);
+    if (parts.length > 1) {
+      terms.push(...parts.filter((part) => part.length > 0));
+    }
+  }
+
+  return terms;
+}
+
+/**
+ * Manager for a BM25 keyword index over prepared note text.
+ *
+ * Term counts are cached in storage and only recomputed for notes whose
+ * content changed, so keyword search stays cheap on large vaults. Notes are
+ * stored in chunks and only chunks with changed notes are written.
+ */
+export class BM25IndexManager {
+  private storage: IStorageAdapter;
+  private config: BM25Config;
+  private meta: BM25IndexMeta | null = null;
+  private chunks: Map<number, BM25DocumentChunk> = new Map();
+  private chunkIdByNote: Map<string, number> = new Map();
+  private chunkSizes: Map<number, number> = new Map(); // Chunk ID -> number of notes
+  private dirty: Set<number> = new Set(); // Chunks that need saving
+  private documentFrequencies: Map<string, number> = new Map();
+  private averageLength = 0;
+
+  constructor(storage: IStorageAdapter, config: Partial<BM25Config> = {}) {
+    this.storage = storage;
+    this.config = { ...DEFAULT_BM25_CONFIG, ...config };
+  }
+
+  /**
+   * Initialize the index by loading the header and all document chunks
+   */
+  async initialize(): Promise<void> {
+    this.chunks.clear();
+    this.chunkIdByNote.clear();
+    this.chunkSizes.clear();
+    this.dirty.clear();
+
+    const storedMeta = await this.storage.read<BM25IndexMeta>(this.getMetaKey());
+    this.meta =
+      storedMeta && storedMeta.version === INDEX_VERSION
+        ? storedMeta
+        : { version: INDEX_VERSION, chunkCount: 0, updatedAt: Date.now() };
+
+    for (let id = 0; id < this.meta.chunkCount; id++) {
+      // A missing chunk starts empty; its notes are indexed again on the next update
+      const chunk = (await this.storage.read<BM25DocumentChunk>(this.getChunkKey(id))) ?? {
+        id,
+        documents: {},
+      };
+      this.chunks.set(id, chunk);
+      this.chunkSizes.set(id, Object.keys(chunk.documents).length);
+      for (const notePath of Object.keys(chunk.documents)) {
+        this.chunkIdByNote.set(notePath, id);
+      }
+    }
+    this.rebuildStatistics();
+  }
+
+  /**
+   * Check if a note is indexed from content with the given hash
+   */
+  async has(notePath: string, contentHash: string): Promise<boolean> {
+    if (!this.meta) {
+      await this.initialize();
+    }
+
+    return this.getDocument(notePath)?.contentHash === contentHash;
+  }
+
+  /**
+   * Bring the index in line with the given notes.
+   * Changed notes are re-tokenized and notes no longer present are dropped.
+   *
+   * @param unchangedPaths - Notes known to be unchanged, which keep their indexed terms without being read
+   */
+  async update(
+    notes: Array<{ notePath: string; content: string }>,
+    unchangedPaths: Iterable<string> = [],
+  ): Promise<void> {
+    if (!this.meta) {
+      await this.initialize();
+    }
+
+    const currentPaths = new Set<string>(unchangedPaths);
+
+    for (const { notePath, content } of notes) {
+      currentPaths.add(notePath);
+
+      const contentHash = generateContentHash(content);
+      if (this.getDocument(notePath)?.contentHash === contentHash) {
+        continue;
+      }
+
+      const text = prepareTextForEmbedding(content);
+
+      const terms: Record<string, number> = {};
+      const tokens = tokenizeForSearch(text);
+      for (const term of tokens) {
+        terms[term] = (terms[term] ?? 0) + 1;
+      }
+      this.setDocument(notePath, { contentHash, length: tokens.length, terms });
+    }
+
+    for (const notePath of [...this.chunkIdByNote.keys()]) {
+      if (!currentPaths.has(notePath)) {
+        this.removeDocument(notePath);
+      }
+    }
+
+    if (this.dirty.size > 0) {
+      this.getMeta().updatedAt = Date.now();
+      this.rebuildStatistics();
+      await this.flush();
+    }
+  }
+
+  /**
+   * Find the k notes that best match the query terms.
+   *
+   * @returns Matching notes sorted by BM25 score (highest first)
+   */
+  async search(query: string, k: number): Promise<LexicalResult[]> {
+    if (!this.meta) {
+      await this.initialize();
+    }
+
+    const documentCount = this.chunkIdByNote.size;
+    const queryTerms = [...new Set(tokenizeForSearch(query))];
+    if (documentCount === 0 || queryTerms.length === 0 || k <= 0) {
+      return [];
+    }
+
+    const { k1, b } = this.config;
+    const idf = new Map(
+      queryTerms.map((term) => {
+        const df = this.documentFrequencies.get(term) ?? 0;
+        return [term, Math.log(1 + (documentCount - df + 0.5) / (df + 0.5))];
+      }),
+    );
+
+    const results: LexicalResult[] = [];
+    for (const chunk of this.chunks.values()) {
+      for (const [notePath, document] of Object.entries(chunk.documents)) {
+        const lengthRatio = this.averageLength > 0 ? document.length / this.averageLength : 0;
+        let score = 0;
+
+        for (const term of queryTerms) {
+          const tf = document.terms[term];
+          if (!tf) continue;
+          score += ((idf.get(term) ?? 0) * tf * (k1 + 1)) / (tf + k1 * (1 - b + b * lengthRatio));
+        }
+
+        if (score > 0) {
+          results.push({ notePath, score });
+        }
+      }
+    }
+
+    results.sort((a, b) => b.score - a.score);
+
+    return results.slice(0, k);
+  }
+
+  /**
+   * Number of indexed notes
+   */
+  getDocumentCount(): number {
+    return this.chunkIdByNote.size;
+  }
+
+  /**
+   * Clear the index from memory and storage
+   */
+  async clear(): Promise<void> {
+    const chunkCount = this.meta?.chunkCount ?? 0;
+    for (let id = 0; id < chunkCount; id++) {
+      await this.storage.delete(this.getChunkKey(id));
+    }
+    await this.storage.delete(this.getMetaKey());
+
+    this.meta = { version: INDEX_VERSION, chunkCount: 0, updatedAt: Date.now() };
+    this.chunks.clear();
+    this.chunkIdByNote.clear();
+    this.chunkSizes.clear();
+    this.dirty.clear();
+    this.rebuildStatistics();
+  }
+
+  // ============ Private Methods ============
+
+  private getMeta(): BM25IndexMeta {
+    if (!this.meta) {
+      throw new Error('BM25 index not initialized');
+    }
+    return this.meta;
+  }
+
+  private getDocument(notePath: string): BM25Document | undefined {
+    const id = this.chunkIdByNote.get(notePath);
+    return id === undefined ? undefined : this.chunks.get(id)?.documents[notePath];
+  }
+
+  /**
+   * Store a note's document in its chunk, or in the first chunk with room if it is new
+   */
+  private setDocument(notePath: string, document: BM25Document): void {
+    let id = this.chunkIdByNote.get(notePath);
+    if (id === undefined) {
+      id = this.findChunkWithRoom();
+      this.chunkIdByNote.set(notePath, id);
+      this.chunkSizes.set(id, (this.chunkSizes.get(id) ?? 0) + 1);
+    }
+
+    const chunk = this.chunks.get(id);
+    if (!chunk) {
+      throw new Error(`BM25 chunk ${id} not loaded`);
+    }
+    chunk.documents[notePath] = document;
+    this.dirty.add(id);
+  }
+
+  private removeDocument(notePath: string): void {
+    const id = this.chunkIdByNote.get(notePath);
+    if (id === undefined) return;
+
+    const chunk = this.chunks.get(id);
+    if (chunk) {
+      delete chunk.documents[notePath];
+    }
+    this.chunkIdByNote.delete(notePath);
+    this.chunkSizes.set(id, (this.chunkSizes.get(id) ?? 1) - 1);
+    this.dirty.add(id);
+  }
+
+  /**
+   * Get the ID of the first chunk below the chunk size, adding a chunk if all are full
+   */
+  private findChunkWithRoom(): number {
+    for (const id of this.chunks.keys()) {
+      if ((this.chunkSizes.get(id) ?? 0) < this.config.chunkSize) {
+        return id;
+      }
+    }
+
+    const meta = this.getMeta();
+    const id = meta.chunkCount;
+    meta.chunkCount++;
+    this.chunks.set(id, { id, documents: {} });
+    return id;
+  }
+
+  /**
+   * Save dirty chunks, then the header
+   */
+  private async flush(): Promise<void> {
+    for (const id of this.dirty) {
+      const chunk = this.chunks.get(id);
+      if (chunk) {
+        await this.storage.write(this.getChunkKey(id), chunk);
+      }
+    }
+    this.dirty.clear();
+
+    await this.storage.write(this.getMetaKey(), this.getMeta());
+  }
+
+  private getMetaKey(): string {
+    return `${this.config.keyPrefix}/index`;
+  }
+
+  private getChunkKey(id: number): string {
+    return `${this.config.keyPrefix}/documents-${id}`;
+  }
+
+  /**
+   * Recompute document frequencies and average length from the indexed notes
+   */
+  private rebuildStatistics(): void {
+    this.documentFrequencies.clear();
+
+    let totalLength = 0;
+    for (const chunk of this.chunks.values()) {
+      for (const document of Object.values(chunk.documents)) {
+        totalLength += document.length;
+        for (const term of Object.keys(document.terms)) {
+          this.documentFrequencies.set(term, (this.documentFrequencies.get(term) ?? 0) + 1);
+        }
+      }
+    }
+
+    const documentCount = this.chunkIdByNote.size;
+    this.averageLength = documentCount > 0 ? totalLength / documentCount : 0;
+  }
+}
@@ -1,5 +1,10 @@
 import type { IStorageAdapter } from '@/ports/IStorageAdapter';
-import type { CachedNoteEmbedding, EmbeddingChunk, EmbeddingIndex } from './types';
+import type {
+  CachedNoteEmbedding,
+  EmbeddingChunk,
+  EmbeddingIndex,
+  EmbeddingIndexEntry,
+} from './types';
 
 /**
  * Configuration for embedding cache
@@ -9,6 +14,11 @@ export interface EmbeddingCacheConfig {
   chunkSize: number;
   /** Storage key prefix */
   keyPrefix: string;
+  /**
+   * Embedding provider whose vectors this cache holds.
+   * Each provider gets its own index and chunks, so switching providers keeps the other's cache.
+   */
+  provider?: string;
 }
 
 /**
@@ -29,6 +39,50 @@ export interface CacheStats {
   chunkCount: number;
 }
 
+/**
+ * Problem found by an integrity check
+ * - 'missing-chunk': an index entry points to a chunk that is not in storage
+ * - 'missing-embedding': an index entry points to an empty slot
+ * - 'mismatched-entry': the slot holds an embedding of another note, heading or content
+ * - 'orphaned-chunk': a stored chunk that no index entry points to
+ */
+export interface CacheIntegrityIssue {
+  type: 'missing-chunk' | 'missing-embedding' | 'mismatched-entry' | 'orphaned-chunk';
+  /** Index entry key, or chunk ID for orphaned chunks */
+  key: string;
+}
+
+/**
+ * Size and consistency of the stored cache
+ */
+export interface CacheIntegrityReport {
+  /** Index entries (one per note, or one per heading chunk) */
+  entries: number;
+  /** Notes with cached embeddings */
+  notes: number;
+  /** Stored chunks */
+  chunks: number;
+  /** Chunk slots no index entry points to, e.g. tombstones of removed embeddings */
+  unusedSlots: number;
+  /** Approximate size of the index and chunks in bytes */
+  bytes: number;
+  issues: CacheIntegrityIssue[];
+}
+
+/**
+ * Result of compacting the cache
+ */
+export interface CacheCompactionResult {
+  /** Entries kept */
+  entries: number;
+  /** Entries dropped because their embedding was missing or mismatched */
+  droppedEntries: number;
+  /** Unused chunk slots removed */
+  removedSlots: number;
+  chunksBefore: number;
+  chunksAfter: number;
+}
+
 /**
  * Current index version for migrations
  */
@@ -44,6 +98,9 @@ export class EmbeddingCacheManager {
   private chunks: Map<string, EmbeddingChunk> = new Map();
   private stats: CacheStats = { hits: 0, misses: 0, size: 0, chunkCount: 0 };
   private dirty: Set<string> = new Set(); // Chunks that need saving
+  private chunkKeysByNote: Map<string, Set<string>> = new Map(); // Note path -> chunk entry keys
+  private loading: Promise<void> | null = null;
+  private writeQueue: Promise<void> = Promise.resolve();
 
   constructor(storage: IStorageAdapter, config: Partial<EmbeddingCacheConfig> = {}) {
     this.storage = storage;
@@ -51,15 +108,34 @@ export class EmbeddingCacheManager {
   }
 
   /**
-   * Initialize the cache by loading the index
+   * Initialize the cache by loading the index.
+   * The index is loaded once; later calls keep the in-memory state, which other
+   * users of this instance may not have flushed yet.
    */
   async initialize(): Promise<void> {
+    if (this.index) {
+      return;
+    }
+    if (!this.loading) {
+      this.loading = this.loadIndex().finally(() => {
+        this.loading = null;
+      });
+    }
+    await this.loading;
+  }
+
+  /**
+   * Load the index from storage
+   */
+  private async loadIndex(): Promise<void> {
     const indexKey = this.getIndexKey();
-    const storedIndex = await this.storage.read<EmbeddingIndex>(indexKey);
+    const storedIndex =
+      (await this.storage.read<EmbeddingIndex>(indexKey)) ?? (await this.migrateLegacyIndex());
 
     if (storedIndex && storedIndex.version === INDEX_VERSION) {
       this.index = storedIndex;
       this.stats.size = Object.keys(storedIndex.entries).length;
+      this.rebuildChunkKeys();
 
       // Count unique chunks
       const chunkIds = new Set(Object.values(storedIndex.entries).map((e) => e.chunkId));
@@ -67,6 +143,7 @@ export class EmbeddingCacheManager {
     } else {
       // Create new index
       this.index = this.createEmptyIndex('', '');
+      this.chunkKeysByNote.clear();
     }
   }
 
@@ -74,9 +151,7 @@ export class EmbeddingCacheManager {
    * Get a cached embedding by note path and content hash
    */
   async get(notePath: string, contentHash: string): Promise<CachedNoteEmbedding | null> {
-    if (!this.index) {
-      await this.initialize();
-    }
+    await this.initialize();
 
     const index = this.getIndex();
     const entry = index.entries[notePath];
@@ -104,14 +179,350 @@ export class EmbeddingCacheManager {
     return embedding;
   }
 
+  /**
+   * Get all cached chunk embeddings for a note.
+   * Returns null unless every chunk was embedded from the given content hash.
+   */
+  async getChunks(notePath: string, contentHash: string): Promise<CachedNoteEmbedding[] | null> {
+    await this.initialize();
+
+    const index = this.getIndex();
+    const keys = this.chunkKeysByNote.get(notePath);
+    if (!keys || keys.size === 0) {
+      this.stats.misses++;
+      return null;
+    }
+
+    const embeddings: CachedNoteEmbedding[] = [];
+    for (const key of keys) {
+      const entry = index.entries[key];
+      const chunk = entry?.contentHash === contentHash ? await this.loadChunk(entry.chunkId) : null;
+      const embedding = entry && chunk ? chunk.embeddings[entry.indexInChunk] : null;
+
+      if (!embedding || embedding.contentHash !== contentHash) {
+        this.stats.misses++;
+        return null;
+      }
+      embeddings.push(embedding);
+    }
+
+    this.stats.hits++;
+    return embeddings;
+  }
+
+  /**
+   * Get the cached embeddings of a note without knowing its current content.
+   * Returns the chunk embeddings if chunked, otherwise the whole-note embedding,
+   * or null if the note has none of that kind.
+   */
+  async getLatest(notePath: string, chunked: boolean): Promise<CachedNoteEmbedding[] | null> {
+    await this.initialize();
+
+    const index = this.getIndex();
+    if (chunked) {
+      const [key] = this.chunkKeysByNote.get(notePath) ?? [];
+      const entry = key ? index.entries[key] : undefined;
+      return entry ? this.getChunks(notePath, entry.contentHash) : null;
+    }
+
+    const entry = index.entries[notePath];
+    const embedding = entry ? await this.get(notePath, entry.contentHash) : null;
+    return embedding ? [embedding] : null;
+  }
+
   /**
    * Store an embedding in the cache
    */
   async set(embedding: CachedNoteEmbedding): Promise<void> {
+    await this.initialize();
+    await this.exclusive(() => this.setEntry(embedding));
+  }
+
+  /**
+   * Replace all chunk embeddings for a note.
+   * Chunks no longer present in the note are removed.
+   */
+  async setChunks(notePath: string, embeddings: CachedNoteEmbedding[]): Promise<void> {
+    await this.initialize();
+
+    await this.exclusive(async () => {
+      const newKeys = new Set(embeddings.map((e) => this.getEntryKey(notePath, e.noteChunkId)));
+      for (const key of [...(this.chunkKeysByNote.get(notePath) ?? [])]) {
+        if (!newKeys.has(key)) {
+          await this.removeEntry(key);
+        }
+      }
+
+      for (const embedding of embeddings) {
+        await this.setEntry({ ...embedding, notePath });
+      }
+    });
+  }
+
+  /**
+   * Invalidate (remove) a cached embedding
+   */
+  async invalidate(notePath: string): Promise<void> {
+    await this.initialize();
+    await this.exclusive(() => this.removeNote(notePath));
+  }
+
+  /**
+   * Flush all dirty chunks to storage
+   */
+  async flush(): Promise<void> {
     if (!this.index) {
-      await this.initialize();
+      return;
     }
+    await this.exclusive(() => this.writeDirty());
+  }
+
+  /**
+   * Get cache statistics
+   */
+  getStats(): CacheStats {
+    return { ...this.stats };
+  }
+
+  /**
+   * Check if cache has a valid embedding for a note
+   */
+  async has(notePath: string, contentHash: string): Promise<boolean> {
+    await this.initialize();
+
+    const index = this.getIndex();
+    const entry = index.entries[notePath];
+    return entry !== undefined && entry.contentHash === contentHash;
+  }
+
+  /**
+   * Get all cached note paths
+   */
+  async getAllPaths(): Promise<string[]> {
+    await this.initialize();
 
+    const index = this.getIndex();
+    return [...new Set(Object.values(index.entries).map((e) => e.notePath))];
+  }
+
+  /**
+   * Clear all cached embeddings
+   */
+  async clear(): Promise<void> {
+    await this.initialize();
+    await this.exclusive(() => this.clearAll());
+  }
+
+  /**
+   * Update cache for a different provider/model (invalidates all).
+   * A change in dimensions also invalidates, unless the cache predates recording them.
+   */
+  async setProviderModel(provider: string, model: string, dimensions?: number): Promise<void> {
+    await this.initialize();
+
+    await this.exclusive(async () => {
+      const index = this.getIndex();
+      const dimensionsChanged =
+        dimensions !== undefined &&
+        index.dimensions !== undefined &&
+        index.dimensions !== dimensions;
+
+      if (index.provider !== provider || index.model !== model || dimensionsChanged) {
+        // Provider/model changed, invalidate all
+        await this.clearAll();
+      }
+
+      // After clearAll(), this.index is reset, so get it again
+      const current = this.getIndex();
+      if (
+        current.provider !== provider ||
+        current.model !== model ||
+        current.dimensions !== dimensions
+      ) {
+        current.provider = provider;
+        current.model = model;
+        current.dimensions = dimensions;
+        // Persist now so a later load doesn't see the old provider/model
+        await this.storage.write(this.getIndexKey(), current);
+      }
+    });
+  }
+
+  /**
+   * Remove embeddings of notes that are no longer in the vault.
+   * Removed embeddings leave tombstones until the cache is compacted.
+   *
+   * @param existingPaths - Paths of all notes in the vault
+   * @returns Number of notes removed
+   */
+  async collectGarbage(existingPaths: Iterable<string>): Promise<number> {
+    await this.initialize();
+
+    const existing = new Set(existingPaths);
+    return this.exclusive(async () => {
+      const missing = (await this.getAllPaths()).filter((path) => !existing.has(path));
+      for (const path of missing) {
+        await this.removeNote(path);
+      }
+
+      if (missing.length > 0) {
+        await this.writeDirty();
+      }
+      return missing.length;
+    });
+  }
+
+  /**
+   * Check that every index entry points to a stored embedding of the same content,
+   * and measure the stored cache.
+   */
+  async checkIntegrity(): Promise<CacheIntegrityReport> {
+    await this.initialize();
+
+    return this.exclusive(async () => {
+      const index = this.getIndex();
+      const issues: CacheIntegrityIssue[] = [];
+      const usedSlots = new Set<string>();
+
+      for (const [key, entry] of Object.entries(index.entries)) {
+        const issue = await this.findEntryIssue(entry);
+        if (issue) {
+          issues.push({ type: issue, key });
+        } else {
+          usedSlots.add(`${entry.chunkId}:${entry.indexInChunk}`);
+        }
+      }
+
+      const referencedChunkIds = new Set(Object.values(index.entries).map((e) => e.chunkId));
+      const storedChunkIds = await this.getStoredChunkIds();
+      let totalSlots = 0;
+      let bytes = JSON.stringify(index).length;
+
+      for (const chunkId of storedChunkIds) {
+        if (!referencedChunkIds.has(chunkId)) {
+          issues.push({ type: 'orphaned-chunk', key: chunkId });
+        }
+        const chunk = await this.loadChunk(chunkId);
+        if (chunk) {
+          totalSlots += chunk.embeddings.length;
+          bytes += JSON.stringify(chunk).length;
+        }
+      }
+
+      return {
+        entries: Object.keys(index.entries).length,
+        notes: (await this.getAllPaths()).length,
+        chunks: storedChunkIds.length,
+        unusedSlots: totalSlots - usedSlots.size,
+        bytes,
+        issues,
+      };
+    });
+  }
+
+  /**
+   * Rewrite the cache without tombstones and point the index at the new positions.
+   * Entries whose embedding is missing or mismatched are dropped, and stored
+   * chunks no entry points to are deleted.
+   *
+   * New chunks get fresh IDs and the index is saved before old chunks are
+   * deleted, so an interrupted compaction leaves a consistent cache.
+   */
+  async compact(): Promise<CacheCompactionResult> {
+    await this.initialize();
+
+    return this.exclusive(async () => {
+      const index = this.getIndex();
+      const oldChunkIds = await this.getStoredChunkIds();
+      let totalSlots = 0;
+      for (const chunkId of oldChunkIds) {
+        totalSlots += (await this.loadChunk(chunkId))?.embeddings.length ?? 0;
+      }
+
+      // Keep stored order so embeddings of a note stay together
+      const entries = Object.entries(index.entries).sort(
+        ([, a], [, b]) => a.chunkId.localeCompare(b.chunkId) || a.indexInChunk - b.indexInChunk,
+      );
+
+      const kept: Array<{ key: string; embedding: CachedNoteEmbedding }> = [];
+      let droppedEntries = 0;
+      for (const [key, entry] of entries) {
+        const chunk = await this.loadChunk(entry.chunkId);
+        if (!chunk || (await this.findEntryIssue(entry))) {
+          delete index.entries[key];
+          droppedEntries++;
+          continue;
+        }
+        kept.push({ key, embedding: chunk.embeddings[entry.indexInChunk] });
+      }
+
+      const usedIds = new Set(oldChunkIds);
+      let nextId = 0;
+      const newChunks = new Map<string, EmbeddingChunk>();
+      for (let i = 0; i < kept.length; i += this.config.chunkSize) {
+        while (usedIds.has(this.formatChunkId(nextId))) {
+          nextId++;
+        }
+        const chunkId = this.formatChunkId(nextId);
+        usedIds.add(chunkId);
+
+        const slice = kept.slice(i, i + this.config.chunkSize);
+        newChunks.set(chunkId, {
+          id: chunkId,
+          embeddings: slice.map(({ embedding }) => embedding),
+          createdAt: Date.now(),
+          lastModified: Date.now(),
+        });
+        slice.forEach(({ key }, indexInChunk) => {
+          index.entries[key] = { ...index.entries[key], chunkId, indexInChunk };
+        });
+      }
+
+      for (const [chunkId, chunk] of newChunks) {
+        await this.storage.write(this.getChunkKey(chunkId), chunk);
+      }
+      index.lastUpdated = Date.now();
+      await this.storage.write(this.getIndexKey(), index);
+      for (const chunkId of oldChunkIds) {
+        await this.storage.delete(this.getChunkKey(chunkId));
+      }
+
+      this.chunks = newChunks;
+      this.dirty.clear();
+      this.rebuildChunkKeys();
+      this.stats.size = kept.length;
+      this.stats.chunkCount = newChunks.size;
+
+      return {
+        entries: kept.length,
+        droppedEntries,
+        removedSlots: totalSlots - kept.length,
+        chunksBefore: oldChunkIds.length,
+        chunksAfter: newChunks.size,
+      };
+    });
+  }
+
+  // ============ Private Methods ============
+
+  /**
+   * Run a change after the changes queued before it have finished.
+   * Callers share this instance, so two writers never pick the same storage
+   * slot or flush an index while another is halfway through updating it.
+   */
+  private exclusive<T>(operation: () => Promise<T>): Promise<T> {
+    const result = this.writeQueue.then(operation);
+    this.writeQueue = result.then(
+      () => undefined,
+      () => undefined,
+    );
+    return result;
+  }
+
+  /**
+   * Store an embedding; callers hold the write queue
+   */
+  private async setEntry(embedding: CachedNoteEmbedding): Promise<void> {
     const index = this.getIndex();
 
     // Update provider/model if this is first embedding
@@ -121,7 +532,8 @@ export class EmbeddingCacheManager {
     }
 
     // Check for existing entry
-    const existingEntry = index.entries[embedding.notePath];
+    const key = this.getEntryKey(embedding.notePath, embedding.noteChunkId);
+    const existingEntry = index.entries[key];
 
     if (existingEntry) {
       // Update existing entry
@@ -146,13 +558,17 @@ export class EmbeddingCacheManager {
       }
 
       // Add index entry
-      index.entries[embedding.notePath] = {
+      index.entries[key] = {
         notePath: embedding.notePath,
+        noteChunkId: embedding.noteChunkId,
         contentHash: embedding.contentHash,
         chunkId,
         indexInChunk,
       };
 
+      if (embedding.noteChunkId !== undefined) {
+        this.trackChunkKey(embedding.notePath, key);
+      }
       this.stats.size++;
     }
 
@@ -160,98 +576,35 @@ export class EmbeddingCacheManager {
   }
 
   /**
-   * Invalidate (remove) a cached embedding
+   * Remove the whole-note entry and any chunk entries of a note
    */
-  async invalidate(notePath: string): Promise<void> {
-    if (!this.index) {
-      await this.initialize();
-    }
-
-    const index = this.getIndex();
-    const entry = index.entries[notePath];
-    if (!entry) {
-      return;
+  private async removeNote(notePath: string): Promise<void> {
+    const keys = [notePath, ...(this.chunkKeysByNote.get(notePath) ?? [])];
+    for (const key of keys) {
+      await this.removeEntry(key);
     }
-
-    // Mark embedding as null in chunk (will be compacted later)
-    const chunk = await this.loadChunk(entry.chunkId);
-    if (chunk?.embeddings[entry.indexInChunk]) {
-      // We don't actually delete, just mark the slot as available
-      // by setting it to a tombstone value
-      chunk.embeddings[entry.indexInChunk] = null as unknown as CachedNoteEmbedding;
-      chunk.lastModified = Date.now();
-      this.dirty.add(entry.chunkId);
-    }
-
-    // Remove from index
-    delete index.entries[notePath];
-    this.stats.size--;
-    index.lastUpdated = Date.now();
   }
 
   /**
-   * Flush all dirty chunks to storage
+   * Save dirty chunks, then the index
    */
-  async flush(): Promise<void> {
-    if (!this.index) {
-      return;
-    }
-
-    // Save dirty chunks
+  private async writeDirty(): Promise<void> {
     for (const chunkId of this.dirty) {
       const chunk = this.chunks.get(chunkId);
       if (chunk) {
-        // Filter out null tombstones before saving
-        chunk.embeddings = chunk.embeddings.filter((e) => e !== null);
+        // Tombstones are kept so index positions stay valid
         await this.storage.write(this.getChunkKey(chunkId), chunk);
       }
     }
     this.dirty.clear();
 
-    // Save index
-    await this.storage.write(this.getIndexKey(), this.index);
-  }
-
-  /**
-   * Get cache statistics
-   */
-  getStats(): CacheStats {
-    return { ...this.stats };
-  }
-
-  /**
-   * Check if cache has a valid embedding for a note
-   */
-  async has(notePath: string, contentHash: string): Promise<boolean> {
-    if (!this.index) {
-      await this.initialize();
-    }
-
-    const index = this.getIndex();
-    const entry = index.entries[notePath];
-    return entry !== undefined && entry.contentHash === contentHash;
+    await this.storage.write(this.getIndexKey(), this.getIndex());
   }
 
   /**
-   * Get all cached note paths
+   * Delete all chunks and reset the index
    */
-  async getAllPaths(): Promise<string[]> {
-    if (!this.index) {
-      await this.initialize();
-    }
-
-    const index = this.getIndex();
-    return Object.keys(index.entries);
-  }
-
-  /**
-   * Clear all cached embeddings
-   */
-  async clear(): Promise<void> {
-    if (!this.index) {
-      await this.initialize();
-    }
-
+  private async clearAll(): Promise<void> {
     const index = this.getIndex();
 
     // Get all chunk IDs to delete
@@ -269,48 +622,143 @@ export class EmbeddingCacheManager {
     // Clear in-memory state
     this.chunks.clear();
     this.dirty.clear();
+    this.chunkKeysByNote.clear();
     this.stats = { hits: 0, misses: 0, size: 0, chunkCount: 0 };
   }
 
   /**
-   * Update cache for a different provider/model (invalidates all)
+   * Ensure index is initialized and return it
+   * @throws Error if index is not initialized (should never happen after initialize())
    */
-  async setProviderModel(provider: string, model: string): Promise<void> {
+  private getIndex(): EmbeddingIndex {
     if (!this.index) {
-      await this.initialize();
+      throw new Error('Cache not initialized. Call initialize() first.');
     }
+    return this.index;
+  }
 
-    const index = this.getIndex();
+  /**
+   * Index key for a whole-note or chunk embedding
+   */
+  private getEntryKey(notePath: string, noteChunkId?: string): string {
+    return noteChunkId === undefined ? notePath : `${notePath}#${noteChunkId}`;
+  }
+
+  private trackChunkKey(notePath: string, key: string): void {
+    const keys = this.chunkKeysByNote.get(notePath) ?? new Set<string>();
+    keys.add(key);
+    this.chunkKeysByNote.set(notePath, keys);
+  }
 
-    if (index.provider !== provider || index.model !== model) {
-      // Provider/model changed, invalidate all
-      await this.clear();
-      // After clear(), this.index is reset, so get it again
-      const newIndex = this.getIndex();
-      newIndex.provider = provider;
-      newIndex.model = model;
+  private rebuildChunkKeys(): void {
+    this.chunkKeysByNote.clear();
+    for (const [key, entry] of Object.entries(this.getIndex().entries)) {
+      if (entry.noteChunkId !== undefined) {
+        this.trackChunkKey(entry.notePath, key);
+      }
     }
   }
 
-  // ============ Private Methods ============
+  /**
+   * Remove an index entry, leaving a null tombstone in its storage chunk
+   */
+  private async removeEntry(key: string): Promise<void> {
+    const index = this.getIndex();
+    const entry = index.entries[key];
+    if (!entry) {
+      return;
+    }
+
+    // We don't actually delete, just mark the slot with a tombstone value
+    const chunk = await this.loadChunk(entry.chunkId);
+    if (chunk?.embeddings[entry.indexInChunk]) {
+      chunk.embeddings[entry.indexInChunk] = null as unknown as CachedNoteEmbedding;
+      chunk.lastModified = Date.now();
+      this.dirty.add(entry.chunkId);
+    }
+
+    delete index.entries[key];
+    this.chunkKeysByNote.get(entry.notePath)?.delete(key);
+    this.stats.size--;
+    index.lastUpdated = Date.now();
+  }
 
   /**
-   * Ensure index is initialized and return it
-   * @throws Error if index is not initialized (should never happen after initialize())
+   * Why an index entry does not lead to its embedding, or null if it does
    */
-  private getIndex(): EmbeddingIndex {
-    if (!this.index) {
-      throw new Error('Cache not initialized. Call initialize() first.');
+  private async findEntryIssue(
+    entry: EmbeddingIndexEntry,
+  ): Promise<'missing-chunk' | 'missing-embedding' | 'mismatched-entry' | null> {
+    const chunk = await this.loadChunk(entry.chunkId);
+    if (!chunk) {
+      return 'missing-chunk';
     }
-    return this.index;
+
+    const embedding = chunk.embeddings[entry.indexInChunk];
+    if (!embedding) {
+      return 'missing-embedding';
+    }
+
+    const matches =
+      embedding.notePath === entry.notePath &&
+      embedding.noteChunkId === entry.noteChunkId &&
+      embedding.contentHash === entry.contentHash;
+    return matches ? null : 'mismatched-entry';
+  }
+
+  /**
+   * IDs of chunks in storage, plus new chunks not flushed yet
+   */
+  private async getStoredChunkIds(): Promise<string[]> {
+    const chunkKeyPrefix = this.getChunkKey('');
+    const stored = (await this.storage.keys())
+      .filter((key) => key.startsWith(chunkKeyPrefix))
+      .map((key) => key.slice(chunkKeyPrefix.length));
+    return [...new Set([...stored, ...this.chunks.keys()])].sort();
   }
 
   private getIndexKey(): string {
-    return `${this.config.keyPrefix}/index`;
+    return `${this.getKeyPrefix()}/index`;
   }
 
   private getChunkKey(chunkId: string): string {
-    return `${this.config.keyPrefix}/chunk-${chunkId}`;
+    return `${this.getKeyPrefix()}/chunk-${chunkId}`;
+  }
+
+  private getKeyPrefix(): string {
+    const { keyPrefix, provider } = this.config;
+    return provider ? `${keyPrefix}/${provider}` : keyPrefix;
+  }
+
+  /**
+   * Move a cache stored before per-provider separation under this provider's keys.
+   * Only a legacy cache built by the same provider is moved; returns the moved index, if any.
+   */
+  private async migrateLegacyIndex(): Promise<EmbeddingIndex | null> {
+    const { keyPrefix, provider } = this.config;
+    if (!provider) {
+      return null;
+    }
+
+    const legacyIndexKey = `${keyPrefix}/index`;
+    const legacyIndex = await this.storage.read<EmbeddingIndex>(legacyIndexKey);
+    if (!legacyIndex || legacyIndex.provider !== provider) {
+      return null;
+    }
+
+    const chunkIds = new Set(Object.values(legacyIndex.entries).map((e) => e.chunkId));
+    for (const chunkId of chunkIds) {
+      const legacyChunkKey = `${keyPrefix}/chunk-${chunkId}`;
+      const chunk = await this.storage.read<EmbeddingChunk>(legacyChunkKey);
+      if (chunk) {
+        await this.storage.write(this.getChunkKey(chunkId), chunk);
+        await this.storage.delete(legacyChunkKey);
+      }
+    }
+
+    await this.storage.write(this.getIndexKey(), legacyIndex);
+    await this.storage.delete(legacyIndexKey);
+    return legacyIndex;
   }
 
   private createEmptyIndex(provider: string, model: string): EmbeddingIndex {
@@ -374,9 +822,13 @@ export class EmbeddingCacheManager {
     // Simple incrementing chunk ID
     const existingIds = new Set(Object.values(index.entries).map((e) => e.chunkId));
     let id = 0;
-    while (existingIds.has(id.toString().padStart(2, '0'))) {
+    while (existingIds.has(this.formatChunkId(id))) {
       id++;
     }
+    return this.formatChunkId(id);
+  }
+
+  private formatChunkId(id: number): string {
     return id.toString().padStart(2, '0');
   }
 
@@ -0,0 +1,125 @@
+import { stripFrontmatter } from './prepareText';
+import { estimateTokens } from './tokenUtils';
+import { DEFAULT_NOTE_CHUNK_CONFIG, type NoteChunk, type NoteChunkConfig } from './types';
+
+/**
+ * Section of a note before size-based splitting
+ */
+interface Section {
+  heading: string;
+  lines: string[];
+}
+
+const HEADING_REGEX = /^#{1,6}\s+(.+?)(?:\s+#+)?\s*$/;
+const FENCE_REGEX = /^\s*(```|~~~)/;
+
+/**
+ * Split a note into chunks at its markdown headings.
+ * Headings inside fenced code blocks are ignored, sections with no content
+ * besides their heading are dropped, and oversized sections are split at
+ * paragraph boundaries.
+ */
+export function chunkNoteByHeadings(
+  notePath: string,
+  content: string,
+  config: Partial<NoteChunkConfig> = {},
+): NoteChunk[] {
+  const { maxChunkTokens } = { ...DEFAULT_NOTE_CHUNK_CONFIG, ...config };
+  const chunks: NoteChunk[] = [];
+  const usedIds = new Set<string>();
+
+  for (const section of splitSections(stripFrontmatter(content))) {
+    const baseId = slugifyHeading(section.heading) || 'intro';
+
+    for (const part of splitOversized(section.lines.join('\n').trim(), maxChunkTokens)) {
+      let id = baseId;
+      for (let suffix = 2; usedIds.has(id); suffix++) {
+        id = `${baseId}-${suffix}`;
+      }
+      usedIds.add(id);
+
+      chunks.push({
+        id,
+        notePath,
+        heading: section.heading,
+        content: part,
+        tokenCount: estimateTokens(part),
+      });
+    }
+  }
+
+  return chunks;
+}
+
+/**
+ * Convert heading text to a lowercase, dash-separated identifier
+ */
+export function slugifyHeading(heading: string): string {
+  return heading
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s-]/gu, '')
+    .trim()
+    .replace(/[\s-]+/g, '-');
+}
+
+/**
+ * Group lines into sections, starting a new section at each heading
+ */
+function splitSections(body: string): Section[] {
+  const sections: Section[] = [];
+  let current: Section = { heading: '', lines: [] };
+  let inFence = false;
+
+  const pushCurrent = () => {
+    const bodyLines = current.heading ? current.lines.slice(1) : current.lines;
+    if (bodyLines.join('').trim()) {
+      sections.push(current);
+    }
+  };
+
+  for (const line of body.split('\n')) {
+    if (FENCE_REGEX.test(line)) {
+      inFence = !inFence;
+    }
+
+    const headingMatch = inFence ? null : line.match(HEADING_REGEX);
+    if (headingMatch) {
+      pushCurrent();
+      current = { heading: headingMatch[1].trim(), lines: [line] };
+    } else {
+      current.lines.push(line);
+    }
+  }
+
+  pushCurrent();
+  return sections;
+}
+
+/**
+ * Split text that exceeds the token limit into paragraph groups.
+ * A single paragraph larger than the limit is kept whole.
+ */
+function splitOversized(text: string, maxTokens: number): string[] {
+  if (estimateTokens(text) <= maxTokens) {
+    return [text];
+  }
+
+  const parts: string[] = [];
+  let current = '';
+
+  for (const paragraph of text.split(/\n\s*\n/)) {
+    const candidate = current ? `${current}\n\n${paragraph}` : paragraph;
+    if (current && estimateTokens(candidate) > maxTokens) {
+      parts.push(current);
+      current = paragraph;
+    } else {
+      current = candidate;
+    }
+  }
+
+  if (current.trim()) {
+    parts.push(current);
+  }
+
+  return parts;
+}
@@ -1,8 +1,16 @@
 import type { IEmbeddingProvider } from '@/ports/IEmbeddingProvider';
 import type { EmbeddingCacheManager } from './cache';
+import { chunkNoteByHeadings } from './chunkNotes';
 import { generateContentHash, prepareTextForEmbedding } from './prepareText';
-import type { EmbeddedNote, EmbeddingStats, PreparedNote, TextPrepareConfig } from './types';
-import { DEFAULT_TEXT_PREPARE_CONFIG } from './types';
+import type {
+  EmbeddedNote,
+  EmbeddedNoteChunk,
+  EmbeddingStats,
+  NoteChunkConfig,
+  PreparedNote,
+  TextPrepareConfig,
+} from './types';
+import { DEFAULT_NOTE_CHUNK_CONFIG, DEFAULT_TEXT_PREPARE_CONFIG } from './types';
 
 /**
  * Input for embedding a note
@@ -25,6 +33,8 @@ export type EmbeddingProgressCallback = (completed: number, total: number) => vo
 export interface EmbeddingOrchestratorConfig {
   /** Text preparation config */
   textPrepare: TextPrepareConfig;
+  /** Heading chunking config (used by embedNoteChunks) */
+  chunking: NoteChunkConfig;
   /** Whether to use cache */
   useCache: boolean;
 }
@@ -34,6 +44,7 @@ export interface EmbeddingOrchestratorConfig {
  */
 export const DEFAULT_ORCHESTRATOR_CONFIG: EmbeddingOrchestratorConfig = {
   textPrepare: DEFAULT_TEXT_PREPARE_CONFIG,
+  chunking: DEFAULT_NOTE_CHUNK_CONFIG,
   useCache: true,
 };
 
@@ -47,6 +58,16 @@ export interface EmbeddingResult {
   stats: EmbeddingStats;
 }
 
+/**
+ * Result of chunk embedding operation
+ */
+export interface ChunkEmbeddingResult {
+  /** Embedded chunks, grouped by note */
+  chunks: EmbeddedNoteChunk[];
+  /** Statistics (cache hits and misses are counted per note) */
+  stats: EmbeddingStats;
+}
+
 /**
  * Orchestrates embedding operations with caching and progress reporting
  */
@@ -175,6 +196,122 @@ export class EmbeddingOrchestrator {
     return { notes: results, stats };
   }
 
+  /**
+   * Embed notes as heading-level chunks
+   * Each note is split into chunks that are embedded separately, so long notes
+   * are represented in full rather than truncated. A note's chunks are cached
+   * and re-embedded together when its content changes.
+   */
+  async embedNoteChunks(
+    notes: NoteForEmbedding[],
+    onProgress?: EmbeddingProgressCallback,
+  ): Promise<ChunkEmbeddingResult> {
+    const stats: EmbeddingStats = {
+      cacheHits: 0,
+      cacheMisses: 0,
+      tokensProcessed: 0,
+      estimatedCost: 0,
+      apiCalls: 0,
+      notesProcessed: notes.length,
+    };
+
+    const cache = this.config.useCache ? this.cache : null;
+    const results: EmbeddedNoteChunk[] = [];
+    const toEmbed: Array<{ notePath: string; contentHash: string; chunkIds: string[] }> = [];
+    const inputs: Array<{ notePath: string; text: string }> = [];
+
+    if (cache) {
+      await cache.initialize();
+    }
+
+    for (const note of notes) {
+      const contentHash = generateContentHash(note.content);
+
+      const cached = cache ? await cache.getChunks(note.notePath, contentHash) : null;
+      if (cached) {
+        stats.cacheHits++;
+        for (const embedding of cached) {
+          results.push({
+            notePath: note.notePath,
+            noteChunkId: embedding.noteChunkId ?? '',
+            embedding: embedding.embedding,
+            contentHash: embedding.contentHash,
+            tokenCount: embedding.tokenCount,
+            fromCache: true,
+          });
+        }
+        continue;
+      }
+
+      stats.cacheMisses++;
+      const chunks = chunkNoteByHeadings(note.notePath, note.content, this.config.chunking);
+      toEmbed.push({ notePath: note.notePath, contentHash, chunkIds: chunks.map((c) => c.id) });
+      for (const chunk of chunks) {
+        inputs.push({
+          notePath: this.getChunkInputKey(note.notePath, chunk.id),
+          text: prepareTextForEmbedding(chunk.content, this.config.textPrepare),
+        });
+      }
+    }
+
+    onProgress?.(stats.cacheHits, notes.length);
+
+    if (inputs.length > 0) {
+      const embedResult = await this.provider.embedBatch(inputs);
+
+      stats.tokensProcessed = embedResult.totalTokens;
+      stats.estimatedCost = embedResult.usage.estimatedCost;
+      stats.apiCalls = embedResult.usage.apiCalls;
+
+      const embeddingsByKey = new Map(embedResult.embeddings.map((e) => [e.notePath, e]));
+
+      for (const note of toEmbed) {
+        const noteChunks: EmbeddedNoteChunk[] = [];
+        for (const chunkId of note.chunkIds) {
+          const embeddingResult = embeddingsByKey.get(
+            this.getChunkInputKey(note.notePath, chunkId),
+          );
+          if (!embeddingResult) continue;
+
+          noteChunks.push({
+            notePath: note.notePath,
+            noteChunkId: chunkId,
+            embedding: embeddingResult.embedding,
+            contentHash: note.contentHash,
+            tokenCount: embeddingResult.tokenCount,
+            fromCache: false,
+          });
+        }
+
+        results.push(...noteChunks);
+
+        if (cache && noteChunks.length > 0) {
+          await cache.setChunks(
+            note.notePath,
+            noteChunks.map((chunk) => ({
+              notePath: chunk.notePath,
+              noteChunkId: chunk.noteChunkId,
+              contentHash: chunk.contentHash,
+              embedding: chunk.embedding,
+              provider: this.provider.getProviderName(),
+              model: this.provider.getModelName(),
+              createdAt: Date.now(),
+              tokenCount: chunk.tokenCount,
+            })),
+          );
+        }
+      }
+
+      if (cache) {
+        await cache.flush();
+      }
+    }
+
+    onProgress?.(notes.length, notes.length);
+
+    return { chunks: results, stats };
+  }
+
   /**
    * Embed a single note
    */
@@ -237,6 +374,10 @@ export class EmbeddingOrchestrator {
 
   // ============ Private Methods ============
 
+  private getChunkInputKey(notePath: string, chunkId: string): string {
+    return `${notePath}#${chunkId}`;
+  }
+
   private prepareNote(note: NoteForEmbedding): PreparedNote {
     const preparedText = prepareTextForEmbedding(note.content, this.config.textPrepare);
     const contentHash = generateContentHash(note.content);
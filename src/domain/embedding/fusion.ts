@@ -0,0 +1,101 @@
+/**
+ * Reciprocal rank fusion of semantic and keyword search results.
+ */
+
+import type { LexicalResult } from './bm25';
+import type { SimilarityResult } from './similarity';
+
+/**
+ * Weights used when fusing rankings
+ */
+export interface FusionWeights {
+  /** Weight of the embedding similarity ranking */
+  semanticWeight: number;
+  /** Weight of the BM25 keyword ranking */
+  lexicalWeight: number;
+  /** Rank offset; larger values flatten the gap between top and lower ranks */
+  rrfK: number;
+}
+
+/**
+ * Default fusion weights. k = 60 is the value from the original RRF paper.
+ */
+export const DEFAULT_FUSION_WEIGHTS: FusionWeights = {
+  semanticWeight: 1,
+  lexicalWeight: 1,
+  rrfK: 60,
+};
+
+/**
+ * A note ranked by both searches
+ */
+export interface FusedResult extends SimilarityResult {
+  /** Fused RRF score */
+  fusedScore: number;
+  /** Share of the fused score from the semantic ranking (0-1) */
+  semanticContribution: number;
+  /** Share of the fused score from the keyword ranking (0-1) */
+  lexicalContribution: number;
+}
+
+/**
+ * Fuse semantic and keyword rankings with weighted reciprocal rank fusion.
+ * Each list adds weight / (rrfK + rank) for every note it contains.
+ *
+ * Notes found only by keyword search get a similarity of 0.
+ *
+ * @param semantic - Similarity results sorted by similarity (highest first)
+ * @param lexical - Keyword results sorted by score (highest first)
+ * @param k - Number of results to return
+ * @param weights - Fusion weights
+ * @returns Fused results sorted by fused score (highest first)
+ */
+export function reciprocalRankFusion(
+  semantic: SimilarityResult[],
+  lexical: LexicalResult[],
+  k: number,
+  weights: FusionWeights = DEFAULT_FUSION_WEIGHTS,
+): FusedResult[] {
+  if (k <= 0) {
+    return [];
+  }
+
+  const scores = new Map<string, { similarity: number; semantic: number; lexical: number }>();
+  const getEntry = (notePath: string) => {
+    let entry = scores.get(notePath);
+    if (!entry) {
+      entry = { similarity: 0, semantic: 0, lexical: 0 };
+      scores.set(notePath, entry);
+    }
+    return entry;
+  };
+
+  semantic.forEach((result, i) => {
+    const entry = getEntry(result.notePath);
+    entry.similarity = result.similarity;
+    entry.semantic = weights.semanticWeight / (weights.rrfK + i + 1);
+  });
+
+  lexical.forEach((result, i) => {
+    getEntry(result.notePath).lexical = weights.lexicalWeight / (weights.rrfK + i + 1);
+  });
+
+  const results: FusedResult[] = [];
+  for (const [notePath, entry] of scores) {
+    const fusedScore = entry.semantic + entry.lexical;
+    if (fusedScore <= 0) continue;
+
+    results.push({
+      notePath,
+      similarity: entry.similarity,
+      fusedScore,
+      semanticContribution: entry.semantic / fusedScore,
+      lexicalContribution: entry.lexical / fusedScore,
+    });
+  }
+
+  // Ties keep semantic order: higher similarity first
+  results.sort((a, b) => b.fusedScore - a.fusedScore || b.similarity - a.similarity);
+
+  return results.slice(0, k);
+}
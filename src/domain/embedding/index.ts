@@ -2,14 +2,17 @@
 export type {
   CachedNoteEmbedding,
   EmbeddedNote,
+  EmbeddedNoteChunk,
   EmbeddingChunk,
   EmbeddingIndex,
   EmbeddingIndexEntry,
   EmbeddingStats,
+  NoteChunk,
+  NoteChunkConfig,
   PreparedNote,
   TextPrepareConfig,
 } from './types';
-export { DEFAULT_TEXT_PREPARE_CONFIG } from './types';
+export { DEFAULT_NOTE_CHUNK_CONFIG, DEFAULT_TEXT_PREPARE_CONFIG } from './types';
 
 // Token utilities
 export { estimateTokens } from './tokenUtils';
@@ -26,12 +29,36 @@ export {
   truncateToTokenLimit,
 } from './prepareText';
 
+// Chunking
+export { chunkNoteByHeadings, slugifyHeading } from './chunkNotes';
+
 // Cache
-export type { CacheStats, EmbeddingCacheConfig } from './cache';
+export type {
+  CacheCompactionResult,
+  CacheIntegrityIssue,
+  CacheIntegrityReport,
+  CacheStats,
+  EmbeddingCacheConfig,
+} from './cache';
 export { DEFAULT_CACHE_CONFIG, EmbeddingCacheManager } from './cache';
 
+// Approximate nearest-neighbor search
+export type { AnnEntry, AnnIndexConfig, AnnIndexMeta, AnnListChunk } from './annIndex';
+export { AnnIndexManager, DEFAULT_ANN_INDEX_CONFIG } from './annIndex';
+
+// Keyword search
+export type {
+  BM25Config,
+  BM25Document,
+  BM25DocumentChunk,
+  BM25IndexMeta,
+  LexicalResult,
+} from './bm25';
+export { BM25IndexManager, DEFAULT_BM25_CONFIG, tokenizeForSearch } from './bm25';
+
 // Batch embedding
 export type {
+  ChunkEmbeddingResult,
   EmbeddingOrchestratorConfig,
   EmbeddingProgressCallback,
   EmbeddingResult,
@@ -39,15 +66,30 @@ export type {
 } from './embedBatch';
 export { DEFAULT_ORCHESTRATOR_CONFIG, EmbeddingOrchestrator } from './embedBatch';
 
+// Background indexing
+export type {
+  BackgroundIndexerConfig,
+  BackgroundIndexerStatus,
+  BackgroundIndexerStatusCallback,
+} from './backgroundIndexer';
+export { BackgroundIndexer, DEFAULT_BACKGROUND_INDEXER_CONFIG } from './backgroundIndexer';
+
 // Empty text filtering
 export type { FilteredEmbeddingInputs } from './filterEmptyTexts';
 export { filterEmptyTexts } from './filterEmptyTexts';
 
 // Similarity utilities
-export type { SimilarityResult } from './similarity';
+export type { ChunkAggregation, SimilarityResult } from './similarity';
 export {
+  aggregateChunkSimilarities,
   cosineSimilarity,
   findTopKSimilar,
+  findTopKSimilarByChunks,
   relevanceScoreToSimilarity,
+  selectTopK,
   similarityToRelevanceScore,
 } from './similarity';
+
+// Hybrid search
+export type { FusedResult, FusionWeights } from './fusion';
+export { DEFAULT_FUSION_WEIGHTS, reciprocalRankFusion } from './fusion';
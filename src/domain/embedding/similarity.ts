@@ -64,10 +64,132 @@ export function findTopKSimilar(
     });
   }
 
-  // Sort by similarity descending
-  results.sort((a, b) => b.similarity - a.similarity);
+  return selectTopK(results, k);
+}
+
+/**
+ * Select the k results with the highest similarity without sorting all of them.
+ * Keeps a bounded min-heap of the best results seen so far, so large vaults
+ * cost O(n log k) instead of O(n log n). Ties keep their input order, as with a stable sort.
+ *
+ * @param results - Unsorted similarity results
+ * @param k - Number of results to return
+ * @returns The top k results sorted by similarity (highest first)
+ */
+export function selectTopK(results: SimilarityResult[], k: number): SimilarityResult[] {
+  if (k <= 0) {
+    return [];
+  }
+
+  // Heap of input positions; the root is the worst result kept
+  const heap: number[] = [];
+  const isWorse = (a: number, b: number) =>
+    results[a].similarity < results[b].similarity ||
+    (results[a].similarity === results[b].similarity && a > b);
+
+  const siftUp = (start: number) => {
+    let i = start;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (!isWorse(heap[i], heap[parent])) break;
+      [heap[i], heap[parent]] = [heap[parent], heap[i]];
+      i = parent;
+    }
+  };
+
+  const siftDown = (start: number) => {
+    let i = start;
+    while (true) {
+      const left = 2 * i + 1;
+      const right = left + 1;
+      let worst = i;
+      if (left < heap.length && isWorse(heap[left], heap[worst])) worst = left;
+      if (right < heap.length && isWorse(heap[right], heap[worst])) worst = right;
+      if (worst === i) break;
+      [heap[i], heap[worst]] = [heap[worst], heap[i]];
+      i = worst;
+    }
+  };
+
+  for (let i = 0; i < results.length; i++) {
+    if (heap.length < k) {
+      heap.push(i);
+      siftUp(heap.length - 1);
+    } else if (isWorse(heap[0], i)) {
+      heap[0] = i;
+      siftDown(0);
+    }
+  }
+
+  return heap.sort((a, b) => (isWorse(a, b) ? 1 : -1)).map((i) => results[i]);
+}
+
+/**
+ * How chunk similarities are combined into a single note similarity.
+ * - 'max': similarity of the best-matching chunk
+ * - 'mean-top-n': mean similarity of the n best-matching chunks
+ */
+export type ChunkAggregation = 'max' | 'mean-top-n';
+
+/**
+ * Combine the similarities of a note's chunks into one note similarity.
+ *
+ * @param similarities - Similarity of each chunk to the query
+ * @param aggregation - Aggregation strategy
+ * @param topN - Number of chunks averaged by 'mean-top-n'
+ * @returns Note similarity, or -1 if the note has no chunks
+ */
+export function aggregateChunkSimilarities(
+  similarities: number[],
+  aggregation: ChunkAggregation,
+  topN = 3,
+): number {
+  if (similarities.length === 0) {
+    return -1;
+  }
+
+  const sorted = [...similarities].sort((a, b) => b - a);
+
+  if (aggregation === 'max') {
+    return sorted[0];
+  }
+
+  const top = sorted.slice(0, Math.max(1, topN));
+  return top.reduce((sum, s) => sum + s, 0) / top.length;
+}
+
+/**
+ * Find top-k most similar notes from their chunk embeddings.
+ *
+ * @param queryEmbedding - The query embedding vector
+ * @param chunkEmbeddings - Map of note paths to the embeddings of their chunks
+ * @param k - Number of top results to return
+ * @param aggregation - How chunk similarities are combined per note
+ * @param topN - Number of chunks averaged by 'mean-top-n'
+ * @returns Array of similarity results sorted by similarity (highest first)
+ */
+export function findTopKSimilarByChunks(
+  queryEmbedding: number[],
+  chunkEmbeddings: Map<string, number[][]>,
+  k: number,
+  aggregation: ChunkAggregation,
+  topN = 3,
+): SimilarityResult[] {
+  if (chunkEmbeddings.size === 0 || k <= 0) {
+    return [];
+  }
+
+  const results: SimilarityResult[] = [];
+
+  for (const [notePath, embeddings] of chunkEmbeddings) {
+    const similarities = embeddings.map((embedding) => cosineSimilarity(queryEmbedding, embedding));
+    results.push({
+      notePath,
+      similarity: aggregateChunkSimilarities(similarities, aggregation, topN),
+    });
+  }
 
-  return results.slice(0, Math.min(k, results.length));
+  return selectTopK(results, k);
 }
 
 /**
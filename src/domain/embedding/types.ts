@@ -16,6 +16,8 @@ export interface CachedNoteEmbedding {
   createdAt: number;
   /** Number of tokens in the input text */
   tokenCount: number;
+  /** Heading chunk within the note (absent for whole-note embeddings) */
+  noteChunkId?: string;
 }
 
 /**
@@ -24,6 +26,8 @@ export interface CachedNoteEmbedding {
 export interface EmbeddingIndexEntry {
   /** Path to the note */
   notePath: string;
+  /** Heading chunk within the note (absent for whole-note embeddings) */
+  noteChunkId?: string;
   /** Hash of the note content */
   contentHash: string;
   /** ID of the chunk containing the embedding */
@@ -42,7 +46,9 @@ export interface EmbeddingIndex {
   provider: string;
   /** Model used for embeddings */
   model: string;
-  /** Map of note path to index entry */
+  /** Vector size, for models with a configurable size (absent in older caches) */
+  dimensions?: number;
+  /** Map of note path (or note path#chunk id for chunk embeddings) to index entry */
   entries: Record<string, EmbeddingIndexEntry>;
   /** Timestamp of last update */
   lastUpdated: number;
@@ -120,6 +126,14 @@ export interface EmbeddedNote {
   fromCache: boolean;
 }
 
+/**
+ * Heading chunk of a note with embedding
+ */
+export interface EmbeddedNoteChunk extends EmbeddedNote {
+  /** Chunk identifier, unique within the note */
+  noteChunkId: string;
+}
+
 /**
  * Statistics for embedding operations
  */
@@ -137,3 +151,34 @@ export interface EmbeddingStats {
   /** Total notes processed */
   notesProcessed: number;
 }
+
+/**
+ * A heading-delimited section of a note
+ */
+export interface NoteChunk {
+  /** Chunk identifier, unique within the note (slug of the heading) */
+  id: string;
+  /** Path to the note the chunk belongs to */
+  notePath: string;
+  /** Heading text of the section ('' for content before the first heading) */
+  heading: string;
+  /** Raw markdown of the section, including its heading line */
+  content: string;
+  /** Estimated token count of the content */
+  tokenCount: number;
+}
+
+/**
+ * Configuration for splitting notes into chunks
+ */
+export interface NoteChunkConfig {
+  /** Sections larger than this are split at paragraph boundaries */
+  maxChunkTokens: number;
+}
+
+/**
+ * Default configuration for note chunking
+ */
+export const DEFAULT_NOTE_CHUNK_CONFIG: NoteChunkConfig = {
+  maxChunkTokens: 800,
+};
@@ -1,6 +1,10 @@
-import { BRAINSTORM_SYSTEM_PROMPT } from '@/adapters/anthropic/prompts/brainstorm';
+import {
+  BRAINSTORM_SYSTEM_PROMPT,
+  buildGoalRefinementRequest,
+} from '@/adapters/anthropic/prompts/brainstorm';
 import type { ILLMProvider, LLMMessage, LLMStreamCallbacks } from '@/ports';
-import type { Milestone } from './types';
+import { chatForJson, retryForJson } from './jsonRetry';
+import type { Goal, Milestone } from './types';
 
 /**
  * Represents a goal draft extracted from conversation.
@@ -25,13 +29,7 @@ export class BrainstormService {
     conversationHistory: Array<{ role: 'user' | 'assistant'; content: string }>,
     callbacks: LLMStreamCallbacks,
   ): Promise<void> {
-    const messages: LLMMessage[] = [
-      { role: 'system', content: BRAINSTORM_SYSTEM_PROMPT },
-      ...conversationHistory.map((msg) => ({
-        role: msg.role as 'user' | 'assistant',
-        content: msg.content,
-      })),
-    ];
+    const messages = this.buildMessages(conversationHistory);
 
     await this.llmProvider.streamChat(messages, callbacks, {
       temperature: 0.7,
@@ -90,6 +88,52 @@ export class BrainstormService {
     }
   }
 
+  /**
+   * Check whether a response attempted a goal draft, even one that failed to parse.
+   */
+  looksLikeGoalDraft(response: string): boolean {
+    return /```json/.test(response) || /"milestones"\s*:/.test(response);
+  }
+
+  /**
+   * Ask the LLM to restate a goal draft that failed to parse.
+   * The conversation history should end with the user message the response answered.
+   * Returns null if no retry produced a valid draft.
+   */
+  async repairGoalDraft(
+    conversationHistory: Array<{ role: 'user' | 'assistant'; content: string }>,
+    response: string,
+  ): Promise<GoalDraft | null> {
+    return retryForJson(
+      this.llmProvider,
+      this.buildMessages(conversationHistory),
+      response,
+      { temperature: 0.2, maxTokens: 2000 },
+      (content) => this.extractGoalDraft(content),
+    );
+  }
+
+  /**
+   * Ask the LLM to refine an existing goal in a single exchange.
+   * Only the name, description and deadline are refined; the draft keeps the goal's milestones.
+   * Returns null if no reply contained a valid draft.
+   */
+  async refineGoal(goal: Goal, instructions?: string): Promise<GoalDraft | null> {
+    const milestones = [...goal.milestones].sort((a, b) => a.order - b.order).map((m) => m.content);
+    const request = buildGoalRefinementRequest(
+      { name: goal.name, description: goal.description, deadline: goal.deadline, milestones },
+      instructions,
+    );
+
+    const draft = await chatForJson(
+      this.llmProvider,
+      this.buildMessages([{ role: 'user', content: request }]),
+      { temperature: 0.4, maxTokens: 1000 },
+      (content) => this.extractGoalDraft(content),
+    );
+    return draft ? { ...draft, milestones } : null;
+  }
+
   /**
    * Convert goal draft to milestone objects.
    */
@@ -101,4 +145,19 @@ export class BrainstormService {
       order: index,
     }));
   }
+
+  /**
+   * Build the message list for a brainstorming conversation.
+   */
+  private buildMessages(
+    conversationHistory: Array<{ role: 'user' | 'assistant'; content: string }>,
+  ): LLMMessage[] {
+    return [
+      { role: 'system', content: BRAINSTORM_SYSTEM_PROMPT },
+      ...conversationHistory.map((msg) => ({
+        role: msg.role as 'user' | 'assistant',
+        content: msg.content,
+      })),
+    ];
+  }
 }
@@ -1,7 +1,9 @@
-import { DISCUSS_SYSTEM_PROMPT, buildNotesContext } from '@/adapters/anthropic/prompts/discuss';
+import { buildNotesContext, getDiscussSystemPrompt } from '@/adapters/anthropic/prompts/discuss';
 import type { ILLMProvider, IVaultProvider, LLMMessage, LLMStreamCallbacks } from '@/ports';
+import type { NoteContent, NoteContextRetriever } from './NoteContextRetriever';
 import { parseFrontmatter, serializeFrontmatter } from './frontmatterUtils';
-import type { ChatMessage, Conversation, Goal } from './types';
+import { DISCUSS_MODE_LABELS, isDiscussMode } from './types';
+import type { ChatMessage, Conversation, DiscussMode, Goal } from './types';
 
 /**
  * Frontmatter structure for conversation markdown files.
@@ -10,7 +12,9 @@ interface ConversationFrontmatter {
   id: string;
   goalId: string;
   topic: string;
+  mode?: DiscussMode;
   createdAt: string;
+  milestoneId?: string;
 }
 
 /**
@@ -19,10 +23,15 @@ interface ConversationFrontmatter {
  */
 export class ConversationService {
   private static readonly CONVERSATIONS_FOLDER = 'conversations';
+  private static readonly RESPONSE_MAX_TOKENS = 2000;
 
+  /**
+   * @param contextRetriever - Selects relevant note excerpts per turn; without it every note is sent whole
+   */
   constructor(
     private vaultProvider: IVaultProvider,
     private llmProvider: ILLMProvider,
+    private contextRetriever?: NoteContextRetriever,
   ) {}
 
   /**
@@ -72,8 +81,14 @@ export class ConversationService {
 
   /**
    * Create a new conversation.
+   * @param milestoneId - Scope the discussion to this milestone
    */
-  async createConversation(goalId: string, topic?: string): Promise<Conversation> {
+  async createConversation(
+    goalId: string,
+    topic?: string,
+    mode: DiscussMode = 'explore',
+    milestoneId?: string,
+  ): Promise<Conversation> {
     const conversationId = this.generateConversationId();
     const now = new Date().toISOString();
 
@@ -81,8 +96,10 @@ export class ConversationService {
       id: conversationId,
       goalId,
       topic: topic ?? 'New Discussion',
+      mode,
       messages: [],
       createdAt: now,
+      milestoneId,
     };
 
     await this.saveConversation(conversation);
@@ -107,6 +124,7 @@ export class ConversationService {
       role: message.role,
       content: message.content,
       sources: message.sources,
+      mode: message.mode,
       timestamp: new Date().toISOString(),
     };
 
@@ -157,6 +175,25 @@ export class ConversationService {
     return conversation;
   }
 
+  /**
+   * Switch the discussion mode of a conversation.
+   * Subsequent messages are tagged with the new mode, which records the switch in the transcript.
+   */
+  async updateMode(
+    goalId: string,
+    conversationId: string,
+    mode: DiscussMode,
+  ): Promise<Conversation> {
+    const conversation = await this.getConversationById(goalId, conversationId);
+    if (!conversation) {
+      throw new Error(`Conversation not found: ${conversationId}`);
+    }
+
+    conversation.mode = mode;
+    await this.saveConversation(conversation);
+    return conversation;
+  }
+
   /**
    * Delete a conversation.
    */
@@ -173,33 +210,82 @@ export class ConversationService {
 
   /**
    * Stream a discussion response from the LLM.
+   * @param milestoneId - Frame the discussion around this milestone of the goal
    */
   async streamDiscussionResponse(
     goal: Goal,
     conversationHistory: ChatMessage[],
-    noteContents: Array<{ path: string; content: string }>,
+    noteContents: NoteContent[],
     callbacks: LLMStreamCallbacks,
+    mode: DiscussMode = 'explore',
+    milestoneId?: string,
   ): Promise<void> {
-    const notesContext = buildNotesContext(noteContents);
+    const systemPrompt = getDiscussSystemPrompt(mode);
+    let goalIntro = `I'm working on a learning goal: "${goal.name}"\n\nGoal description: ${goal.description}`;
+    const milestone = goal.milestones.find((m) => m.id === milestoneId);
+    if (milestone) {
+      goalIntro += `\n\nRight now I'm working on the milestone "${milestone.content}". Keep the discussion focused on this milestone.`;
+    }
+    const history: LLMMessage[] = conversationHistory.map((msg) => ({
+      role: msg.role as 'user' | 'assistant',
+      content: msg.content,
+    }));
+
+    const reservedTokens =
+      this.llmProvider.estimateTokens(
+        [systemPrompt, goalIntro, ...history.map((msg) => msg.content)].join('\n'),
+      ) + ConversationService.RESPONSE_MAX_TOKENS;
+    const selectedNotes = await this.selectNoteContext(
+      conversationHistory,
+      noteContents,
+      reservedTokens,
+    );
+    const notesContext = buildNotesContext(selectedNotes);
 
     const messages: LLMMessage[] = [
-      { role: 'system', content: DISCUSS_SYSTEM_PROMPT },
-      {
-        role: 'user',
-        content: `I'm working on a learning goal: "${goal.name}"\n\nGoal description: ${goal.description}\n\n${notesContext}`,
-      },
-      ...conversationHistory.map((msg) => ({
-        role: msg.role as 'user' | 'assistant',
-        content: msg.content,
-      })),
+      { role: 'system', content: systemPrompt },
+      { role: 'user', content: `${goalIntro}\n\n${notesContext}` },
+      ...history,
     ];
 
     await this.llmProvider.streamChat(messages, callbacks, {
       temperature: 0.7,
-      maxTokens: 2000,
+      maxTokens: ConversationService.RESPONSE_MAX_TOKENS,
     });
   }
 
+  /**
+   * Pick the note content to send for the current turn.
+   * Falls back to whole notes when there is no retriever or retrieval fails.
+   */
+  private async selectNoteContext(
+    conversationHistory: ChatMessage[],
+    noteContents: NoteContent[],
+    reservedTokens: number,
+  ): Promise<NoteContent[]> {
+    if (!this.contextRetriever || noteContents.length === 0) {
+      return noteContents;
+    }
+
+    // Include the previous user turn so follow-ups like "tell me more" keep their subject
+    const query = conversationHistory
+      .filter((msg) => msg.role === 'user')
+      .slice(-2)
+      .map((msg) => msg.content)
+      .join('\n');
+
+    if (!query.trim()) {
+      return noteContents;
+    }
+
+    try {
+      return await this.contextRetriever.selectContext(noteContents, query, reservedTokens);
+    } catch (error) {
+      console.warn('Failed to retrieve note context, using full notes:', error);
+      return noteContents;
+    }
+  }
+
   /**
    * Generate a topic for the conversation based on its content.
    */
@@ -289,6 +375,7 @@ export class ConversationService {
       id: exists ? conversationId : this.generateConversationId(),
       goalId,
       topic: 'Recovered Discussion',
+      mode: 'explore',
       messages: [],
       createdAt: now,
     };
@@ -309,7 +396,9 @@ export class ConversationService {
       // Try to parse frontmatter first
       let id = conversationId;
       let topic = 'Recovered Discussion';
+      let mode: DiscussMode = 'explore';
       let createdAt = new Date().toISOString();
+      let milestoneId: string | undefined;
 
       // Try extracting frontmatter data
       const frontmatterMatch = content.match(/^---\n([\s\S]*?)\n---/);
@@ -317,11 +406,16 @@ export class ConversationService {
         const frontmatterContent = frontmatterMatch[1];
         const idMatch = frontmatterContent.match(/id:\s*["']?([^"'\n]+)["']?/);
         const topicMatch = frontmatterContent.match(/topic:\s*["']?([^"'\n]+)["']?/);
+        const modeMatch = frontmatterContent.match(/mode:\s*["']?([^"'\n]+)["']?/);
         const createdMatch = frontmatterContent.match(/createdAt:\s*["']?([^"'\n]+)["']?/);
+        const milestoneMatch = frontmatterContent.match(/milestoneId:\s*["']?([^"'\n]+)["']?/);
 
         if (idMatch) id = idMatch[1].trim();
         if (topicMatch) topic = topicMatch[1].trim();
+        if (modeMatch && isDiscussMode(modeMatch[1].trim()))
+          mode = modeMatch[1].trim() as DiscussMode;
         if (createdMatch) createdAt = createdMatch[1].trim();
+        if (milestoneMatch) milestoneId = milestoneMatch[1].trim();
       }
 
       // Try to extract messages from body
@@ -333,8 +427,10 @@ export class ConversationService {
         id,
         goalId,
         topic,
+        mode,
         messages,
         createdAt,
+        milestoneId,
       };
     } catch {
       return null;
@@ -355,8 +451,10 @@ export class ConversationService {
       id: frontmatter.id,
       goalId: frontmatter.goalId,
       topic: frontmatter.topic,
+      mode: isDiscussMode(frontmatter.mode) ? frontmatter.mode : 'explore',
       messages,
       createdAt: frontmatter.createdAt,
+      milestoneId: frontmatter.milestoneId ?? undefined,
     };
   }
 
@@ -374,7 +472,9 @@ export class ConversationService {
       id: conversation.id,
       goalId: conversation.goalId,
       topic: conversation.topic,
+      mode: conversation.mode,
       createdAt: conversation.createdAt,
+      milestoneId: conversation.milestoneId,
     };
 
     const body = this.serializeMessagesToBody(conversation.messages);
@@ -406,8 +506,9 @@ export class ConversationService {
       const role = headerMatch[1].toLowerCase() as 'user' | 'assistant';
       const timestamp = headerMatch[2];
 
-      // Find sources if present
+      // Find sources and mode if present
       let sources: string[] | undefined;
+      let mode: DiscussMode | undefined;
       const contentLines: string[] = [];
 
       for (let i = 1; i < lines.length; i++) {
@@ -415,6 +516,8 @@ export class ConversationService {
         if (line.startsWith('Sources: ')) {
           const sourcesStr = line.replace('Sources: ', '');
           sources = sourcesStr.split(', ').filter((s) => s.trim());
+        } else if (line.startsWith('Mode: ') && isDiscussMode(line.slice(6).trim())) {
+          mode = line.slice(6).trim() as DiscussMode;
         } else {
           contentLines.push(line);
         }
@@ -428,6 +531,7 @@ export class ConversationService {
         role,
         content,
         sources,
+        mode,
         timestamp,
       });
     }
@@ -444,8 +548,15 @@ export class ConversationService {
     }
 
     const blocks: string[] = ['# Conversation\n'];
+    let previousMode: DiscussMode | undefined;
 
     for (const message of messages) {
+      // Record mode switches as a marker block; the parser skips blocks without a role header
+      if (message.mode && previousMode && message.mode !== previousMode) {
+        blocks.push(`_Switched to ${DISCUSS_MODE_LABELS[message.mode]} mode_`);
+      }
+      previousMode = message.mode ?? previousMode;
+
       const roleLabel = message.role === 'user' ? 'User' : 'Assistant';
       let block = `## ${roleLabel} - ${message.timestamp}\n\n${message.content}`;
 
@@ -453,6 +564,10 @@ export class ConversationService {
         block += `\n\nSources: ${message.sources.join(', ')}`;
       }
 
+      if (message.mode) {
+        block += `\nMode: ${message.mode}`;
+      }
+
       blocks.push(block);
     }
 
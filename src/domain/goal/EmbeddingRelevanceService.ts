@@ -1,12 +1,30 @@
 import { createNoteRelevancePrompt } from '@/adapters/anthropic/prompts/noteRelevance';
 import {
+  type AnnEntry,
+  AnnIndexManager,
+  BM25IndexManager,
+  type CachedNoteEmbedding,
+  type ChunkAggregation,
+  DEFAULT_FUSION_WEIGHTS,
   EmbeddingCacheManager,
   EmbeddingOrchestrator,
-  findTopKSimilar,
+  type FusedResult,
+  type LexicalResult,
+  type SimilarityResult,
+  aggregateChunkSimilarities,
+  cosineSimilarity,
+  findTopKSimilarByChunks,
+  reciprocalRankFusion,
   similarityToRelevanceScore,
 } from '@/domain/embedding';
-import { filterByIncludePatterns, filterExcludedPaths } from '@/domain/pipeline/pathFilter';
-import type { IEmbeddingProvider, ILLMProvider, IStorageAdapter, IVaultProvider } from '@/ports';
+import { filterNotePaths } from '@/domain/pipeline/pathFilter';
+import type {
+  FileInfo,
+  IEmbeddingProvider,
+  ILLMProvider,
+  IStorageAdapter,
+  IVaultProvider,
+} from '@/ports';
 import type { GoalDraft } from './BrainstormService';
 import type { ScoredNote } from './NoteRelevanceService';
 
@@ -26,31 +44,61 @@ export type RelevanceProgressCallback = (
 export interface EmbeddingRelevanceConfig {
   /** Number of top candidates to consider (default: 40) */
   topK: number;
+  /** Number of nearest notes taken from the vector index before rank fusion (default: 200) */
+  semanticCandidates: number;
   /** Whether to use LLM for explanations (default: true) */
   useLLMExplanations: boolean;
+  /** Whether to embed notes as heading-level chunks instead of one vector per note (default: false) */
+  useChunks: boolean;
+  /** How chunk scores are combined into a note score (default: 'max') */
+  chunkAggregation: ChunkAggregation;
+  /** Number of chunks averaged by 'mean-top-n' aggregation (default: 3) */
+  chunkTopN: number;
+  /** Weight of the embedding similarity ranking in rank fusion (default: 1) */
+  semanticWeight: number;
+  /** Weight of the BM25 keyword ranking in rank fusion; 0 disables keyword search (default: 1) */
+  lexicalWeight: number;
+  /** Rank offset of reciprocal rank fusion (default: 60) */
+  rrfK: number;
 }
 
+/**
+ * Chunks fetched per candidate note in chunk mode, since one note can have many close chunks
+ */
+const CHUNK_CANDIDATES_PER_NOTE = 3;
+
 /**
  * Default configuration
  */
 export const DEFAULT_EMBEDDING_RELEVANCE_CONFIG: EmbeddingRelevanceConfig = {
   topK: 40,
+  semanticCandidates: 200,
   useLLMExplanations: true,
+  useChunks: false,
+  chunkAggregation: 'max',
+  chunkTopN: 3,
+  ...DEFAULT_FUSION_WEIGHTS,
 };
 
 /**
  * Service for embedding-based note relevance scoring.
  *
- * Uses vector embeddings with cosine similarity for initial candidate retrieval,
- * then LLM reranking for top candidates to provide explanations.
+ * Uses vector embeddings with cosine similarity, fused with BM25 keyword search,
+ * for initial candidate retrieval, then LLM reranking for top candidates to
+ * provide explanations. Keyword search catches notes sharing exact jargon with
+ * the goal (acronyms, library names) that embeddings can miss.
  *
  * This approach scales to 100k+ notes by:
- * 1. Embedding notes once and caching them
- * 2. Using fast cosine similarity for initial filtering
+ * 1. Embedding and tokenizing notes once and caching them, and only reading
+ *    notes modified since they were cached
+ * 2. Using an approximate nearest-neighbor index and BM25 for initial filtering
  * 3. Only sending top-K candidates to LLM for explanations
  */
 export class EmbeddingRelevanceService {
+  private cache: EmbeddingCacheManager;
   private orchestrator: EmbeddingOrchestrator;
+  private lexicalIndex: BM25IndexManager;
+  private annIndex: AnnIndexManager;
   private config: EmbeddingRelevanceConfig;
 
   constructor(
@@ -59,10 +107,22 @@ export class EmbeddingRelevanceService {
     private llmProvider: ILLMProvider,
     storageAdapter: IStorageAdapter,
     config?: Partial<EmbeddingRelevanceConfig>,
+    embeddingCache?: EmbeddingCacheManager,
   ) {
-    const cache = new EmbeddingCacheManager(storageAdapter);
-    this.orchestrator = new EmbeddingOrchestrator(embeddingProvider, cache);
+    // Pass the plugin's shared cache so scoring and background indexing never
+    // keep separate copies of the same stored index
+    this.cache =
+      embeddingCache ??
+      new EmbeddingCacheManager(storageAdapter, {
+        provider: embeddingProvider.getProviderName(),
+      });
+    this.orchestrator = new EmbeddingOrchestrator(embeddingProvider, this.cache);
+    this.lexicalIndex = new BM25IndexManager(storageAdapter);
     this.config = { ...DEFAULT_EMBEDDING_RELEVANCE_CONFIG, ...config };
+    this.annIndex = new AnnIndexManager(storageAdapter, {
+      keyPrefix: this.config.useChunks ? 'ann/chunks' : 'ann/notes',
+      provider: embeddingProvider.getProviderName(),
+    });
   }
 
   /**
@@ -76,27 +136,45 @@ export class EmbeddingRelevanceService {
     onProgress?: RelevanceProgressCallback,
   ): Promise<ScoredNote[]> {
     // 1. Get filtered file list
-    let files = await this.vaultProvider.listMarkdownFiles();
-
-    files = filterByIncludePatterns(files, includePatterns);
-    const { included } = filterExcludedPaths(files, excludePatterns);
-    files = included;
-
-    // Exclude ignite folder
-    files = files.filter((file) => !file.path.startsWith('ignite/'));
+    const files = filterNotePaths(
+      await this.vaultProvider.listMarkdownFiles(),
+      includePatterns,
+      excludePatterns,
+    );
 
     if (files.length === 0) {
       return [];
     }
 
-    // 2. Read note contents in batches to avoid memory pressure
-    onProgress?.('indexing', 0, files.length, 'Reading notes...');
+    // Drop cached vectors if the model or vector size changed in settings
+    await this.cache.setProviderModel(
+      this.embeddingProvider.getProviderName(),
+      this.embeddingProvider.getModelName(),
+      this.embeddingProvider.getDimensions(),
+    );
+
+    // 2. Reuse what is cached for notes not modified since, e.g. by the background indexer
+    onProgress?.('indexing', 0, files.length, 'Checking for changed notes...');
+
+    const unchangedEmbeddings = new Map<string, CachedNoteEmbedding[]>();
+    const changedFiles: FileInfo[] = [];
+    for (const file of files) {
+      const cached = await this.getUnchangedEmbeddings(file);
+      if (cached) {
+        unchangedEmbeddings.set(file.path, cached);
+      } else {
+        changedFiles.push(file);
+      }
+    }
+
+    // 3. Read changed notes in batches to avoid memory pressure
+    onProgress?.('indexing', 0, changedFiles.length, 'Reading notes...');
 
     const notesWithContent: Array<{ notePath: string; content: string }> = [];
     const BATCH_SIZE = 100;
 
-    for (let i = 0; i < files.length; i += BATCH_SIZE) {
-      const batch = files.slice(i, i + BATCH_SIZE);
+    for (let i = 0; i < changedFiles.length; i += BATCH_SIZE) {
+      const batch = changedFiles.slice(i, i + BATCH_SIZE);
       const batchContents = await Promise.all(
         batch.map(async (file) => {
           const content = await this.vaultProvider.readFile(file.path);
@@ -109,8 +187,8 @@ export class EmbeddingRelevanceService {
       notesWithContent.push(...batchContents);
       onProgress?.(
         'indexing',
-        Math.min(i + BATCH_SIZE, files.length),
-        files.length,
+        Math.min(i + BATCH_SIZE, changedFiles.length),
+        changedFiles.length,
         'Reading notes...',
       );
     }
@@ -118,41 +196,130 @@ export class EmbeddingRelevanceService {
     // Build content map for O(1) lookups
     const contentMap = new Map(notesWithContent.map((n) => [n.notePath, n.content]));
 
-    // 3. Embed all notes (with caching)
-    onProgress?.('indexing', 0, files.length, 'Indexing notes...');
+    // 4. Embed changed notes (with caching)
+    onProgress?.('indexing', 0, changedFiles.length, 'Indexing notes...');
 
-    const embeddingResult = await this.orchestrator.embedNotes(
-      notesWithContent,
-      (completed, total) => {
-        onProgress?.('indexing', completed, total, `Indexing notes (${completed}/${total})...`);
-      },
-    );
+    const handleEmbeddingProgress = (completed: number, total: number) => {
+      onProgress?.('indexing', completed, total, `Indexing notes (${completed}/${total})...`);
+    };
+
+    const cachedEmbeddings = [...unchangedEmbeddings.values()].flat();
 
-    // Build embedding map
     const noteEmbeddings = new Map<string, number[]>();
-    for (const note of embeddingResult.notes) {
-      noteEmbeddings.set(note.notePath, note.embedding);
+    const chunkEmbeddings = new Map<string, number[][]>();
+    // Vectors searched through the ANN index, keyed like the embedding cache
+    const indexedVectors = new Map<string, number[]>();
+    const chunkNotePaths = new Map<string, string>();
+    const annEntries: AnnEntry[] = [];
+
+    if (this.config.useChunks) {
+      const chunkResult = await this.orchestrator.embedNoteChunks(
+        notesWithContent,
+        handleEmbeddingProgress,
+      );
+      const chunks = [
+        ...chunkResult.chunks,
+        ...cachedEmbeddings.map((embedding) => ({
+          ...embedding,
+          noteChunkId: embedding.noteChunkId ?? '',
+        })),
+      ];
+      for (const chunk of chunks) {
+        const embeddings = chunkEmbeddings.get(chunk.notePath) ?? [];
+        embeddings.push(chunk.embedding);
+        chunkEmbeddings.set(chunk.notePath, embeddings);
+
+        const key = `${chunk.notePath}#${chunk.noteChunkId}`;
+        indexedVectors.set(key, chunk.embedding);
+        chunkNotePaths.set(key, chunk.notePath);
+        annEntries.push({ key, contentHash: chunk.contentHash, embedding: chunk.embedding });
+      }
+    } else {
+      const embeddingResult = await this.orchestrator.embedNotes(
+        notesWithContent,
+        handleEmbeddingProgress,
+      );
+      for (const note of [...embeddingResult.notes, ...cachedEmbeddings]) {
+        noteEmbeddings.set(note.notePath, note.embedding);
+        indexedVectors.set(note.notePath, note.embedding);
+        annEntries.push({
+          key: note.notePath,
+          contentHash: note.contentHash,
+          embedding: note.embedding,
+        });
+      }
     }
 
-    // 4. Embed goal as query
+    // Large vaults are searched through the ANN index; small vaults use exact search
+    await this.annIndex.sync(this.embeddingProvider.getModelName(), annEntries);
+
+    // 5. Embed goal as query
     onProgress?.('searching', 0, 1, 'Preparing search query...');
 
     const queryText = this.buildQueryText(goalDraft);
     let queryEmbedding: number[];
     try {
-      queryEmbedding = await this.embedQuery(queryText);
+      queryEmbedding = await this.embeddingProvider.embedQuery(queryText);
     } catch (error) {
       throw new Error(
         `Failed to embed goal query: ${error instanceof Error ? error.message : 'Unknown error'}`,
       );
     }
 
-    // 5. Similarity search
+    // 6. Hybrid search: rank notes both ways, then fuse the rankings
     onProgress?.('searching', 1, 1, 'Finding relevant notes...');
 
-    const topCandidates = findTopKSimilar(queryEmbedding, noteEmbeddings, this.config.topK);
+    const semanticResults = this.config.useChunks
+      ? this.findNearestNotesByChunks(
+          queryEmbedding,
+          indexedVectors,
+          chunkNotePaths,
+          chunkEmbeddings,
+        )
+      : this.annIndex.search(queryEmbedding, indexedVectors, this.config.semanticCandidates);
+
+    let lexicalResults: LexicalResult[] = [];
+    if (this.config.lexicalWeight > 0) {
+      await this.lexicalIndex.update(notesWithContent, unchangedEmbeddings.keys());
+      lexicalResults = await this.lexicalIndex.search(
+        this.buildKeywordQuery(goalDraft),
+        files.length,
+      );
+    }
+
+    const topCandidates = reciprocalRankFusion(semanticResults, lexicalResults, this.config.topK, {
+      semanticWeight: this.config.semanticWeight,
+      lexicalWeight: this.config.lexicalWeight,
+      rrfK: this.config.rrfK,
+    });
+
+    // Keyword-only matches fell outside the nearest neighbors; score them exactly
+    const semanticPaths = new Set(semanticResults.map((result) => result.notePath));
+    for (const candidate of topCandidates) {
+      if (semanticPaths.has(candidate.notePath)) continue;
+      const chunks = chunkEmbeddings.get(candidate.notePath);
+      const embedding = noteEmbeddings.get(candidate.notePath);
+      if (chunks) {
+        candidate.similarity = aggregateChunkSimilarities(
+          chunks.map((chunk) => cosineSimilarity(queryEmbedding, chunk)),
+          this.config.chunkAggregation,
+          this.config.chunkTopN,
+        );
+      } else if (embedding) {
+        candidate.similarity = cosineSimilarity(queryEmbedding, embedding);
+      }
+    }
+
+    // Unchanged notes were not read; previews and explanations need the top candidates' text
+    const unreadPaths = topCandidates
+      .map((candidate) => candidate.notePath)
+      .filter((notePath) => !contentMap.has(notePath));
+    const unreadContents = await Promise.all(
+      unreadPaths.map((notePath) => this.vaultProvider.readFile(notePath)),
+    );
+    unreadPaths.forEach((notePath, i) => contentMap.set(notePath, unreadContents[i]));
 
-    // 6. LLM rerank and explain (if enabled)
+    // 7. LLM rerank and explain (if enabled)
     if (this.config.useLLMExplanations && topCandidates.length > 0) {
       onProgress?.('explaining', 0, topCandidates.length, 'Generating relevance explanations...');
 
@@ -172,12 +339,33 @@ export class EmbeddingRelevanceService {
       return {
         path: candidate.notePath,
         score: similarityToRelevanceScore(candidate.similarity),
-        reason: 'Semantically similar to goal description',
+        reason: this.describeMatch(candidate),
         preview: content ? this.createPreview(content) : undefined,
       };
     });
   }
 
+  /**
+   * Get the cached embeddings of a note that was last modified before they were made.
+   * With keyword search on, the keyword index must also be up to date with the same
+   * content. Returns null if the note has to be read.
+   */
+  private async getUnchangedEmbeddings(file: FileInfo): Promise<CachedNoteEmbedding[] | null> {
+    const cached = await this.cache.getLatest(file.path, this.config.useChunks);
+    if (!cached || cached.some((embedding) => embedding.createdAt <= file.modifiedAt)) {
+      return null;
+    }
+
+    if (
+      this.config.lexicalWeight > 0 &&
+      !(await this.lexicalIndex.has(file.path, cached[0].contentHash))
+    ) {
+      return null;
+    }
+
+    return cached;
+  }
+
   /**
    * Build query text from goal draft for embedding.
    */
@@ -192,11 +380,64 @@ export class EmbeddingRelevanceService {
   }
 
   /**
-   * Embed query text using the embedding provider.
+   * Find the notes whose chunks are nearest to the query.
+   * Candidate notes come from the nearest chunks; each candidate is then scored
+   * exactly from all its chunks, so 'mean-top-n' aggregation stays accurate.
+   */
+  private findNearestNotesByChunks(
+    queryEmbedding: number[],
+    chunkVectors: Map<string, number[]>,
+    chunkNotePaths: Map<string, string>,
+    chunkEmbeddings: Map<string, number[][]>,
+  ): SimilarityResult[] {
+    const nearestChunks = this.annIndex.search(
+      queryEmbedding,
+      chunkVectors,
+      this.config.semanticCandidates * CHUNK_CANDIDATES_PER_NOTE,
+    );
+
+    const candidateEmbeddings = new Map<string, number[][]>();
+    for (const { notePath: key } of nearestChunks) {
+      const notePath = chunkNotePaths.get(key);
+      const embeddings = notePath ? chunkEmbeddings.get(notePath) : undefined;
+      if (notePath && embeddings) {
+        candidateEmbeddings.set(notePath, embeddings);
+      }
+    }
+
+    return findTopKSimilarByChunks(
+      queryEmbedding,
+      candidateEmbeddings,
+      this.config.semanticCandidates,
+      this.config.chunkAggregation,
+      this.config.chunkTopN,
+    );
+  }
+
+  /**
+   * Build keyword query from goal draft, without the labels used for embedding.
+   */
+  private buildKeywordQuery(goalDraft: GoalDraft): string {
+    return [goalDraft.name, goalDraft.description, ...goalDraft.milestones].join('\n');
+  }
+
+  /**
+   * Explain a match that has no LLM reason, including how each search contributed.
+   */
+  private describeMatch(candidate: FusedResult): string {
+    const reason =
+      candidate.lexicalContribution > candidate.semanticContribution
+        ? 'Shares key terms with goal description'
+        : 'Semantically similar to goal description';
+    return `${reason} ${this.formatContributions(candidate)}`;
+  }
+
+  /**
+   * Format the semantic and keyword shares of a fused score, e.g. "(semantic 60%, keyword 40%)".
    */
-  private async embedQuery(text: string): Promise<number[]> {
-    const result = await this.embeddingProvider.embed('__query__', text);
-    return result.embedding;
+  private formatContributions(candidate: FusedResult): string {
+    const semantic = Math.round(candidate.semanticContribution * 100);
+    return `(semantic ${semantic}%, keyword ${100 - semantic}%)`;
   }
 
   /**
@@ -204,7 +445,7 @@ export class EmbeddingRelevanceService {
    */
   private async rerankWithLLM(
     goalDraft: GoalDraft,
-    candidates: Array<{ notePath: string; similarity: number }>,
+    candidates: FusedResult[],
     contentMap: Map<string, string>,
     onProgress?: RelevanceProgressCallback,
   ): Promise<ScoredNote[]> {
@@ -261,7 +502,7 @@ export class EmbeddingRelevanceService {
 
     return `Please score the relevance of the following ${notePreviews.length} notes to the learning goal.
 
-Note: These notes were pre-filtered using semantic similarity. The similarity scores are provided as additional context but you should make your own assessment based on the content.
+Note: These notes were pre-filtered using semantic similarity and keyword matching. The similarity scores are provided as additional context but you should make your own assessment based on the content.
 
 ${noteDescriptions}`;
   }
@@ -311,7 +552,7 @@ ${noteDescriptions}`;
    * LLM scores take precedence when available.
    */
   private mergeScores(
-    candidates: Array<{ notePath: string; similarity: number }>,
+    candidates: FusedResult[],
     previewMap: Map<string, string>,
     llmScores: Map<string, { score: number; reason: string }>,
   ): ScoredNote[] {
@@ -326,7 +567,7 @@ ${noteDescriptions}`;
         results.push({
           path: candidate.notePath,
           score: llmScore.score,
-          reason: llmScore.reason,
+          reason: `${llmScore.reason} ${this.formatContributions(candidate)}`,
           preview,
         });
       } else {
@@ -334,7 +575,7 @@ ${noteDescriptions}`;
         results.push({
           path: candidate.notePath,
           score: similarityToRelevanceScore(candidate.similarity),
-          reason: 'Semantically similar to goal description',
+          reason: this.describeMatch(candidate),
           preview,
         });
       }
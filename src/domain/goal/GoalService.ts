@@ -1,5 +1,11 @@
 import type { IVaultProvider } from '@/ports';
 import { parseFrontmatter, serializeFrontmatter } from './frontmatterUtils';
+import { type GoalDetails, getGoalNameError, validateGoalDetails } from './goalValidation';
+import {
+  normalizeMilestoneOrder,
+  setMilestoneNotes,
+  validateMilestoneContent,
+} from './milestoneUtils';
 import type { Goal, Milestone } from './types';
 
 /**
@@ -112,6 +118,25 @@ export class GoalService {
     return updatedGoal;
   }
 
+  /**
+   * Change the name, description and deadline of a goal.
+   * Values are trimmed before saving.
+   * @throws Error with the first validation message if a field is invalid
+   */
+  async updateGoalDetails(goalId: string, details: GoalDetails): Promise<Goal> {
+    const errors = validateGoalDetails(details);
+    const firstError = errors.name ?? errors.description ?? errors.deadline;
+    if (firstError) {
+      throw new Error(firstError);
+    }
+
+    return this.updateGoal(goalId, {
+      name: details.name.trim(),
+      description: details.description.trim(),
+      deadline: details.deadline.trim(),
+    });
+  }
+
   /**
    * Delete a goal and its folder.
    */
@@ -166,15 +191,56 @@ export class GoalService {
     const existingPaths = goal.notesPaths ?? [];
     const pathsToRemove = new Set(notesPaths);
     const updatedPaths = existingPaths.filter((path) => !pathsToRemove.has(path));
+    // Milestones only reference goal notes, so removed notes leave them too
+    const milestones = goal.milestones.map((m) =>
+      m.notesPaths ? { ...m, notesPaths: m.notesPaths.filter((p) => !pathsToRemove.has(p)) } : m,
+    );
+
+    return this.updateGoal(goalId, { notesPaths: updatedPaths, milestones });
+  }
+
+  /**
+   * Replace the notes assigned to a milestone.
+   * Notes not yet assigned to the goal are added to it as well.
+   */
+  async assignNotesToMilestone(
+    goalId: string,
+    milestoneId: string,
+    notesPaths: string[],
+  ): Promise<Goal> {
+    const goal = await this.getGoalById(goalId);
+    if (!goal) {
+      throw new Error(`Goal not found: ${goalId}`);
+    }
+    if (!goal.milestones.some((m) => m.id === milestoneId)) {
+      throw new Error(`Milestone not found: ${milestoneId}`);
+    }
 
-    return this.updateGoal(goalId, { notesPaths: updatedPaths });
+    const goalPaths = new Set([...(goal.notesPaths ?? []), ...notesPaths]);
+    return this.updateGoal(goalId, {
+      notesPaths: Array.from(goalPaths),
+      milestones: setMilestoneNotes(goal.milestones, milestoneId, notesPaths),
+    });
   }
 
   /**
-   * Update milestones for a goal.
+   * Replace the milestones of a goal.
+   * Milestone text is trimmed, and milestones are sorted by order and renumbered 0..n-1.
+   * @throws Error if there are no milestones, a milestone is empty or two milestones share an ID
    */
   async updateMilestones(goalId: string, milestones: Milestone[]): Promise<Goal> {
-    return this.updateGoal(goalId, { milestones });
+    if (milestones.length === 0) {
+      throw new Error('Goal must have at least one milestone');
+    }
+    const ids = new Set(milestones.map((m) => m.id));
+    if (ids.size !== milestones.length) {
+      throw new Error('Milestone IDs must be unique');
+    }
+
+    const normalized = normalizeMilestoneOrder(
+      milestones.map((m) => ({ ...m, content: validateMilestoneContent(m.content) })),
+    );
+    return this.updateGoal(goalId, { milestones: normalized });
   }
 
   /**
@@ -259,17 +325,9 @@ export class GoalService {
    * Goal names are used in file content, not paths, so we mainly check for reasonable lengths.
    */
   private validateGoalName(name: string): void {
-    if (!name || name.trim().length === 0) {
-      throw new Error('Goal name cannot be empty');
-    }
-    if (name.length > 200) {
-      throw new Error('Goal name cannot exceed 200 characters');
-    }
-    // Check for control characters using character code comparison
-    // biome-ignore lint/suspicious/noControlCharactersInRegex: Intentionally detecting control chars
-    const controlCharPattern = /[\x00-\x1F\x7F]/;
-    if (controlCharPattern.test(name)) {
-      throw new Error('Goal name cannot contain control characters');
+    const error = getGoalNameError(name);
+    if (error) {
+      throw new Error(error);
     }
   }
 }
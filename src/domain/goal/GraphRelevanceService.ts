@@ -0,0 +1,336 @@
+import { filterNotePaths } from '@/domain/pipeline/pathFilter';
+import type { IMetadataProvider, IVaultProvider, ResolvedLinks } from '@/ports';
+import type { ScoredNote } from './NoteRelevanceService';
+
+/**
+ * Why a note is related to a high-scoring note.
+ * - 'links-to': the note links to the high-scoring note
+ * - 'linked-from': the high-scoring note links to the note
+ * - 'shared-tag': both notes have the tag
+ * - 'same-folder': both notes are in the same folder
+ */
+export interface GraphSignal {
+  type: 'links-to' | 'linked-from' | 'shared-tag' | 'same-folder';
+  /** High-scoring note the signal comes from */
+  seedPath: string;
+  /** The shared tag, for 'shared-tag' signals */
+  tag?: string;
+}
+
+/**
+ * A note pulled in only because of its links to high-scoring notes.
+ */
+export interface RelatedNote extends ScoredNote {
+  signals: GraphSignal[];
+}
+
+/**
+ * Result of graph-aware scoring.
+ */
+export interface GraphRelevanceResult {
+  /** Scored notes with graph boosts applied, sorted by score (highest first) */
+  notes: ScoredNote[];
+  /** Notes not in the scored list that are linked to or from high-scoring notes */
+  related: RelatedNote[];
+}
+
+/**
+ * Configuration for graph-aware scoring.
+ */
+export interface GraphRelevanceConfig {
+  /** Minimum score for a note to act as a seed (default: 70) */
+  seedThreshold: number;
+  /** Maximum number of seeds, highest scores first (default: 10) */
+  maxSeeds: number;
+  /** Points added for a link to or from a seed (default: 15) */
+  linkBoost: number;
+  /** Points added per tag shared with a seed (default: 5) */
+  tagBoost: number;
+  /** Points added for sharing a folder with a seed (default: 5) */
+  folderBoost: number;
+  /** Maximum points added to one note (default: 20) */
+  maxBoost: number;
+  /** Score of a pulled-in note as a fraction of its best linked seed's score (default: 0.6) */
+  relatedScoreFactor: number;
+  /** Maximum number of pulled-in notes (default: 10) */
+  maxRelated: number;
+}
+
+/**
+ * Default configuration
+ */
+export const DEFAULT_GRAPH_RELEVANCE_CONFIG: GraphRelevanceConfig = {
+  seedThreshold: 70,
+  maxSeeds: 10,
+  linkBoost: 15,
+  tagBoost: 5,
+  folderBoost: 5,
+  maxBoost: 20,
+  relatedScoreFactor: 0.6,
+  maxRelated: 10,
+};
+
+/**
+ * Graph-aware scoring stage run after content-based relevance scoring.
+ *
+ * Notes the user linked or tagged together are usually about the same topic,
+ * even when their wording differs. High-scoring notes act as seeds: other
+ * candidates linked to or from a seed, sharing its tags, or in its folder are
+ * boosted, and linked notes missing from the candidates are pulled in.
+ */
+export class GraphRelevanceService {
+  private config: GraphRelevanceConfig;
+
+  constructor(
+    private vaultProvider: IVaultProvider,
+    private metadataProvider: IMetadataProvider,
+    config?: Partial<GraphRelevanceConfig>,
+  ) {
+    this.config = { ...DEFAULT_GRAPH_RELEVANCE_CONFIG, ...config };
+  }
+
+  /**
+   * Boost scored notes using links, tags and folders of the highest-scoring notes,
+   * and find linked notes the content search missed.
+   */
+  async applyGraphSignals(
+    scoredNotes: ScoredNote[],
+    includePatterns: string[],
+    excludePatterns: string[],
+  ): Promise<GraphRelevanceResult> {
+    const seeds = [...scoredNotes]
+      .filter((note) => note.score >= this.config.seedThreshold)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, this.config.maxSeeds);
+
+    if (seeds.length === 0) {
+      return { notes: scoredNotes, related: [] };
+    }
+
+    const resolvedLinks = await this.metadataProvider.getResolvedLinks();
+    const linkSignals = this.collectLinkSignals(seeds, resolvedLinks);
+
+    const candidatePaths = new Set(scoredNotes.map((note) => note.path));
+    const relatedPaths = this.filterRelatedPaths(
+      [...linkSignals.keys()].filter((path) => !candidatePaths.has(path)),
+      includePatterns,
+      excludePatterns,
+    );
+
+    const tags = await this.loadTags([...candidatePaths, ...relatedPaths]);
+    const signalsFor = (path: string): GraphSignal[] => [
+      ...(linkSignals.get(path) ?? []),
+      ...this.collectTagSignals(path, seeds, tags),
+      ...this.collectFolderSignals(path, seeds),
+    ];
+
+    const notes = scoredNotes
+      .map((note) => {
+        const signals = signalsFor(note.path);
+        if (signals.length === 0) {
+          return note;
+        }
+        return {
+          ...note,
+          score: Math.min(100, note.score + this.calculateBoost(signals)),
+          reason: `${note.reason}; ${this.describeSignals(signals)}`,
+        };
+      })
+      .sort((a, b) => b.score - a.score);
+
+    const seedScores = new Map(seeds.map((seed) => [seed.path, seed.score]));
+    const related = relatedPaths
+      .map((path) => {
+        const signals = signalsFor(path);
+        const linkedSeedScores = (linkSignals.get(path) ?? []).map(
+          (signal) => seedScores.get(signal.seedPath) ?? 0,
+        );
+        const otherSignals = signals.filter(
+          (s) => s.type === 'shared-tag' || s.type === 'same-folder',
+        );
+        return {
+          path,
+          score: Math.min(
+            100,
+            Math.round(Math.max(...linkedSeedScores) * this.config.relatedScoreFactor) +
+              this.calculateBoost(otherSignals),
+          ),
+          reason: this.capitalize(this.describeSignals(signals)),
+          signals,
+        };
+      })
+      .sort((a, b) => b.score - a.score)
+      .slice(0, this.config.maxRelated);
+
+    const withPreviews = await Promise.all(
+      related.map(async (note) => ({ ...note, preview: await this.readPreview(note.path) })),
+    );
+
+    return { notes, related: withPreviews };
+  }
+
+  // ============ Private Methods ============
+
+  /**
+   * Map each note linked to or from a seed to its link signals.
+   * Links between two seeds are included; links to non-markdown files are not.
+   */
+  private collectLinkSignals(
+    seeds: ScoredNote[],
+    resolvedLinks: ResolvedLinks,
+  ): Map<string, GraphSignal[]> {
+    const signals = new Map<string, GraphSignal[]>();
+    const add = (path: string, signal: GraphSignal) => {
+      if (path === signal.seedPath || !path.endsWith('.md')) return;
+      const existing = signals.get(path) ?? [];
+      existing.push(signal);
+      signals.set(path, existing);
+    };
+
+    for (const seed of seeds) {
+      for (const target of Object.keys(resolvedLinks[seed.path] ?? {})) {
+        add(target, { type: 'linked-from', seedPath: seed.path });
+      }
+    }
+
+    const seedPaths = new Set(seeds.map((seed) => seed.path));
+    for (const [source, targets] of Object.entries(resolvedLinks)) {
+      for (const target of Object.keys(targets)) {
+        if (seedPaths.has(target)) {
+          add(source, { type: 'links-to', seedPath: target });
+        }
+      }
+    }
+
+    return signals;
+  }
+
+  /**
+   * Tags the note shares with each seed.
+   */
+  private collectTagSignals(
+    path: string,
+    seeds: ScoredNote[],
+    tags: Map<string, string[]>,
+  ): GraphSignal[] {
+    const noteTags = new Set(tags.get(path) ?? []);
+    if (noteTags.size === 0) {
+      return [];
+    }
+
+    const signals: GraphSignal[] = [];
+    for (const seed of seeds) {
+      if (seed.path === path) continue;
+      for (const tag of tags.get(seed.path) ?? []) {
+        if (noteTags.has(tag)) {
+          signals.push({ type: 'shared-tag', seedPath: seed.path, tag });
+        }
+      }
+    }
+    return signals;
+  }
+
+  /**
+   * Seeds in the same folder as the note. Notes at the vault root are not grouped.
+   */
+  private collectFolderSignals(path: string, seeds: ScoredNote[]): GraphSignal[] {
+    const folder = this.vaultProvider.getFolder(path);
+    if (!folder) {
+      return [];
+    }
+
+    return seeds
+      .filter((seed) => seed.path !== path && this.vaultProvider.getFolder(seed.path) === folder)
+      .map((seed) => ({ type: 'same-folder', seedPath: seed.path }));
+  }
+
+  /**
+   * Points added for a note's signals. Each seed counts once per signal type.
+   */
+  private calculateBoost(signals: GraphSignal[]): number {
+    const linkedSeeds = new Set(
+      signals
+        .filter((s) => s.type === 'links-to' || s.type === 'linked-from')
+        .map((s) => s.seedPath),
+    );
+    const sharedTags = new Set(signals.filter((s) => s.type === 'shared-tag').map((s) => s.tag));
+    const hasFolder = signals.some((s) => s.type === 'same-folder');
+
+    const boost =
+      linkedSeeds.size * this.config.linkBoost +
+      sharedTags.size * this.config.tagBoost +
+      (hasFolder ? this.config.folderBoost : 0);
+
+    return Math.min(this.config.maxBoost, boost);
+  }
+
+  /**
+   * Explain signals in a short sentence, e.g. 'linked from "TypeScript", shares #ts with "React"'.
+   */
+  private describeSignals(signals: GraphSignal[]): string {
+    const descriptions = new Set<string>();
+    for (const signal of signals) {
+      const seed = `"${this.vaultProvider.getBasename(signal.seedPath)}"`;
+      switch (signal.type) {
+        case 'links-to':
+          descriptions.add(`links to ${seed}`);
+          break;
+        case 'linked-from':
+          descriptions.add(`linked from ${seed}`);
+          break;
+        case 'shared-tag':
+          descriptions.add(`shares ${signal.tag} with ${seed}`);
+          break;
+        case 'same-folder':
+          descriptions.add(`same folder as ${seed}`);
+          break;
+      }
+    }
+    return [...descriptions].join(', ');
+  }
+
+  private capitalize(text: string): string {
+    return text.charAt(0).toUpperCase() + text.slice(1);
+  }
+
+  /**
+   * Apply the same path filters as content scoring to pulled-in notes.
+   */
+  private filterRelatedPaths(
+    paths: string[],
+    includePatterns: string[],
+    excludePatterns: string[],
+  ): string[] {
+    return filterNotePaths(
+      paths.map((path) => ({ path })),
+      includePatterns,
+      excludePatterns,
+    ).map((file) => file.path);
+  }
+
+  /**
+   * Load the tags of each note. Notes without metadata have no tags.
+   */
+  private async loadTags(paths: string[]): Promise<Map<string, string[]>> {
+    const entries = await Promise.all(
+      paths.map(async (path) => {
+        const metadata = await this.metadataProvider.getFileMetadata(path);
+        return [path, metadata?.tags ?? []] as const;
+      }),
+    );
+    return new Map(entries);
+  }
+
+  /**
+   * Create a preview of a pulled-in note (first 500 characters).
+   */
+  private async readPreview(path: string): Promise<string | undefined> {
+    try {
+      const content = await this.vaultProvider.readFile(path);
+      const preview = content.substring(0, 500).trim();
+      return content.length > 500 ? `${preview}...` : preview;
+    } catch {
+      return undefined;
+    }
+  }
+}
@@ -0,0 +1,150 @@
+import {
+  type Conversation,
+  type Goal,
+  type MilestoneCompletionSuggestion,
+  type MilestoneMastery,
+  type QASession,
+  getAnswerCredit,
+  isRepeatSession,
+} from './types';
+
+/**
+ * Configuration for milestone completion suggestions.
+ */
+export interface MilestoneProgressConfig {
+  /** Mastery (0-1) a milestone needs before completion is suggested */
+  masteryThreshold: number;
+  /** Answered questions a milestone needs before completion is suggested */
+  minAnswers: number;
+}
+
+/**
+ * Default milestone progress configuration.
+ */
+export const DEFAULT_MILESTONE_PROGRESS_CONFIG: MilestoneProgressConfig = {
+  masteryThreshold: 0.8,
+  minAnswers: 5,
+};
+
+/**
+ * Attribute Q&A results and discussions to each milestone, in milestone order.
+ *
+ * A session or conversation scoped to a milestone counts entirely towards it.
+ * Unscoped sessions count only questions sourced from the milestone's own notes,
+ * and unscoped conversations count when they cite one of those notes.
+ * Work scoped to another milestone is never counted, and neither are review or
+ * retake sessions, whose questions were already counted in their original session.
+ */
+export function computeMilestoneMastery(
+  goal: Goal,
+  sessions: QASession[],
+  conversations: Conversation[],
+): MilestoneMastery[] {
+  return [...goal.milestones]
+    .sort((a, b) => a.order - b.order)
+    .map((milestone) => {
+      const ownNotes = new Set(milestone.notesPaths ?? []);
+      const result: MilestoneMastery = {
+        milestoneId: milestone.id,
+        attempts: 0,
+        credit: 0,
+        mastery: 0,
+        sessionCount: 0,
+        conversationCount: 0,
+      };
+
+      for (const session of sessions) {
+        if (isRepeatSession(session)) continue;
+        if (session.milestoneId && session.milestoneId !== milestone.id) continue;
+
+        let answered = 0;
+        for (const question of session.questions) {
+          if (!session.milestoneId && !ownNotes.has(question.sourceNotePath)) continue;
+          const answer = session.answers.find((a) => a.questionId === question.id);
+          if (!answer) continue;
+
+          answered++;
+          result.credit += getAnswerCredit(answer);
+        }
+
+        if (answered > 0) {
+          result.attempts += answered;
+          result.sessionCount++;
+          const answeredAt = session.completedAt ?? session.createdAt;
+          if (!result.lastAnsweredAt || answeredAt > result.lastAnsweredAt) {
+            result.lastAnsweredAt = answeredAt;
+          }
+        }
+      }
+
+      result.conversationCount = conversations.filter((conversation) =>
+        conversation.milestoneId
+          ? conversation.milestoneId === milestone.id
+          : conversation.messages.some((m) => m.sources?.some((path) => ownNotes.has(path))),
+      ).length;
+
+      result.mastery = result.attempts > 0 ? result.credit / result.attempts : 0;
+      return result;
+    });
+}
+
+/**
+ * Suggests marking milestones complete once the user has shown mastery in Q&A.
+ * Suggestions are only proposals; applying them is left to the caller after the user confirms.
+ */
+export class MilestoneProgressService {
+  private config: MilestoneProgressConfig;
+
+  constructor(config: Partial<MilestoneProgressConfig> = {}) {
+    this.config = { ...DEFAULT_MILESTONE_PROGRESS_CONFIG, ...config };
+  }
+
+  /**
+   * Find incomplete milestones whose mastery crossed the threshold.
+   * A dismissed suggestion returns only after a newer Q&A session for the milestone.
+   */
+  suggestCompletions(
+    goal: Goal,
+    sessions: QASession[],
+    conversations: Conversation[],
+  ): MilestoneCompletionSuggestion[] {
+    const milestones = new Map(goal.milestones.map((m) => [m.id, m]));
+    const suggestions: MilestoneCompletionSuggestion[] = [];
+
+    for (const mastery of computeMilestoneMastery(goal, sessions, conversations)) {
+      const milestone = milestones.get(mastery.milestoneId);
+      if (!milestone || milestone.completed) continue;
+      if (mastery.attempts < this.config.minAnswers) continue;
+      if (mastery.mastery < this.config.masteryThreshold) continue;
+      if (
+        milestone.suggestionDismissedAt &&
+        (!mastery.lastAnsweredAt || mastery.lastAnsweredAt <= milestone.suggestionDismissedAt)
+      ) {
+        continue;
+      }
+
+      suggestions.push({
+        milestoneId: milestone.id,
+        milestoneContent: milestone.content,
+        mastery,
+        explanation: this.explain(mastery),
+      });
+    }
+
+    return suggestions;
+  }
+
+  /**
+   * Describe the evidence behind a suggestion.
+   */
+  private explain(mastery: MilestoneMastery): string {
+    const percent = Math.round(mastery.mastery * 100);
+    const threshold = Math.round(this.config.masteryThreshold * 100);
+    const sessions = `${mastery.sessionCount} Q&A session${mastery.sessionCount === 1 ? '' : 's'}`;
+    let explanation = `You scored ${percent}% on ${mastery.attempts} questions about this milestone across ${sessions}`;
+    if (mastery.conversationCount > 0) {
+      explanation += ` and discussed it in ${mastery.conversationCount} conversation${mastery.conversationCount === 1 ? '' : 's'}`;
+    }
+    return `${explanation}. That is at or above the ${threshold}% mastery threshold, so it may be ready to mark complete.`;
+  }
+}
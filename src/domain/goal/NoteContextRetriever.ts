@@ -0,0 +1,153 @@
+import {
+  type EmbeddingCacheManager,
+  EmbeddingOrchestrator,
+  chunkNoteByHeadings,
+  findTopKSimilar,
+} from '@/domain/embedding';
+import type { IEmbeddingProvider, ILLMProvider } from '@/ports';
+
+/**
+ * Note content passed to the discussion prompt.
+ */
+export interface NoteContent {
+  path: string;
+  content: string;
+}
+
+/**
+ * Configuration for note context retrieval.
+ */
+export interface NoteContextRetrieverConfig {
+  /** Fraction of the LLM context window available for note excerpts (default: 0.25) */
+  contextBudgetRatio: number;
+}
+
+/**
+ * Default configuration
+ */
+export const DEFAULT_NOTE_CONTEXT_RETRIEVER_CONFIG: NoteContextRetrieverConfig = {
+  contextBudgetRatio: 0.25,
+};
+
+/**
+ * Selects the most relevant note sections for each discussion turn.
+ *
+ * Notes are split into heading-level chunks and embedded once per content
+ * version, through the embedding cache the background indexer also fills.
+ * When all notes fit in the token budget they are returned whole;
+ * otherwise the chunks most similar to the query are packed into the budget.
+ */
+export class NoteContextRetriever {
+  private config: NoteContextRetrieverConfig;
+  private orchestrator: EmbeddingOrchestrator;
+
+  constructor(
+    private embeddingProvider: IEmbeddingProvider,
+    private llmProvider: ILLMProvider,
+    private cache: EmbeddingCacheManager,
+    config?: Partial<NoteContextRetrieverConfig>,
+  ) {
+    this.config = { ...DEFAULT_NOTE_CONTEXT_RETRIEVER_CONFIG, ...config };
+    this.orchestrator = new EmbeddingOrchestrator(embeddingProvider, cache);
+  }
+
+  /**
+   * Get the token budget for note context.
+   * Capped by the configured share of the context window and by what remains after reserved tokens.
+   */
+  getTokenBudget(reservedTokens = 0): number {
+    const maxTokens = this.llmProvider.getMaxTokens();
+    const budget = Math.floor(maxTokens * this.config.contextBudgetRatio);
+    return Math.max(0, Math.min(budget, maxTokens - reservedTokens));
+  }
+
+  /**
+   * Select note content relevant to the query within the token budget.
+   * Returns excerpts grouped by note, in the original note and section order.
+   */
+  async selectContext(
+    notes: NoteContent[],
+    query: string,
+    reservedTokens = 0,
+  ): Promise<NoteContent[]> {
+    const budget = this.getTokenBudget(reservedTokens);
+    const totalTokens = notes.reduce(
+      (sum, note) => sum + this.llmProvider.estimateTokens(note.content),
+      0,
+    );
+
+    if (totalTokens <= budget) {
+      return notes;
+    }
+
+    const chunks = notes.flatMap((note) => chunkNoteByHeadings(note.path, note.content));
+    const chunksByKey = new Map(
+      chunks.map((chunk) => [this.getChunkKey(chunk.notePath, chunk.id), chunk]),
+    );
+    const chunkEmbeddings = await this.embedChunks(notes);
+
+    const queryEmbedding = await this.embeddingProvider.embedQuery(query);
+    const ranked = findTopKSimilar(queryEmbedding, chunkEmbeddings, chunkEmbeddings.size);
+
+    // Greedily pack the highest-scoring chunks that still fit
+    const selectedKeys = new Set<string>();
+    let usedTokens = 0;
+    for (const result of ranked) {
+      const chunk = chunksByKey.get(result.notePath);
+      if (!chunk) continue;
+
+      const tokens = this.llmProvider.estimateTokens(chunk.content);
+      if (usedTokens + tokens > budget) continue;
+
+      selectedKeys.add(result.notePath);
+      usedTokens += tokens;
+    }
+
+    const selected: NoteContent[] = [];
+    for (const note of notes) {
+      const excerpts = chunks
+        .filter(
+          (chunk) =>
+            chunk.notePath === note.path &&
+            selectedKeys.has(this.getChunkKey(chunk.notePath, chunk.id)),
+        )
+        .map((chunk) => chunk.content);
+
+      if (excerpts.length > 0) {
+        selected.push({ path: note.path, content: excerpts.join('\n\n') });
+      }
+    }
+
+    return selected;
+  }
+
+  /**
+   * Get the chunk embeddings of notes, embedding only notes whose content is not cached yet.
+   * @returns Chunk embeddings by chunk key
+   */
+  private async embedChunks(notes: NoteContent[]): Promise<Map<string, number[]>> {
+    // Drop cached vectors if the model or vector size changed in settings
+    await this.cache.setProviderModel(
+      this.embeddingProvider.getProviderName(),
+      this.embeddingProvider.getModelName(),
+      this.embeddingProvider.getDimensions(),
+    );
+
+    const result = await this.orchestrator.embedNoteChunks(
+      notes.map((note) => ({ notePath: note.path, content: note.content })),
+    );
+    return new Map(
+      result.chunks.map((chunk) => [
+        this.getChunkKey(chunk.notePath, chunk.noteChunkId),
+        chunk.embedding,
+      ]),
+    );
+  }
+
+  /**
+   * Key identifying a chunk across notes.
+   */
+  private getChunkKey(notePath: string, chunkId: string): string {
+    return `${notePath}#${chunkId}`;
+  }
+}
@@ -1,5 +1,5 @@
 import { createNoteRelevancePrompt } from '@/adapters/anthropic/prompts/noteRelevance';
-import { filterByIncludePatterns, filterExcludedPaths } from '@/domain/pipeline/pathFilter';
+import { filterNotePaths } from '@/domain/pipeline/pathFilter';
 import type { ILLMProvider, IVaultProvider } from '@/ports';
 import type { GoalDraft } from './BrainstormService';
 
@@ -31,18 +31,12 @@ export class NoteRelevanceService {
     includePatterns: string[],
     excludePatterns: string[],
   ): Promise<ScoredNote[]> {
-    // Get all markdown files
-    let files = await this.vaultProvider.listMarkdownFiles();
-
-    // Filter by include patterns
-    files = filterByIncludePatterns(files, includePatterns);
-
-    // Filter by exclude patterns
-    const { included } = filterExcludedPaths(files, excludePatterns);
-    files = included;
-
-    // Exclude ignite folder
-    files = files.filter((file) => !file.path.startsWith('ignite/'));
+    // Get markdown files matching the path filters, outside the ignite folder
+    const files = filterNotePaths(
+      await this.vaultProvider.listMarkdownFiles(),
+      includePatterns,
+      excludePatterns,
+    );
 
     if (files.length === 0) {
       return [];
@@ -1,12 +1,29 @@
 import {
+  type QAGenerationRequest,
   QA_EVALUATION_SYSTEM_PROMPT,
   QA_GENERATION_SYSTEM_PROMPT,
   buildEvaluationContext,
   buildQAContext,
 } from '@/adapters/anthropic/prompts/qaGeneration';
 import type { ILLMProvider, IVaultProvider, LLMMessage } from '@/ports';
+import { ReviewService } from './ReviewService';
 import { parseFrontmatter, serializeFrontmatter } from './frontmatterUtils';
-import type { Answer, Goal, QASession, Question } from './types';
+import { chatForJson } from './jsonRetry';
+import { getMilestoneNotePaths } from './milestoneUtils';
+import {
+  type Answer,
+  DEFAULT_QA_SESSION_OPTIONS,
+  type Goal,
+  type KeyPointResult,
+  type QASession,
+  type QASessionOptions,
+  QA_QUESTION_COUNT_LIMITS,
+  QUESTION_TYPES,
+  type Question,
+  type QuestionType,
+  type RubricPoint,
+  getAnswerCredit,
+} from './types';
 
 /**
  * Frontmatter structure for Q&A session markdown files.
@@ -17,17 +34,59 @@ interface QASessionFrontmatter {
   score: number;
   createdAt: string;
   completedAt?: string;
+  reviewItemIds?: string[];
+  milestoneId?: string;
 }
 
 /**
  * Raw question from LLM response before validation.
  */
 interface RawQuestion {
-  type: 'multiple-choice' | 'open-ended';
+  type: QuestionType;
   text: string;
   sourceNotePath: string;
-  options?: string[];
-  correctAnswer?: number;
+  options?: unknown;
+  correctAnswer?: unknown;
+  correctAnswers?: unknown;
+  acceptedAnswers?: unknown;
+  items?: unknown;
+  rubric?: unknown;
+}
+
+/**
+ * Matches the blank in a cloze question's text.
+ */
+const CLOZE_BLANK_PATTERN = /_{3,}/;
+
+/**
+ * Check that a value is an array of non-empty strings.
+ */
+function isStringList(value: unknown): value is string[] {
+  return (
+    Array.isArray(value) && value.every((item) => typeof item === 'string' && item.trim() !== '')
+  );
+}
+
+/**
+ * Normalize a cloze answer for comparison: case, surrounding punctuation and spacing are ignored.
+ */
+function normalizeClozeAnswer(answer: string): string {
+  return answer
+    .trim()
+    .toLowerCase()
+    .replace(/\s+/g, ' ')
+    .replace(/^["'`.,;:!?()]+|["'`.,;:!?()]+$/g, '')
+    .trim();
+}
+
+/**
+ * Normalize a graded key point for matching to the rubric: case, punctuation and spacing are ignored.
+ */
+function normalizeKeyPoint(point: string): string {
+  return point
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim();
 }
 
 /**
@@ -36,10 +95,14 @@ interface RawQuestion {
  */
 export class QAService {
   private static readonly QA_SESSIONS_FOLDER = 'qa-sessions';
+  private static readonly MAX_REVIEW_QUESTIONS = 10;
+  /** Minimum partial-credit score for an open-ended answer to count as correct */
+  private static readonly OPEN_ENDED_PASSING_SCORE = 0.6;
 
   constructor(
     private vaultProvider: IVaultProvider,
     private llmProvider: ILLMProvider,
+    private reviewService: ReviewService = new ReviewService(vaultProvider),
   ) {}
 
   /**
@@ -87,15 +150,48 @@ export class QAService {
     return this.loadSession(path);
   }
 
+  /**
+   * Get the most recent session that has not been completed, if any.
+   */
+  async getIncompleteSession(goalId: string): Promise<QASession | null> {
+    const sessions = await this.getSessionsForGoal(goalId);
+    return sessions.find((session) => !session.completedAt) ?? null;
+  }
+
   /**
    * Create a new Q&A session with generated questions.
+   * With a milestone, questions target that milestone and come from its notes,
+   * unless focus notes are chosen explicitly.
    */
   async createSession(
     goal: Goal,
     noteContents: Array<{ path: string; content: string }>,
+    options: Partial<QASessionOptions> = {},
   ): Promise<QASession> {
+    const resolved = this.resolveSessionOptions(options);
+
+    const milestoneId = resolved.milestoneId;
+    if (milestoneId) {
+      if (!goal.milestones.some((m) => m.id === milestoneId)) {
+        throw new Error(`Milestone not found: ${milestoneId}`);
+      }
+      resolved.focusNotePaths = resolved.focusNotePaths ?? getMilestoneNotePaths(goal, milestoneId);
+      resolved.focusMilestoneIds = Array.from(
+        new Set([...(resolved.focusMilestoneIds ?? []), milestoneId]),
+      );
+    }
+
+    const focusNotePaths = resolved.focusNotePaths ?? [];
+    const notes =
+      focusNotePaths.length > 0
+        ? noteContents.filter((note) => focusNotePaths.includes(note.path))
+        : noteContents;
+    if (notes.length === 0 && noteContents.length > 0) {
+      throw new Error('None of the selected notes could be loaded.');
+    }
+
     // Generate questions
-    const questions = await this.generateQuestions(goal, noteContents);
+    const questions = await this.generateQuestions(goal, notes, resolved);
 
     if (questions.length === 0) {
       throw new Error('Failed to generate questions. Please try again.');
@@ -111,6 +207,92 @@ export class QAService {
       answers: [],
       score: 0,
       createdAt: now,
+      milestoneId,
+    };
+
+    await this.saveSession(session);
+    return session;
+  }
+
+  /**
+   * Create a review session from questions that are due across past sessions.
+   * No new questions are generated.
+   */
+  async createReviewSession(goalId: string): Promise<QASession> {
+    const dueItems = await this.reviewService.getDueItems(goalId);
+    const sourceSessions = new Map<string, QASession | null>();
+    const questions: Question[] = [];
+    const reviewItemIds: string[] = [];
+
+    for (const item of dueItems) {
+      if (questions.length >= QAService.MAX_REVIEW_QUESTIONS) break;
+
+      if (!sourceSessions.has(item.sessionId)) {
+        sourceSessions.set(item.sessionId, await this.getSessionById(goalId, item.sessionId));
+      }
+
+      const question = sourceSessions
+        .get(item.sessionId)
+        ?.questions.find((q) => q.id === item.questionId);
+      if (!question) continue;
+
+      questions.push({ ...question, id: `q-${Date.now()}-${questions.length}` });
+      reviewItemIds.push(item.id);
+    }
+
+    if (questions.length === 0) {
+      throw new Error('No questions are due for review.');
+    }
+
+    const session: QASession = {
+      id: this.generateSessionId(),
+      goalId,
+      questions,
+      answers: [],
+      score: 0,
+      createdAt: new Date().toISOString(),
+      reviewItemIds,
+    };
+
+    await this.saveSession(session);
+    return session;
+  }
+
+  /**
+   * Create a new session containing only the questions answered incorrectly in a past session.
+   */
+  async createRetakeSession(goalId: string, sessionId: string): Promise<QASession> {
+    const source = await this.getSessionById(goalId, sessionId);
+    if (!source) {
+      throw new Error(`Session not found: ${sessionId}`);
+    }
+
+    const questions: Question[] = [];
+    const reviewItemIds: string[] = [];
+
+    source.questions.forEach((question, index) => {
+      const answer = source.answers.find((a) => a.questionId === question.id);
+      if (!answer || answer.isCorrect) return;
+
+      questions.push({ ...question, id: `q-${Date.now()}-${questions.length}` });
+      // Keep answers feeding the original question's review schedule
+      reviewItemIds.push(
+        source.reviewItemIds?.[index] ?? this.reviewService.getItemId(source.id, question.id),
+      );
+    });
+
+    if (questions.length === 0) {
+      throw new Error('No incorrectly answered questions to retake.');
+    }
+
+    const session: QASession = {
+      id: this.generateSessionId(),
+      goalId,
+      questions,
+      answers: [],
+      score: 0,
+      createdAt: new Date().toISOString(),
+      reviewItemIds,
     };
 
     await this.saveSession(session);
@@ -124,7 +306,7 @@ export class QAService {
     goalId: string,
     sessionId: string,
     questionId: string,
-    userAnswer: number | string,
+    userAnswer: Answer['userAnswer'],
     noteContents: Array<{ path: string; content: string }>,
   ): Promise<{ session: QASession; answer: Answer }> {
     const session = await this.getSessionById(goalId, sessionId);
@@ -145,27 +327,14 @@ export class QAService {
 
     let answer: Answer;
 
-    if (question.type === 'multiple-choice') {
-      // Evaluate multiple-choice answer
-      const isCorrect = userAnswer === question.correctAnswer;
-      const explanation = isCorrect
-        ? 'Correct! This answer demonstrates understanding of the concept.'
-        : `Incorrect. The correct answer was: ${question.options[question.correctAnswer]}`;
-
-      answer = {
-        questionId,
-        type: 'multiple-choice',
-        userAnswer: userAnswer as number,
-        isCorrect,
-        explanation,
-      };
-    } else {
+    if (question.type === 'open-ended') {
       // Evaluate open-ended answer with LLM
       const sourceNote = noteContents.find((n) => n.path === question.sourceNotePath);
       const evaluation = await this.evaluateOpenEndedAnswer(
         question.text,
         sourceNote?.content ?? '',
         userAnswer as string,
+        question.rubric ?? [],
       );
 
       answer = {
@@ -174,14 +343,18 @@ export class QAService {
         userAnswer: userAnswer as string,
         isCorrect: evaluation.isCorrect,
         explanation: evaluation.explanation,
+        score: evaluation.score,
+        keyPoints: evaluation.keyPoints,
       };
+    } else {
+      answer = this.gradeAnswer(question, userAnswer);
     }
 
     session.answers.push(answer);
 
-    // Update score
-    const correctCount = session.answers.filter((a) => a.isCorrect).length;
-    session.score = Math.round((correctCount / session.questions.length) * 100);
+    // Update score, with partial credit for open-ended answers
+    const points = session.answers.reduce((sum, a) => sum + getAnswerCredit(a), 0);
+    session.score = Math.round((points / session.questions.length) * 100);
 
     // Check if session is complete
     if (session.answers.length === session.questions.length) {
@@ -189,6 +362,17 @@ export class QAService {
     }
 
     await this.saveSession(session);
+
+    // Reschedule the question for spaced-repetition review
+    const questionIndex = session.questions.indexOf(question);
+    const reviewItemId =
+      session.reviewItemIds?.[questionIndex] ?? this.reviewService.getItemId(sessionId, questionId);
+    try {
+      await this.reviewService.recordAnswer(goalId, reviewItemId, answer);
+    } catch (error) {
+      console.warn(`Failed to schedule review for question ${questionId}:`, error);
+    }
+
     return { session, answer };
   }
 
@@ -207,38 +391,101 @@ export class QAService {
   }
 
   /**
-   * Generate questions from goal's notes.
+   * Generate questions from notes using the LLM.
+   * If the model returns fewer questions than requested, one follow-up request tops up the rest.
    */
   private async generateQuestions(
     goal: Goal,
     noteContents: Array<{ path: string; content: string }>,
+    options: QASessionOptions,
   ): Promise<Question[]> {
     if (noteContents.length === 0) {
       return [];
     }
 
-    const context = buildQAContext(goal.name, goal.description, noteContents);
+    const focusMilestoneIds = options.focusMilestoneIds ?? [];
+    const request: QAGenerationRequest = {
+      questionCount: options.questionCount,
+      difficulty: options.difficulty,
+      questionTypes: options.questionTypes,
+      focusMilestones: goal.milestones
+        .filter((m) => focusMilestoneIds.includes(m.id))
+        .map((m) => m.content),
+    };
+
+    const questions = await this.requestQuestions(goal, noteContents, request, 0);
+
+    const missing = options.questionCount - questions.length;
+    if (questions.length > 0 && missing > 0) {
+      try {
+        const extra = await this.requestQuestions(
+          goal,
+          noteContents,
+          { ...request, questionCount: missing, existingQuestions: questions.map((q) => q.text) },
+          questions.length,
+        );
+        questions.push(...extra);
+      } catch (error) {
+        console.warn('Failed to top up questions:', error);
+      }
+    }
+
+    return questions;
+  }
+
+  /**
+   * Make a single question generation request.
+   */
+  private async requestQuestions(
+    goal: Goal,
+    noteContents: Array<{ path: string; content: string }>,
+    request: QAGenerationRequest,
+    startIndex: number,
+  ): Promise<Question[]> {
+    const context = buildQAContext(goal.name, goal.description, noteContents, request);
 
     const messages: LLMMessage[] = [
       { role: 'system', content: QA_GENERATION_SYSTEM_PROMPT },
       { role: 'user', content: context },
     ];
 
-    const response = await this.llmProvider.chat(messages, {
-      temperature: 0.7,
-      maxTokens: 3000,
-    });
-
-    return this.parseQuestions(
-      response.content,
-      noteContents.map((n) => n.path),
+    // A reply without usable questions is retried, as smaller models often break the format
+    const questions = await chatForJson(
+      this.llmProvider,
+      messages,
+      { temperature: 0.7, maxTokens: 3000 },
+      (content) => {
+        const parsed = this.parseQuestions(
+          content,
+          noteContents.map((n) => n.path),
+          {
+            questionTypes: request.questionTypes,
+            maxCount: request.questionCount,
+            excludeTexts: request.existingQuestions ?? [],
+            startIndex,
+          },
+        );
+        return parsed.length > 0 ? parsed : null;
+      },
     );
+
+    return questions ?? [];
   }
 
   /**
    * Parse questions from LLM response.
+   * Drops invalid questions, disallowed types and repeats, and trims to the requested count.
    */
-  private parseQuestions(response: string, availableNotePaths: string[]): Question[] {
+  private parseQuestions(
+    response: string,
+    availableNotePaths: string[],
+    options: {
+      questionTypes: QuestionType[];
+      maxCount: number;
+      excludeTexts: string[];
+      startIndex: number;
+    },
+  ): Question[] {
     const jsonMatch = response.match(/```json\s*([\s\S]*?)\s*```/);
     if (!jsonMatch) {
       return [];
@@ -251,15 +498,27 @@ export class QAService {
       }
 
       const questions: Question[] = [];
+      const seenTexts = new Set(options.excludeTexts.map((text) => text.trim().toLowerCase()));
 
-      for (let i = 0; i < parsed.questions.length; i++) {
-        const q = parsed.questions[i];
+      for (const q of parsed.questions) {
+        if (questions.length >= options.maxCount) {
+          break;
+        }
 
         // Validate common fields
         if (!q.type || !q.text || !q.sourceNotePath) {
           continue;
         }
 
+        if (!options.questionTypes.includes(q.type)) {
+          continue;
+        }
+
+        const normalizedText = q.text.trim().toLowerCase();
+        if (seenTexts.has(normalizedText)) {
+          continue;
+        }
+
         // Validate sourceNotePath exists in available notes
         const validSourcePath = availableNotePaths.find(
           (p) => p === q.sourceNotePath || p.endsWith(q.sourceNotePath),
@@ -269,7 +528,7 @@ export class QAService {
           continue;
         }
 
-        const id = `q-${Date.now()}-${i}`;
+        const id = `q-${Date.now()}-${options.startIndex + questions.length}`;
 
         if (q.type === 'multiple-choice') {
           // Validate multiple-choice specific fields
@@ -292,13 +551,87 @@ export class QAService {
             correctAnswer: q.correctAnswer,
           });
         } else if (q.type === 'open-ended') {
+          const rubric = this.parseRubric(q.rubric);
           questions.push({
             id,
             type: 'open-ended',
             text: q.text,
             sourceNotePath: validSourcePath,
+            ...(rubric.length > 0 && { rubric }),
+          });
+        } else if (q.type === 'true-false') {
+          if (typeof q.correctAnswer !== 'boolean') {
+            continue;
+          }
+
+          questions.push({
+            id,
+            type: 'true-false',
+            text: q.text,
+            sourceNotePath: validSourcePath,
+            correctAnswer: q.correctAnswer,
+          });
+        } else if (q.type === 'cloze') {
+          // Exactly one blank, and at least one way to fill it
+          const blanks = q.text.match(new RegExp(CLOZE_BLANK_PATTERN, 'g')) ?? [];
+          if (
+            blanks.length !== 1 ||
+            !isStringList(q.acceptedAnswers) ||
+            q.acceptedAnswers.length === 0
+          ) {
+            continue;
+          }
+
+          questions.push({
+            id,
+            type: 'cloze',
+            text: q.text,
+            sourceNotePath: validSourcePath,
+            acceptedAnswers: q.acceptedAnswers.map((a) => a.trim()),
+          });
+        } else if (q.type === 'ordering') {
+          // Items must be distinct, otherwise more than one order is correct
+          if (
+            !isStringList(q.items) ||
+            q.items.length < 3 ||
+            q.items.length > 6 ||
+            new Set(q.items).size !== q.items.length
+          ) {
+            continue;
+          }
+
+          questions.push({
+            id,
+            type: 'ordering',
+            text: q.text,
+            sourceNotePath: validSourcePath,
+            items: q.items,
+          });
+        } else if (q.type === 'multi-select') {
+          if (!isStringList(q.options) || q.options.length < 4 || q.options.length > 6) {
+            continue;
+          }
+
+          const optionCount = q.options.length;
+          if (
+            !Array.isArray(q.correctAnswers) ||
+            q.correctAnswers.length === 0 ||
+            !q.correctAnswers.every((n) => Number.isInteger(n) && n >= 0 && n < optionCount)
+          ) {
+            continue;
+          }
+
+          questions.push({
+            id,
+            type: 'multi-select',
+            text: q.text,
+            sourceNotePath: validSourcePath,
+            options: q.options,
+            correctAnswers: Array.from(new Set(q.correctAnswers as number[])).sort((a, b) => a - b),
           });
         }
+
+        seenTexts.add(normalizedText);
       }
 
       return questions;
@@ -308,15 +641,131 @@ export class QAService {
     }
   }
 
+  /**
+   * Fill in defaults and validate session options.
+   */
+  private resolveSessionOptions(options: Partial<QASessionOptions>): QASessionOptions {
+    const resolved: QASessionOptions = { ...DEFAULT_QA_SESSION_OPTIONS, ...options };
+
+    if (
+      !Number.isInteger(resolved.questionCount) ||
+      resolved.questionCount < QA_QUESTION_COUNT_LIMITS.min ||
+      resolved.questionCount > QA_QUESTION_COUNT_LIMITS.max
+    ) {
+      throw new Error(
+        `Question count must be between ${QA_QUESTION_COUNT_LIMITS.min} and ${QA_QUESTION_COUNT_LIMITS.max}`,
+      );
+    }
+    if (resolved.questionTypes.length === 0) {
+      throw new Error('Select at least one question type');
+    }
+
+    return resolved;
+  }
+
+  /**
+   * Grade an answer to a question with a known correct answer.
+   */
+  private gradeAnswer(
+    question: Exclude<Question, { type: 'open-ended' }>,
+    userAnswer: Answer['userAnswer'],
+  ): Answer {
+    const questionId = question.id;
+    let answer: Answer;
+    let correction: string;
+
+    switch (question.type) {
+      case 'multiple-choice': {
+        const choice = userAnswer as number;
+        answer = {
+          questionId,
+          type: 'multiple-choice',
+          userAnswer: choice,
+          isCorrect: choice === question.correctAnswer,
+          explanation: '',
+        };
+        correction = `The correct answer was: ${question.options[question.correctAnswer]}`;
+        break;
+      }
+      case 'true-false': {
+        const value = userAnswer as boolean;
+        answer = {
+          questionId,
+          type: 'true-false',
+          userAnswer: value,
+          isCorrect: value === question.correctAnswer,
+          explanation: '',
+        };
+        correction = `The statement is ${question.correctAnswer ? 'true' : 'false'}.`;
+        break;
+      }
+      case 'cloze': {
+        const text = (userAnswer as string).trim();
+        const normalized = normalizeClozeAnswer(text);
+        answer = {
+          questionId,
+          type: 'cloze',
+          userAnswer: text,
+          isCorrect: question.acceptedAnswers.some((a) => normalizeClozeAnswer(a) === normalized),
+          explanation: '',
+        };
+        correction = `The correct answer was: ${question.acceptedAnswers.join(' / ')}`;
+        break;
+      }
+      case 'ordering': {
+        // Item indices refer to the correct order, so the answer must be 0, 1, 2, ...
+        const order = userAnswer as number[];
+        answer = {
+          questionId,
+          type: 'ordering',
+          userAnswer: order,
+          isCorrect: order.length === question.items.length && order.every((item, i) => item === i),
+          explanation: '',
+        };
+        correction = `The correct order was: ${question.items.join(' → ')}`;
+        break;
+      }
+      case 'multi-select': {
+        const selected = Array.from(new Set(userAnswer as number[])).sort((a, b) => a - b);
+        answer = {
+          questionId,
+          type: 'multi-select',
+          userAnswer: selected,
+          isCorrect:
+            selected.length === question.correctAnswers.length &&
+            selected.every((index, i) => index === question.correctAnswers[i]),
+          explanation: '',
+        };
+        correction = `The correct answers were: ${question.correctAnswers
+          .map((i) => question.options[i])
+          .join(', ')}`;
+        break;
+      }
+    }
+
+    answer.explanation = answer.isCorrect
+      ? 'Correct! This answer demonstrates understanding of the concept.'
+      : `Incorrect. ${correction}`;
+    return answer;
+  }
+
   /**
    * Evaluate an open-ended answer using LLM.
+   * The LLM marks each rubric key point as hit or missed, and the score is the weighted
+   * share of points hit. Without a rubric the LLM writes its own equally weighted key points.
    */
   private async evaluateOpenEndedAnswer(
     question: string,
     sourceContent: string,
     userAnswer: string,
-  ): Promise<{ isCorrect: boolean; explanation: string }> {
-    const context = buildEvaluationContext(question, sourceContent, userAnswer);
+    rubric: RubricPoint[],
+  ): Promise<{
+    isCorrect: boolean;
+    explanation: string;
+    score: number;
+    keyPoints: KeyPointResult[];
+  }> {
+    const context = buildEvaluationContext(question, sourceContent, userAnswer, rubric);
 
     const messages: LLMMessage[] = [
       { role: 'system', content: QA_EVALUATION_SYSTEM_PROMPT },
@@ -326,15 +775,37 @@ export class QAService {
     try {
       const response = await this.llmProvider.chat(messages, {
         temperature: 0.3,
-        maxTokens: 500,
+        maxTokens: 800,
       });
 
       const jsonMatch = response.content.match(/```json\s*([\s\S]*?)\s*```/);
       if (jsonMatch) {
-        const parsed = JSON.parse(jsonMatch[1]) as { isCorrect: boolean; explanation: string };
+        const parsed = JSON.parse(jsonMatch[1]) as {
+          keyPoints?: unknown;
+          score?: unknown;
+          isCorrect?: unknown;
+          explanation?: string;
+        };
+        const keyPoints = this.parseKeyPoints(parsed.keyPoints, rubric);
+
+        let score: number;
+        if (keyPoints.length > 0) {
+          const weights = keyPoints.map((_, i) => rubric[i]?.weight ?? 1);
+          const total = weights.reduce((sum, w) => sum + w, 0);
+          const hit = weights.reduce((sum, w, i) => sum + (keyPoints[i].hit ? w : 0), 0);
+          score = hit / total;
+        } else if (typeof parsed.score === 'number' && Number.isFinite(parsed.score)) {
+          score = Math.min(Math.max(parsed.score, 0), 1);
+        } else {
+          score = parsed.isCorrect ? 1 : 0;
+        }
+        score = Math.round(score * 100) / 100;
+
         return {
-          isCorrect: Boolean(parsed.isCorrect),
+          isCorrect: score >= QAService.OPEN_ENDED_PASSING_SCORE,
           explanation: parsed.explanation || 'No explanation provided.',
+          score,
+          keyPoints,
         };
       }
 
@@ -342,16 +813,67 @@ export class QAService {
       return {
         isCorrect: false,
         explanation: 'Unable to evaluate answer. Please try again.',
+        score: 0,
+        keyPoints: [],
       };
     } catch (error) {
       console.error('Failed to evaluate answer:', error);
       return {
         isCorrect: false,
         explanation: 'Error evaluating answer. Please try again.',
+        score: 0,
+        keyPoints: [],
       };
     }
   }
 
+  /**
+   * Parse a generated rubric, dropping malformed key points.
+   * Missing or invalid weights default to 1.
+   */
+  private parseRubric(raw: unknown): RubricPoint[] {
+    if (!Array.isArray(raw)) return [];
+
+    const rubric: RubricPoint[] = [];
+    for (const entry of raw as Array<{ point?: unknown; weight?: unknown }>) {
+      if (typeof entry?.point !== 'string' || !entry.point.trim()) continue;
+      const weight =
+        typeof entry.weight === 'number' && entry.weight > 0 && Number.isFinite(entry.weight)
+          ? entry.weight
+          : 1;
+      rubric.push({ point: entry.point.trim(), weight });
+    }
+    return rubric;
+  }
+
+  /**
+   * Parse graded key points from an evaluation.
+   * With a rubric, results are matched to rubric points by their wording and rubric
+   * points the LLM left out count as missed. Returns no key points when the evaluation
+   * has none, so the LLM's overall score is used instead.
+   */
+  private parseKeyPoints(raw: unknown, rubric: RubricPoint[]): KeyPointResult[] {
+    if (!Array.isArray(raw) || raw.length === 0) return [];
+    const entries = raw as Array<{ point?: unknown; hit?: unknown }>;
+
+    if (rubric.length > 0) {
+      const hits = new Map<string, boolean>();
+      for (const entry of entries) {
+        if (typeof entry?.point === 'string') {
+          hits.set(normalizeKeyPoint(entry.point), entry.hit === true);
+        }
+      }
+      return rubric.map((r) => ({
+        point: r.point,
+        hit: hits.get(normalizeKeyPoint(r.point)) ?? false,
+      }));
+    }
+
+    return entries
+      .filter((e) => typeof e?.point === 'string' && e.point.trim() !== '')
+      .map((e) => ({ point: (e.point as string).trim(), hit: e.hit === true }));
+  }
+
   /**
    * Load a Q&A session from a file path.
    */
@@ -370,6 +892,8 @@ export class QAService {
       score: frontmatter.score,
       createdAt: frontmatter.createdAt,
       completedAt: frontmatter.completedAt,
+      reviewItemIds: frontmatter.reviewItemIds ?? undefined,
+      milestoneId: frontmatter.milestoneId ?? undefined,
     };
   }
 
@@ -389,6 +913,8 @@ export class QAService {
       score: session.score,
       createdAt: session.createdAt,
       completedAt: session.completedAt,
+      reviewItemIds: session.reviewItemIds,
+      milestoneId: session.milestoneId,
     };
 
     const body = this.serializeSessionBody(session.questions, session.answers);
@@ -417,16 +943,19 @@ export class QAService {
       if (!section) continue;
 
       // Parse question metadata
-      const typeMatch = section.match(/Type: (multiple-choice|open-ended)/);
+      const typeMatch = section.match(/Type: ([\w-]+)/);
       const sourceMatch = section.match(/Source: (.+)/);
       const textMatch = section.match(/### (.+)/);
 
       if (!typeMatch || !sourceMatch || !textMatch) continue;
+      if (!QUESTION_TYPES.includes(typeMatch[1] as QuestionType)) continue;
 
-      const type = typeMatch[1] as 'multiple-choice' | 'open-ended';
+      const type = typeMatch[1] as QuestionType;
       const sourceNotePath = sourceMatch[1].trim();
       const text = textMatch[1].trim();
-      const id = `q-loaded-${i}`;
+      // Sessions saved before IDs were persisted fall back to a positional ID
+      const idMatch = section.split('\n### ')[0].match(/^ID: (.+)$/m);
+      const id = idMatch ? idMatch[1].trim() : `q-loaded-${i}`;
 
       if (type === 'multiple-choice') {
         // Parse options
@@ -450,24 +979,67 @@ export class QAService {
           options,
           correctAnswer: Number.parseInt(correctMatch[1], 10),
         });
+      } else if (type === 'true-false') {
+        const correctMatch = section.match(/^Correct: (true|false)$/m);
+        if (!correctMatch) continue;
+
+        questions.push({
+          id,
+          type: 'true-false',
+          text,
+          sourceNotePath,
+          correctAnswer: correctMatch[1] === 'true',
+        });
+      } else if (type === 'cloze') {
+        const acceptedAnswers = this.parseListBlock(section, 'Accepted');
+        if (acceptedAnswers.length === 0) continue;
+
+        questions.push({ id, type: 'cloze', text, sourceNotePath, acceptedAnswers });
+      } else if (type === 'ordering') {
+        const items = this.parseListBlock(section, 'Items');
+        if (items.length === 0) continue;
+
+        questions.push({ id, type: 'ordering', text, sourceNotePath, items });
+      } else if (type === 'multi-select') {
+        const options = this.parseListBlock(section, 'Options');
+        const correctMatch = section.match(/^Correct: ([\d, ]+)$/m);
+        if (options.length === 0 || !correctMatch) continue;
+
+        questions.push({
+          id,
+          type: 'multi-select',
+          text,
+          sourceNotePath,
+          options,
+          correctAnswers: this.parseIndexList(correctMatch[1]),
+        });
       } else {
+        const rubric = this.parseListBlock(section, 'Rubric').map((line) => {
+          const weightMatch = line.match(/^(.+) \(weight (\d+(?:\.\d+)?)\)$/);
+          return weightMatch
+            ? { point: weightMatch[1], weight: Number.parseFloat(weightMatch[2]) }
+            : { point: line, weight: 1 };
+        });
+
         questions.push({
           id,
           type: 'open-ended',
           text,
           sourceNotePath,
+          ...(rubric.length > 0 && { rubric }),
         });
       }
 
-      // Parse answer if present
-      const answerMatch = section.match(/#### User Answer\n([\s\S]*?)(?=\n#### Feedback|$)/);
+      // Parse answer if present; the answer runs up to the status line
+      const answerMatch = section.match(
+        /#### User Answer\n([\s\S]*?)\n+Status: (Correct|Incorrect)$/m,
+      );
       const feedbackMatch = section.match(/#### Feedback\n([\s\S]*?)(?=\n## Question|$)/);
-      const correctStatusMatch = section.match(/Status: (Correct|Incorrect)/);
 
-      if (answerMatch && feedbackMatch && correctStatusMatch) {
+      if (answerMatch && feedbackMatch) {
         const userAnswer = answerMatch[1].trim();
         const explanation = feedbackMatch[1].trim();
-        const isCorrect = correctStatusMatch[1] === 'Correct';
+        const isCorrect = answerMatch[2] === 'Correct';
 
         if (type === 'multiple-choice') {
           const answerNum = Number.parseInt(userAnswer, 10);
@@ -480,13 +1052,43 @@ export class QAService {
               explanation,
             });
           }
+        } else if (type === 'true-false') {
+          answers.push({
+            questionId: id,
+            type: 'true-false',
+            userAnswer: userAnswer === 'true',
+            isCorrect,
+            explanation,
+          });
+        } else if (type === 'ordering' || type === 'multi-select') {
+          answers.push({
+            questionId: id,
+            type,
+            userAnswer: this.parseIndexList(userAnswer),
+            isCorrect,
+            explanation,
+          });
+        } else if (type === 'cloze') {
+          answers.push({
+            questionId: id,
+            type: 'cloze',
+            userAnswer,
+            isCorrect,
+            explanation,
+          });
         } else {
+          // Answers graded before partial credit have no score or key points
+          const scoreMatch = section.match(/^Score: (\d+(?:\.\d+)?)$/m);
           answers.push({
             questionId: id,
             type: 'open-ended',
             userAnswer,
             isCorrect,
             explanation,
+            ...(scoreMatch && {
+              score: Number.parseFloat(scoreMatch[1]),
+              keyPoints: this.parseKeyPointBlock(section),
+            }),
           });
         }
       }
@@ -495,6 +1097,42 @@ export class QAService {
     return { questions, answers };
   }
 
+  /**
+   * Parse the "#### Key Points" checklist of a graded open-ended answer.
+   */
+  private parseKeyPointBlock(section: string): KeyPointResult[] {
+    const match = section.match(/^#### Key Points\n((?:- \[[ x]\] .+\n?)+)/m);
+    if (!match) return [];
+
+    return match[1]
+      .split('\n')
+      .filter((l) => l.startsWith('- ['))
+      .map((l) => ({ point: l.slice(6).trim(), hit: l[3] === 'x' }));
+  }
+
+  /**
+   * Parse a "Label:" line followed by "- item" lines from a question section.
+   */
+  private parseListBlock(section: string, label: string): string[] {
+    const match = section.match(new RegExp(`^${label}:\\n((?:- .+\\n?)+)`, 'm'));
+    if (!match) return [];
+
+    return match[1]
+      .split('\n')
+      .filter((l) => l.startsWith('- '))
+      .map((l) => l.replace(/^- /, '').trim());
+  }
+
+  /**
+   * Parse a comma-separated list of indices such as "2, 0, 1".
+   */
+  private parseIndexList(value: string): number[] {
+    return value
+      .split(',')
+      .map((part) => Number.parseInt(part.trim(), 10))
+      .filter((n) => !Number.isNaN(n));
+  }
+
   /**
    * Serialize questions and answers to markdown body.
    */
@@ -506,6 +1144,7 @@ export class QAService {
       const answer = answers.find((a) => a.questionId === q.id);
 
       lines.push(`## Question ${i + 1}`);
+      lines.push(`ID: ${q.id}`);
       lines.push(`Type: ${q.type}`);
       lines.push(`Source: ${q.sourceNotePath}`);
       lines.push('');
@@ -519,14 +1158,56 @@ export class QAService {
         }
         lines.push(`Correct: ${q.correctAnswer}`);
         lines.push('');
+      } else if (q.type === 'true-false') {
+        lines.push(`Correct: ${q.correctAnswer}`);
+        lines.push('');
+      } else if (q.type === 'cloze') {
+        lines.push('Accepted:');
+        for (const accepted of q.acceptedAnswers) {
+          lines.push(`- ${accepted}`);
+        }
+        lines.push('');
+      } else if (q.type === 'ordering') {
+        lines.push('Items:');
+        for (const item of q.items) {
+          lines.push(`- ${item}`);
+        }
+        lines.push('');
+      } else if (q.type === 'multi-select') {
+        lines.push('Options:');
+        for (const opt of q.options) {
+          lines.push(`- ${opt}`);
+        }
+        lines.push(`Correct: ${q.correctAnswers.join(', ')}`);
+        lines.push('');
+      } else if (q.type === 'open-ended' && q.rubric && q.rubric.length > 0) {
+        lines.push('Rubric:');
+        for (const r of q.rubric) {
+          lines.push(`- ${r.point} (weight ${r.weight})`);
+        }
+        lines.push('');
       }
 
       if (answer) {
         lines.push('#### User Answer');
-        lines.push(String(answer.userAnswer));
+        lines.push(
+          Array.isArray(answer.userAnswer)
+            ? answer.userAnswer.join(', ')
+            : String(answer.userAnswer),
+        );
         lines.push('');
         lines.push(`Status: ${answer.isCorrect ? 'Correct' : 'Incorrect'}`);
+        if (answer.type === 'open-ended' && answer.score !== undefined) {
+          lines.push(`Score: ${answer.score}`);
+        }
         lines.push('');
+        if (answer.type === 'open-ended' && answer.keyPoints && answer.keyPoints.length > 0) {
+          lines.push('#### Key Points');
+          for (const keyPoint of answer.keyPoints) {
+            lines.push(`- [${keyPoint.hit ? 'x' : ' '}] ${keyPoint.point}`);
+          }
+          lines.push('');
+        }
         lines.push('#### Feedback');
         lines.push(answer.explanation);
         lines.push('');
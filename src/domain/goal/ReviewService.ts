@@ -0,0 +1,247 @@
+import type { IVaultProvider } from '@/ports';
+import { parseFrontmatter, serializeFrontmatter } from './frontmatterUtils';
+import type { Answer, ReviewItem } from './types';
+
+/**
+ * Frontmatter structure for the review schedule markdown file.
+ */
+interface ReviewScheduleFrontmatter {
+  goalId: string;
+  updatedAt: string;
+}
+
+/**
+ * SM-2 scheduling parameters.
+ */
+export const SM2_DEFAULTS = {
+  initialEaseFactor: 2.5,
+  minEaseFactor: 1.3,
+  passingQuality: 3,
+} as const;
+
+/**
+ * SM-2 state computed for the next review.
+ */
+export type ReviewSchedule = Pick<
+  ReviewItem,
+  'easeFactor' | 'interval' | 'repetitions' | 'dueDate' | 'lastReviewedAt'
+>;
+
+/**
+ * Map an answer to an SM-2 recall quality (0-5).
+ * Partial credit on open-ended answers scales the quality, staying on the pass/fail side of 3.
+ */
+export function answerToQuality(answer: Answer): number {
+  if (answer.type === 'open-ended' && answer.score !== undefined) {
+    const quality = Math.round(answer.score * 5);
+    return answer.isCorrect ? Math.max(quality, 3) : Math.min(quality, 2);
+  }
+  return answer.isCorrect ? 4 : 1;
+}
+
+/**
+ * Compute the next review using the SM-2 algorithm.
+ * Failed recalls restart the interval at one day; the ease factor never drops below 1.3.
+ */
+export function scheduleReview(
+  previous: ReviewSchedule | null,
+  quality: number,
+  now: Date = new Date(),
+): ReviewSchedule {
+  const easeFactor = previous?.easeFactor ?? SM2_DEFAULTS.initialEaseFactor;
+  const repetitions = previous?.repetitions ?? 0;
+  const interval = previous?.interval ?? 0;
+
+  let nextRepetitions: number;
+  let nextInterval: number;
+
+  if (quality >= SM2_DEFAULTS.passingQuality) {
+    nextRepetitions = repetitions + 1;
+    if (repetitions === 0) {
+      nextInterval = 1;
+    } else if (repetitions === 1) {
+      nextInterval = 6;
+    } else {
+      nextInterval = Math.round(interval * easeFactor);
+    }
+  } else {
+    nextRepetitions = 0;
+    nextInterval = 1;
+  }
+
+  const qualityGap = 5 - quality;
+  const nextEaseFactor = Math.max(
+    SM2_DEFAULTS.minEaseFactor,
+    easeFactor + (0.1 - qualityGap * (0.08 + qualityGap * 0.02)),
+  );
+
+  const dueDate = new Date(now.getTime() + nextInterval * 24 * 60 * 60 * 1000);
+
+  return {
+    easeFactor: Math.round(nextEaseFactor * 100) / 100,
+    interval: nextInterval,
+    repetitions: nextRepetitions,
+    dueDate: dueDate.toISOString(),
+    lastReviewedAt: now.toISOString(),
+  };
+}
+
+/**
+ * Service for spaced-repetition review of Q&A questions.
+ * Keeps one schedule per goal in `ignite/{goalId}/review-schedule.md`.
+ */
+export class ReviewService {
+  private static readonly SCHEDULE_FILENAME = 'review-schedule.md';
+
+  constructor(private vaultProvider: IVaultProvider) {}
+
+  /**
+   * Get all review items for a goal.
+   */
+  async getReviewItems(goalId: string): Promise<ReviewItem[]> {
+    const path = this.getSchedulePath(goalId);
+    const exists = await this.vaultProvider.exists(path);
+
+    if (!exists) {
+      return [];
+    }
+
+    const content = await this.vaultProvider.readFile(path);
+    const { body } = parseFrontmatter<ReviewScheduleFrontmatter>(content);
+    return this.parseScheduleBody(body);
+  }
+
+  /**
+   * Get review items that are due, most overdue first.
+   */
+  async getDueItems(goalId: string, now: Date = new Date()): Promise<ReviewItem[]> {
+    const items = await this.getReviewItems(goalId);
+    return items
+      .filter((item) => new Date(item.dueDate).getTime() <= now.getTime())
+      .sort((a, b) => new Date(a.dueDate).getTime() - new Date(b.dueDate).getTime());
+  }
+
+  /**
+   * Record an answer and reschedule its review item.
+   * Creates the item on the first answer to a question.
+   */
+  async recordAnswer(
+    goalId: string,
+    itemId: string,
+    answer: Answer,
+    now: Date = new Date(),
+  ): Promise<ReviewItem> {
+    const items = await this.getReviewItems(goalId);
+    const existing = items.find((item) => item.id === itemId);
+    const schedule = scheduleReview(existing ?? null, answerToQuality(answer), now);
+
+    let item: ReviewItem;
+    if (existing) {
+      item = Object.assign(existing, schedule);
+    } else {
+      const [sessionId, questionId] = this.parseItemId(itemId);
+      item = { id: itemId, sessionId, questionId, ...schedule };
+      items.push(item);
+    }
+
+    await this.saveReviewItems(goalId, items);
+    return item;
+  }
+
+  /**
+   * Build the review item ID for a question in a session.
+   */
+  getItemId(sessionId: string, questionId: string): string {
+    return `${sessionId}/${questionId}`;
+  }
+
+  /**
+   * Save review items for a goal.
+   */
+  private async saveReviewItems(goalId: string, items: ReviewItem[]): Promise<void> {
+    const path = this.getSchedulePath(goalId);
+
+    await this.vaultProvider.createFolder(`ignite/${goalId}`);
+
+    const frontmatter: ReviewScheduleFrontmatter = {
+      goalId,
+      updatedAt: new Date().toISOString(),
+    };
+    const content = serializeFrontmatter(frontmatter, this.serializeScheduleBody(items));
+
+    const exists = await this.vaultProvider.exists(path);
+    if (exists) {
+      await this.vaultProvider.modifyFile(path, content);
+    } else {
+      await this.vaultProvider.createFile(path, content);
+    }
+  }
+
+  /**
+   * Parse review items from the markdown table in the schedule body.
+   */
+  private parseScheduleBody(body: string): ReviewItem[] {
+    const items: ReviewItem[] = [];
+
+    for (const line of body.split('\n')) {
+      const cells = line
+        .trim()
+        .replace(/^\||\|$/g, '')
+        .split('|')
+        .map((cell) => cell.trim());
+
+      if (cells.length !== 6 || !cells[0].includes('/')) continue;
+
+      const [id, easeFactor, interval, repetitions, dueDate, lastReviewedAt] = cells;
+      const [sessionId, questionId] = this.parseItemId(id);
+
+      items.push({
+        id,
+        sessionId,
+        questionId,
+        easeFactor: Number.parseFloat(easeFactor),
+        interval: Number.parseInt(interval, 10),
+        repetitions: Number.parseInt(repetitions, 10),
+        dueDate,
+        lastReviewedAt,
+      });
+    }
+
+    return items;
+  }
+
+  /**
+   * Serialize review items to a markdown table.
+   */
+  private serializeScheduleBody(items: ReviewItem[]): string {
+    const lines: string[] = [
+      '# Review Schedule',
+      '',
+      '| Question | Ease | Interval (days) | Repetitions | Due | Last Reviewed |',
+      '| --- | --- | --- | --- | --- | --- |',
+    ];
+
+    for (const item of items) {
+      lines.push(
+        `| ${item.id} | ${item.easeFactor} | ${item.interval} | ${item.repetitions} | ${item.dueDate} | ${item.lastReviewedAt} |`,
+      );
+    }
+
+    return `${lines.join('\n')}\n`;
+  }
+
+  /**
+   * Split a review item ID into session and question IDs.
+   */
+  private parseItemId(itemId: string): [string, string] {
+    const separatorIndex = itemId.indexOf('/');
+    return [itemId.slice(0, separatorIndex), itemId.slice(separatorIndex + 1)];
+  }
+
+  /**
+   * Get the file path for a goal's review schedule.
+   */
+  private getSchedulePath(goalId: string): string {
+    return `ignite/${goalId}/${ReviewService.SCHEDULE_FILENAME}`;
+  }
+}
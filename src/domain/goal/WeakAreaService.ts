@@ -0,0 +1,204 @@
+import {
+  WEAK_CONCEPTS_SYSTEM_PROMPT,
+  buildWeakConceptsContext,
+} from '@/adapters/anthropic/prompts/qaGeneration';
+import type { ILLMProvider, LLMMessage } from '@/ports';
+import type { QAService } from './QAService';
+import {
+  type NoteMastery,
+  type QASession,
+  type Question,
+  type WeakAreaAnalysis,
+  type WeakConcept,
+  isRepeatSession,
+} from './types';
+
+/**
+ * Configuration for weak-area analysis.
+ */
+export interface WeakAreaConfig {
+  /** Notes with mastery below this (0-1) are weak areas */
+  masteryThreshold: number;
+  /** Maximum number of concepts to return */
+  maxConcepts: number;
+}
+
+/**
+ * Default weak-area configuration.
+ */
+export const DEFAULT_WEAK_AREA_CONFIG: WeakAreaConfig = {
+  masteryThreshold: 0.7,
+  maxConcepts: 5,
+};
+
+/**
+ * Compute per-note mastery from answered questions, weakest notes first.
+ * Each note's history has one snapshot per session that included it, oldest first.
+ * Review and retake sessions are skipped so repeated questions are only counted once.
+ */
+export function computeNoteMastery(sessions: QASession[]): NoteMastery[] {
+  const byNote = new Map<string, NoteMastery>();
+  const chronological = sessions
+    .filter((session) => !isRepeatSession(session))
+    .sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+
+  for (const session of chronological) {
+    for (const question of session.questions) {
+      const answer = session.answers.find((a) => a.questionId === question.id);
+      if (!answer) continue;
+
+      let note = byNote.get(question.sourceNotePath);
+      if (!note) {
+        note = {
+          notePath: question.sourceNotePath,
+          attempts: 0,
+          correct: 0,
+          mastery: 0,
+          history: [],
+        };
+        byNote.set(question.sourceNotePath, note);
+      }
+
+      let snapshot = note.history[note.history.length - 1];
+      if (!snapshot || snapshot.sessionId !== session.id) {
+        snapshot = { sessionId: session.id, date: session.createdAt, correct: 0, total: 0 };
+        note.history.push(snapshot);
+      }
+
+      note.attempts++;
+      snapshot.total++;
+      if (answer.isCorrect) {
+        note.correct++;
+        snapshot.correct++;
+      }
+    }
+  }
+
+  const notes = Array.from(byNote.values());
+  for (const note of notes) {
+    note.mastery = note.correct / note.attempts;
+  }
+
+  return notes.sort((a, b) => a.mastery - b.mastery || b.attempts - a.attempts);
+}
+
+/**
+ * Service for finding weak areas across a goal's Q&A history.
+ * Groups incorrect answers by source note and, optionally, by LLM-extracted concept.
+ */
+export class WeakAreaService {
+  private config: WeakAreaConfig;
+
+  constructor(
+    private qaService: QAService,
+    private llmProvider: ILLMProvider,
+    config: Partial<WeakAreaConfig> = {},
+  ) {
+    this.config = { ...DEFAULT_WEAK_AREA_CONFIG, ...config };
+  }
+
+  /**
+   * Analyze all Q&A sessions for a goal.
+   */
+  async analyzeGoal(
+    goalId: string,
+    options: { includeConcepts?: boolean } = {},
+  ): Promise<WeakAreaAnalysis> {
+    const sessions = await this.qaService.getSessionsForGoal(goalId);
+    return this.analyzeSessions(sessions, options);
+  }
+
+  /**
+   * Analyze already-loaded Q&A sessions.
+   * Concept extraction calls the LLM, so it is opt-in.
+   */
+  async analyzeSessions(
+    sessions: QASession[],
+    options: { includeConcepts?: boolean } = {},
+  ): Promise<WeakAreaAnalysis> {
+    const notes = computeNoteMastery(sessions);
+    const weakNotes = notes.filter((note) => note.mastery < this.config.masteryThreshold);
+    const concepts = options.includeConcepts ? await this.extractConcepts(sessions) : [];
+
+    const sessionCount = sessions.filter((session) => !isRepeatSession(session)).length;
+    return { sessionCount, notes, weakNotes, concepts };
+  }
+
+  /**
+   * Group incorrectly answered questions into concepts using the LLM.
+   * Returns no concepts if the LLM call or its response fails.
+   * Review and retake sessions are skipped, like in the mastery figures.
+   */
+  async extractConcepts(sessions: QASession[]): Promise<WeakConcept[]> {
+    const incorrect: Question[] = [];
+    for (const session of sessions) {
+      if (isRepeatSession(session)) continue;
+      for (const question of session.questions) {
+        const answer = session.answers.find((a) => a.questionId === question.id);
+        if (answer && !answer.isCorrect) {
+          incorrect.push(question);
+        }
+      }
+    }
+
+    if (incorrect.length === 0) {
+      return [];
+    }
+
+    const messages: LLMMessage[] = [
+      { role: 'system', content: WEAK_CONCEPTS_SYSTEM_PROMPT },
+      { role: 'user', content: buildWeakConceptsContext(incorrect) },
+    ];
+
+    try {
+      const response = await this.llmProvider.chat(messages, {
+        temperature: 0.3,
+        maxTokens: 1000,
+      });
+      return this.parseConcepts(response.content, incorrect);
+    } catch (error) {
+      console.warn('Failed to extract weak concepts:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Parse concepts from the LLM response, mapping question numbers back to notes.
+   */
+  private parseConcepts(response: string, questions: Question[]): WeakConcept[] {
+    const jsonMatch = response.match(/```json\s*([\s\S]*?)\s*```/);
+    if (!jsonMatch) {
+      console.warn('No JSON found in weak concepts response');
+      return [];
+    }
+
+    let parsed: { concepts?: Array<{ concept?: unknown; questions?: unknown }> };
+    try {
+      parsed = JSON.parse(jsonMatch[1]);
+    } catch (error) {
+      console.warn('Failed to parse weak concepts JSON:', error);
+      return [];
+    }
+
+    const concepts: WeakConcept[] = [];
+    for (const raw of parsed.concepts ?? []) {
+      if (typeof raw.concept !== 'string' || !raw.concept.trim()) continue;
+      if (!Array.isArray(raw.questions)) continue;
+
+      const matched = raw.questions
+        .filter((n): n is number => Number.isInteger(n) && n >= 1 && n <= questions.length)
+        .map((n) => questions[n - 1]);
+      if (matched.length === 0) continue;
+
+      concepts.push({
+        concept: raw.concept.trim(),
+        notePaths: Array.from(new Set(matched.map((q) => q.sourceNotePath))),
+        incorrectCount: matched.length,
+      });
+    }
+
+    return concepts
+      .sort((a, b) => b.incorrectCount - a.incorrectCount)
+      .slice(0, this.config.maxConcepts);
+  }
+}
@@ -72,6 +72,7 @@ describe('EmbeddingRelevanceService', () => {
       createFolder: vi.fn(async () => {}),
       deleteFile: vi.fn(async () => {}),
       deleteFolder: vi.fn(async () => {}),
+      onChange: vi.fn(() => () => {}),
     };
 
     // Mock embedding provider that returns embeddings based on content
@@ -107,6 +108,7 @@ describe('EmbeddingRelevanceService', () => {
           tokenCount: Math.ceil(text.length / 4),
         };
       }),
+      embedQuery: vi.fn(async () => embeddingMap.__query__),
       getDimensions: vi.fn(() => 3),
       getProviderName: vi.fn(() => 'MockEmbedding'),
       getModelName: vi.fn(() => 'mock-model'),
@@ -196,8 +198,8 @@ describe('EmbeddingRelevanceService', () => {
     it('should include reasons from LLM', async () => {
       const scores = await service.scoreNotes(goalDraft, [], []);
 
-      expect(scores[0].reason).toBe('Directly covers TypeScript concepts');
-      expect(scores[3].reason).toBe('Unrelated to programming');
+      expect(scores[0].reason).toMatch(/^Directly covers TypeScript concepts \(semantic/);
+      expect(scores[3].reason).toMatch(/^Unrelated to programming \(semantic/);
     });
 
     it('should include previews for each note', async () => {
@@ -242,7 +244,16 @@ describe('EmbeddingRelevanceService', () => {
       await service.scoreNotes(goalDraft, [], []);
 
       expect(mockEmbeddingProvider.embedBatch).toHaveBeenCalled();
-      expect(mockEmbeddingProvider.embed).toHaveBeenCalled();
+      expect(mockEmbeddingProvider.embedQuery).toHaveBeenCalled();
+    });
+
+    it('should embed the goal as a search query', async () => {
+      await service.scoreNotes(goalDraft, [], []);
+
+      expect(mockEmbeddingProvider.embedQuery).toHaveBeenCalledWith(
+        expect.stringContaining('Learn TypeScript'),
+      );
+      expect(mockEmbeddingProvider.embed).not.toHaveBeenCalled();
     });
 
     it('should call LLM for explanations', async () => {
@@ -295,8 +306,10 @@ describe('EmbeddingRelevanceService', () => {
       // LLM should not be called
       expect(mockLLMProvider.chat).not.toHaveBeenCalled();
 
-      // Should have generic reason
-      expect(scores[0].reason).toBe('Semantically similar to goal description');
+      // Should have generic reason with the contribution of each search
+      expect(scores[0].reason).toBe(
+        'Semantically similar to goal description (semantic 50%, keyword 50%)',
+      );
     });
   });
 
@@ -319,7 +332,7 @@ describe('EmbeddingRelevanceService', () => {
 
       expect(scores.length).toBeGreaterThan(0);
       // Should have fallback reason
-      expect(scores[0].reason).toBe('Semantically similar to goal description');
+      expect(scores[0].reason).toMatch(/^Semantically similar to goal description \(semantic/);
     });
 
     it('should handle partial LLM response', async () => {
@@ -345,11 +358,11 @@ describe('EmbeddingRelevanceService', () => {
       // TypeScript note should have LLM score
       const tsScore = scores.find((s) => s.path === 'notes/typescript.md');
       expect(tsScore?.score).toBe(95);
-      expect(tsScore?.reason).toBe('Covers TypeScript');
+      expect(tsScore?.reason).toMatch(/^Covers TypeScript \(semantic \d+%, keyword \d+%\)$/);
 
-      // Other notes should have embedding-based scores
+      // Other notes should have search-based scores
       const otherScore = scores.find((s) => s.path !== 'notes/typescript.md');
-      expect(otherScore?.reason).toBe('Semantically similar to goal description');
+      expect(otherScore?.reason).toMatch(/\(semantic \d+%, keyword \d+%\)$/);
     });
   });
 
@@ -377,10 +390,255 @@ describe('EmbeddingRelevanceService', () => {
     });
   });
 
+  describe('hybrid keyword search', () => {
+    const goalDraft: GoalDraft = {
+      name: 'Learn OAuth',
+      description: 'Understand PKCE',
+      deadline: '2025-12-31',
+      milestones: [],
+    };
+
+    beforeEach(() => {
+      // Jargon-heavy note whose embedding is far from the query
+      storedFiles.set('notes/pkce.md', '# PKCE\n\nCode verifier and challenge for OAuth clients.');
+      vi.mocked(mockEmbeddingProvider.embedBatch).mockImplementation(async (inputs) => ({
+        embeddings: inputs.map((input) => ({
+          notePath: input.notePath,
+          embedding:
+            input.notePath === 'notes/pkce.md'
+              ? createEmbedding([0.05, 0.1, 0.95])
+              : createEmbedding([0.9, 0.8, 0.1]),
+          tokenCount: Math.ceil(input.text.length / 4),
+        })),
+        totalTokens: 100,
+        usage: { totalTokens: 100, apiCalls: 1, estimatedCost: 0.001 },
+      }));
+    });
+
+    it('should surface notes that share exact terms with the goal', async () => {
+      const hybridService = new EmbeddingRelevanceService(
+        mockVaultProvider,
+        mockEmbeddingProvider,
+        mockLLMProvider,
+        mockStorageAdapter,
+        { topK: 2, useLLMExplanations: false },
+      );
+
+      const scores = await hybridService.scoreNotes(goalDraft, [], []);
+
+      const pkce = scores.find((s) => s.path === 'notes/pkce.md');
+      expect(pkce?.reason).toMatch(/^Shares key terms with goal description \(semantic \d+%/);
+    });
+
+    it('should rank by embeddings only when keyword weight is 0', async () => {
+      const semanticService = new EmbeddingRelevanceService(
+        mockVaultProvider,
+        mockEmbeddingProvider,
+        mockLLMProvider,
+        mockStorageAdapter,
+        { topK: 2, useLLMExplanations: false, lexicalWeight: 0 },
+      );
+
+      const scores = await semanticService.scoreNotes(goalDraft, [], []);
+
+      expect(scores.find((s) => s.path === 'notes/pkce.md')).toBeUndefined();
+      expect(scores[0].reason).toBe(
+        'Semantically similar to goal description (semantic 100%, keyword 0%)',
+      );
+      expect(storedData.has('bm25/index')).toBe(false);
+    });
+
+    it('should cache the keyword index in storage', async () => {
+      await service.scoreNotes(goalDraft, [], []);
+
+      expect(storedData.has('bm25/index')).toBe(true);
+    });
+  });
+
+  describe('chunk embeddings', () => {
+    const goalDraft: GoalDraft = {
+      name: 'Learn TypeScript',
+      description: 'Master TypeScript',
+      deadline: '2025-12-31',
+      milestones: [],
+    };
+
+    beforeEach(() => {
+      // Long note whose only TypeScript content is in a later section
+      storedFiles.set(
+        'notes/journal.md',
+        '# Dinner\n\nMade pasta and soup tonight.\n\n# Work\n\nToday I learned TypeScript generics.',
+      );
+
+      // Embed by content so each chunk gets its own vector
+      vi.mocked(mockEmbeddingProvider.embedBatch).mockImplementation(async (inputs) => ({
+        embeddings: inputs.map((input) => ({
+          notePath: input.notePath,
+          embedding: input.text.includes('TypeScript')
+            ? createEmbedding([0.95, 0.85, 0.05])
+            : createEmbedding([0.1, 0.1, 0.9]),
+          tokenCount: Math.ceil(input.text.length / 4),
+        })),
+        totalTokens: 100,
+        usage: { totalTokens: 100, apiCalls: 1, estimatedCost: 0.001 },
+      }));
+    });
+
+    it('should embed each heading section separately', async () => {
+      const chunkService = new EmbeddingRelevanceService(
+        mockVaultProvider,
+        mockEmbeddingProvider,
+        mockLLMProvider,
+        mockStorageAdapter,
+        { useChunks: true, useLLMExplanations: false },
+      );
+
+      await chunkService.scoreNotes(goalDraft, [], []);
+
+      const inputs = vi.mocked(mockEmbeddingProvider.embedBatch).mock.calls[0][0];
+      const inputKeys = inputs.map((input) => input.notePath);
+      expect(inputKeys).toContain('notes/journal.md#dinner');
+      expect(inputKeys).toContain('notes/journal.md#work');
+    });
+
+    it('should score notes by their best chunk with max aggregation', async () => {
+      const chunkService = new EmbeddingRelevanceService(
+        mockVaultProvider,
+        mockEmbeddingProvider,
+        mockLLMProvider,
+        mockStorageAdapter,
+        { useChunks: true, useLLMExplanations: false, chunkAggregation: 'max' },
+      );
+
+      const scores = await chunkService.scoreNotes(goalDraft, [], []);
+
+      const journal = scores.find((s) => s.path === 'notes/journal.md');
+      const typescript = scores.find((s) => s.path === 'notes/typescript.md');
+      expect(journal?.score).toBe(typescript?.score);
+    });
+
+    it('should average the top chunks with mean-top-n aggregation', async () => {
+      const chunkService = new EmbeddingRelevanceService(
+        mockVaultProvider,
+        mockEmbeddingProvider,
+        mockLLMProvider,
+        mockStorageAdapter,
+        {
+          useChunks: true,
+          useLLMExplanations: false,
+          chunkAggregation: 'mean-top-n',
+          chunkTopN: 2,
+        },
+      );
+
+      const scores = await chunkService.scoreNotes(goalDraft, [], []);
+
+      const journal = scores.find((s) => s.path === 'notes/journal.md');
+      const typescript = scores.find((s) => s.path === 'notes/typescript.md');
+      const cooking = scores.find((s) => s.path === 'notes/cooking.md');
+      expect(journal?.score).toBeLessThan(typescript?.score ?? 0);
+      expect(journal?.score).toBeGreaterThan(cooking?.score ?? 0);
+    });
+
+    it('should reuse cached chunk embeddings for unchanged notes', async () => {
+      const chunkService = new EmbeddingRelevanceService(
+        mockVaultProvider,
+        mockEmbeddingProvider,
+        mockLLMProvider,
+        mockStorageAdapter,
+        { useChunks: true, useLLMExplanations: false },
+      );
+
+      await chunkService.scoreNotes(goalDraft, [], []);
+      storedFiles.set('notes/python.md', '# Python\n\nPython now has type hints.');
+      await chunkService.scoreNotes(goalDraft, [], []);
+
+      expect(mockEmbeddingProvider.embedBatch).toHaveBeenCalledTimes(2);
+      const secondInputs = vi.mocked(mockEmbeddingProvider.embedBatch).mock.calls[1][0];
+      expect(secondInputs.map((input) => input.notePath)).toEqual(['notes/python.md#python']);
+    });
+  });
+
+  describe('unchanged notes', () => {
+    const goalDraft: GoalDraft = {
+      name: 'Learn TypeScript',
+      description: 'Master TypeScript',
+      deadline: '2025-12-31',
+      milestones: [],
+    };
+    let modifiedAt: Map<string, number>;
+    let topService: EmbeddingRelevanceService;
+
+    beforeEach(() => {
+      // Notes were last modified before they are first embedded
+      modifiedAt = new Map();
+      vi.mocked(mockVaultProvider.listMarkdownFiles).mockImplementation(async () =>
+        Array.from(storedFiles.keys()).map((path) => ({
+          path,
+          basename: path.split('/').pop()?.replace('.md', '') ?? '',
+          folder: path.split('/').slice(0, -1).join('/'),
+          modifiedAt: modifiedAt.get(path) ?? 0,
+          createdAt: 0,
+        })),
+      );
+
+      topService = new EmbeddingRelevanceService(
+        mockVaultProvider,
+        mockEmbeddingProvider,
+        mockLLMProvider,
+        mockStorageAdapter,
+        { topK: 1, useLLMExplanations: false },
+      );
+    });
+
+    it('should only read the top candidates when no note changed', async () => {
+      await topService.scoreNotes(goalDraft, [], []);
+      vi.mocked(mockVaultProvider.readFile).mockClear();
+
+      const scores = await topService.scoreNotes(goalDraft, [], []);
+
+      expect(scores.map((s) => s.path)).toEqual(['notes/typescript.md']);
+      expect(scores[0].preview).toContain('typed superset');
+      expect(vi.mocked(mockVaultProvider.readFile).mock.calls).toEqual([['notes/typescript.md']]);
+      expect(mockEmbeddingProvider.embedBatch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should read and embed notes modified since they were indexed', async () => {
+      await topService.scoreNotes(goalDraft, [], []);
+      vi.mocked(mockVaultProvider.readFile).mockClear();
+      storedFiles.set('notes/python.md', '# Python\n\nPython now has type hints.');
+      modifiedAt.set('notes/python.md', Date.now() + 1);
+
+      await topService.scoreNotes(goalDraft, [], []);
+
+      const readPaths = vi.mocked(mockVaultProvider.readFile).mock.calls.map(([path]) => path);
+      expect(readPaths.sort()).toEqual(['notes/python.md', 'notes/typescript.md']);
+      const secondInputs = vi.mocked(mockEmbeddingProvider.embedBatch).mock.calls[1][0];
+      expect(secondInputs.map((input) => input.notePath)).toEqual(['notes/python.md']);
+    });
+
+    it('should read notes missing from the keyword index', async () => {
+      const semanticService = new EmbeddingRelevanceService(
+        mockVaultProvider,
+        mockEmbeddingProvider,
+        mockLLMProvider,
+        mockStorageAdapter,
+        { lexicalWeight: 0, useLLMExplanations: false },
+      );
+      await semanticService.scoreNotes(goalDraft, [], []);
+      vi.mocked(mockVaultProvider.readFile).mockClear();
+
+      await topService.scoreNotes(goalDraft, [], []);
+
+      expect(mockVaultProvider.readFile).toHaveBeenCalledTimes(storedFiles.size);
+      expect(mockEmbeddingProvider.embedBatch).toHaveBeenCalledTimes(1);
+    });
+  });
+
   describe('error handling', () => {
     it('should throw descriptive error when query embedding fails', async () => {
-      // Make embed fail for query
-      mockEmbeddingProvider.embed = vi.fn(async () => {
+      // Make embedQuery fail
+      mockEmbeddingProvider.embedQuery = vi.fn(async () => {
         throw new Error('Voyage API rate limited');
       });
 
@@ -397,8 +655,8 @@ describe('EmbeddingRelevanceService', () => {
     });
 
     it('should throw descriptive error when query embedding fails with unknown error', async () => {
-      // Make embed fail with non-Error
-      mockEmbeddingProvider.embed = vi.fn(async () => {
+      // Make embedQuery fail with non-Error
+      mockEmbeddingProvider.embedQuery = vi.fn(async () => {
         throw 'Unknown failure';
       });
 
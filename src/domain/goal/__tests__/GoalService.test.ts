@@ -57,6 +57,7 @@ describe('GoalService', () => {
           storedFiles.delete(key);
         }
       }),
+      onChange: vi.fn(() => () => {}),
     };
 
     service = new GoalService(mockVaultProvider);
@@ -226,6 +227,46 @@ describe('GoalService', () => {
     });
   });
 
+  describe('updateGoalDetails', () => {
+    it('should trim and save the edited details', async () => {
+      const created = await service.createGoal({
+        name: 'Original Name',
+        description: 'Original Description',
+        deadline: '2025-12-31',
+        milestones: [{ id: 'm1', content: 'M1', completed: false, order: 0 }],
+      });
+
+      await service.updateGoalDetails(created.id, {
+        name: '  Updated Name ',
+        description: ' Updated Description ',
+        deadline: '2026-01-15',
+      });
+      const loaded = await service.getGoalById(created.id);
+
+      expect(loaded?.name).toBe('Updated Name');
+      expect(loaded?.description).toBe('Updated Description');
+      expect(loaded?.deadline).toBe('2026-01-15');
+      expect(loaded?.milestones).toEqual(created.milestones);
+    });
+
+    it('should reject invalid details', async () => {
+      const created = await service.createGoal({
+        name: 'Original Name',
+        description: 'Original Description',
+        deadline: '2025-12-31',
+        milestones: [{ id: 'm1', content: 'M1', completed: false, order: 0 }],
+      });
+
+      await expect(
+        service.updateGoalDetails(created.id, {
+          name: 'Name',
+          description: 'Description',
+          deadline: '2025-02-30',
+        }),
+      ).rejects.toThrow('Goal deadline must be a valid date (YYYY-MM-DD)');
+    });
+  });
+
   describe('deleteGoal', () => {
     it('should delete goal and its folder', async () => {
       const created = await service.createGoal({
@@ -327,6 +368,57 @@ describe('GoalService', () => {
 
       expect(updated.notesPaths).toEqual(['note1.md', 'note3.md']);
     });
+
+    it('should remove the notes from milestones too', async () => {
+      const created = await service.createGoal({
+        name: 'Test Goal',
+        description: 'Test',
+        deadline: '2025-12-31',
+        milestones: [
+          { id: 'm1', content: 'M1', completed: false, order: 0, notesPaths: ['a.md', 'b.md'] },
+        ],
+        notesPaths: ['a.md', 'b.md'],
+      });
+
+      const updated = await service.removeNotesFromGoal(created.id, ['b.md']);
+
+      expect(updated.milestones[0].notesPaths).toEqual(['a.md']);
+    });
+  });
+
+  describe('assignNotesToMilestone', () => {
+    it('should assign notes to the milestone and the goal, and persist them', async () => {
+      const created = await service.createGoal({
+        name: 'Test Goal',
+        description: 'Test',
+        deadline: '2025-12-31',
+        milestones: [
+          { id: 'm1', content: 'M1', completed: false, order: 0 },
+          { id: 'm2', content: 'M2', completed: false, order: 1 },
+        ],
+        notesPaths: ['a.md'],
+      });
+
+      await service.assignNotesToMilestone(created.id, 'm2', ['a.md', 'b.md', 'a.md']);
+      const loaded = await service.getGoalById(created.id);
+
+      expect(loaded?.notesPaths).toEqual(['a.md', 'b.md']);
+      expect(loaded?.milestones[1].notesPaths).toEqual(['a.md', 'b.md']);
+      expect(loaded?.milestones[0].notesPaths).toBeUndefined();
+    });
+
+    it('should reject an unknown milestone', async () => {
+      const created = await service.createGoal({
+        name: 'Test Goal',
+        description: 'Test',
+        deadline: '2025-12-31',
+        milestones: [{ id: 'm1', content: 'M1', completed: false, order: 0 }],
+      });
+
+      await expect(service.assignNotesToMilestone(created.id, 'm9', ['a.md'])).rejects.toThrow(
+        'Milestone not found: m9',
+      );
+    });
   });
 
   describe('updateMilestones', () => {
@@ -347,5 +439,48 @@ describe('GoalService', () => {
 
       expect(updated.milestones).toEqual(newMilestones);
     });
+
+    it('should trim content and renumber order without gaps', async () => {
+      const created = await service.createGoal({
+        name: 'Test Goal',
+        description: 'Test',
+        deadline: '2025-12-31',
+        milestones: [{ id: 'm1', content: 'First', completed: false, order: 0 }],
+      });
+
+      const updated = await service.updateMilestones(created.id, [
+        { id: 'm2', content: ' Second ', completed: false, order: 5 },
+        { id: 'm1', content: 'First', completed: true, order: 2 },
+      ]);
+
+      expect(updated.milestones).toEqual([
+        { id: 'm1', content: 'First', completed: true, order: 0 },
+        { id: 'm2', content: 'Second', completed: false, order: 1 },
+      ]);
+    });
+
+    it('should reject empty milestones, duplicate IDs and an empty list', async () => {
+      const created = await service.createGoal({
+        name: 'Test Goal',
+        description: 'Test',
+        deadline: '2025-12-31',
+        milestones: [{ id: 'm1', content: 'First', completed: false, order: 0 }],
+      });
+
+      await expect(
+        service.updateMilestones(created.id, [
+          { id: 'm1', content: '  ', completed: false, order: 0 },
+        ]),
+      ).rejects.toThrow('Milestone cannot be empty');
+      await expect(
+        service.updateMilestones(created.id, [
+          { id: 'm1', content: 'A', completed: false, order: 0 },
+          { id: 'm1', content: 'B', completed: false, order: 1 },
+        ]),
+      ).rejects.toThrow('Milestone IDs must be unique');
+      await expect(service.updateMilestones(created.id, [])).rejects.toThrow(
+        'Goal must have at least one milestone',
+      );
+    });
   });
 });
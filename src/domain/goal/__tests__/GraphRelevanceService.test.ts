@@ -0,0 +1,171 @@
+import type { FileMetadata, IMetadataProvider, IVaultProvider, ResolvedLinks } from '@/ports';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { GraphRelevanceService } from '../GraphRelevanceService';
+import type { ScoredNote } from '../NoteRelevanceService';
+
+describe('GraphRelevanceService', () => {
+  let files: Map<string, string>;
+  let tags: Record<string, string[]>;
+  let resolvedLinks: ResolvedLinks;
+  let vaultProvider: IVaultProvider;
+  let metadataProvider: IMetadataProvider;
+  let service: GraphRelevanceService;
+
+  function note(path: string, score: number): ScoredNote {
+    return { path, score, reason: 'Similar' };
+  }
+
+  beforeEach(() => {
+    files = new Map([
+      ['ts/basics.md', '# Basics\n\nTypes and interfaces.'],
+      ['ts/generics.md', '# Generics\n\nType parameters.'],
+      ['misc/compiler.md', '# Compiler\n\nHow tsc emits JavaScript.'],
+      ['misc/cooking.md', '# Cooking\n\nPasta.'],
+      ['archive/old.md', '# Old\n\nOld notes.'],
+    ]);
+    tags = {};
+    resolvedLinks = {};
+
+    vaultProvider = {
+      listMarkdownFiles: vi.fn(async () => []),
+      readFile: vi.fn(async (path: string) => {
+        const content = files.get(path);
+        if (content === undefined) throw new Error(`File not found: ${path}`);
+        return content;
+      }),
+      exists: vi.fn(async (path: string) => files.has(path)),
+      getBasename: vi.fn((path: string) => path.split('/').pop()?.replace('.md', '') ?? ''),
+      getFolder: vi.fn((path: string) => path.split('/').slice(0, -1).join('/')),
+      createFile: vi.fn(async () => {}),
+      modifyFile: vi.fn(async () => {}),
+      createFolder: vi.fn(async () => {}),
+      deleteFile: vi.fn(async () => {}),
+      deleteFolder: vi.fn(async () => {}),
+      onChange: vi.fn(() => () => {}),
+    };
+
+    metadataProvider = {
+      getFileMetadata: vi.fn(
+        async (path: string): Promise<FileMetadata> => ({
+          path,
+          tags: tags[path] ?? [],
+          links: Object.keys(resolvedLinks[path] ?? {}),
+          headings: [],
+          frontmatter: {},
+          wordCount: 0,
+        }),
+      ),
+      getResolvedLinks: vi.fn(async () => resolvedLinks),
+      getBacklinks: vi.fn(async () => []),
+      getAllTags: vi.fn(async () => []),
+    };
+
+    service = new GraphRelevanceService(vaultProvider, metadataProvider);
+  });
+
+  it('should boost candidates linked from a high-scoring note', async () => {
+    resolvedLinks = { 'ts/basics.md': { 'misc/compiler.md': 1 } };
+
+    const result = await service.applyGraphSignals(
+      [note('ts/basics.md', 90), note('misc/cooking.md', 40), note('misc/compiler.md', 35)],
+      [],
+      [],
+    );
+
+    const compiler = result.notes.find((n) => n.path === 'misc/compiler.md');
+    expect(compiler?.score).toBe(50);
+    expect(compiler?.reason).toBe('Similar; linked from "basics"');
+    expect(result.notes.map((n) => n.path)).toEqual([
+      'ts/basics.md',
+      'misc/compiler.md',
+      'misc/cooking.md',
+    ]);
+  });
+
+  it('should boost candidates linking to a high-scoring note', async () => {
+    resolvedLinks = { 'misc/compiler.md': { 'ts/basics.md': 2 } };
+
+    const result = await service.applyGraphSignals(
+      [note('ts/basics.md', 90), note('misc/compiler.md', 35)],
+      [],
+      [],
+    );
+
+    expect(result.notes[1].reason).toBe('Similar; links to "basics"');
+    expect(result.notes[1].score).toBe(50);
+  });
+
+  it('should boost candidates sharing tags or a folder with a high-scoring note', async () => {
+    tags = { 'ts/basics.md': ['#typescript'], 'misc/compiler.md': ['#typescript'] };
+
+    const result = await service.applyGraphSignals(
+      [note('ts/basics.md', 90), note('ts/generics.md', 50), note('misc/compiler.md', 30)],
+      [],
+      [],
+    );
+
+    const generics = result.notes.find((n) => n.path === 'ts/generics.md');
+    const compiler = result.notes.find((n) => n.path === 'misc/compiler.md');
+    expect(generics?.score).toBe(55);
+    expect(generics?.reason).toBe('Similar; same folder as "basics"');
+    expect(compiler?.score).toBe(35);
+    expect(compiler?.reason).toBe('Similar; shares #typescript with "basics"');
+  });
+
+  it('should cap the boost', async () => {
+    resolvedLinks = { 'ts/generics.md': { 'ts/basics.md': 1 } };
+    tags = { 'ts/basics.md': ['#a', '#b'], 'ts/generics.md': ['#a', '#b'] };
+
+    const result = await service.applyGraphSignals(
+      [note('ts/basics.md', 90), note('ts/generics.md', 50)],
+      [],
+      [],
+    );
+
+    expect(result.notes.find((n) => n.path === 'ts/generics.md')?.score).toBe(70);
+  });
+
+  it('should pull in linked notes missing from the scored list', async () => {
+    resolvedLinks = { 'ts/basics.md': { 'misc/compiler.md': 1, 'image.png': 1 } };
+
+    const result = await service.applyGraphSignals([note('ts/basics.md', 90)], [], []);
+
+    expect(result.related).toEqual([
+      {
+        path: 'misc/compiler.md',
+        score: 54,
+        reason: 'Linked from "basics"',
+        preview: '# Compiler\n\nHow tsc emits JavaScript.',
+        signals: [{ type: 'linked-from', seedPath: 'ts/basics.md' }],
+      },
+    ]);
+  });
+
+  it('should apply path filters to pulled-in notes', async () => {
+    resolvedLinks = {
+      'ts/basics.md': { 'archive/old.md': 1, 'ignite/goal.md': 1, 'misc/compiler.md': 1 },
+    };
+
+    const result = await service.applyGraphSignals([note('ts/basics.md', 90)], [], ['archive/**']);
+
+    expect(result.related.map((n) => n.path)).toEqual(['misc/compiler.md']);
+  });
+
+  it('should only use high-scoring notes as seeds', async () => {
+    resolvedLinks = { 'misc/cooking.md': { 'misc/compiler.md': 1 } };
+
+    const scored = [note('ts/basics.md', 90), note('misc/cooking.md', 20)];
+    const result = await service.applyGraphSignals(scored, [], []);
+
+    expect(result.related).toEqual([]);
+    expect(result.notes).toEqual(scored);
+  });
+
+  it('should skip metadata lookups when no note scores high enough', async () => {
+    const scored = [note('misc/cooking.md', 20)];
+    const result = await service.applyGraphSignals(scored, [], []);
+
+    expect(result).toEqual({ notes: scored, related: [] });
+    expect(metadataProvider.getResolvedLinks).not.toHaveBeenCalled();
+  });
+});
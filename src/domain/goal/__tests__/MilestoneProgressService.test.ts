@@ -0,0 +1,167 @@
+import { createSession } from '@/test/fixtures/qaSessions';
+import { describe, expect, it } from 'vitest';
+import { MilestoneProgressService, computeMilestoneMastery } from '../MilestoneProgressService';
+import type { Conversation, Goal } from '../types';
+
+function createConversation(id: string, milestoneId?: string, sources?: string[]): Conversation {
+  return {
+    id,
+    goalId: 'goal-1',
+    topic: 'Topic',
+    mode: 'explore',
+    messages: [{ id: 'msg-1', role: 'assistant', content: 'Answer', sources, timestamp: '' }],
+    createdAt: '2025-01-01T00:00:00.000Z',
+    milestoneId,
+  };
+}
+
+const goal: Goal = {
+  id: 'goal-1',
+  name: 'Learn TypeScript',
+  description: 'Master TypeScript',
+  deadline: '2025-12-31',
+  milestones: [
+    {
+      id: 'm1',
+      content: 'Learn the basics',
+      completed: false,
+      order: 0,
+      notesPaths: ['basics.md'],
+    },
+    { id: 'm2', content: 'Learn generics', completed: false, order: 1 },
+  ],
+  notesPaths: ['basics.md', 'generics.md'],
+  status: 'active',
+  createdAt: '2025-01-01T00:00:00.000Z',
+  updatedAt: '2025-01-01T00:00:00.000Z',
+};
+
+describe('computeMilestoneMastery', () => {
+  it('should count unscoped questions from milestone notes and whole scoped sessions', () => {
+    const sessions = [
+      createSession('s1', '2025-01-02T00:00:00.000Z', [
+        ['basics.md', true],
+        ['basics.md', false],
+        ['generics.md', true],
+      ]),
+      createSession(
+        's2',
+        '2025-01-03T00:00:00.000Z',
+        [
+          ['generics.md', true],
+          ['basics.md', true],
+          ['generics.md', null],
+        ],
+        { milestoneId: 'm2' },
+      ),
+    ];
+
+    const [m1, m2] = computeMilestoneMastery(goal, sessions, []);
+
+    expect(m1).toMatchObject({ attempts: 2, credit: 1, mastery: 0.5, sessionCount: 1 });
+    expect(m2).toMatchObject({ attempts: 2, credit: 2, mastery: 1, sessionCount: 1 });
+    expect(m2.lastAnsweredAt).toBe('2025-01-03T00:00:00.000Z');
+  });
+
+  it('should skip review and retake sessions', () => {
+    const original = createSession('s1', '2025-01-02T00:00:00.000Z', [
+      ['basics.md', true],
+      ['basics.md', false],
+    ]);
+    const retake = createSession('s2', '2025-01-03T00:00:00.000Z', [['basics.md', true]], {
+      reviewItemIds: ['s1/s1-q1'],
+    });
+
+    const [m1] = computeMilestoneMastery(goal, [original, retake], []);
+
+    expect(m1).toMatchObject({ attempts: 2, credit: 1, sessionCount: 1 });
+    expect(m1.lastAnsweredAt).toBe('2025-01-02T00:00:00.000Z');
+  });
+
+  it('should count scoped conversations and unscoped ones citing milestone notes', () => {
+    const conversations = [
+      createConversation('c1', 'm2'),
+      createConversation('c2', undefined, ['basics.md']),
+      createConversation('c3', undefined, ['generics.md']),
+      createConversation('c4', 'm2', ['basics.md']),
+    ];
+
+    const [m1, m2] = computeMilestoneMastery(goal, [], conversations);
+
+    expect(m1.conversationCount).toBe(1);
+    expect(m2.conversationCount).toBe(2);
+    expect(m1.mastery).toBe(0);
+  });
+});
+
+describe('MilestoneProgressService', () => {
+  const service = new MilestoneProgressService({ masteryThreshold: 0.8, minAnswers: 4 });
+  const strongSession = createSession(
+    's1',
+    '2025-01-02T00:00:00.000Z',
+    [
+      ['generics.md', true],
+      ['generics.md', true],
+      ['generics.md', true],
+      ['generics.md', true],
+      ['generics.md', false],
+    ],
+    { milestoneId: 'm2' },
+  );
+
+  it('should suggest milestones above the threshold with an explanation', () => {
+    const suggestions = service.suggestCompletions(
+      goal,
+      [strongSession],
+      [createConversation('c1', 'm2')],
+    );
+
+    expect(suggestions).toHaveLength(1);
+    expect(suggestions[0].milestoneId).toBe('m2');
+    expect(suggestions[0].milestoneContent).toBe('Learn generics');
+    expect(suggestions[0].explanation).toContain('80% on 5 questions');
+    expect(suggestions[0].explanation).toContain('1 Q&A session');
+    expect(suggestions[0].explanation).toContain('discussed it in 1 conversation');
+  });
+
+  it('should not suggest with too few answers, low mastery or a completed milestone', () => {
+    const fewAnswers = createSession('s2', '2025-01-02T00:00:00.000Z', [['basics.md', true]]);
+    const weak = createSession(
+      's3',
+      '2025-01-02T00:00:00.000Z',
+      [
+        ['generics.md', true],
+        ['generics.md', false],
+        ['generics.md', false],
+        ['generics.md', true],
+      ],
+      { milestoneId: 'm2' },
+    );
+    const completedGoal: Goal = {
+      ...goal,
+      milestones: goal.milestones.map((m) => ({ ...m, completed: true })),
+    };
+
+    expect(service.suggestCompletions(goal, [fewAnswers, weak], [])).toEqual([]);
+    expect(service.suggestCompletions(completedGoal, [strongSession], [])).toEqual([]);
+  });
+
+  it('should stay dismissed until a newer session', () => {
+    const dismissedGoal: Goal = {
+      ...goal,
+      milestones: goal.milestones.map((m) =>
+        m.id === 'm2' ? { ...m, suggestionDismissedAt: '2025-01-05T00:00:00.000Z' } : m,
+      ),
+    };
+    const laterSession = {
+      ...strongSession,
+      id: 's4',
+      createdAt: '2025-01-06T00:00:00.000Z',
+    };
+
+    expect(service.suggestCompletions(dismissedGoal, [strongSession], [])).toEqual([]);
+    expect(
+      service.suggestCompletions(dismissedGoal, [strongSession, laterSession], []),
+    ).toHaveLength(1);
+  });
+});
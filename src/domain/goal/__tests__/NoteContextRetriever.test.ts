@@ -0,0 +1,157 @@
+import { EmbeddingCacheManager } from '@/domain/embedding/cache';
+import type {
+  BatchEmbeddingResult,
+  EmbeddingInput,
+  EmbeddingResult,
+  IEmbeddingProvider,
+  ILLMProvider,
+} from '@/ports';
+import { createMemoryStorage } from '@/test/mocks/storage';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { NoteContextRetriever } from '../NoteContextRetriever';
+
+describe('NoteContextRetriever', () => {
+  let mockEmbeddingProvider: IEmbeddingProvider;
+  let mockLLMProvider: ILLMProvider;
+  let cache: EmbeddingCacheManager;
+  let maxTokens: number;
+
+  // Embed by topic keyword so similarity is predictable
+  function embedText(text: string): number[] {
+    const lower = text.toLowerCase();
+    if (lower.includes('generic')) return [1, 0, 0];
+    if (lower.includes('cooking')) return [0, 0, 1];
+    return [0, 1, 0];
+  }
+
+  const notes = [
+    {
+      path: 'notes/typescript.md',
+      content: `# Generics\n\nGenerics make functions reusable. ${'More detail. '.repeat(10)}\n\n# Tooling\n\nThe compiler is configured with tsconfig. ${'More detail. '.repeat(10)}`,
+    },
+    {
+      path: 'notes/cooking.md',
+      content: `# Cooking\n\nCooking pasta takes ten minutes. ${'More detail. '.repeat(10)}`,
+    },
+  ];
+
+  beforeEach(() => {
+    maxTokens = 100000;
+    cache = new EmbeddingCacheManager(createMemoryStorage().storage, { provider: 'mock' });
+
+    mockEmbeddingProvider = {
+      embedBatch: vi.fn(async (inputs: EmbeddingInput[]): Promise<BatchEmbeddingResult> => {
+        const embeddings: EmbeddingResult[] = inputs.map((input) => ({
+          notePath: input.notePath,
+          embedding: embedText(input.text),
+          tokenCount: Math.ceil(input.text.length / 4),
+        }));
+        return {
+          embeddings,
+          totalTokens: 0,
+          usage: { totalTokens: 0, estimatedCost: 0, apiCalls: 1 },
+        };
+      }),
+      embed: vi.fn(
+        async (notePath: string, text: string): Promise<EmbeddingResult> => ({
+          notePath,
+          embedding: embedText(text),
+          tokenCount: Math.ceil(text.length / 4),
+        }),
+      ),
+      embedQuery: vi.fn(async (text: string) => embedText(text)),
+      getDimensions: vi.fn(() => 3),
+      getProviderName: vi.fn(() => 'mock'),
+      getModelName: vi.fn(() => 'mock-model'),
+      estimateTokens: vi.fn((text: string) => Math.ceil(text.length / 4)),
+      getConfig: vi.fn(() => ({
+        model: 'mock-model',
+        maxTokensPerText: 8000,
+        batchSize: 100,
+        maxRetries: 3,
+        retryBaseDelay: 1000,
+      })),
+      updateConfig: vi.fn(),
+    };
+
+    mockLLMProvider = {
+      chat: vi.fn(),
+      streamChat: vi.fn(),
+      getProviderName: vi.fn(() => 'MockProvider'),
+      getModelName: vi.fn(() => 'mock-model'),
+      getMaxTokens: vi.fn(() => maxTokens),
+      estimateTokens: vi.fn((text: string) => Math.ceil(text.length / 4)),
+    };
+  });
+
+  it('should return whole notes without embedding when they fit the budget', async () => {
+    const retriever = new NoteContextRetriever(mockEmbeddingProvider, mockLLMProvider, cache);
+
+    const selected = await retriever.selectContext(notes, 'Explain generics');
+
+    expect(selected).toEqual(notes);
+    expect(mockEmbeddingProvider.embedBatch).not.toHaveBeenCalled();
+  });
+
+  it('should select the most relevant sections within the budget', async () => {
+    // Budget of 75 tokens fits one section
+    maxTokens = 300;
+    const retriever = new NoteContextRetriever(mockEmbeddingProvider, mockLLMProvider, cache);
+
+    const selected = await retriever.selectContext(notes, 'Explain generics');
+
+    expect(selected).toHaveLength(1);
+    expect(selected[0].path).toBe('notes/typescript.md');
+    expect(selected[0].content).toContain('# Generics');
+    expect(selected[0].content).not.toContain('# Tooling');
+  });
+
+  it('should subtract reserved tokens from the budget', () => {
+    const retriever = new NoteContextRetriever(mockEmbeddingProvider, mockLLMProvider, cache);
+
+    expect(retriever.getTokenBudget()).toBe(25000);
+    expect(retriever.getTokenBudget(90000)).toBe(10000);
+    expect(retriever.getTokenBudget(200000)).toBe(0);
+  });
+
+  it('should only embed chunks once across turns', async () => {
+    maxTokens = 300;
+    const retriever = new NoteContextRetriever(mockEmbeddingProvider, mockLLMProvider, cache);
+
+    await retriever.selectContext(notes, 'Explain generics');
+    await retriever.selectContext(notes, 'How long does cooking pasta take?');
+
+    expect(mockEmbeddingProvider.embedBatch).toHaveBeenCalledTimes(1);
+    expect(mockEmbeddingProvider.embedQuery).toHaveBeenCalledTimes(2);
+  });
+
+  it('should reuse chunks embedded earlier through the shared cache', async () => {
+    maxTokens = 300;
+    await new NoteContextRetriever(mockEmbeddingProvider, mockLLMProvider, cache).selectContext(
+      notes,
+      'Explain generics',
+    );
+
+    const retriever = new NoteContextRetriever(mockEmbeddingProvider, mockLLMProvider, cache);
+    const selected = await retriever.selectContext(notes, 'Explain generics');
+
+    expect(selected[0].content).toContain('# Generics');
+    expect(mockEmbeddingProvider.embedBatch).toHaveBeenCalledTimes(1);
+  });
+
+  it('should re-embed notes whose content changed', async () => {
+    maxTokens = 300;
+    const retriever = new NoteContextRetriever(mockEmbeddingProvider, mockLLMProvider, cache);
+
+    await retriever.selectContext(notes, 'Explain generics');
+    const edited = [{ ...notes[0], content: notes[0].content.replace('reusable', 'generic') }];
+    edited.push(notes[1]);
+    await retriever.selectContext(edited, 'Explain generics');
+
+    const secondBatch = vi.mocked(mockEmbeddingProvider.embedBatch).mock.calls[1][0];
+    expect(secondBatch.map((input) => input.notePath)).toEqual([
+      'notes/typescript.md#generics',
+      'notes/typescript.md#tooling',
+    ]);
+  });
+});
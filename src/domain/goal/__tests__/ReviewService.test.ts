@@ -0,0 +1,207 @@
+import type { IVaultProvider } from '@/ports';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ReviewService, SM2_DEFAULTS, answerToQuality, scheduleReview } from '../ReviewService';
+import type { Answer } from '../types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const correctAnswer: Answer = {
+  questionId: 'q-1',
+  type: 'multiple-choice',
+  userAnswer: 0,
+  isCorrect: true,
+  explanation: 'Correct!',
+};
+
+const incorrectAnswer: Answer = {
+  questionId: 'q-1',
+  type: 'multiple-choice',
+  userAnswer: 2,
+  isCorrect: false,
+  explanation: 'Not quite.',
+};
+
+describe('answerToQuality', () => {
+  it('should map all-or-nothing answers to a fixed quality', () => {
+    expect(answerToQuality(correctAnswer)).toBe(4);
+    expect(answerToQuality(incorrectAnswer)).toBe(1);
+  });
+
+  it('should scale quality with partial credit without crossing the pass mark', () => {
+    const graded = (score: number, isCorrect: boolean): Answer => ({
+      questionId: 'q-1',
+      type: 'open-ended',
+      userAnswer: 'answer',
+      isCorrect,
+      explanation: '',
+      score,
+    });
+
+    expect(answerToQuality(graded(1, true))).toBe(5);
+    expect(answerToQuality(graded(0.6, true))).toBe(3);
+    expect(answerToQuality(graded(0.5, false))).toBe(2);
+    expect(answerToQuality(graded(0, false))).toBe(0);
+  });
+});
+
+describe('scheduleReview', () => {
+  const now = new Date('2025-01-01T00:00:00.000Z');
+
+  it('should schedule the first successful review one day out', () => {
+    const schedule = scheduleReview(null, 4, now);
+
+    expect(schedule.repetitions).toBe(1);
+    expect(schedule.interval).toBe(1);
+    expect(schedule.easeFactor).toBe(SM2_DEFAULTS.initialEaseFactor);
+    expect(schedule.dueDate).toBe(new Date(now.getTime() + DAY_MS).toISOString());
+    expect(schedule.lastReviewedAt).toBe(now.toISOString());
+  });
+
+  it('should grow the interval on consecutive successful reviews', () => {
+    const first = scheduleReview(null, 5, now);
+    const second = scheduleReview(first, 5, now);
+    const third = scheduleReview(second, 5, now);
+
+    expect(second.interval).toBe(6);
+    expect(third.repetitions).toBe(3);
+    expect(third.interval).toBe(Math.round(6 * second.easeFactor));
+    expect(third.easeFactor).toBeGreaterThan(SM2_DEFAULTS.initialEaseFactor);
+  });
+
+  it('should reset the interval and lower ease after a failed review', () => {
+    const learned = scheduleReview(scheduleReview(null, 4, now), 4, now);
+    const failed = scheduleReview(learned, 1, now);
+
+    expect(failed.repetitions).toBe(0);
+    expect(failed.interval).toBe(1);
+    expect(failed.easeFactor).toBeLessThan(learned.easeFactor);
+  });
+
+  it('should never drop the ease factor below the minimum', () => {
+    let schedule = scheduleReview(null, 0, now);
+    for (let i = 0; i < 10; i++) {
+      schedule = scheduleReview(schedule, 0, now);
+    }
+
+    expect(schedule.easeFactor).toBe(SM2_DEFAULTS.minEaseFactor);
+  });
+});
+
+describe('ReviewService', () => {
+  let service: ReviewService;
+  let mockVaultProvider: IVaultProvider;
+  let storedFiles: Map<string, string>;
+
+  beforeEach(() => {
+    storedFiles = new Map();
+
+    mockVaultProvider = {
+      listMarkdownFiles: vi.fn(async () => []),
+      readFile: vi.fn(async (path: string) => {
+        const content = storedFiles.get(path);
+        if (!content) {
+          throw new Error(`File not found: ${path}`);
+        }
+        return content;
+      }),
+      exists: vi.fn(async (path: string) => storedFiles.has(path)),
+      getBasename: vi.fn((path: string) => path.split('/').pop()?.replace('.md', '') || ''),
+      getFolder: vi.fn((path: string) => path.split('/').slice(0, -1).join('/')),
+      createFile: vi.fn(async (path: string, content: string) => {
+        storedFiles.set(path, content);
+      }),
+      modifyFile: vi.fn(async (path: string, content: string) => {
+        if (!storedFiles.has(path)) {
+          throw new Error(`File not found: ${path}`);
+        }
+        storedFiles.set(path, content);
+      }),
+      createFolder: vi.fn(async () => {}),
+      deleteFile: vi.fn(async (path: string) => {
+        storedFiles.delete(path);
+      }),
+      deleteFolder: vi.fn(async () => {}),
+      onChange: vi.fn(() => () => {}),
+    };
+
+    service = new ReviewService(mockVaultProvider);
+  });
+
+  afterEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should return no items when no schedule exists', async () => {
+    expect(await service.getReviewItems('goal-1')).toEqual([]);
+    expect(await service.getDueItems('goal-1')).toEqual([]);
+  });
+
+  it('should create a review item on the first answer', async () => {
+    const now = new Date('2025-01-01T00:00:00.000Z');
+    const itemId = service.getItemId('qa-1', 'q-1');
+
+    const item = await service.recordAnswer('goal-1', itemId, correctAnswer, now);
+
+    expect(item).toMatchObject({
+      id: 'qa-1/q-1',
+      sessionId: 'qa-1',
+      questionId: 'q-1',
+      repetitions: 1,
+      interval: 1,
+    });
+    expect(storedFiles.has('ignite/goal-1/review-schedule.md')).toBe(true);
+  });
+
+  it('should persist the schedule as a readable markdown table', async () => {
+    const now = new Date('2025-01-01T00:00:00.000Z');
+    await service.recordAnswer('goal-1', 'qa-1/q-1', correctAnswer, now);
+    await service.recordAnswer('goal-1', 'qa-1/q-2', incorrectAnswer, now);
+
+    const content = storedFiles.get('ignite/goal-1/review-schedule.md') ?? '';
+    expect(content).toContain('goalId: goal-1');
+    expect(content).toContain('| Question | Ease | Interval (days) | Repetitions | Due |');
+    expect(content).toContain('| qa-1/q-1 | 2.5 | 1 | 1 |');
+
+    const reloaded = await new ReviewService(mockVaultProvider).getReviewItems('goal-1');
+    expect(reloaded).toHaveLength(2);
+    expect(reloaded[1]).toEqual({
+      id: 'qa-1/q-2',
+      sessionId: 'qa-1',
+      questionId: 'q-2',
+      easeFactor: 1.96,
+      interval: 1,
+      repetitions: 0,
+      dueDate: '2025-01-02T00:00:00.000Z',
+      lastReviewedAt: '2025-01-01T00:00:00.000Z',
+    });
+  });
+
+  it('should reschedule an existing item instead of duplicating it', async () => {
+    const day0 = new Date('2025-01-01T00:00:00.000Z');
+    const day1 = new Date('2025-01-02T00:00:00.000Z');
+
+    await service.recordAnswer('goal-1', 'qa-1/q-1', correctAnswer, day0);
+    const item = await service.recordAnswer('goal-1', 'qa-1/q-1', correctAnswer, day1);
+
+    expect(item.repetitions).toBe(2);
+    expect(item.interval).toBe(6);
+    expect(await service.getReviewItems('goal-1')).toHaveLength(1);
+  });
+
+  it('should return only due items, most overdue first', async () => {
+    const day0 = new Date('2025-01-01T00:00:00.000Z');
+    await service.recordAnswer('goal-1', 'qa-1/q-1', correctAnswer, day0);
+    await service.recordAnswer('goal-1', 'qa-1/q-2', correctAnswer, day0);
+    await service.recordAnswer('goal-1', 'qa-1/q-2', correctAnswer, day0);
+    await service.recordAnswer(
+      'goal-1',
+      'qa-2/q-1',
+      incorrectAnswer,
+      new Date('2024-12-30T00:00:00.000Z'),
+    );
+
+    const due = await service.getDueItems('goal-1', new Date('2025-01-02T12:00:00.000Z'));
+
+    expect(due.map((item) => item.id)).toEqual(['qa-2/q-1', 'qa-1/q-1']);
+  });
+});
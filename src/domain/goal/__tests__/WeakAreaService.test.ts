@@ -0,0 +1,175 @@
+import type { ILLMProvider } from '@/ports';
+import { createSession } from '@/test/fixtures/qaSessions';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { QAService } from '../QAService';
+import { WeakAreaService, computeNoteMastery } from '../WeakAreaService';
+import type { QASession } from '../types';
+
+describe('computeNoteMastery', () => {
+  it('should return no notes when nothing was answered', () => {
+    const sessions = [createSession('qa-1', '2025-01-01T00:00:00.000Z', [['a.md', null]])];
+
+    expect(computeNoteMastery(sessions)).toEqual([]);
+  });
+
+  it('should aggregate answers per source note, weakest first', () => {
+    const sessions = [
+      createSession('qa-1', '2025-01-01T00:00:00.000Z', [
+        ['strong.md', true],
+        ['weak.md', false],
+        ['weak.md', true],
+      ]),
+      createSession('qa-2', '2025-01-02T00:00:00.000Z', [
+        ['strong.md', true],
+        ['weak.md', false],
+      ]),
+    ];
+
+    const notes = computeNoteMastery(sessions);
+
+    expect(notes.map((n) => n.notePath)).toEqual(['weak.md', 'strong.md']);
+    expect(notes[0]).toMatchObject({ attempts: 3, correct: 1 });
+    expect(notes[0].mastery).toBeCloseTo(1 / 3);
+    expect(notes[1].mastery).toBe(1);
+  });
+
+  it('should record one snapshot per session in chronological order', () => {
+    // Sessions are loaded newest first
+    const sessions = [
+      createSession('qa-2', '2025-01-02T00:00:00.000Z', [['a.md', true]]),
+      createSession('qa-1', '2025-01-01T00:00:00.000Z', [
+        ['a.md', false],
+        ['a.md', false],
+      ]),
+    ];
+
+    const [note] = computeNoteMastery(sessions);
+
+    expect(note.history).toEqual([
+      { sessionId: 'qa-1', date: '2025-01-01T00:00:00.000Z', correct: 0, total: 2 },
+      { sessionId: 'qa-2', date: '2025-01-02T00:00:00.000Z', correct: 1, total: 1 },
+    ]);
+  });
+
+  it('should not count review or retake sessions again', () => {
+    const sessions = [
+      createSession('qa-1', '2025-01-01T00:00:00.000Z', [
+        ['a.md', false],
+        ['a.md', true],
+      ]),
+      createSession('qa-2', '2025-01-02T00:00:00.000Z', [['a.md', false]], {
+        reviewItemIds: ['qa-1/qa-1-q0'],
+      }),
+      createSession('qa-3', '2025-01-03T00:00:00.000Z', [['a.md', true]], {
+        reviewItemIds: ['qa-1/qa-1-q0'],
+      }),
+    ];
+
+    const [note] = computeNoteMastery(sessions);
+
+    expect(note).toMatchObject({ attempts: 2, correct: 1, mastery: 0.5 });
+    expect(note.history.map((h) => h.sessionId)).toEqual(['qa-1']);
+  });
+});
+
+describe('WeakAreaService', () => {
+  let sessions: QASession[];
+  let mockQAService: QAService;
+  let mockLLMProvider: ILLMProvider;
+  let service: WeakAreaService;
+
+  beforeEach(() => {
+    sessions = [
+      createSession('qa-1', '2025-01-01T00:00:00.000Z', [
+        ['generics.md', false],
+        ['generics.md', false],
+        ['basics.md', true],
+        ['interfaces.md', false],
+      ]),
+    ];
+
+    mockQAService = {
+      getSessionsForGoal: vi.fn(async () => sessions),
+    } as unknown as QAService;
+
+    const conceptsJson = JSON.stringify({
+      concepts: [
+        { concept: 'Interface merging', questions: [3] },
+        { concept: 'Generic constraints', questions: [1, 2] },
+        { concept: 'Hallucinated', questions: [9] },
+      ],
+    });
+    mockLLMProvider = {
+      chat: vi.fn(async () => ({
+        content: `\`\`\`json\n${conceptsJson}\n\`\`\``,
+        usage: { inputTokens: 100, outputTokens: 50 },
+      })),
+      streamChat: vi.fn(async () => {}),
+      getProviderName: vi.fn(() => 'MockProvider'),
+      getModelName: vi.fn(() => 'mock-model'),
+      getMaxTokens: vi.fn(() => 100000),
+      estimateTokens: vi.fn((text: string) => Math.ceil(text.length / 4)),
+    };
+
+    service = new WeakAreaService(mockQAService, mockLLMProvider);
+  });
+
+  afterEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should flag notes below the mastery threshold without calling the LLM', async () => {
+    const analysis = await service.analyzeGoal('goal-1');
+
+    expect(mockQAService.getSessionsForGoal).toHaveBeenCalledWith('goal-1');
+    expect(analysis.sessionCount).toBe(1);
+    expect(analysis.notes).toHaveLength(3);
+    expect(analysis.weakNotes.map((n) => n.notePath).sort()).toEqual([
+      'generics.md',
+      'interfaces.md',
+    ]);
+    expect(analysis.concepts).toEqual([]);
+    expect(mockLLMProvider.chat).not.toHaveBeenCalled();
+  });
+
+  it('should respect a custom mastery threshold', async () => {
+    const strict = new WeakAreaService(mockQAService, mockLLMProvider, { masteryThreshold: 1.1 });
+
+    const analysis = await strict.analyzeGoal('goal-1');
+
+    expect(analysis.weakNotes).toHaveLength(3);
+  });
+
+  it('should group incorrect answers into concepts with their source notes', async () => {
+    const analysis = await service.analyzeGoal('goal-1', { includeConcepts: true });
+
+    expect(analysis.concepts).toEqual([
+      { concept: 'Generic constraints', notePaths: ['generics.md'], incorrectCount: 2 },
+      { concept: 'Interface merging', notePaths: ['interfaces.md'], incorrectCount: 1 },
+    ]);
+
+    const [messages] = vi.mocked(mockLLMProvider.chat).mock.calls[0];
+    expect(messages[1].content).toContain('1. Question 1 about generics.md');
+    expect(messages[1].content).not.toContain('basics.md');
+  });
+
+  it('should skip the LLM when there are no incorrect answers', async () => {
+    sessions = [createSession('qa-1', '2025-01-01T00:00:00.000Z', [['a.md', true]])];
+
+    const concepts = await service.extractConcepts(sessions);
+
+    expect(concepts).toEqual([]);
+    expect(mockLLMProvider.chat).not.toHaveBeenCalled();
+  });
+
+  it('should return no concepts when the LLM call fails', async () => {
+    vi.mocked(mockLLMProvider.chat).mockRejectedValueOnce(new Error('API error'));
+    const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    const concepts = await service.extractConcepts(sessions);
+
+    expect(concepts).toEqual([]);
+    expect(warnSpy).toHaveBeenCalled();
+    warnSpy.mockRestore();
+  });
+});
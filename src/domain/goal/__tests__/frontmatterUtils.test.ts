@@ -285,6 +285,20 @@ name: Test
       expect(result).toContain('"line1\\nline2"');
     });
 
+    it('should round-trip lists nested in array items', () => {
+      const original = {
+        milestones: [
+          { id: 'm1', notesPaths: ['notes/a.md', 'notes/b, c.md'] },
+          { id: 'm2', notesPaths: [] },
+        ],
+      };
+
+      const serialized = serializeFrontmatter(original, '');
+
+      expect(serialized).toContain('    notesPaths: ["notes/a.md","notes/b, c.md"]');
+      expect(parseFrontmatter<typeof original>(serialized).frontmatter).toEqual(original);
+    });
+
     it('should round-trip parse and serialize', () => {
       const original = {
         id: 'goal-123',
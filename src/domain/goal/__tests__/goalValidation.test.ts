@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { GOAL_NAME_MAX_LENGTH, getGoalNameError, validateGoalDetails } from '../goalValidation';
+
+describe('getGoalNameError', () => {
+  it('should reject empty, overlong and control-character names', () => {
+    expect(getGoalNameError('   ')).toBe('Goal name cannot be empty');
+    expect(getGoalNameError('a'.repeat(GOAL_NAME_MAX_LENGTH + 1))).toBe(
+      `Goal name cannot exceed ${GOAL_NAME_MAX_LENGTH} characters`,
+    );
+    expect(getGoalNameError('Learn\nTypeScript')).toBe(
+      'Goal name cannot contain control characters',
+    );
+  });
+
+  it('should accept a normal name', () => {
+    expect(getGoalNameError('Learn TypeScript')).toBeNull();
+  });
+});
+
+describe('validateGoalDetails', () => {
+  it('should return no errors for valid details', () => {
+    expect(
+      validateGoalDetails({
+        name: 'Learn TypeScript',
+        description: 'Master the type system',
+        deadline: '2025-12-31',
+      }),
+    ).toEqual({});
+  });
+
+  it('should report each invalid field', () => {
+    expect(validateGoalDetails({ name: '', description: ' ', deadline: '' })).toEqual({
+      name: 'Goal name cannot be empty',
+      description: 'Goal description cannot be empty',
+      deadline: 'Goal deadline cannot be empty',
+    });
+  });
+
+  it('should reject deadlines that are not real dates', () => {
+    const details = { name: 'Goal', description: 'Description' };
+
+    expect(validateGoalDetails({ ...details, deadline: '2025-02-30' }).deadline).toBe(
+      'Goal deadline must be a valid date (YYYY-MM-DD)',
+    );
+    expect(validateGoalDetails({ ...details, deadline: 'next week' }).deadline).toBe(
+      'Goal deadline must be a valid date (YYYY-MM-DD)',
+    );
+  });
+});
@@ -1,7 +1,9 @@
-import type { ILLMProvider, IVaultProvider, LLMStreamCallbacks } from '@/ports';
+import type { EmbeddingCacheManager } from '@/domain/embedding';
+import type { IEmbeddingProvider, ILLMProvider, IVaultProvider, LLMStreamCallbacks } from '@/ports';
 import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
 import { ConversationService } from '../../ConversationService';
 import { GoalService } from '../../GoalService';
+import { NoteContextRetriever } from '../../NoteContextRetriever';
 import type { Goal } from '../../types';
 
 /**
@@ -74,6 +76,7 @@ describe('Conversation Auto-Save Flow', () => {
           storedFiles.delete(key);
         }
       }),
+      onChange: vi.fn(() => () => {}),
     };
 
     mockLLMProvider = {
@@ -222,6 +225,165 @@ describe('Conversation Auto-Save Flow', () => {
     });
   });
 
+  describe('Discussion modes', () => {
+    it('should default new conversations to explore mode', async () => {
+      const conversation = await conversationService.createConversation(testGoal.id);
+
+      expect(conversation.mode).toBe('explore');
+    });
+
+    it('should persist mode changes', async () => {
+      const conversation = await conversationService.createConversation(testGoal.id);
+
+      await conversationService.updateMode(testGoal.id, conversation.id, 'challenge');
+
+      const retrieved = await conversationService.getConversationById(testGoal.id, conversation.id);
+      expect(retrieved?.mode).toBe('challenge');
+    });
+
+    it('should record mode switches in the transcript', async () => {
+      const conversation = await conversationService.createConversation(testGoal.id);
+
+      await conversationService.addMessage(testGoal.id, conversation.id, {
+        role: 'user',
+        content: 'What are generics?',
+        mode: 'explore',
+      });
+      await conversationService.addMessage(testGoal.id, conversation.id, {
+        role: 'user',
+        content: 'Quiz me on generics',
+        mode: 'teach-me',
+      });
+
+      const conversationPath = `ignite/${testGoal.id}/conversations/${conversation.id}.md`;
+      expect(storedFiles.get(conversationPath)).toContain('_Switched to Teach Me mode_');
+
+      const retrieved = await conversationService.getConversationById(testGoal.id, conversation.id);
+      expect(retrieved?.messages).toHaveLength(2);
+      expect(retrieved?.messages[0].mode).toBe('explore');
+      expect(retrieved?.messages[1].mode).toBe('teach-me');
+      expect(retrieved?.messages[1].content).toBe('Quiz me on generics');
+    });
+
+    it('should default to explore mode for conversations saved without one', async () => {
+      const conversationPath = `ignite/${testGoal.id}/conversations/conv-legacy.md`;
+      storedFiles.set(
+        conversationPath,
+        `---
+id: conv-legacy
+goalId: ${testGoal.id}
+topic: Legacy
+createdAt: 2025-01-01T00:00:00.000Z
+---
+
+# Conversation
+
+---
+## User - 2025-01-01T00:00:00.000Z
+
+Old message`,
+      );
+
+      const retrieved = await conversationService.getConversationById(testGoal.id, 'conv-legacy');
+
+      expect(retrieved?.mode).toBe('explore');
+      expect(retrieved?.messages[0].mode).toBeUndefined();
+    });
+
+    it('should use the mode-specific system prompt', async () => {
+      await conversationService.streamDiscussionResponse(
+        testGoal,
+        [{ id: 'msg-1', role: 'user', content: 'Test me', timestamp: new Date().toISOString() }],
+        [],
+        { onToken: vi.fn(), onComplete: vi.fn(), onError: vi.fn() },
+        'challenge',
+      );
+
+      const [messages] = vi.mocked(mockLLMProvider.streamChat).mock.calls[0];
+      expect(messages[0].role).toBe('system');
+      expect(messages[0].content).toContain('CHALLENGE');
+    });
+  });
+
+  describe('Milestone scope', () => {
+    it('should persist the milestone of a scoped conversation', async () => {
+      const conversation = await conversationService.createConversation(
+        testGoal.id,
+        undefined,
+        'explore',
+        'm1',
+      );
+
+      const retrieved = await conversationService.getConversationById(testGoal.id, conversation.id);
+
+      expect(retrieved?.milestoneId).toBe('m1');
+    });
+
+    it('should frame the prompt with the milestone', async () => {
+      await conversationService.streamDiscussionResponse(
+        testGoal,
+        [{ id: 'msg-1', role: 'user', content: 'Where do I start?', timestamp: '' }],
+        [],
+        { onToken: vi.fn(), onComplete: vi.fn(), onError: vi.fn() },
+        'explore',
+        'm1',
+      );
+
+      const [messages] = vi.mocked(mockLLMProvider.streamChat).mock.calls[0];
+      expect(messages[1].content).toContain('milestone "Learn basics"');
+    });
+  });
+
+  describe('Note context retrieval', () => {
+    const history = [
+      { id: 'msg-1', role: 'user' as const, content: 'Explain generics', timestamp: '' },
+    ];
+    const notes = [{ path: 'notes/typescript.md', content: '# Generics\n\nReusable types.' }];
+
+    it('should send selected excerpts when a retriever is configured', async () => {
+      const retriever = new NoteContextRetriever(
+        {} as IEmbeddingProvider,
+        mockLLMProvider,
+        {} as EmbeddingCacheManager,
+      );
+      const selectContext = vi
+        .spyOn(retriever, 'selectContext')
+        .mockResolvedValue([{ path: 'notes/typescript.md', content: 'Selected excerpt' }]);
+      const service = new ConversationService(mockVaultProvider, mockLLMProvider, retriever);
+
+      await service.streamDiscussionResponse(testGoal, history, notes, {
+        onToken: vi.fn(),
+        onComplete: vi.fn(),
+        onError: vi.fn(),
+      });
+
+      expect(selectContext).toHaveBeenCalledWith(notes, 'Explain generics', expect.any(Number));
+      const [messages] = vi.mocked(mockLLMProvider.streamChat).mock.calls[0];
+      expect(messages[1].content).toContain('Selected excerpt');
+      expect(messages[1].content).not.toContain('Reusable types.');
+    });
+
+    it('should fall back to whole notes when retrieval fails', async () => {
+      const retriever = new NoteContextRetriever(
+        {} as IEmbeddingProvider,
+        mockLLMProvider,
+        {} as EmbeddingCacheManager,
+      );
+      vi.spyOn(retriever, 'selectContext').mockRejectedValue(new Error('Embedding API down'));
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+      const service = new ConversationService(mockVaultProvider, mockLLMProvider, retriever);
+
+      await service.streamDiscussionResponse(testGoal, history, notes, {
+        onToken: vi.fn(),
+        onComplete: vi.fn(),
+        onError: vi.fn(),
+      });
+
+      const [messages] = vi.mocked(mockLLMProvider.streamChat).mock.calls[0];
+      expect(messages[1].content).toContain('Reusable types.');
+    });
+  });
+
   describe('Conversation recovery', () => {
     it('should recover from corrupted conversation file', async () => {
       const conversation = await conversationService.createConversation(testGoal.id);
@@ -325,6 +487,7 @@ Test message from corrupted file`;
         id: 'conv-1',
         goalId: testGoal.id,
         topic: 'New Discussion',
+        mode: 'explore',
         messages: [
           {
             id: 'msg-1',
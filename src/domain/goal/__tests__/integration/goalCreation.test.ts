@@ -72,6 +72,7 @@ describe('Goal Creation Flow', () => {
           storedFiles.delete(key);
         }
       }),
+      onChange: vi.fn(() => () => {}),
     };
 
     mockLLMProvider = {
@@ -237,6 +238,92 @@ describe('Goal Creation Flow', () => {
     });
   });
 
+  describe('Goal draft retries', () => {
+    const history = [{ role: 'user' as const, content: 'I want to learn TypeScript' }];
+    const validDraft = `\`\`\`json\n${JSON.stringify({
+      name: 'Learn TypeScript',
+      description: 'Master TypeScript fundamentals',
+      deadline: '2025-03-31',
+      milestones: ['Learn type basics', 'Understand generics'],
+    })}\n\`\`\``;
+    const malformedDraft = '```json\n{ "name": "Learn TypeScript", "milestones": [ }\n```';
+
+    it('should recognize responses that attempted a draft', () => {
+      expect(brainstormService.looksLikeGoalDraft(malformedDraft)).toBe(true);
+      expect(brainstormService.looksLikeGoalDraft('What would you like to learn?')).toBe(false);
+    });
+
+    it('should ask again with the malformed reply and return the repaired draft', async () => {
+      vi.mocked(mockLLMProvider.chat).mockResolvedValueOnce({ content: validDraft });
+
+      const draft = await brainstormService.repairGoalDraft(history, malformedDraft);
+
+      expect(draft?.name).toBe('Learn TypeScript');
+      const [messages] = vi.mocked(mockLLMProvider.chat).mock.calls[0];
+      expect(messages.map((m) => m.role)).toEqual(['system', 'user', 'assistant', 'user']);
+      expect(messages[2].content).toBe(malformedDraft);
+      expect(messages[3].content).toContain('did not contain valid JSON');
+    });
+
+    it('should give up after the retry limit', async () => {
+      vi.mocked(mockLLMProvider.chat).mockResolvedValue({ content: malformedDraft });
+
+      const draft = await brainstormService.repairGoalDraft(history, malformedDraft);
+
+      expect(draft).toBeNull();
+      expect(mockLLMProvider.chat).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('Goal refinement', () => {
+    const milestones: Milestone[] = [
+      { id: 'm2', content: 'Understand generics', completed: false, order: 1 },
+      { id: 'm1', content: 'Learn type basics', completed: true, order: 0 },
+    ];
+
+    it('should seed the request with the goal and keep its milestones', async () => {
+      vi.mocked(mockLLMProvider.chat).mockResolvedValueOnce({
+        content: `\`\`\`json\n${JSON.stringify({
+          name: 'Learn TypeScript',
+          description: 'Master TypeScript fundamentals for better code',
+          deadline: '2025-03-31',
+          milestones: ['Something else'],
+        })}\n\`\`\``,
+      });
+      const goal = await goalService.createGoal({
+        name: 'Learn TS',
+        description: 'Get better at TypeScript',
+        deadline: '2025-06-30',
+        milestones,
+      });
+
+      const draft = await brainstormService.refineGoal(goal, 'Make it more specific');
+
+      expect(draft).toEqual({
+        name: 'Learn TypeScript',
+        description: 'Master TypeScript fundamentals for better code',
+        deadline: '2025-03-31',
+        milestones: ['Learn type basics', 'Understand generics'],
+      });
+      const [messages] = vi.mocked(mockLLMProvider.chat).mock.calls[0];
+      const request = messages[messages.length - 1].content;
+      expect(request).toContain('"name": "Learn TS"');
+      expect(request).toContain('Make it more specific');
+    });
+
+    it('should return null when no valid draft comes back', async () => {
+      vi.mocked(mockLLMProvider.chat).mockResolvedValue({ content: 'Sounds good!' });
+      const goal = await goalService.createGoal({
+        name: 'Learn TS',
+        description: 'Get better at TypeScript',
+        deadline: '2025-06-30',
+        milestones,
+      });
+
+      expect(await brainstormService.refineGoal(goal)).toBeNull();
+    });
+  });
+
   describe('NoteRelevanceService integration', () => {
     it('should filter notes based on patterns', async () => {
       // The service should be able to list and filter notes
@@ -2,6 +2,7 @@ import type { ILLMProvider, IVaultProvider, LLMStreamCallbacks } from '@/ports';
 import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
 import { GoalService } from '../../GoalService';
 import { QAService } from '../../QAService';
+import { ReviewService } from '../../ReviewService';
 import type { Goal } from '../../types';
 
 /**
@@ -91,6 +92,7 @@ TypeScript helps catch errors at compile time rather than runtime.`,
           storedFiles.delete(key);
         }
       }),
+      onChange: vi.fn(() => () => {}),
     };
 
     // Mock LLM for question generation and evaluation
@@ -193,6 +195,309 @@ TypeScript helps catch errors at compile time rather than runtime.`,
     });
   });
 
+  describe('Session options', () => {
+    const noteContents = () => [
+      { path: 'notes/typescript.md', content: storedFiles.get('notes/typescript.md') ?? '' },
+      { path: 'notes/generics.md', content: '# Generics\n\nGenerics make types reusable.' },
+    ];
+
+    function questionsResponse(texts: string[], sourceNotePath = 'notes/typescript.md') {
+      const json = JSON.stringify({
+        questions: texts.map((text) => ({ type: 'open-ended', text, sourceNotePath })),
+      });
+      return {
+        content: `\`\`\`json\n${json}\n\`\`\``,
+        usage: { inputTokens: 10, outputTokens: 10 },
+      };
+    }
+
+    it('should pass count, difficulty, types and focus milestones to the prompt', async () => {
+      await qaService.createSession(testGoal, noteContents(), {
+        questionCount: 2,
+        difficulty: 'hard',
+        questionTypes: ['multiple-choice', 'open-ended'],
+        focusMilestoneIds: ['m1'],
+      });
+
+      const [messages] = vi.mocked(mockLLMProvider.chat).mock.calls[0];
+      const context = messages[1].content;
+      expect(context).toContain('Generate exactly 2 questions.');
+      expect(context).toContain('Difficulty: hard questions');
+      expect(context).toContain('Allowed question types: multiple-choice, open-ended.');
+      expect(context).toContain('- Learn basics');
+    });
+
+    it('should trim to the requested count and drop disallowed types', async () => {
+      const session = await qaService.createSession(testGoal, noteContents(), {
+        questionCount: 1,
+        questionTypes: ['open-ended'],
+      });
+
+      expect(session.questions).toHaveLength(1);
+      expect(session.questions[0].type).toBe('open-ended');
+      expect(mockLLMProvider.chat).toHaveBeenCalledTimes(1);
+    });
+
+    it('should top up with a follow-up request when too few questions are returned', async () => {
+      vi.mocked(mockLLMProvider.chat)
+        .mockResolvedValueOnce(questionsResponse(['Q1', 'Q2']))
+        .mockResolvedValueOnce(questionsResponse(['Q2', 'Q3', 'Q4', 'Q5']));
+
+      const session = await qaService.createSession(testGoal, noteContents(), {
+        questionCount: 4,
+      });
+
+      // The repeated question is dropped and the extra one trimmed
+      expect(session.questions.map((q) => q.text)).toEqual(['Q1', 'Q2', 'Q3', 'Q4']);
+      expect(new Set(session.questions.map((q) => q.id)).size).toBe(4);
+
+      const [followUp] = vi.mocked(mockLLMProvider.chat).mock.calls[1];
+      expect(followUp[1].content).toContain('Generate exactly 2 questions.');
+      expect(followUp[1].content).toContain('- Q1');
+    });
+
+    it('should keep the questions it has when the top-up fails', async () => {
+      vi.mocked(mockLLMProvider.chat)
+        .mockResolvedValueOnce(questionsResponse(['Q1']))
+        .mockRejectedValueOnce(new Error('API error'));
+      const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+      const session = await qaService.createSession(testGoal, noteContents(), {
+        questionCount: 3,
+      });
+
+      expect(session.questions).toHaveLength(1);
+      warnSpy.mockRestore();
+    });
+
+    it('should ask again when a reply has no valid questions JSON', async () => {
+      vi.mocked(mockLLMProvider.chat)
+        .mockResolvedValueOnce({ content: 'Here are your questions: Q1, Q2' })
+        .mockResolvedValueOnce(questionsResponse(['Q1', 'Q2']));
+
+      const session = await qaService.createSession(testGoal, noteContents(), {
+        questionCount: 2,
+      });
+
+      expect(session.questions.map((q) => q.text)).toEqual(['Q1', 'Q2']);
+      const [retry] = vi.mocked(mockLLMProvider.chat).mock.calls[1];
+      expect(retry.map((m) => m.role)).toEqual(['system', 'user', 'assistant', 'user']);
+      expect(retry[2].content).toBe('Here are your questions: Q1, Q2');
+    });
+
+    it('should generate from only the focused notes', async () => {
+      vi.mocked(mockLLMProvider.chat).mockResolvedValueOnce(
+        questionsResponse(['What are generics?'], 'notes/generics.md'),
+      );
+
+      const session = await qaService.createSession(testGoal, noteContents(), {
+        questionCount: 1,
+        focusNotePaths: ['notes/generics.md'],
+      });
+
+      const [messages] = vi.mocked(mockLLMProvider.chat).mock.calls[0];
+      expect(messages[1].content).toContain('--- START: notes/generics.md ---');
+      expect(messages[1].content).not.toContain('--- START: notes/typescript.md ---');
+      expect(session.questions[0].sourceNotePath).toBe('notes/generics.md');
+    });
+
+    it('should scope a session to a milestone and its notes', async () => {
+      const goal: Goal = {
+        ...testGoal,
+        milestones: [
+          { ...testGoal.milestones[0], notesPaths: ['notes/generics.md'] },
+          { id: 'm2', content: 'Build a project', completed: false, order: 1 },
+        ],
+      };
+      vi.mocked(mockLLMProvider.chat).mockResolvedValueOnce(
+        questionsResponse(['What are generics?'], 'notes/generics.md'),
+      );
+
+      const session = await qaService.createSession(goal, noteContents(), {
+        questionCount: 1,
+        milestoneId: 'm1',
+      });
+
+      const [messages] = vi.mocked(mockLLMProvider.chat).mock.calls[0];
+      expect(messages[1].content).toContain('- Learn basics');
+      expect(messages[1].content).not.toContain('- Build a project');
+      expect(messages[1].content).not.toContain('--- START: notes/typescript.md ---');
+      const loaded = await qaService.getSessionById(goal.id, session.id);
+      expect(loaded?.milestoneId).toBe('m1');
+    });
+
+    it('should reject an unknown milestone', async () => {
+      await expect(
+        qaService.createSession(testGoal, noteContents(), { milestoneId: 'm9' }),
+      ).rejects.toThrow('Milestone not found: m9');
+    });
+
+    it('should reject invalid options', async () => {
+      await expect(
+        qaService.createSession(testGoal, noteContents(), { questionCount: 0 }),
+      ).rejects.toThrow('Question count must be between 1 and 20');
+      await expect(
+        qaService.createSession(testGoal, noteContents(), { questionTypes: [] }),
+      ).rejects.toThrow('Select at least one question type');
+      expect(mockLLMProvider.chat).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Question types', () => {
+    const noteContents = () => [
+      { path: 'notes/typescript.md', content: storedFiles.get('notes/typescript.md') ?? '' },
+    ];
+
+    const allTypesJson = JSON.stringify({
+      questions: [
+        {
+          type: 'true-false',
+          text: 'TypeScript catches errors at runtime.',
+          sourceNotePath: 'notes/typescript.md',
+          correctAnswer: false,
+        },
+        {
+          type: 'cloze',
+          text: 'TypeScript is a typed ____ of JavaScript.',
+          sourceNotePath: 'notes/typescript.md',
+          acceptedAnswers: ['superset', 'super-set'],
+        },
+        {
+          type: 'ordering',
+          text: 'Order the steps of compiling TypeScript',
+          sourceNotePath: 'notes/typescript.md',
+          items: ['Write .ts files', 'Run tsc', 'Run the emitted .js'],
+        },
+        {
+          type: 'multi-select',
+          text: 'Which are TypeScript features? Select all that apply.',
+          sourceNotePath: 'notes/typescript.md',
+          options: ['Interfaces', 'Pointers', 'Generics', 'Macros'],
+          correctAnswers: [2, 0],
+        },
+        // Invalid variants are dropped
+        {
+          type: 'true-false',
+          text: 'Enums exist.',
+          sourceNotePath: 'notes/typescript.md',
+          correctAnswer: 'yes',
+        },
+        {
+          type: 'cloze',
+          text: 'A question without a blank',
+          sourceNotePath: 'notes/typescript.md',
+          acceptedAnswers: ['anything'],
+        },
+        {
+          type: 'ordering',
+          text: 'Too few items',
+          sourceNotePath: 'notes/typescript.md',
+          items: ['One', 'Two'],
+        },
+        {
+          type: 'multi-select',
+          text: 'Out of range answer',
+          sourceNotePath: 'notes/typescript.md',
+          options: ['A', 'B', 'C', 'D'],
+          correctAnswers: [4],
+        },
+      ],
+    });
+
+    async function createAllTypesSession() {
+      vi.mocked(mockLLMProvider.chat).mockResolvedValueOnce({
+        content: `\`\`\`json\n${allTypesJson}\n\`\`\``,
+        usage: { inputTokens: 10, outputTokens: 10 },
+      });
+      return qaService.createSession(testGoal, noteContents(), { questionCount: 4 });
+    }
+
+    it('should parse and validate the new question types', async () => {
+      const session = await createAllTypesSession();
+
+      expect(session.questions.map((q) => q.type)).toEqual([
+        'true-false',
+        'cloze',
+        'ordering',
+        'multi-select',
+      ]);
+      expect(session.questions[0]).toMatchObject({ correctAnswer: false });
+      expect(session.questions[1]).toMatchObject({ acceptedAnswers: ['superset', 'super-set'] });
+      expect(session.questions[2]).toMatchObject({
+        items: ['Write .ts files', 'Run tsc', 'Run the emitted .js'],
+      });
+      expect(session.questions[3]).toMatchObject({ correctAnswers: [0, 2] });
+    });
+
+    it('should grade the new question types without calling the LLM', async () => {
+      const session = await createAllTypesSession();
+      const [trueFalse, cloze, ordering, multiSelect] = session.questions;
+      const submit = (questionId: string, userAnswer: boolean | string | number[]) =>
+        qaService.submitAnswer(testGoal.id, session.id, questionId, userAnswer, noteContents());
+
+      const trueFalseResult = await submit(trueFalse.id, true);
+      expect(trueFalseResult.answer.isCorrect).toBe(false);
+      expect(trueFalseResult.answer.explanation).toBe('Incorrect. The statement is false.');
+
+      // Case, spacing and trailing punctuation are ignored
+      const clozeResult = await submit(cloze.id, '  Super-Set. ');
+      expect(clozeResult.answer).toMatchObject({ isCorrect: true, userAnswer: 'Super-Set.' });
+
+      const orderingResult = await submit(ordering.id, [0, 1, 2]);
+      expect(orderingResult.answer.isCorrect).toBe(true);
+
+      // Every correct option must be selected, and nothing else
+      const multiSelectResult = await submit(multiSelect.id, [0]);
+      expect(multiSelectResult.answer.isCorrect).toBe(false);
+      expect(multiSelectResult.answer.explanation).toBe(
+        'Incorrect. The correct answers were: Interfaces, Generics',
+      );
+
+      expect(multiSelectResult.session.score).toBe(50);
+      expect(mockLLMProvider.streamChat).not.toHaveBeenCalled();
+    });
+
+    it('should reject a wrong ordering', async () => {
+      const session = await createAllTypesSession();
+
+      const { answer } = await qaService.submitAnswer(
+        testGoal.id,
+        session.id,
+        session.questions[2].id,
+        [1, 0, 2],
+        noteContents(),
+      );
+
+      expect(answer.isCorrect).toBe(false);
+      expect(answer.explanation).toBe(
+        'Incorrect. The correct order was: Write .ts files → Run tsc → Run the emitted .js',
+      );
+    });
+
+    it('should round-trip the new question types through storage', async () => {
+      const session = await createAllTypesSession();
+      const answers: Array<boolean | string | number[]> = [false, 'superset', [2, 0, 1], [0, 2]];
+      let latest = session;
+      for (let i = 0; i < answers.length; i++) {
+        const result = await qaService.submitAnswer(
+          testGoal.id,
+          session.id,
+          session.questions[i].id,
+          answers[i],
+          noteContents(),
+        );
+        latest = result.session;
+      }
+
+      // Reload session from storage
+      const reloaded = await qaService.getSessionById(testGoal.id, session.id);
+
+      expect(reloaded?.questions).toEqual(latest.questions);
+      expect(reloaded?.answers).toEqual(latest.answers);
+      expect(reloaded?.answers.map((a) => a.userAnswer)).toEqual(answers);
+    });
+  });
+
   describe('Answer submission and scoring', () => {
     it('should record correct multiple-choice answers', async () => {
       const noteContents = [
@@ -201,7 +506,7 @@ TypeScript helps catch errors at compile time rather than runtime.`,
 
       const session = await qaService.createSession(testGoal, noteContents);
 
-      // Reload session to get the parsed question IDs (they change when loaded from storage)
+      // Reload session from storage
       const loadedSession = await qaService.getSessionById(testGoal.id, session.id);
       if (!loadedSession) {
         throw new Error('Session not found after creation');
@@ -233,7 +538,7 @@ TypeScript helps catch errors at compile time rather than runtime.`,
 
       const session = await qaService.createSession(testGoal, noteContents);
 
-      // Reload session to get the parsed question IDs (they change when loaded from storage)
+      // Reload session from storage
       const loadedSession = await qaService.getSessionById(testGoal.id, session.id);
       if (!loadedSession) {
         throw new Error('Session not found after creation');
@@ -286,9 +591,9 @@ TypeScript helps catch errors at compile time rather than runtime.`,
         { path: 'notes/typescript.md', content: storedFiles.get('notes/typescript.md') ?? '' },
       ];
 
-      const session = await qaService.createSession(testGoal, noteContents);
+      const session = await qaService.createSession(testGoal, noteContents, { questionCount: 1 });
 
-      // Reload session to get the parsed question IDs (they change when loaded from storage)
+      // Reload session from storage
       const loadedSession = await qaService.getSessionById(testGoal.id, session.id);
       if (!loadedSession) {
         throw new Error('Session not found after creation');
@@ -310,6 +615,211 @@ TypeScript helps catch errors at compile time rather than runtime.`,
 
       expect(result.answer.type).toBe('open-ended');
       expect(result.answer.explanation).toBeDefined();
+      // Evaluations without key points or a score are all or nothing
+      expect(result.answer).toMatchObject({ isCorrect: true, score: 1, keyPoints: [] });
+    });
+  });
+
+  describe('Partial-credit grading', () => {
+    const noteContents = () => [
+      { path: 'notes/typescript.md', content: storedFiles.get('notes/typescript.md') ?? '' },
+    ];
+
+    function jsonResponse(value: unknown) {
+      return {
+        content: `\`\`\`json\n${JSON.stringify(value)}\n\`\`\``,
+        usage: { inputTokens: 10, outputTokens: 10 },
+      };
+    }
+
+    async function createRubricSession() {
+      vi.mocked(mockLLMProvider.chat).mockResolvedValueOnce(
+        jsonResponse({
+          questions: [
+            {
+              type: 'open-ended',
+              text: 'Explain static typing.',
+              sourceNotePath: 'notes/typescript.md',
+              rubric: [
+                { point: 'Types are checked at compile time', weight: 3 },
+                { point: 'Errors are caught before runtime', weight: 1 },
+                { point: '', weight: 2 },
+              ],
+            },
+            {
+              type: 'multiple-choice',
+              text: 'What is TypeScript?',
+              options: ['A typed superset of JavaScript', 'A database', 'An OS', 'A browser'],
+              correctAnswer: 0,
+              sourceNotePath: 'notes/typescript.md',
+            },
+          ],
+        }),
+      );
+      return qaService.createSession(testGoal, noteContents(), { questionCount: 2 });
+    }
+
+    it('should keep the generated rubric on open-ended questions', async () => {
+      const session = await createRubricSession();
+
+      expect(session.questions[0]).toMatchObject({
+        rubric: [
+          { point: 'Types are checked at compile time', weight: 3 },
+          { point: 'Errors are caught before runtime', weight: 1 },
+        ],
+      });
+    });
+
+    it('should score open-ended answers from weighted key points', async () => {
+      const session = await createRubricSession();
+      vi.mocked(mockLLMProvider.chat).mockResolvedValueOnce(
+        jsonResponse({
+          keyPoints: [
+            { point: 'Types are checked at compile time', hit: true },
+            { point: 'Errors are caught before runtime', hit: false },
+          ],
+          score: 0.5,
+          explanation: 'You explained compile-time checking but not why it helps.',
+        }),
+      );
+
+      const { answer } = await qaService.submitAnswer(
+        testGoal.id,
+        session.id,
+        session.questions[0].id,
+        'Types are checked when compiling.',
+        noteContents(),
+      );
+
+      // The weighted key points win over the LLM's own estimate
+      expect(answer).toMatchObject({
+        isCorrect: true,
+        score: 0.75,
+        keyPoints: [
+          { point: 'Types are checked at compile time', hit: true },
+          { point: 'Errors are caught before runtime', hit: false },
+        ],
+      });
+
+      const [messages] = vi.mocked(mockLLMProvider.chat).mock.calls[1];
+      expect(messages[1].content).toContain('1. Types are checked at compile time (weight 3)');
+    });
+
+    it('should compute the session score from partial credit', async () => {
+      const session = await createRubricSession();
+      vi.mocked(mockLLMProvider.chat).mockResolvedValueOnce(
+        jsonResponse({
+          keyPoints: [
+            { point: 'Types are checked at compile time', hit: false },
+            { point: 'Errors are caught before runtime', hit: true },
+          ],
+          explanation: 'Partly there.',
+        }),
+      );
+
+      const { answer } = await qaService.submitAnswer(
+        testGoal.id,
+        session.id,
+        session.questions[0].id,
+        'It finds bugs early.',
+        noteContents(),
+      );
+      const { session: updated } = await qaService.submitAnswer(
+        testGoal.id,
+        session.id,
+        session.questions[1].id,
+        0,
+        noteContents(),
+      );
+
+      expect(answer).toMatchObject({ isCorrect: false, score: 0.25 });
+      // (0.25 + 1) / 2 questions
+      expect(updated.score).toBe(63);
+    });
+
+    it('should match key points to the rubric by their wording', async () => {
+      const session = await createRubricSession();
+      vi.mocked(mockLLMProvider.chat).mockResolvedValueOnce(
+        jsonResponse({
+          keyPoints: [
+            { point: 'errors are caught before runtime.', hit: true },
+            { point: 'Something the rubric does not ask for', hit: true },
+          ],
+          explanation: 'Partly there.',
+        }),
+      );
+
+      const { answer } = await qaService.submitAnswer(
+        testGoal.id,
+        session.id,
+        session.questions[0].id,
+        'It finds bugs early.',
+        noteContents(),
+      );
+
+      // The rubric point the LLM left out counts as missed
+      expect(answer).toMatchObject({
+        isCorrect: false,
+        score: 0.25,
+        keyPoints: [
+          { point: 'Types are checked at compile time', hit: false },
+          { point: 'Errors are caught before runtime', hit: true },
+        ],
+      });
+    });
+
+    it("should fall back to the LLM's score when key points are missing", async () => {
+      const session = await createRubricSession();
+      vi.mocked(mockLLMProvider.chat)
+        .mockResolvedValueOnce(jsonResponse({ score: 1.4, explanation: 'Excellent.' }))
+        .mockResolvedValueOnce(
+          jsonResponse({ keyPoints: 'all of them', isCorrect: true, explanation: 'Good.' }),
+        );
+
+      const { answer } = await qaService.submitAnswer(
+        testGoal.id,
+        session.id,
+        session.questions[0].id,
+        'A complete answer.',
+        noteContents(),
+      );
+      const { answer: retried } = await qaService.submitAnswer(
+        testGoal.id,
+        session.id,
+        session.questions[0].id,
+        'A complete answer.',
+        noteContents(),
+      );
+
+      expect(answer).toMatchObject({ isCorrect: true, score: 1, keyPoints: [] });
+      expect(retried).toMatchObject({ isCorrect: true, score: 1, keyPoints: [] });
+    });
+
+    it('should round-trip rubrics, scores and key points through storage', async () => {
+      const session = await createRubricSession();
+      vi.mocked(mockLLMProvider.chat).mockResolvedValueOnce(
+        jsonResponse({
+          keyPoints: [
+            { point: 'Types are checked at compile time', hit: true },
+            { point: 'Errors are caught before runtime', hit: true },
+          ],
+          explanation: 'Complete answer.',
+        }),
+      );
+      const { session: answered } = await qaService.submitAnswer(
+        testGoal.id,
+        session.id,
+        session.questions[0].id,
+        'Types are checked at compile time, so errors show up before running.',
+        noteContents(),
+      );
+
+      // Reload session from storage
+      const reloaded = await qaService.getSessionById(testGoal.id, session.id);
+
+      expect(reloaded?.questions).toEqual(answered.questions);
+      expect(reloaded?.answers).toEqual(answered.answers);
+      expect(reloaded?.score).toBe(50);
     });
   });
 
@@ -355,6 +865,188 @@ TypeScript helps catch errors at compile time rather than runtime.`,
       const retrieved = await qaService.getSessionById(testGoal.id, session.id);
       expect(retrieved).toBeNull();
     });
+
+    it('should keep question IDs stable across reloads', async () => {
+      const noteContents = [
+        { path: 'notes/typescript.md', content: storedFiles.get('notes/typescript.md') ?? '' },
+      ];
+
+      const session = await qaService.createSession(testGoal, noteContents);
+      const retrieved = await qaService.getSessionById(testGoal.id, session.id);
+
+      expect(retrieved?.questions.map((q) => q.id)).toEqual(session.questions.map((q) => q.id));
+
+      // Answers submitted with the IDs from creation match after a reload
+      const result = await qaService.submitAnswer(
+        testGoal.id,
+        session.id,
+        session.questions[0].id,
+        0,
+        noteContents,
+      );
+      expect(result.answer.questionId).toBe(session.questions[0].id);
+
+      const reloaded = await qaService.getSessionById(testGoal.id, session.id);
+      expect(reloaded?.answers).toHaveLength(1);
+      expect(reloaded?.answers[0].questionId).toBe(session.questions[0].id);
+    });
+
+    it('should load sessions saved without question IDs', async () => {
+      storedFiles.set(
+        `ignite/${testGoal.id}/qa-sessions/qa-legacy.md`,
+        `---
+id: qa-legacy
+goalId: ${testGoal.id}
+questionCount: 2
+score: 50
+createdAt: 2025-01-01T00:00:00.000Z
+completedAt:
+---
+# Q&A Session
+
+## Question 1
+Type: multiple-choice
+Source: notes/typescript.md
+
+### What is TypeScript?
+
+Options:
+- A typed superset of JavaScript
+- A database
+- An operating system
+- A web browser
+Correct: 0
+
+#### User Answer
+0
+
+Status: Correct
+
+#### Feedback
+Correct!
+
+## Question 2
+Type: open-ended
+Source: notes/typescript.md
+
+### Explain static typing.
+`,
+      );
+
+      const session = await qaService.getSessionById(testGoal.id, 'qa-legacy');
+      if (!session) {
+        throw new Error('Legacy session not found');
+      }
+
+      expect(session.questions).toHaveLength(2);
+      expect(new Set(session.questions.map((q) => q.id)).size).toBe(2);
+      expect(session.answers).toHaveLength(1);
+      expect(session.answers[0].questionId).toBe(session.questions[0].id);
+
+      // Resaving writes the IDs so they stay stable from now on
+      await qaService.submitAnswer(
+        testGoal.id,
+        'qa-legacy',
+        session.questions[1].id,
+        'Types are checked at compile time.',
+        [],
+      );
+      const content = storedFiles.get(`ignite/${testGoal.id}/qa-sessions/qa-legacy.md`) ?? '';
+      expect(content).toContain(`ID: ${session.questions[1].id}`);
+
+      const reloaded = await qaService.getSessionById(testGoal.id, 'qa-legacy');
+      expect(reloaded?.questions.map((q) => q.id)).toEqual(session.questions.map((q) => q.id));
+      expect(reloaded?.answers).toHaveLength(2);
+    });
+
+    it('should find the most recent incomplete session', async () => {
+      const noteContents = [
+        { path: 'notes/typescript.md', content: storedFiles.get('notes/typescript.md') ?? '' },
+      ];
+
+      expect(await qaService.getIncompleteSession(testGoal.id)).toBeNull();
+
+      const session = await qaService.createSession(testGoal, noteContents);
+      await qaService.submitAnswer(
+        testGoal.id,
+        session.id,
+        session.questions[0].id,
+        0,
+        noteContents,
+      );
+
+      const incomplete = await qaService.getIncompleteSession(testGoal.id);
+      expect(incomplete?.id).toBe(session.id);
+      expect(incomplete?.answers).toHaveLength(1);
+
+      await qaService.submitAnswer(
+        testGoal.id,
+        session.id,
+        session.questions[1].id,
+        'Static typing catches errors early.',
+        noteContents,
+      );
+
+      expect(await qaService.getIncompleteSession(testGoal.id)).toBeNull();
+    });
+  });
+
+  describe('Retaking incorrect questions', () => {
+    it('should create a session with only the incorrectly answered questions', async () => {
+      const noteContents = [
+        { path: 'notes/typescript.md', content: storedFiles.get('notes/typescript.md') ?? '' },
+      ];
+
+      const session = await qaService.createSession(testGoal, noteContents);
+      const [mcQuestion, openQuestion] = session.questions;
+      await qaService.submitAnswer(testGoal.id, session.id, mcQuestion.id, 2, noteContents);
+      const evalJson = JSON.stringify({ isCorrect: true, explanation: 'Good answer!' });
+      vi.mocked(mockLLMProvider.chat).mockResolvedValueOnce({
+        content: `\`\`\`json\n${evalJson}\n\`\`\``,
+        usage: { inputTokens: 50, outputTokens: 100 },
+      });
+      await qaService.submitAnswer(
+        testGoal.id,
+        session.id,
+        openQuestion.id,
+        'It catches errors at compile time.',
+        noteContents,
+      );
+
+      const retake = await qaService.createRetakeSession(testGoal.id, session.id);
+
+      expect(retake.id).not.toBe(session.id);
+      expect(retake.questions).toHaveLength(1);
+      expect(retake.questions[0].text).toBe(mcQuestion.text);
+      expect(retake.answers).toHaveLength(0);
+
+      // Answering the retake updates the original question's review schedule
+      await qaService.submitAnswer(testGoal.id, retake.id, retake.questions[0].id, 0, noteContents);
+      const items = await new ReviewService(mockVaultProvider).getReviewItems(testGoal.id);
+      const original = items.find((item) => item.questionId === mcQuestion.id);
+      expect(items).toHaveLength(2);
+      expect(original?.sessionId).toBe(session.id);
+      expect(original?.repetitions).toBe(1);
+    });
+
+    it('should throw when every question was answered correctly', async () => {
+      const noteContents = [
+        { path: 'notes/typescript.md', content: storedFiles.get('notes/typescript.md') ?? '' },
+      ];
+
+      const session = await qaService.createSession(testGoal, noteContents);
+      await qaService.submitAnswer(
+        testGoal.id,
+        session.id,
+        session.questions[0].id,
+        0,
+        noteContents,
+      );
+
+      await expect(qaService.createRetakeSession(testGoal.id, session.id)).rejects.toThrow(
+        'No incorrectly answered questions to retake.',
+      );
+    });
   });
 
   describe('Score calculation', () => {
@@ -365,7 +1057,7 @@ TypeScript helps catch errors at compile time rather than runtime.`,
 
       const session = await qaService.createSession(testGoal, noteContents);
 
-      // Reload session to get the parsed question IDs (they change when loaded from storage)
+      // Reload session from storage
       const loadedSession = await qaService.getSessionById(testGoal.id, session.id);
       if (!loadedSession) {
         throw new Error('Session not found after creation');
@@ -410,4 +1102,91 @@ TypeScript helps catch errors at compile time rather than runtime.`,
       expect(afterSecond?.completedAt).toBeDefined(); // Session should be completed
     });
   });
+
+  describe('Spaced-repetition review', () => {
+    it('should schedule answered questions for review', async () => {
+      const noteContents = [
+        { path: 'notes/typescript.md', content: storedFiles.get('notes/typescript.md') ?? '' },
+      ];
+
+      const session = await qaService.createSession(testGoal, noteContents);
+      const loadedSession = await qaService.getSessionById(testGoal.id, session.id);
+      if (!loadedSession) {
+        throw new Error('Session not found after creation');
+      }
+
+      const question = loadedSession.questions[0];
+      await qaService.submitAnswer(testGoal.id, session.id, question.id, 2, noteContents);
+
+      const items = await new ReviewService(mockVaultProvider).getReviewItems(testGoal.id);
+      expect(items).toHaveLength(1);
+      expect(items[0]).toMatchObject({
+        sessionId: session.id,
+        questionId: question.id,
+        repetitions: 0,
+        interval: 1,
+      });
+    });
+
+    it('should build a review session from due questions and update their schedule', async () => {
+      const noteContents = [
+        { path: 'notes/typescript.md', content: storedFiles.get('notes/typescript.md') ?? '' },
+      ];
+
+      const session = await qaService.createSession(testGoal, noteContents);
+      const loadedSession = await qaService.getSessionById(testGoal.id, session.id);
+      if (!loadedSession) {
+        throw new Error('Session not found after creation');
+      }
+
+      // Answer the multiple-choice question wrong a week ago so it is due now
+      const reviewService = new ReviewService(mockVaultProvider);
+      const mcQuestion = loadedSession.questions[0];
+      const itemId = reviewService.getItemId(session.id, mcQuestion.id);
+      await reviewService.recordAnswer(
+        testGoal.id,
+        itemId,
+        {
+          questionId: mcQuestion.id,
+          type: 'multiple-choice',
+          userAnswer: 2,
+          isCorrect: false,
+          explanation: 'Not quite.',
+        },
+        new Date(Date.now() - 7 * 24 * 60 * 60 * 1000),
+      );
+
+      vi.mocked(mockLLMProvider.chat).mockClear();
+      const reviewSession = await qaService.createReviewSession(testGoal.id);
+      expect(reviewSession.questions).toHaveLength(1);
+      expect(reviewSession.questions[0].text).toBe(mcQuestion.text);
+      expect(reviewSession.reviewItemIds).toEqual([itemId]);
+      expect(mockLLMProvider.chat).not.toHaveBeenCalled();
+
+      const loadedReview = await qaService.getSessionById(testGoal.id, reviewSession.id);
+      if (!loadedReview) {
+        throw new Error('Review session not found after creation');
+      }
+      expect(loadedReview.reviewItemIds).toEqual([itemId]);
+
+      await qaService.submitAnswer(
+        testGoal.id,
+        reviewSession.id,
+        loadedReview.questions[0].id,
+        0,
+        noteContents,
+      );
+
+      const items = await reviewService.getReviewItems(testGoal.id);
+      expect(items).toHaveLength(1);
+      expect(items[0]).toMatchObject({ id: itemId, repetitions: 1 });
+      expect(await reviewService.getDueItems(testGoal.id)).toHaveLength(0);
+    });
+
+    it('should throw when no questions are due for review', async () => {
+      await expect(qaService.createReviewSession(testGoal.id)).rejects.toThrow(
+        'No questions are due for review.',
+      );
+    });
+  });
 });
@@ -0,0 +1,143 @@
+import {
+  addMilestone,
+  countMilestoneActivity,
+  getMilestoneNotePaths,
+  moveMilestone,
+  normalizeMilestoneOrder,
+  removeMilestone,
+  renameMilestone,
+  setMilestoneNotes,
+} from '@/domain/goal/milestoneUtils';
+import type { Conversation, Goal, Milestone, QASession } from '@/domain/goal/types';
+import { describe, expect, it } from 'vitest';
+
+describe('milestoneUtils', () => {
+  const milestones: Milestone[] = [
+    { id: 'm1', content: 'Learn basics', completed: true, order: 0 },
+    { id: 'm2', content: 'Build a project', completed: false, order: 1 },
+    { id: 'm3', content: 'Write tests', completed: false, order: 2 },
+  ];
+
+  const ids = (list: Milestone[]) => list.map((m) => m.id);
+  const orders = (list: Milestone[]) => list.map((m) => m.order);
+
+  describe('normalizeMilestoneOrder', () => {
+    it('should sort by order and close gaps', () => {
+      const result = normalizeMilestoneOrder([
+        { ...milestones[0], order: 7 },
+        { ...milestones[1], order: -1 },
+        { ...milestones[2], order: 3 },
+      ]);
+
+      expect(ids(result)).toEqual(['m2', 'm3', 'm1']);
+      expect(orders(result)).toEqual([0, 1, 2]);
+    });
+  });
+
+  describe('addMilestone', () => {
+    it('should append an incomplete milestone with trimmed content', () => {
+      const result = addMilestone(milestones, '  Ship it ');
+
+      expect(result).toHaveLength(4);
+      expect(result[3]).toMatchObject({ content: 'Ship it', completed: false, order: 3 });
+      expect(new Set(ids(result)).size).toBe(4);
+    });
+
+    it('should reject empty content', () => {
+      expect(() => addMilestone(milestones, '   ')).toThrow('Milestone cannot be empty');
+    });
+  });
+
+  describe('renameMilestone', () => {
+    it('should change only the renamed milestone', () => {
+      const result = renameMilestone(milestones, 'm2', 'Build two projects');
+
+      expect(result.map((m) => m.content)).toEqual([
+        'Learn basics',
+        'Build two projects',
+        'Write tests',
+      ]);
+      expect(result[1].completed).toBe(false);
+    });
+
+    it('should reject empty content', () => {
+      expect(() => renameMilestone(milestones, 'm2', '')).toThrow('Milestone cannot be empty');
+    });
+  });
+
+  describe('removeMilestone', () => {
+    it('should remove the milestone and renumber the rest', () => {
+      const result = removeMilestone(milestones, 'm1');
+
+      expect(ids(result)).toEqual(['m2', 'm3']);
+      expect(orders(result)).toEqual([0, 1]);
+    });
+  });
+
+  describe('moveMilestone', () => {
+    it('should move a milestone down and shift the others up', () => {
+      const result = moveMilestone(milestones, 'm1', 2);
+
+      expect(ids(result)).toEqual(['m2', 'm3', 'm1']);
+      expect(orders(result)).toEqual([0, 1, 2]);
+    });
+
+    it('should move a milestone up', () => {
+      expect(ids(moveMilestone(milestones, 'm3', 0))).toEqual(['m3', 'm1', 'm2']);
+    });
+
+    it('should clamp positions outside the list', () => {
+      expect(ids(moveMilestone(milestones, 'm2', -3))).toEqual(['m2', 'm1', 'm3']);
+      expect(ids(moveMilestone(milestones, 'm2', 10))).toEqual(['m1', 'm3', 'm2']);
+    });
+
+    it('should leave the list unchanged for an unknown milestone', () => {
+      expect(ids(moveMilestone(milestones, 'missing', 0))).toEqual(['m1', 'm2', 'm3']);
+    });
+  });
+
+  describe('setMilestoneNotes', () => {
+    it('should replace the notes of one milestone without duplicates', () => {
+      const result = setMilestoneNotes(milestones, 'm2', ['a.md', 'b.md', 'a.md']);
+
+      expect(result[1].notesPaths).toEqual(['a.md', 'b.md']);
+      expect(result[0].notesPaths).toBeUndefined();
+    });
+  });
+
+  describe('getMilestoneNotePaths', () => {
+    const goal = {
+      notesPaths: ['a.md', 'b.md', 'c.md'],
+      milestones: [
+        { ...milestones[0], notesPaths: ['b.md'] },
+        { ...milestones[1], notesPaths: [] },
+      ],
+    } as unknown as Goal;
+
+    it('should return the milestone notes', () => {
+      expect(getMilestoneNotePaths(goal, 'm1')).toEqual(['b.md']);
+    });
+
+    it('should fall back to the goal notes', () => {
+      expect(getMilestoneNotePaths(goal, 'm2')).toEqual(['a.md', 'b.md', 'c.md']);
+      expect(getMilestoneNotePaths(goal, 'missing')).toEqual(['a.md', 'b.md', 'c.md']);
+      expect(getMilestoneNotePaths(goal)).toEqual(['a.md', 'b.md', 'c.md']);
+    });
+  });
+
+  describe('countMilestoneActivity', () => {
+    it('should count scoped conversations and sessions per milestone', () => {
+      const conversations = [
+        { id: 'c1', milestoneId: 'm1' },
+        { id: 'c2', milestoneId: 'm1' },
+        { id: 'c3' },
+      ] as Conversation[];
+      const sessions = [{ id: 's1', milestoneId: 'm2' }, { id: 's2' }] as QASession[];
+
+      expect(countMilestoneActivity(conversations, sessions)).toEqual({
+        m1: { conversations: 2, qaSessions: 0 },
+        m2: { conversations: 0, qaSessions: 1 },
+      });
+    });
+  });
+});
@@ -0,0 +1,87 @@
+import { searchNotes, splitNoteSuggestions } from '@/domain/goal/noteSuggestions';
+import type { Goal } from '@/domain/goal/types';
+import type { FileInfo } from '@/ports';
+import { describe, expect, it } from 'vitest';
+
+function createFile(path: string, createdAt = 0): FileInfo {
+  return {
+    path,
+    basename: path.split('/').pop()?.replace('.md', '') ?? '',
+    folder: path.split('/').slice(0, -1).join('/'),
+    modifiedAt: createdAt,
+    createdAt,
+  };
+}
+
+describe('noteSuggestions', () => {
+  const goal: Goal = {
+    id: 'goal-1',
+    name: 'Learn TypeScript',
+    description: 'Master TypeScript',
+    deadline: '2025-12-31',
+    milestones: [],
+    notesPaths: ['ts/basics.md'],
+    status: 'active',
+    createdAt: '2025-01-10T00:00:00.000Z',
+    updatedAt: '2025-01-10T00:00:00.000Z',
+  };
+
+  describe('splitNoteSuggestions', () => {
+    it('should separate notes written since the goal and skip assigned or weak notes', () => {
+      const before = new Date('2025-01-01T00:00:00.000Z').getTime();
+      const after = new Date('2025-02-01T00:00:00.000Z').getTime();
+      const files = [
+        createFile('ts/basics.md', before),
+        createFile('ts/generics.md', before),
+        createFile('ts/decorators.md', after),
+        createFile('ts/mapped-types.md', after),
+        createFile('cooking.md', after),
+      ];
+      const scored = [
+        { path: 'ts/basics.md', score: 95, reason: '' },
+        { path: 'ts/generics.md', score: 80, reason: '' },
+        { path: 'ts/decorators.md', score: 60, reason: '' },
+        { path: 'ts/mapped-types.md', score: 90, reason: '' },
+        { path: 'cooking.md', score: 10, reason: '' },
+      ];
+
+      const { newNotes, otherNotes } = splitNoteSuggestions(goal, scored, files);
+
+      expect(newNotes.map((n) => n.path)).toEqual(['ts/mapped-types.md', 'ts/decorators.md']);
+      expect(otherNotes.map((n) => n.path)).toEqual(['ts/generics.md']);
+    });
+  });
+
+  describe('searchNotes', () => {
+    const files = [
+      createFile('ts/basics.md'),
+      createFile('ts/generics.md'),
+      createFile('notes/typescript generics.md'),
+      createFile('archive/ts/old.md'),
+      createFile('planning/goal setting.md'),
+      createFile('ignite/goals/goal-1/goal.md'),
+    ];
+
+    it('should match every query word and list file name matches first', () => {
+      const results = searchNotes(files, 'Generics', goal.notesPaths, [], []);
+
+      expect(results.map((f) => f.path)).toEqual([
+        'notes/typescript generics.md',
+        'ts/generics.md',
+      ]);
+      expect(searchNotes(files, 'ts old', [], [], []).map((f) => f.path)).toEqual([
+        'archive/ts/old.md',
+      ]);
+    });
+
+    it('should skip assigned, excluded and plugin notes', () => {
+      const results = searchNotes(files, 'ts', goal.notesPaths, [], ['archive/**']);
+
+      expect(results.map((f) => f.path)).toEqual(['ts/generics.md']);
+      expect(searchNotes(files, 'goal', [], [], []).map((f) => f.path)).toEqual([
+        'planning/goal setting.md',
+      ]);
+      expect(searchNotes(files, '  ', [], [], [])).toEqual([]);
+    });
+  });
+});
@@ -166,6 +166,16 @@ function parseValue(value: string): unknown {
   // Null
   if (trimmed === 'null' || trimmed === '') return null;
 
+  // Inline list, written for lists nested in array items
+  if (trimmed.startsWith('[') && trimmed.endsWith(']')) {
+    try {
+      const list = JSON.parse(trimmed);
+      if (Array.isArray(list)) return list;
+    } catch {
+      // Not a JSON list, keep it as a string
+    }
+  }
+
   // Number
   if (/^-?\d+(\.\d+)?$/.test(trimmed)) {
     return Number.parseFloat(trimmed);
@@ -256,6 +266,8 @@ function serializeYamlValue(value: unknown): string {
   if (value === null || value === undefined) return '';
   if (typeof value === 'boolean') return value.toString();
   if (typeof value === 'number') return value.toString();
+  // Nested lists are written inline; JSON lists are valid YAML flow sequences
+  if (Array.isArray(value)) return JSON.stringify(value);
   if (typeof value === 'string') {
     // Quote strings that contain special characters
     if (/[:#\[\]{}|>]/.test(value) || value.includes('\n')) {
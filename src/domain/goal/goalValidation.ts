@@ -0,0 +1,69 @@
+import type { Goal } from './types';
+
+/**
+ * Goal fields that can be edited after creation.
+ */
+export type GoalDetails = Pick<Goal, 'name' | 'description' | 'deadline'>;
+
+/**
+ * Validation messages by field; a field without a message is valid.
+ */
+export type GoalDetailsErrors = Partial<Record<keyof GoalDetails, string>>;
+
+/**
+ * Maximum length of a goal name.
+ */
+export const GOAL_NAME_MAX_LENGTH = 200;
+
+/**
+ * Check a goal name, returning an error message or null if it is valid.
+ */
+export function getGoalNameError(name: string): string | null {
+  if (!name || name.trim().length === 0) {
+    return 'Goal name cannot be empty';
+  }
+  if (name.length > GOAL_NAME_MAX_LENGTH) {
+    return `Goal name cannot exceed ${GOAL_NAME_MAX_LENGTH} characters`;
+  }
+  // biome-ignore lint/suspicious/noControlCharactersInRegex: Intentionally detecting control chars
+  if (/[\x00-\x1F\x7F]/.test(name)) {
+    return 'Goal name cannot contain control characters';
+  }
+  return null;
+}
+
+/**
+ * Check the editable fields of a goal.
+ * The deadline must be a real calendar date in YYYY-MM-DD format.
+ */
+export function validateGoalDetails(details: GoalDetails): GoalDetailsErrors {
+  const errors: GoalDetailsErrors = {};
+
+  const nameError = getGoalNameError(details.name);
+  if (nameError) {
+    errors.name = nameError;
+  }
+  if (!details.description || details.description.trim().length === 0) {
+    errors.description = 'Goal description cannot be empty';
+  }
+
+  const deadline = details.deadline?.trim() ?? '';
+  if (deadline.length === 0) {
+    errors.deadline = 'Goal deadline cannot be empty';
+  } else if (!isCalendarDate(deadline)) {
+    errors.deadline = 'Goal deadline must be a valid date (YYYY-MM-DD)';
+  }
+
+  return errors;
+}
+
+/**
+ * Check that a YYYY-MM-DD string names a real day, so 2025-02-30 is rejected.
+ */
+function isCalendarDate(value: string): boolean {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    return false;
+  }
+  const date = new Date(`${value}T00:00:00Z`);
+  return !Number.isNaN(date.getTime()) && date.toISOString().slice(0, 10) === value;
+}
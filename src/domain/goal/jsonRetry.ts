@@ -0,0 +1,62 @@
+import { JSON_RETRY_PROMPT } from '@/adapters/anthropic/prompts/jsonRetry';
+import type { ILLMProvider, LLMChatOptions, LLMMessage } from '@/ports';
+
+/**
+ * Number of follow-up requests made when a reply's JSON fails to parse.
+ */
+export const DEFAULT_JSON_RETRIES = 2;
+
+/**
+ * Chat with the LLM and parse its reply, asking again when parsing fails.
+ * Each retry shows the model its previous reply and asks for the JSON alone.
+ * Returns null if no reply could be parsed.
+ */
+export async function chatForJson<T>(
+  llmProvider: ILLMProvider,
+  messages: LLMMessage[],
+  options: LLMChatOptions,
+  parse: (content: string) => T | null,
+  maxRetries = DEFAULT_JSON_RETRIES,
+): Promise<T | null> {
+  const response = await llmProvider.chat(messages, options);
+  const parsed = parse(response.content);
+  if (parsed !== null) {
+    return parsed;
+  }
+
+  return retryForJson(llmProvider, messages, response.content, options, parse, maxRetries);
+}
+
+/**
+ * Ask the LLM to restate a reply whose JSON failed to parse.
+ * Returns null if no retry could be parsed.
+ */
+export async function retryForJson<T>(
+  llmProvider: ILLMProvider,
+  messages: LLMMessage[],
+  failedReply: string,
+  options: LLMChatOptions,
+  parse: (content: string) => T | null,
+  maxRetries = DEFAULT_JSON_RETRIES,
+): Promise<T | null> {
+  let lastReply = failedReply;
+
+  for (let attempt = 0; attempt < maxRetries; attempt++) {
+    const response = await llmProvider.chat(
+      [
+        ...messages,
+        { role: 'assistant', content: lastReply },
+        { role: 'user', content: JSON_RETRY_PROMPT },
+      ],
+      options,
+    );
+
+    const parsed = parse(response.content);
+    if (parsed !== null) {
+      return parsed;
+    }
+    lastReply = response.content;
+  }
+
+  return null;
+}
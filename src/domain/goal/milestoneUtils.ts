@@ -0,0 +1,130 @@
+import type { Conversation, Goal, Milestone, MilestoneActivity, QASession } from './types';
+
+/**
+ * Sort milestones by order and renumber them 0..n-1.
+ */
+export function normalizeMilestoneOrder(milestones: Milestone[]): Milestone[] {
+  return [...milestones]
+    .sort((a, b) => a.order - b.order)
+    .map((milestone, index) => ({ ...milestone, order: index }));
+}
+
+/**
+ * Create a milestone ID that does not collide with IDs created in the same millisecond.
+ */
+export function generateMilestoneId(): string {
+  return `milestone-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
+}
+
+/**
+ * Append a new, incomplete milestone.
+ * @throws Error if the content is empty
+ */
+export function addMilestone(milestones: Milestone[], content: string): Milestone[] {
+  const trimmed = validateMilestoneContent(content);
+  const ordered = normalizeMilestoneOrder(milestones);
+  return [
+    ...ordered,
+    { id: generateMilestoneId(), content: trimmed, completed: false, order: ordered.length },
+  ];
+}
+
+/**
+ * Change the text of a milestone.
+ * @throws Error if the content is empty
+ */
+export function renameMilestone(
+  milestones: Milestone[],
+  milestoneId: string,
+  content: string,
+): Milestone[] {
+  const trimmed = validateMilestoneContent(content);
+  return normalizeMilestoneOrder(
+    milestones.map((m) => (m.id === milestoneId ? { ...m, content: trimmed } : m)),
+  );
+}
+
+/**
+ * Remove a milestone and close the gap in the order.
+ */
+export function removeMilestone(milestones: Milestone[], milestoneId: string): Milestone[] {
+  return normalizeMilestoneOrder(milestones.filter((m) => m.id !== milestoneId));
+}
+
+/**
+ * Move a milestone to a new position, shifting the others.
+ * Positions outside the list are clamped to the first or last position.
+ */
+export function moveMilestone(
+  milestones: Milestone[],
+  milestoneId: string,
+  toIndex: number,
+): Milestone[] {
+  const ordered = normalizeMilestoneOrder(milestones);
+  const fromIndex = ordered.findIndex((m) => m.id === milestoneId);
+  if (fromIndex === -1) {
+    return ordered;
+  }
+
+  const [moved] = ordered.splice(fromIndex, 1);
+  ordered.splice(Math.max(0, Math.min(toIndex, ordered.length)), 0, moved);
+  return ordered.map((milestone, index) => ({ ...milestone, order: index }));
+}
+
+/**
+ * Replace the notes assigned to a milestone. Duplicate paths are dropped.
+ */
+export function setMilestoneNotes(
+  milestones: Milestone[],
+  milestoneId: string,
+  notesPaths: string[],
+): Milestone[] {
+  const unique = Array.from(new Set(notesPaths));
+  return milestones.map((m) => (m.id === milestoneId ? { ...m, notesPaths: unique } : m));
+}
+
+/**
+ * Get the notes to study for a milestone.
+ * Falls back to all goal notes without a milestone, or when the milestone has no notes of its own.
+ */
+export function getMilestoneNotePaths(goal: Goal, milestoneId?: string): string[] {
+  const milestone = goal.milestones.find((m) => m.id === milestoneId);
+  return milestone?.notesPaths?.length ? milestone.notesPaths : goal.notesPaths;
+}
+
+/**
+ * Count the discussions and Q&A sessions scoped to each milestone.
+ * Only milestones with activity get an entry.
+ */
+export function countMilestoneActivity(
+  conversations: Conversation[],
+  qaSessions: QASession[],
+): Record<string, MilestoneActivity> {
+  const counts: Record<string, MilestoneActivity> = {};
+  const entry = (milestoneId: string) => {
+    if (!counts[milestoneId]) {
+      counts[milestoneId] = { conversations: 0, qaSessions: 0 };
+    }
+    return counts[milestoneId];
+  };
+
+  for (const conversation of conversations) {
+    if (conversation.milestoneId) entry(conversation.milestoneId).conversations++;
+  }
+  for (const session of qaSessions) {
+    if (session.milestoneId) entry(session.milestoneId).qaSessions++;
+  }
+  return counts;
+}
+
+/**
+ * Trim milestone text and reject empty text.
+ * @throws Error if the content is empty
+ */
+export function validateMilestoneContent(content: string): string {
+  const trimmed = content.trim();
+  if (!trimmed) {
+    throw new Error('Milestone cannot be empty');
+  }
+  return trimmed;
+}
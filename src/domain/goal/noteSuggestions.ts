@@ -0,0 +1,87 @@
+import { filterNotePaths } from '@/domain/pipeline/pathFilter';
+import type { FileInfo } from '@/ports';
+import type { ScoredNote } from './NoteRelevanceService';
+import type { Goal } from './types';
+
+/**
+ * Minimum relevance score for a note to be suggested for an existing goal.
+ */
+export const NOTE_SUGGESTION_MIN_SCORE = 50;
+
+/**
+ * Relevant notes that are not yet assigned to a goal.
+ */
+export interface NoteSuggestions {
+  /** Notes created after the goal, sorted by score (highest first) */
+  newNotes: ScoredNote[];
+  /** Older notes that also match the goal, sorted by score (highest first) */
+  otherNotes: ScoredNote[];
+}
+
+/**
+ * Pick suggestions from freshly scored notes, leaving out notes the goal already has.
+ * Notes written since the goal was created are kept apart, since they are the ones
+ * the original assignment could not have seen.
+ */
+export function splitNoteSuggestions(
+  goal: Goal,
+  scoredNotes: ScoredNote[],
+  files: FileInfo[],
+  minScore: number = NOTE_SUGGESTION_MIN_SCORE,
+): NoteSuggestions {
+  const assigned = new Set(goal.notesPaths);
+  const createdAt = new Map(files.map((file) => [file.path, file.createdAt]));
+  const goalCreatedAt = new Date(goal.createdAt).getTime();
+
+  const suggestions: NoteSuggestions = { newNotes: [], otherNotes: [] };
+  for (const note of [...scoredNotes].sort((a, b) => b.score - a.score)) {
+    if (assigned.has(note.path) || note.score < minScore) continue;
+
+    const noteCreatedAt = createdAt.get(note.path);
+    if (noteCreatedAt !== undefined && noteCreatedAt > goalCreatedAt) {
+      suggestions.newNotes.push(note);
+    } else {
+      suggestions.otherNotes.push(note);
+    }
+  }
+
+  return suggestions;
+}
+
+/**
+ * Search vault notes by path, skipping notes already assigned to the goal.
+ * Every word of the query must appear in the path (case-insensitive).
+ * Notes whose file name matches are listed before notes that only match by folder.
+ */
+export function searchNotes(
+  files: FileInfo[],
+  query: string,
+  assignedPaths: string[],
+  includePatterns: string[],
+  excludePatterns: string[],
+  limit = 20,
+): FileInfo[] {
+  const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+  if (terms.length === 0) {
+    return [];
+  }
+
+  const assigned = new Set(assignedPaths);
+
+  return filterNotePaths(files, includePatterns, excludePatterns)
+    .filter((file) => !assigned.has(file.path))
+    .filter((file) => {
+      const path = file.path.toLowerCase();
+      return terms.every((term) => path.includes(term));
+    })
+    .map((file) => {
+      const basename = file.basename.toLowerCase();
+      return { file, nameMatch: terms.some((term) => basename.includes(term)) };
+    })
+    .sort((a, b) => {
+      if (a.nameMatch !== b.nameMatch) return a.nameMatch ? -1 : 1;
+      return a.file.path.localeCompare(b.file.path);
+    })
+    .slice(0, limit)
+    .map(({ file }) => file);
+}
@@ -26,8 +26,40 @@ export interface Milestone {
   content: string;
   completed: boolean;
   order: number;
+  notesPaths?: string[]; // Notes for studying this milestone; empty or missing means all goal notes
+  suggestionDismissedAt?: string; // ISO time the last completion suggestion was dismissed
 }
 
+/**
+ * Number of discussions and Q&A sessions scoped to a milestone.
+ */
+export interface MilestoneActivity {
+  conversations: number;
+  qaSessions: number;
+}
+
+/**
+ * Discussion modes that shape how the AI engages with the user.
+ * - explore: open-ended discussion (default)
+ * - teach-me: simplified explanations for beginners
+ * - challenge: devil's advocate that pushes back on assumptions
+ */
+export type DiscussMode = 'explore' | 'teach-me' | 'challenge';
+
+/**
+ * All discussion modes in display order.
+ */
+export const DISCUSS_MODES: DiscussMode[] = ['explore', 'teach-me', 'challenge'];
+
+/**
+ * Human-readable labels for discussion modes.
+ */
+export const DISCUSS_MODE_LABELS: Record<DiscussMode, string> = {
+  explore: 'Explore',
+  'teach-me': 'Teach Me',
+  challenge: 'Challenge',
+};
+
 /**
  * Represents a conversation/discussion session for a goal.
  */
@@ -35,8 +67,10 @@ export interface Conversation {
   id: string;
   goalId: string;
   topic: string; // AI-generated
+  mode: DiscussMode; // Current mode, new messages use this
   messages: ChatMessage[];
   createdAt: string;
+  milestoneId?: string; // Milestone the discussion is scoped to
 }
 
 /**
@@ -47,6 +81,7 @@ export interface ChatMessage {
   role: 'user' | 'assistant';
   content: string;
   sources?: string[]; // Note paths used
+  mode?: DiscussMode; // Mode the message was sent in
   timestamp: string;
 }
 
@@ -61,6 +96,8 @@ export interface QASession {
   score: number;
   createdAt: string;
   completedAt?: string;
+  reviewItemIds?: string[]; // Review sessions only: review item behind each question, by index
+  milestoneId?: string; // Milestone the questions were scoped to
 }
 
 /**
@@ -82,8 +119,54 @@ export type Question =
       text: string;
       sourceNotePath: string;
       // No options/correctAnswer for open-ended
+      rubric?: RubricPoint[]; // Key points a complete answer covers; absent on older sessions
+    }
+  | {
+      id: string;
+      type: 'true-false';
+      text: string; // A statement to judge
+      sourceNotePath: string;
+      correctAnswer: boolean;
+    }
+  | {
+      id: string;
+      type: 'cloze';
+      text: string; // Contains a blank marked with underscores (e.g. "____")
+      sourceNotePath: string;
+      acceptedAnswers: string[]; // Accepted fills for the blank; at least one
+    }
+  | {
+      id: string;
+      type: 'ordering';
+      text: string;
+      sourceNotePath: string;
+      items: string[]; // In the correct order; shuffled for display
+    }
+  | {
+      id: string;
+      type: 'multi-select';
+      text: string;
+      sourceNotePath: string;
+      options: string[];
+      correctAnswers: number[]; // Indices of every correct option, ascending
     };
 
+/**
+ * A key point in an open-ended question's grading rubric.
+ */
+export interface RubricPoint {
+  point: string;
+  weight: number; // Relative importance; positive
+}
+
+/**
+ * Whether an open-ended answer covered a rubric key point.
+ */
+export interface KeyPointResult {
+  point: string;
+  hit: boolean;
+}
+
 /**
  * Discriminated union for different answer types.
  * Use the 'type' field to narrow the type and access type-specific fields.
@@ -102,8 +185,201 @@ export type Answer =
       userAnswer: string;
       isCorrect: boolean;
       explanation: string;
+      score?: number; // 0-1 partial credit; absent on older sessions
+      keyPoints?: KeyPointResult[];
+    }
+  | {
+      questionId: string;
+      type: 'true-false';
+      userAnswer: boolean;
+      isCorrect: boolean;
+      explanation: string;
+    }
+  | {
+      questionId: string;
+      type: 'cloze';
+      userAnswer: string;
+      isCorrect: boolean;
+      explanation: string;
+    }
+  | {
+      questionId: string;
+      type: 'ordering';
+      userAnswer: number[]; // Item indices in the order the user arranged them
+      isCorrect: boolean;
+      explanation: string;
+    }
+  | {
+      questionId: string;
+      type: 'multi-select';
+      userAnswer: number[]; // Selected option indices, ascending
+      isCorrect: boolean;
+      explanation: string;
     };
 
+/**
+ * Credit (0-1) an answer earns towards the session score.
+ * Open-ended answers earn partial credit; older answers without a score count as all or nothing.
+ */
+export function getAnswerCredit(answer: Answer): number {
+  if (answer.type === 'open-ended' && answer.score !== undefined) {
+    return answer.score;
+  }
+  return answer.isCorrect ? 1 : 0;
+}
+
+/**
+ * Question type identifiers.
+ */
+export type QuestionType = Question['type'];
+
+/**
+ * All question types, in display order.
+ */
+export const QUESTION_TYPES: QuestionType[] = [
+  'multiple-choice',
+  'open-ended',
+  'true-false',
+  'cloze',
+  'ordering',
+  'multi-select',
+];
+
+/**
+ * Human-readable labels for question types.
+ */
+export const QUESTION_TYPE_LABELS: Record<QuestionType, string> = {
+  'multiple-choice': 'Multiple Choice',
+  'open-ended': 'Open Ended',
+  'true-false': 'True / False',
+  cloze: 'Fill in the Blank',
+  ordering: 'Ordering',
+  'multi-select': 'Multi-Select',
+};
+
+/**
+ * Difficulty level requested for generated questions.
+ */
+export type QuestionDifficulty = 'mixed' | 'easy' | 'medium' | 'hard';
+
+/**
+ * All difficulty levels, in display order.
+ */
+export const QUESTION_DIFFICULTIES: QuestionDifficulty[] = ['mixed', 'easy', 'medium', 'hard'];
+
+/**
+ * Human-readable labels for difficulty levels.
+ */
+export const QUESTION_DIFFICULTY_LABELS: Record<QuestionDifficulty, string> = {
+  mixed: 'Mixed',
+  easy: 'Easy',
+  medium: 'Medium',
+  hard: 'Hard',
+};
+
+/**
+ * Options for generating a Q&A session.
+ */
+export interface QASessionOptions {
+  questionCount: number;
+  difficulty: QuestionDifficulty;
+  questionTypes: QuestionType[]; // Allowed types; at least one
+  focusNotePaths?: string[]; // Generate from only these notes
+  focusMilestoneIds?: string[]; // Target questions at these milestones
+  milestoneId?: string; // Scope to this milestone: its notes only, questions framed by it
+}
+
+/**
+ * Default Q&A session options.
+ */
+export const DEFAULT_QA_SESSION_OPTIONS: QASessionOptions = {
+  questionCount: 7,
+  difficulty: 'mixed',
+  questionTypes: [...QUESTION_TYPES],
+};
+
+/**
+ * Allowed range for the number of questions in a session.
+ */
+export const QA_QUESTION_COUNT_LIMITS = { min: 1, max: 20 } as const;
+
+/**
+ * Spaced-repetition schedule for a question answered in a past session (SM-2).
+ */
+export interface ReviewItem {
+  id: string; // `${sessionId}/${questionId}`
+  sessionId: string;
+  questionId: string;
+  easeFactor: number;
+  interval: number; // Days until the next review
+  repetitions: number; // Consecutive successful reviews
+  dueDate: string; // ISO
+  lastReviewedAt: string;
+}
+
+/**
+ * A note's Q&A results in a single session.
+ */
+export interface NoteMasterySnapshot {
+  sessionId: string;
+  date: string; // Session creation time (ISO)
+  correct: number;
+  total: number;
+}
+
+/**
+ * Mastery of a note across all answered Q&A questions sourced from it.
+ */
+export interface NoteMastery {
+  notePath: string;
+  attempts: number;
+  correct: number;
+  mastery: number; // 0-1, share of answers that were correct
+  history: NoteMasterySnapshot[]; // Oldest first
+}
+
+/**
+ * A concept the user repeatedly gets wrong, extracted from incorrect answers.
+ */
+export interface WeakConcept {
+  concept: string;
+  notePaths: string[];
+  incorrectCount: number;
+}
+
+/**
+ * Q&A results and discussion coverage attributed to one milestone.
+ */
+export interface MilestoneMastery {
+  milestoneId: string;
+  attempts: number; // Answered questions
+  credit: number; // Sum of answer credit, partial credit included
+  mastery: number; // 0-1, credit per answered question
+  sessionCount: number;
+  conversationCount: number;
+  lastAnsweredAt?: string; // Creation time of the latest session with an answer (ISO)
+}
+
+/**
+ * A proposal to mark a milestone complete, shown to the user for confirmation.
+ */
+export interface MilestoneCompletionSuggestion {
+  milestoneId: string;
+  milestoneContent: string;
+  mastery: MilestoneMastery;
+  explanation: string;
+}
+
+/**
+ * Aggregated weak areas across a goal's Q&A history.
+ */
+export interface WeakAreaAnalysis {
+  sessionCount: number;
+  notes: NoteMastery[]; // Weakest first
+  weakNotes: NoteMastery[]; // Notes below the mastery threshold
+  concepts: WeakConcept[];
+}
+
 /**
  * Type guard to check if a question is multiple-choice.
  */
@@ -122,6 +398,40 @@ export function isOpenEndedQuestion(
   return question.type === 'open-ended';
 }
 
+/**
+ * Type guard to check if a question is true/false.
+ */
+export function isTrueFalseQuestion(
+  question: Question,
+): question is Question & { type: 'true-false' } {
+  return question.type === 'true-false';
+}
+
+/**
+ * Type guard to check if a question is a cloze (fill-in-the-blank) question.
+ */
+export function isClozeQuestion(question: Question): question is Question & { type: 'cloze' } {
+  return question.type === 'cloze';
+}
+
+/**
+ * Type guard to check if a question is an ordering question.
+ */
+export function isOrderingQuestion(
+  question: Question,
+): question is Question & { type: 'ordering' } {
+  return question.type === 'ordering';
+}
+
+/**
+ * Type guard to check if a question is multi-select.
+ */
+export function isMultiSelectQuestion(
+  question: Question,
+): question is Question & { type: 'multi-select' } {
+  return question.type === 'multi-select';
+}
+
 /**
  * Type guard to check if an answer is for a multiple-choice question.
  */
@@ -137,3 +447,18 @@ export function isMultipleChoiceAnswer(
 export function isOpenEndedAnswer(answer: Answer): answer is Answer & { type: 'open-ended' } {
   return answer.type === 'open-ended';
 }
+
+/**
+ * Whether a session repeats questions from earlier sessions (a review or a retake).
+ * History aggregations skip these, so drilling a question does not count it again.
+ */
+export function isRepeatSession(session: QASession): boolean {
+  return session.reviewItemIds !== undefined;
+}
+
+/**
+ * Type guard to check if a value is a valid discussion mode.
+ */
+export function isDiscussMode(value: unknown): value is DiscussMode {
+  return typeof value === 'string' && (DISCUSS_MODES as string[]).includes(value);
+}
@@ -1,5 +1,6 @@
 import {
   filterExcludedPaths,
+  filterNotePaths,
   isPathExcluded,
   parseExcludePatterns,
 } from '@/domain/pipeline/pathFilter';
@@ -116,3 +117,25 @@ describe('filterExcludedPaths', () => {
     expect(result.included.map((f) => f.path)).not.toContain('draft.template.md');
   });
 });
+
+describe('filterNotePaths', () => {
+  const files = [
+    { path: 'notes/idea.md' },
+    { path: 'notes/draft.md' },
+    { path: 'Archive/old.md' },
+    { path: 'ignite/goal-1/goal.md' },
+  ];
+
+  it('should drop the ignite folder even without patterns', () => {
+    expect(filterNotePaths(files, [], []).map((f) => f.path)).toEqual([
+      'notes/idea.md',
+      'notes/draft.md',
+      'Archive/old.md',
+    ]);
+  });
+
+  it('should apply include patterns, then exclude patterns', () => {
+    const result = filterNotePaths(files, ['notes/**', 'ignite/**'], ['**/draft.md']);
+    expect(result.map((f) => f.path)).toEqual(['notes/idea.md']);
+  });
+});
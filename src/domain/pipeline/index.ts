@@ -1,5 +1,6 @@
 export {
   filterExcludedPaths,
+  filterNotePaths,
   isPathExcluded,
   parseExcludePatterns,
 } from './pathFilter';
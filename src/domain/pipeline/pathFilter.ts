@@ -80,3 +80,24 @@ export function filterByIncludePatterns<T extends { path: string }>(
 
   return files.filter((file) => micromatch.isMatch(file.path, patterns, { dot: true }));
 }
+
+/**
+ * Filter files to the notes Ignite may use: matching the include patterns, not
+ * matching the exclude patterns, and outside the ignite folder where goals are kept
+ *
+ * @param files - Array of objects with path property
+ * @param includePatterns - Glob patterns to include; empty includes all files
+ * @param excludePatterns - Glob patterns to exclude
+ * @returns Filtered array
+ */
+export function filterNotePaths<T extends { path: string }>(
+  files: T[],
+  includePatterns: string[],
+  excludePatterns: string[],
+): T[] {
+  const { included } = filterExcludedPaths(
+    filterByIncludePatterns(files, includePatterns),
+    excludePatterns,
+  );
+  return included.filter((file) => !file.path.startsWith('ignite/'));
+}
@@ -1,13 +1,35 @@
-import { IGNITE_VIEW_TYPE, IgniteView } from '@/adapters/obsidian';
+import { createEmbeddingProvider } from '@/adapters/createEmbeddingProvider';
+import {
+  IGNITE_VIEW_TYPE,
+  IgniteView,
+  ObsidianStorageAdapter,
+  ObsidianVaultAdapter,
+} from '@/adapters/obsidian';
+import {
+  BackgroundIndexer,
+  type BackgroundIndexerStatus,
+  type CacheCompactionResult,
+  type CacheIntegrityReport,
+  EmbeddingCacheManager,
+} from '@/domain/embedding';
 import { DEFAULT_SETTINGS, type IgniteSettings, IgniteSettingsTab } from '@/settings';
 import { Plugin } from 'obsidian';
 
+/** Quiet time after a settings change before the background indexer restarts, in ms */
+const INDEXER_RESTART_DELAY_MS = 1000;
+
 /**
  * Ignite Plugin for Obsidian
  * Goal-oriented learning that transforms your notes into actionable knowledge
  */
 export default class IgnitePlugin extends Plugin {
   settings: IgniteSettings = DEFAULT_SETTINGS;
+  private indexer: BackgroundIndexer | null = null;
+  private indexerSettingsKey: string | null = null;
+  private indexerRestartTimer: number | null = null;
+  // One cache per embedding provider, shared by the indexer and the Ignite view
+  private embeddingCaches = new Map<string, EmbeddingCacheManager>();
+  private statusBarEl: HTMLElement | null = null;
 
   async onload(): Promise<void> {
     console.log('Loading Ignite plugin');
@@ -19,7 +41,10 @@ export default class IgnitePlugin extends Plugin {
     this.addSettingTab(new IgniteSettingsTab(this.app, this));
 
     // Register the Ignite view
-    this.registerView(IGNITE_VIEW_TYPE, (leaf) => new IgniteView(leaf, this.settings));
+    this.registerView(
+      IGNITE_VIEW_TYPE,
+      (leaf) => new IgniteView(leaf, this.settings, (provider) => this.getEmbeddingCache(provider)),
+    );
 
     // Add ribbon icon to open Ignite
     this.addRibbonIcon('flame', 'Open Ignite', () => {
@@ -34,10 +59,22 @@ export default class IgnitePlugin extends Plugin {
         this.activateIgniteView();
       },
     });
+
+    // Keep embeddings up to date once the vault has loaded
+    this.statusBarEl = this.addStatusBarItem();
+    this.app.workspace.onLayoutReady(() => {
+      this.restartIndexer();
+    });
   }
 
   async onunload(): Promise<void> {
     console.log('Unloading Ignite plugin');
+    if (this.indexerRestartTimer !== null) {
+      window.clearTimeout(this.indexerRestartTimer);
+      this.indexerRestartTimer = null;
+    }
+    this.indexer?.stop();
+    this.indexer = null;
     // Detach all Ignite views
     this.app.workspace.detachLeavesOfType(IGNITE_VIEW_TYPE);
   }
@@ -48,6 +85,27 @@ export default class IgnitePlugin extends Plugin {
 
   async saveSettings(): Promise<void> {
     await this.saveData(this.settings);
+    this.scheduleIndexerRestart();
+  }
+
+  /**
+   * Measure the embedding cache of the selected provider and check it for inconsistencies
+   */
+  async checkEmbeddingCache(): Promise<CacheIntegrityReport> {
+    return this.withIndexerPaused(() => this.getEmbeddingCache().checkIntegrity());
+  }
+
+  /**
+   * Remove cached embeddings of deleted notes, then rewrite the cache without gaps
+   * @returns Compaction result and the number of deleted notes removed
+   */
+  async cleanUpEmbeddingCache(): Promise<CacheCompactionResult & { removedNotes: number }> {
+    return this.withIndexerPaused(async () => {
+      const cache = this.getEmbeddingCache();
+      const files = await new ObsidianVaultAdapter(this.app).listMarkdownFiles();
+      const removedNotes = await cache.collectGarbage(files.map((file) => file.path));
+      return { ...(await cache.compact()), removedNotes };
+    });
   }
 
   async activateIgniteView(): Promise<void> {
@@ -71,4 +129,124 @@ export default class IgnitePlugin extends Plugin {
       workspace.revealLeaf(leaf);
     }
   }
+
+  /**
+   * Restart the background indexer once settings stop changing.
+   * Text fields save on every keystroke, so typing an API key restarts the indexer once.
+   */
+  private scheduleIndexerRestart(): void {
+    if (this.indexerRestartTimer !== null) {
+      window.clearTimeout(this.indexerRestartTimer);
+    }
+    this.indexerRestartTimer = window.setTimeout(() => {
+      this.indexerRestartTimer = null;
+      this.restartIndexer();
+    }, INDEXER_RESTART_DELAY_MS);
+  }
+
+  /**
+   * Start the background indexer with the current settings.
+   * Does nothing if the settings it depends on are unchanged.
+   */
+  private restartIndexer(): void {
+    // Before the layout is ready; onLayoutReady starts the indexer
+    if (!this.statusBarEl) return;
+
+    const {
+      backgroundIndexing,
+      embeddingProvider,
+      voyageApiKey,
+      voyageEmbeddingModel,
+      openaiEmbeddingApiKey,
+      openaiEmbeddingModel,
+      openaiEmbeddingDimensions,
+      localEmbeddingDimensions,
+      includePaths,
+      excludePaths,
+    } = this.settings;
+    const settingsKey = JSON.stringify([
+      backgroundIndexing,
+      embeddingProvider,
+      voyageApiKey,
+      voyageEmbeddingModel,
+      openaiEmbeddingApiKey,
+      openaiEmbeddingModel,
+      openaiEmbeddingDimensions,
+      localEmbeddingDimensions,
+      includePaths,
+      excludePaths,
+    ]);
+    if (settingsKey === this.indexerSettingsKey) return;
+    this.indexerSettingsKey = settingsKey;
+
+    this.indexer?.stop();
+    this.indexer = null;
+    this.updateIndexingStatus(null);
+
+    const provider = backgroundIndexing ? createEmbeddingProvider(this.settings) : null;
+    if (!provider) return;
+
+    this.indexer = new BackgroundIndexer(
+      new ObsidianVaultAdapter(this.app),
+      provider,
+      this.getEmbeddingCache(provider.getProviderName()),
+      { includePatterns: includePaths, excludePatterns: excludePaths },
+      (status) => this.updateIndexingStatus(status),
+    );
+    this.indexer.start();
+  }
+
+  /**
+   * Get the embedding cache of a provider, creating it on first use.
+   * Everything in the plugin goes through this instance, so no copy of the
+   * cache index overwrites another.
+   */
+  private getEmbeddingCache(
+    provider: string = this.settings.embeddingProvider,
+  ): EmbeddingCacheManager {
+    let cache = this.embeddingCaches.get(provider);
+    if (!cache) {
+      cache = new EmbeddingCacheManager(new ObsidianStorageAdapter(this.app), { provider });
+      this.embeddingCaches.set(provider, cache);
+    }
+    return cache;
+  }
+
+  /**
+   * Run a cache operation while the background indexer is stopped, so the two
+   * never write the cache at the same time. The indexer restarts afterwards.
+   */
+  private async withIndexerPaused<T>(operation: () => Promise<T>): Promise<T> {
+    const indexer = this.indexer;
+    indexer?.stop();
+    // Wait for the pass in progress to finish its current batch
+    await indexer?.flush();
+
+    try {
+      return await operation();
+    } finally {
+      if (indexer) {
+        this.indexerSettingsKey = null;
+        this.restartIndexer();
+      }
+    }
+  }
+
+  /**
+   * Show indexing progress in the status bar; hidden when idle
+   */
+  private updateIndexingStatus(status: BackgroundIndexerStatus | null): void {
+    if (!this.statusBarEl) return;
+
+    if (status?.indexing) {
+      this.statusBarEl.setText(`Ignite: indexing ${status.completed}/${status.total} notes`);
+      this.statusBarEl.removeAttribute('aria-label');
+    } else if (status?.error) {
+      this.statusBarEl.setText('Ignite: indexing failed');
+      this.statusBarEl.setAttribute('aria-label', status.error);
+    } else {
+      this.statusBarEl.setText('');
+      this.statusBarEl.removeAttribute('aria-label');
+    }
+  }
 }
@@ -77,6 +77,14 @@ export interface IEmbeddingProvider {
    */
   embed(notePath: string, text: string): Promise<EmbeddingResult>;
 
+  /**
+   * Embed a search query
+   * Asymmetric models (e.g., Voyage) embed queries differently from the documents they search
+   * @param text - Query text to embed
+   * @returns Promise resolving to the query embedding vector
+   */
+  embedQuery(text: string): Promise<number[]>;
+
   /**
    * Get the dimensionality of embeddings produced by this provider
    * @returns Number of dimensions (e.g., 1536 for OpenAI, 512 for Voyage)
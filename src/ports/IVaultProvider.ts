@@ -14,6 +14,18 @@ export interface FileInfo {
   createdAt: number;
 }
 
+/**
+ * A change to a markdown file in the vault
+ */
+export type VaultChangeEvent =
+  | { type: 'create' | 'modify' | 'delete'; path: string }
+  | { type: 'rename'; path: string; oldPath: string };
+
+/**
+ * Callback for vault change events
+ */
+export type VaultChangeListener = (event: VaultChangeEvent) => void;
+
 /**
  * Port interface for vault file operations
  * Abstracts away Obsidian's Vault API for testability
@@ -89,4 +101,11 @@ export interface IVaultProvider {
    * @returns Promise resolving when folder is deleted
    */
   deleteFolder(path: string): Promise<void>;
+
+  /**
+   * Subscribe to changes of markdown files in the vault
+   * @param listener - Called for every created, modified, deleted or renamed note
+   * @returns Function that unsubscribes the listener
+   */
+  onChange(listener: VaultChangeListener): () => void;
 }
@@ -1,5 +1,10 @@
 // Port interfaces - abstractions for external dependencies
-export type { FileInfo, IVaultProvider } from './IVaultProvider';
+export type {
+  FileInfo,
+  IVaultProvider,
+  VaultChangeEvent,
+  VaultChangeListener,
+} from './IVaultProvider';
 export type {
   FileMetadata,
   HeadingInfo,
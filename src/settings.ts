@@ -1,15 +1,102 @@
-import { DEFAULT_VOYAGE_API_URL } from '@/adapters/voyage/VoyageEmbeddingAdapter';
+import { createLLMProvider } from '@/adapters/createLLMProvider';
+import {
+  DEFAULT_HASHED_NGRAM_EMBEDDING_CONFIG,
+  HASHED_NGRAM_DIMENSION_OPTIONS,
+} from '@/adapters/local/HashedNgramEmbeddingAdapter';
+import {
+  DEFAULT_OLLAMA_HOST,
+  DEFAULT_OLLAMA_MODEL,
+  OllamaLLMAdapter,
+} from '@/adapters/ollama/OllamaLLMAdapter';
+import { DEFAULT_OPENAI_BASE_URL } from '@/adapters/openai/OpenAIChatLLMAdapter';
+import {
+  DEFAULT_OPENAI_EMBEDDING_CONFIG,
+  OPENAI_EMBEDDING_DIMENSION_OPTIONS,
+  OpenAIEmbeddingAdapter,
+} from '@/adapters/openai/OpenAIEmbeddingAdapter';
+import {
+  DEFAULT_VOYAGE_API_URL,
+  DEFAULT_VOYAGE_EMBEDDING_CONFIG,
+  VOYAGE_EMBEDDING_MODELS,
+} from '@/adapters/voyage/VoyageEmbeddingAdapter';
+import type { CacheIntegrityReport } from '@/domain/embedding';
 import type IgnitePlugin from '@/main';
 import { type App, Notice, PluginSettingTab, Setting } from 'obsidian';
 
+/**
+ * LLM providers that can power chat features.
+ */
+export type LLMProviderType = 'anthropic' | 'openai' | 'ollama';
+
+/**
+ * Display names for LLM providers.
+ */
+export const LLM_PROVIDER_LABELS: Record<LLMProviderType, string> = {
+  anthropic: 'Anthropic',
+  openai: 'OpenAI-compatible',
+  ollama: 'Local (Ollama)',
+};
+
+/**
+ * Embedding providers that can power note relevance.
+ */
+export type EmbeddingProviderType = 'voyage' | 'openai' | 'local';
+
+/**
+ * Display names for embedding providers.
+ */
+export const EMBEDDING_PROVIDER_LABELS: Record<EmbeddingProviderType, string> = {
+  voyage: 'Voyage AI',
+  openai: 'OpenAI',
+  local: 'Local (offline)',
+};
+
+/**
+ * Keyword match weights offered in settings, relative to semantic similarity.
+ */
+export const KEYWORD_SEARCH_WEIGHT_LABELS: Record<string, string> = {
+  '0': 'Off',
+  '0.5': 'Low',
+  '1': 'Balanced',
+  '2': 'High',
+};
+
 /**
  * Plugin settings interface
  */
 export interface IgniteSettings {
+  /** Which LLM provider powers chat features */
+  llmProvider: LLMProviderType;
   /** Anthropic API key for LLM features */
   anthropicApiKey: string;
+  /** API key for the OpenAI-compatible provider; optional for self-hosted servers */
+  openaiApiKey: string;
+  /** Base URL of the OpenAI-compatible API */
+  openaiBaseUrl: string;
+  /** Chat model for the OpenAI-compatible provider */
+  openaiModel: string;
+  /** Host of the local Ollama server */
+  ollamaHost: string;
+  /** Model served by the local Ollama server */
+  ollamaModel: string;
+  /** Which embedding provider powers note relevance */
+  embeddingProvider: EmbeddingProviderType;
   /** Voyage API key for embedding-based note relevance */
   voyageApiKey: string;
+  /** Voyage embedding model */
+  voyageEmbeddingModel: string;
+  /** OpenAI API key for embeddings, separate from the OpenAI-compatible chat provider */
+  openaiEmbeddingApiKey: string;
+  /** OpenAI embedding model */
+  openaiEmbeddingModel: string;
+  /** Vector size requested from the OpenAI embedding model */
+  openaiEmbeddingDimensions: number;
+  /** Vector size of the local embedding provider */
+  localEmbeddingDimensions: number;
+  /** Weight of keyword matches next to semantic similarity when finding related notes; 0 turns keyword search off */
+  keywordSearchWeight: number;
+  /** Embed new and changed notes in the background so finding related notes is fast */
+  backgroundIndexing: boolean;
   /** Glob patterns for files to include (e.g., "notes/**", "projects/*.md") */
   includePaths: string[];
   /** Glob patterns for files to exclude (e.g., "templates/**", "archive/**") */
@@ -20,8 +107,22 @@ export interface IgniteSettings {
  * Default settings
  */
 export const DEFAULT_SETTINGS: IgniteSettings = {
+  llmProvider: 'anthropic',
   anthropicApiKey: '',
+  openaiApiKey: '',
+  openaiBaseUrl: DEFAULT_OPENAI_BASE_URL,
+  openaiModel: 'gpt-4o-mini',
+  ollamaHost: DEFAULT_OLLAMA_HOST,
+  ollamaModel: DEFAULT_OLLAMA_MODEL,
+  embeddingProvider: 'voyage',
   voyageApiKey: '',
+  voyageEmbeddingModel: DEFAULT_VOYAGE_EMBEDDING_CONFIG.model,
+  openaiEmbeddingApiKey: '',
+  openaiEmbeddingModel: DEFAULT_OPENAI_EMBEDDING_CONFIG.model,
+  openaiEmbeddingDimensions: 1536,
+  localEmbeddingDimensions: DEFAULT_HASHED_NGRAM_EMBEDDING_CONFIG.dimensions,
+  keywordSearchWeight: 1,
+  backgroundIndexing: true,
   includePaths: [],
   excludePaths: [],
 };
@@ -101,6 +202,32 @@ export function isVoyageApiKeyConfigured(settings: IgniteSettings): boolean {
   return validateVoyageApiKey(settings.voyageApiKey).valid;
 }
 
+/**
+ * Check if the selected embedding provider can be used.
+ * The local provider needs no configuration.
+ */
+export function isEmbeddingProviderConfigured(settings: IgniteSettings): boolean {
+  switch (settings.embeddingProvider) {
+    case 'local':
+      return true;
+    case 'openai':
+      return settings.openaiEmbeddingApiKey.trim().length > 0;
+    default:
+      return isVoyageApiKeyConfigured(settings);
+  }
+}
+
+/**
+ * Summarize an embedding cache check, e.g. "1,204 notes, 18.3 MB in 12 chunks, 310 unused slots".
+ */
+function describeCacheReport(report: CacheIntegrityReport): string {
+  const megabytes = (report.bytes / (1024 * 1024)).toFixed(1);
+  const summary = `${report.notes.toLocaleString()} notes, ${megabytes} MB in ${report.chunks} chunks, ${report.unusedSlots.toLocaleString()} unused slots`;
+  return report.issues.length === 0
+    ? summary
+    : `${summary}. ${report.issues.length} problems found; clean up to repair them.`;
+}
+
 /**
  * Settings tab for the Ignite plugin
  */
@@ -122,76 +249,105 @@ export class IgniteSettingsTab extends PluginSettingTab {
     containerEl.createEl('h2', { text: 'Ignite Settings' });
 
     // LLM Settings section
-    containerEl.createEl('h3', { text: 'API Keys' });
+    containerEl.createEl('h3', { text: 'AI Provider' });
 
-    const apiKeySetting = new Setting(containerEl)
-      .setName('Anthropic API key')
-      .setDesc('API key for AI-powered features like question generation and research.')
-      .addText((text) =>
-        text
-          .setPlaceholder('sk-ant-...')
-          .setValue(this.plugin.settings.anthropicApiKey)
-          .onChange(async (value) => {
-            this.plugin.settings.anthropicApiKey = value;
-            await this.plugin.saveSettings();
-            this.updateApiKeyStatus(value);
-          }),
+    new Setting(containerEl)
+      .setName('LLM provider')
+      .setDesc(
+        'Service that powers question generation, discussion and research. Reopen the Ignite panel after changing it.',
       )
-      .then((setting) => {
-        const inputEl = setting.controlEl.querySelector('input');
-        if (inputEl) {
-          inputEl.type = 'password';
-          inputEl.autocomplete = 'off';
+      .addDropdown((dropdown) => {
+        for (const [value, label] of Object.entries(LLM_PROVIDER_LABELS)) {
+          dropdown.addOption(value, label);
         }
+        dropdown.setValue(this.plugin.settings.llmProvider).onChange(async (value) => {
+          this.plugin.settings.llmProvider = value as LLMProviderType;
+          await this.plugin.saveSettings();
+          // Show the fields for the selected provider
+          this.display();
+        });
       });
 
-    // Add validation status indicator
-    this.apiKeyStatusEl = apiKeySetting.descEl.createDiv('ignite-api-key-status');
-    this.updateApiKeyStatus(this.plugin.settings.anthropicApiKey);
+    containerEl.createEl('h3', { text: 'API Keys' });
 
-    // Add test connection button
-    new Setting(containerEl)
-      .setName('Test API connection')
-      .setDesc('Verify that your API key works correctly')
-      .addButton((button) =>
-        button.setButtonText('Test Connection').onClick(async () => {
-          await this.testApiConnection();
-        }),
-      );
+    if (this.plugin.settings.llmProvider === 'openai') {
+      this.displayOpenAISettings(containerEl);
+    } else if (this.plugin.settings.llmProvider === 'ollama') {
+      this.displayOllamaSettings(containerEl);
+    } else {
+      this.displayAnthropicSettings(containerEl);
+    }
 
-    // Voyage API key for embeddings
-    const voyageApiKeySetting = new Setting(containerEl)
-      .setName('Voyage API key')
-      .setDesc('API key for embedding-based note relevance scoring. Get one at voyageai.com.')
-      .addText((text) =>
-        text
-          .setPlaceholder('pa-...')
-          .setValue(this.plugin.settings.voyageApiKey)
-          .onChange(async (value) => {
-            this.plugin.settings.voyageApiKey = value;
-            await this.plugin.saveSettings();
-            this.updateVoyageApiKeyStatus(value);
-          }),
+    // Embeddings section
+    containerEl.createEl('h3', { text: 'Note Relevance' });
+
+    new Setting(containerEl)
+      .setName('Embedding provider')
+      .setDesc(
+        'Used to find notes related to a goal. The local provider needs no API key and keeps notes on this device.',
       )
-      .then((setting) => {
-        const inputEl = setting.controlEl.querySelector('input');
-        if (inputEl) {
-          inputEl.type = 'password';
-          inputEl.autocomplete = 'off';
+      .addDropdown((dropdown) => {
+        for (const [value, label] of Object.entries(EMBEDDING_PROVIDER_LABELS)) {
+          dropdown.addOption(value, label);
         }
+        dropdown.setValue(this.plugin.settings.embeddingProvider).onChange(async (value) => {
+          this.plugin.settings.embeddingProvider = value as EmbeddingProviderType;
+          await this.plugin.saveSettings();
+          // Show the fields for the selected provider
+          this.display();
+        });
       });
 
-    // Add validation status indicator for Voyage
-    this.voyageApiKeyStatusEl = voyageApiKeySetting.descEl.createDiv('ignite-api-key-status');
-    this.updateVoyageApiKeyStatus(this.plugin.settings.voyageApiKey);
+    if (this.plugin.settings.embeddingProvider === 'openai') {
+      this.displayOpenAIEmbeddingSettings(containerEl);
+    } else if (this.plugin.settings.embeddingProvider === 'local') {
+      this.displayLocalEmbeddingSettings(containerEl);
+    } else {
+      this.displayVoyageSettings(containerEl);
+    }
 
-    // Add test connection button for Voyage
     new Setting(containerEl)
-      .setName('Test Voyage connection')
-      .setDesc('Verify that your Voyage API key works correctly')
+      .setName('Keyword matching')
+      .setDesc(
+        'How much exact keyword matches, like acronyms and library names, count next to semantic similarity.',
+      )
+      .addDropdown((dropdown) => {
+        for (const [value, label] of Object.entries(KEYWORD_SEARCH_WEIGHT_LABELS)) {
+          dropdown.addOption(value, label);
+        }
+        dropdown
+          .setValue(String(this.plugin.settings.keywordSearchWeight))
+          .onChange(async (value) => {
+            this.plugin.settings.keywordSearchWeight = Number(value);
+            await this.plugin.saveSettings();
+          });
+      });
+
+    new Setting(containerEl)
+      .setName('Background indexing')
+      .setDesc(
+        'Embed new and edited notes while you work, so finding related notes for a goal is fast. Progress is shown in the status bar.',
+      )
+      .addToggle((toggle) =>
+        toggle.setValue(this.plugin.settings.backgroundIndexing).onChange(async (value) => {
+          this.plugin.settings.backgroundIndexing = value;
+          await this.plugin.saveSettings();
+        }),
+      );
+
+    const cacheSetting = new Setting(containerEl)
+      .setName('Embedding cache')
+      .setDesc(
+        'Embeddings stored for the selected provider. Clean up removes embeddings of deleted notes and reclaims unused space.',
+      )
       .addButton((button) =>
-        button.setButtonText('Test Connection').onClick(async () => {
-          await this.testVoyageApiConnection();
+        button.setButtonText('Check').onClick(async () => {
+          await this.checkEmbeddingCache(cacheSetting);
+        }),
+      )
+      .addButton((button) =>
+        button.setButtonText('Clean up').onClick(async () => {
+          await this.cleanUpEmbeddingCache(cacheSetting);
         }),
       );
 
@@ -253,6 +409,295 @@ export class IgniteSettingsTab extends PluginSettingTab {
     });
   }
 
+  /**
+   * Display the Voyage API key and connection test.
+   */
+  private displayVoyageSettings(containerEl: HTMLElement): void {
+    const voyageApiKeySetting = new Setting(containerEl)
+      .setName('Voyage API key')
+      .setDesc('API key for embedding-based note relevance scoring. Get one at voyageai.com.')
+      .addText((text) =>
+        text
+          .setPlaceholder('pa-...')
+          .setValue(this.plugin.settings.voyageApiKey)
+          .onChange(async (value) => {
+            this.plugin.settings.voyageApiKey = value;
+            await this.plugin.saveSettings();
+            this.updateVoyageApiKeyStatus(value);
+          }),
+      )
+      .then((setting) => {
+        const inputEl = setting.controlEl.querySelector('input');
+        if (inputEl) {
+          inputEl.type = 'password';
+          inputEl.autocomplete = 'off';
+        }
+      });
+
+    // Add validation status indicator for Voyage
+    this.voyageApiKeyStatusEl = voyageApiKeySetting.descEl.createDiv('ignite-api-key-status');
+    this.updateVoyageApiKeyStatus(this.plugin.settings.voyageApiKey);
+
+    new Setting(containerEl)
+      .setName('Embedding model')
+      .setDesc('Changing the model re-indexes your notes the next time they are scored.')
+      .addDropdown((dropdown) => {
+        for (const model of VOYAGE_EMBEDDING_MODELS) {
+          dropdown.addOption(model, model);
+        }
+        dropdown.setValue(this.plugin.settings.voyageEmbeddingModel).onChange(async (value) => {
+          this.plugin.settings.voyageEmbeddingModel = value;
+          await this.plugin.saveSettings();
+        });
+      });
+
+    // Add test connection button for Voyage
+    new Setting(containerEl)
+      .setName('Test Voyage connection')
+      .setDesc('Verify that your Voyage API key works correctly')
+      .addButton((button) =>
+        button.setButtonText('Test Connection').onClick(async () => {
+          await this.testVoyageApiConnection();
+        }),
+      );
+  }
+
+  /**
+   * Display the OpenAI embedding API key, model, vector size and connection test.
+   * The API key is separate from the OpenAI-compatible chat provider's, which may point elsewhere.
+   */
+  private displayOpenAIEmbeddingSettings(containerEl: HTMLElement): void {
+    new Setting(containerEl)
+      .setName('OpenAI embedding API key')
+      .setDesc('API key for OpenAI embeddings. Get one at platform.openai.com.')
+      .addText((text) =>
+        text
+          .setPlaceholder('sk-...')
+          .setValue(this.plugin.settings.openaiEmbeddingApiKey)
+          .onChange(async (value) => {
+            this.plugin.settings.openaiEmbeddingApiKey = value.trim();
+            await this.plugin.saveSettings();
+          }),
+      )
+      .then((setting) => {
+        const inputEl = setting.controlEl.querySelector('input');
+        if (inputEl) {
+          inputEl.type = 'password';
+          inputEl.autocomplete = 'off';
+        }
+      });
+
+    new Setting(containerEl)
+      .setName('Embedding model')
+      .setDesc('Changing the model re-indexes your notes the next time they are scored.')
+      .addDropdown((dropdown) => {
+        for (const model of Object.keys(OPENAI_EMBEDDING_DIMENSION_OPTIONS)) {
+          dropdown.addOption(model, model);
+        }
+        dropdown.setValue(this.plugin.settings.openaiEmbeddingModel).onChange(async (value) => {
+          this.plugin.settings.openaiEmbeddingModel = value;
+          // Start from the new model's full size
+          const options = OPENAI_EMBEDDING_DIMENSION_OPTIONS[value] ?? [];
+          this.plugin.settings.openaiEmbeddingDimensions = options[options.length - 1] ?? 1536;
+          await this.plugin.saveSettings();
+          // Show the sizes for the selected model
+          this.display();
+        });
+      });
+
+    const dimensionOptions =
+      OPENAI_EMBEDDING_DIMENSION_OPTIONS[this.plugin.settings.openaiEmbeddingModel] ?? [];
+    if (dimensionOptions.length > 1) {
+      new Setting(containerEl)
+        .setName('Vector size')
+        .setDesc('Smaller vectors use less storage with slightly lower accuracy.')
+        .addDropdown((dropdown) => {
+          for (const size of dimensionOptions) {
+            dropdown.addOption(String(size), String(size));
+          }
+          dropdown
+            .setValue(String(this.plugin.settings.openaiEmbeddingDimensions))
+            .onChange(async (value) => {
+              this.plugin.settings.openaiEmbeddingDimensions = Number(value);
+              await this.plugin.saveSettings();
+            });
+        });
+    }
+
+    new Setting(containerEl)
+      .setName('Test OpenAI embeddings')
+      .setDesc('Embed a short test text with the settings above')
+      .addButton((button) =>
+        button.setButtonText('Test Connection').onClick(async () => {
+          await this.testOpenAIEmbeddingConnection();
+        }),
+      );
+  }
+
+  /**
+   * Display the local embedding provider's vector size.
+   */
+  private displayLocalEmbeddingSettings(containerEl: HTMLElement): void {
+    new Setting(containerEl)
+      .setName('Vector size')
+      .setDesc(
+        'Larger vectors separate topics better in big vaults. Changing it re-indexes your notes.',
+      )
+      .addDropdown((dropdown) => {
+        for (const size of HASHED_NGRAM_DIMENSION_OPTIONS) {
+          dropdown.addOption(String(size), String(size));
+        }
+        dropdown
+          .setValue(String(this.plugin.settings.localEmbeddingDimensions))
+          .onChange(async (value) => {
+            this.plugin.settings.localEmbeddingDimensions = Number(value);
+            await this.plugin.saveSettings();
+          });
+      });
+  }
+
+  /**
+   * Display the Anthropic API key and connection test.
+   */
+  private displayAnthropicSettings(containerEl: HTMLElement): void {
+    const apiKeySetting = new Setting(containerEl)
+      .setName('Anthropic API key')
+      .setDesc('API key for AI-powered features like question generation and research.')
+      .addText((text) =>
+        text
+          .setPlaceholder('sk-ant-...')
+          .setValue(this.plugin.settings.anthropicApiKey)
+          .onChange(async (value) => {
+            this.plugin.settings.anthropicApiKey = value;
+            await this.plugin.saveSettings();
+            this.updateApiKeyStatus(value);
+          }),
+      )
+      .then((setting) => {
+        const inputEl = setting.controlEl.querySelector('input');
+        if (inputEl) {
+          inputEl.type = 'password';
+          inputEl.autocomplete = 'off';
+        }
+      });
+
+    // Add validation status indicator
+    this.apiKeyStatusEl = apiKeySetting.descEl.createDiv('ignite-api-key-status');
+    this.updateApiKeyStatus(this.plugin.settings.anthropicApiKey);
+
+    // Add test connection button
+    new Setting(containerEl)
+      .setName('Test API connection')
+      .setDesc('Verify that your API key works correctly')
+      .addButton((button) =>
+        button.setButtonText('Test Connection').onClick(async () => {
+          await this.testApiConnection();
+        }),
+      );
+  }
+
+  /**
+   * Display the OpenAI-compatible provider's connection settings.
+   */
+  private displayOpenAISettings(containerEl: HTMLElement): void {
+    new Setting(containerEl)
+      .setName('OpenAI-compatible API key')
+      .setDesc('API key for the provider. Leave empty for self-hosted servers without auth.')
+      .addText((text) =>
+        text
+          .setPlaceholder('sk-...')
+          .setValue(this.plugin.settings.openaiApiKey)
+          .onChange(async (value) => {
+            this.plugin.settings.openaiApiKey = value.trim();
+            await this.plugin.saveSettings();
+          }),
+      )
+      .then((setting) => {
+        const inputEl = setting.controlEl.querySelector('input');
+        if (inputEl) {
+          inputEl.type = 'password';
+          inputEl.autocomplete = 'off';
+        }
+      });
+
+    new Setting(containerEl)
+      .setName('Base URL')
+      .setDesc(
+        'Chat completions endpoint root, e.g. a self-hosted server at http://localhost:8000/v1.',
+      )
+      .addText((text) =>
+        text
+          .setPlaceholder(DEFAULT_OPENAI_BASE_URL)
+          .setValue(this.plugin.settings.openaiBaseUrl)
+          .onChange(async (value) => {
+            this.plugin.settings.openaiBaseUrl = value.trim() || DEFAULT_OPENAI_BASE_URL;
+            await this.plugin.saveSettings();
+          }),
+      );
+
+    new Setting(containerEl)
+      .setName('Model')
+      .setDesc('Chat model name as the provider expects it.')
+      .addText((text) =>
+        text
+          .setPlaceholder('gpt-4o-mini')
+          .setValue(this.plugin.settings.openaiModel)
+          .onChange(async (value) => {
+            this.plugin.settings.openaiModel = value.trim();
+            await this.plugin.saveSettings();
+          }),
+      );
+
+    new Setting(containerEl)
+      .setName('Test API connection')
+      .setDesc('Send a tiny request with the settings above')
+      .addButton((button) =>
+        button.setButtonText('Test Connection').onClick(async () => {
+          await this.testOpenAIConnection();
+        }),
+      );
+  }
+
+  /**
+   * Display the local Ollama server settings.
+   */
+  private displayOllamaSettings(containerEl: HTMLElement): void {
+    new Setting(containerEl)
+      .setName('Ollama host')
+      .setDesc('Address of the Ollama server. Notes are only sent to this server.')
+      .addText((text) =>
+        text
+          .setPlaceholder(DEFAULT_OLLAMA_HOST)
+          .setValue(this.plugin.settings.ollamaHost)
+          .onChange(async (value) => {
+            this.plugin.settings.ollamaHost = value.trim() || DEFAULT_OLLAMA_HOST;
+            await this.plugin.saveSettings();
+          }),
+      );
+
+    new Setting(containerEl)
+      .setName('Model')
+      .setDesc('Installed model name, e.g. llama3.1 or qwen2.5:7b.')
+      .addText((text) =>
+        text
+          .setPlaceholder(DEFAULT_OLLAMA_MODEL)
+          .setValue(this.plugin.settings.ollamaModel)
+          .onChange(async (value) => {
+            this.plugin.settings.ollamaModel = value.trim() || DEFAULT_OLLAMA_MODEL;
+            await this.plugin.saveSettings();
+          }),
+      );
+
+    new Setting(containerEl)
+      .setName('Test connection')
+      .setDesc('Check that the server is running and the model is installed')
+      .addButton((button) =>
+        button.setButtonText('Test Connection').onClick(async () => {
+          await this.testOllamaConnection();
+        }),
+      );
+  }
+
   /**
    * Update the API key validation status display.
    */
@@ -334,6 +779,120 @@ export class IgniteSettingsTab extends PluginSettingTab {
     }
   }
 
+  /**
+   * Test the OpenAI-compatible connection by sending a one-token request.
+   */
+  private async testOpenAIConnection(): Promise<void> {
+    new Notice('Testing API connection...');
+
+    try {
+      const provider = createLLMProvider(this.plugin.settings);
+      await provider.chat([{ role: 'user', content: 'Hi' }], { maxTokens: 1 });
+      new Notice(`API connection successful! ${provider.getModelName()} is responding.`);
+    } catch (error) {
+      if (error instanceof Error) {
+        new Notice(`Connection failed: ${error.message}`);
+      } else {
+        new Notice('Connection failed: Unknown error');
+      }
+    }
+  }
+
+  /**
+   * Test the Ollama connection by listing the server's installed models.
+   */
+  private async testOllamaConnection(): Promise<void> {
+    const { ollamaHost, ollamaModel } = this.plugin.settings;
+    new Notice('Testing Ollama connection...');
+
+    try {
+      const adapter = new OllamaLLMAdapter({ host: ollamaHost, model: ollamaModel });
+      if (await adapter.hasModel()) {
+        new Notice(`Ollama connection successful! ${ollamaModel} is installed.`);
+      } else {
+        new Notice(
+          `Ollama is running, but ${ollamaModel} is not installed. Run "ollama pull ${ollamaModel}".`,
+        );
+      }
+    } catch (error) {
+      if (error instanceof Error) {
+        new Notice(`Connection failed: ${error.message}`);
+      } else {
+        new Notice('Connection failed: Unknown error');
+      }
+    }
+  }
+
+  /**
+   * Test OpenAI embeddings by embedding a short text.
+   */
+  private async testOpenAIEmbeddingConnection(): Promise<void> {
+    const { openaiEmbeddingApiKey, openaiEmbeddingModel, openaiEmbeddingDimensions } =
+      this.plugin.settings;
+    if (!openaiEmbeddingApiKey) {
+      new Notice('OpenAI embedding API key is required for OpenAI embeddings');
+      return;
+    }
+
+    new Notice('Testing OpenAI embeddings...');
+
+    try {
+      const adapter = new OpenAIEmbeddingAdapter({
+        apiKey: openaiEmbeddingApiKey,
+        model: openaiEmbeddingModel,
+        dimensions: openaiEmbeddingDimensions,
+        maxRetries: 1,
+      });
+      const result = await adapter.embed('test', 'test');
+      new Notice(
+        `OpenAI embeddings working! ${openaiEmbeddingModel} returned ${result.embedding.length} dimensions.`,
+      );
+    } catch (error) {
+      if (error instanceof Error) {
+        new Notice(`OpenAI embeddings failed: ${error.message}`);
+      } else {
+        new Notice('OpenAI embeddings failed: Unknown error');
+      }
+    }
+  }
+
+  /**
+   * Show the embedding cache size and any inconsistencies in the setting description.
+   */
+  private async checkEmbeddingCache(setting: Setting): Promise<void> {
+    try {
+      const report = await this.plugin.checkEmbeddingCache();
+      setting.setDesc(describeCacheReport(report));
+    } catch (error) {
+      if (error instanceof Error) {
+        new Notice(`Cache check failed: ${error.message}`);
+      } else {
+        new Notice('Cache check failed: Unknown error');
+      }
+    }
+  }
+
+  /**
+   * Remove embeddings of deleted notes, compact the cache and show its new size.
+   */
+  private async cleanUpEmbeddingCache(setting: Setting): Promise<void> {
+    new Notice('Cleaning up embedding cache...');
+
+    try {
+      const result = await this.plugin.cleanUpEmbeddingCache();
+      new Notice(
+        `Embedding cache cleaned up: removed ${result.removedNotes} deleted notes and ${result.removedSlots} unused slots.`,
+      );
+      setting.setDesc(describeCacheReport(await this.plugin.checkEmbeddingCache()));
+    } catch (error) {
+      if (error instanceof Error) {
+        new Notice(`Cache clean up failed: ${error.message}`);
+      } else {
+        new Notice('Cache clean up failed: Unknown error');
+      }
+    }
+  }
+
   /**
    * Update the Voyage API key validation status display.
    */
@@ -392,7 +951,7 @@ export class IgniteSettingsTab extends PluginSettingTab {
           'Content-Type': 'application/json',
         },
         body: JSON.stringify({
-          model: 'voyage-3-lite',
+          model: this.plugin.settings.voyageEmbeddingModel,
           input: ['test'],
         }),
       });
@@ -0,0 +1,36 @@
+import type { QASession } from '@/domain/goal/types';
+
+/**
+ * Build a Q&A session where each entry is [sourceNotePath, isCorrect | null (unanswered)].
+ * Extra fields, e.g. `reviewItemIds` for a review session, are copied onto the session.
+ */
+export function createSession(
+  id: string,
+  createdAt: string,
+  results: Array<[string, boolean | null]>,
+  fields: Partial<QASession> = {},
+): QASession {
+  return {
+    id,
+    goalId: 'goal-1',
+    questions: results.map(([notePath], i) => ({
+      id: `${id}-q${i}`,
+      type: 'open-ended',
+      text: `Question ${i + 1} about ${notePath}`,
+      sourceNotePath: notePath,
+    })),
+    answers: results
+      .map(([, isCorrect], i) => ({ isCorrect, i }))
+      .filter((r): r is { isCorrect: boolean; i: number } => r.isCorrect !== null)
+      .map(({ isCorrect, i }) => ({
+        questionId: `${id}-q${i}`,
+        type: 'open-ended',
+        userAnswer: 'answer',
+        isCorrect,
+        explanation: isCorrect ? 'Correct' : 'Incorrect',
+      })),
+    score: 0,
+    createdAt,
+    ...fields,
+  };
+}
@@ -0,0 +1,17 @@
+import type { LLMResponse, LLMStreamCallbacks } from '@/ports';
+
+/**
+ * Stream callbacks that record every token, completion and error.
+ */
+export function createStreamCallbacks(signal?: AbortSignal) {
+  const tokens: string[] = [];
+  const completed: LLMResponse[] = [];
+  const errors: Error[] = [];
+  const callbacks: LLMStreamCallbacks = {
+    onToken: (token) => tokens.push(token),
+    onComplete: (response) => completed.push(response),
+    onError: (error) => errors.push(error),
+    signal,
+  };
+  return { callbacks, tokens, completed, errors };
+}
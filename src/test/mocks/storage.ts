@@ -0,0 +1,32 @@
+import type { IStorageAdapter } from '@/ports';
+import { vi } from 'vitest';
+
+/**
+ * In-memory storage adapter for tests.
+ * Values round-trip through JSON like the real storage adapters, so tests
+ * catch data that does not survive serialization.
+ */
+export function createMemoryStorage(): {
+  storage: IStorageAdapter;
+  storedData: Map<string, unknown>;
+} {
+  const storedData = new Map<string, unknown>();
+  const storage: IStorageAdapter = {
+    read: vi.fn(async (key: string) => {
+      const value = storedData.get(key);
+      return value === undefined ? null : JSON.parse(JSON.stringify(value));
+    }),
+    write: vi.fn(async (key: string, data: unknown) => {
+      storedData.set(key, JSON.parse(JSON.stringify(data)));
+    }),
+    exists: vi.fn(async (key: string) => storedData.has(key)),
+    delete: vi.fn(async (key: string) => {
+      storedData.delete(key);
+    }),
+    keys: vi.fn(async () => Array.from(storedData.keys())),
+    clear: vi.fn(async () => {
+      storedData.clear();
+    }),
+  };
+  return { storage, storedData };
+}
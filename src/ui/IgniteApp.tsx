@@ -4,9 +4,12 @@ import {
   Router,
   isBrainstormScreen,
   isDiscussScreen,
+  isEditGoalScreen,
   isGoalDetailScreen,
   isHomeScreen,
+  isManageNotesScreen,
   isNoteAssignmentScreen,
+  isQAReviewScreen,
   isQAScreen,
   useRouter,
 } from '@/ui/Router';
@@ -16,9 +19,12 @@ import { GoalProvider } from '@/ui/contexts/GoalContext';
 import { LLMProvider } from '@/ui/contexts/LLMContext';
 import { BrainstormScreen } from '@/ui/screens/BrainstormScreen';
 import { DiscussScreen } from '@/ui/screens/DiscussScreen';
+import { EditGoalScreen } from '@/ui/screens/EditGoalScreen';
 import { GoalDetailScreen } from '@/ui/screens/GoalDetailScreen';
 import { HomeScreen } from '@/ui/screens/HomeScreen';
+import { ManageNotesScreen } from '@/ui/screens/ManageNotesScreen';
 import { NoteAssignmentScreen } from '@/ui/screens/NoteAssignmentScreen';
+import { QAReviewScreen } from '@/ui/screens/QAReviewScreen';
 import { QAScreen } from '@/ui/screens/QAScreen';
 
 const IgniteAppContent: React.FC = () => {
@@ -32,6 +38,14 @@ const IgniteAppContent: React.FC = () => {
     return <GoalDetailScreen goalId={currentScreen.goalId} />;
   }
 
+  if (isEditGoalScreen(currentScreen)) {
+    return <EditGoalScreen goalId={currentScreen.goalId} />;
+  }
+
+  if (isManageNotesScreen(currentScreen)) {
+    return <ManageNotesScreen goalId={currentScreen.goalId} />;
+  }
+
   if (isBrainstormScreen(currentScreen)) {
     return <BrainstormScreen />;
   }
@@ -42,12 +56,30 @@ const IgniteAppContent: React.FC = () => {
 
   if (isDiscussScreen(currentScreen)) {
     return (
-      <DiscussScreen goalId={currentScreen.goalId} conversationId={currentScreen.conversationId} />
+      <DiscussScreen
+        goalId={currentScreen.goalId}
+        conversationId={currentScreen.conversationId}
+        notePaths={currentScreen.notePaths}
+        topic={currentScreen.topic}
+        milestoneId={currentScreen.milestoneId}
+      />
     );
   }
 
   if (isQAScreen(currentScreen)) {
-    return <QAScreen goalId={currentScreen.goalId} />;
+    return (
+      <QAScreen
+        goalId={currentScreen.goalId}
+        sessionId={currentScreen.sessionId}
+        review={currentScreen.review}
+        notePaths={currentScreen.notePaths}
+        milestoneId={currentScreen.milestoneId}
+      />
+    );
+  }
+
+  if (isQAReviewScreen(currentScreen)) {
+    return <QAReviewScreen goalId={currentScreen.goalId} sessionId={currentScreen.sessionId} />;
   }
 
   return (
@@ -11,8 +11,25 @@ export type Screen =
   | { type: 'brainstorm' }
   | { type: 'note-assignment'; goalDraft: GoalDraft }
   | { type: 'goal-detail'; goalId: string }
-  | { type: 'discuss'; goalId: string; conversationId?: string }
-  | { type: 'qa'; goalId: string };
+  | { type: 'edit-goal'; goalId: string }
+  | { type: 'manage-notes'; goalId: string }
+  | {
+      type: 'discuss';
+      goalId: string;
+      conversationId?: string;
+      notePaths?: string[];
+      topic?: string;
+      milestoneId?: string;
+    }
+  | {
+      type: 'qa';
+      goalId: string;
+      sessionId?: string;
+      review?: boolean;
+      notePaths?: string[];
+      milestoneId?: string;
+    }
+  | { type: 'qa-review'; goalId: string; sessionId: string };
 
 /**
  * Router context value.
@@ -91,21 +108,58 @@ export function isGoalDetailScreen(
 }
 
 /**
- * Type guard to check if screen is discuss screen.
+ * Type guard to check if screen is edit goal screen.
  */
-export function isDiscussScreen(
+export function isEditGoalScreen(screen: Screen): screen is { type: 'edit-goal'; goalId: string } {
+  return screen.type === 'edit-goal';
+}
+
+/**
+ * Type guard to check if screen is manage notes screen.
+ */
+export function isManageNotesScreen(
   screen: Screen,
-): screen is { type: 'discuss'; goalId: string; conversationId?: string } {
+): screen is { type: 'manage-notes'; goalId: string } {
+  return screen.type === 'manage-notes';
+}
+
+/**
+ * Type guard to check if screen is discuss screen.
+ */
+export function isDiscussScreen(screen: Screen): screen is {
+  type: 'discuss';
+  goalId: string;
+  conversationId?: string;
+  notePaths?: string[];
+  topic?: string;
+  milestoneId?: string;
+} {
   return screen.type === 'discuss';
 }
 
 /**
  * Type guard to check if screen is Q&A screen.
  */
-export function isQAScreen(screen: Screen): screen is { type: 'qa'; goalId: string } {
+export function isQAScreen(screen: Screen): screen is {
+  type: 'qa';
+  goalId: string;
+  sessionId?: string;
+  review?: boolean;
+  notePaths?: string[];
+  milestoneId?: string;
+} {
   return screen.type === 'qa';
 }
 
+/**
+ * Type guard to check if screen is Q&A review screen.
+ */
+export function isQAReviewScreen(
+  screen: Screen,
+): screen is { type: 'qa-review'; goalId: string; sessionId: string } {
+  return screen.type === 'qa-review';
+}
+
 /**
  * Type guard to check if screen is note assignment screen.
  */
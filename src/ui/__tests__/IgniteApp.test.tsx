@@ -22,6 +22,7 @@ function createMockVaultProvider(): IVaultProvider {
     createFolder: vi.fn(async () => {}),
     deleteFile: vi.fn(async () => {}),
     deleteFolder: vi.fn(async () => {}),
+    onChange: vi.fn(() => () => {}),
   };
 }
 
@@ -58,7 +59,21 @@ function createMockLLMProvider(): ILLMProvider {
 
 function createMockSettings(): IgniteSettings {
   return {
+    llmProvider: 'anthropic',
     anthropicApiKey: '',
+    openaiApiKey: '',
+    openaiBaseUrl: '',
+    openaiModel: '',
+    ollamaHost: '',
+    ollamaModel: '',
+    embeddingProvider: 'voyage',
+    voyageEmbeddingModel: 'voyage-3-lite',
+    openaiEmbeddingApiKey: '',
+    openaiEmbeddingModel: 'text-embedding-3-small',
+    openaiEmbeddingDimensions: 1536,
+    localEmbeddingDimensions: 512,
+    keywordSearchWeight: 1,
+    backgroundIndexing: true,
     voyageApiKey: '',
     includePaths: [],
     excludePaths: [],
@@ -1,5 +1,6 @@
+import { DISCUSS_MODE_LABELS, type DiscussMode } from '@/domain/goal/types';
 import type React from 'react';
-import { useEffect, useRef, useState } from 'react';
+import { Fragment, useEffect, useRef, useState } from 'react';
 import { Button } from '../shared/Button';
 import { ChatMessage } from './ChatMessage';
 
@@ -11,6 +12,7 @@ export interface Message {
   role: 'user' | 'assistant';
   content: string;
   sources?: string[];
+  mode?: DiscussMode;
 }
 
 /**
@@ -64,14 +66,28 @@ export function ChatInterface({
   return (
     <div className="ignite-chat-interface">
       <div className="ignite-chat-messages">
-        {messages.map((message) => (
-          <ChatMessage
-            key={message.id}
-            role={message.role}
-            content={message.content}
-            sources={message.sources}
-          />
-        ))}
+        {messages.map((message, index) => {
+          const previousMode = messages
+            .slice(0, index)
+            .reverse()
+            .find((m) => m.mode)?.mode;
+          const switched = message.mode && previousMode && message.mode !== previousMode;
+
+          return (
+            <Fragment key={message.id}>
+              {switched && message.mode && (
+                <div className="ignite-chat-mode-switch">
+                  Switched to {DISCUSS_MODE_LABELS[message.mode]} mode
+                </div>
+              )}
+              <ChatMessage
+                role={message.role}
+                content={message.content}
+                sources={message.sources}
+              />
+            </Fragment>
+          );
+        })}
         {isLoading && (
           <div className="ignite-chat-loading">
             <div className="ignite-chat-loading-indicator">...</div>
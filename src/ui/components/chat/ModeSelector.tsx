@@ -0,0 +1,32 @@
+import { DISCUSS_MODES, DISCUSS_MODE_LABELS, type DiscussMode } from '@/domain/goal/types';
+
+/**
+ * Mode selector props.
+ */
+export interface ModeSelectorProps {
+  mode: DiscussMode;
+  onChange: (mode: DiscussMode) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Segmented control for switching the discussion mode.
+ */
+export function ModeSelector({ mode, onChange, disabled = false }: ModeSelectorProps) {
+  return (
+    <fieldset className="ignite-mode-selector" aria-label="Discussion mode">
+      {DISCUSS_MODES.map((option) => (
+        <button
+          key={option}
+          type="button"
+          className={`ignite-mode-selector-option ${option === mode ? 'ignite-mode-selector-option-active' : ''}`.trim()}
+          aria-pressed={option === mode}
+          disabled={disabled}
+          onClick={() => option !== mode && onChange(option)}
+        >
+          {DISCUSS_MODE_LABELS[option]}
+        </button>
+      ))}
+    </fieldset>
+  );
+}
@@ -4,3 +4,5 @@ export { ChatMessage } from './ChatMessage';
 export type { ChatMessageProps } from './ChatMessage';
 export { SourcesCard } from './SourcesCard';
 export type { SourcesCardProps } from './SourcesCard';
+export { ModeSelector } from './ModeSelector';
+export type { ModeSelectorProps } from './ModeSelector';
@@ -9,15 +9,25 @@ export interface GoalPreviewProps {
   draft: GoalDraft;
   onConfirm: () => void;
   onCancel: () => void;
+  title?: string;
+  confirmLabel?: string;
+  cancelLabel?: string;
 }
 
 /**
- * Preview component showing generated goal details before creation.
+ * Preview component showing generated goal details before they are used.
  */
-export function GoalPreview({ draft, onConfirm, onCancel }: GoalPreviewProps) {
+export function GoalPreview({
+  draft,
+  onConfirm,
+  onCancel,
+  title = 'Review Your Goal',
+  confirmLabel = 'Confirm and Assign Notes',
+  cancelLabel = 'Continue Editing',
+}: GoalPreviewProps) {
   return (
     <Card className="ignite-goal-preview">
-      <h2 className="ignite-goal-preview-title">Review Your Goal</h2>
+      <h2 className="ignite-goal-preview-title">{title}</h2>
 
       <div className="ignite-goal-preview-section">
         <h3 className="ignite-goal-preview-label">Goal Name</h3>
@@ -47,10 +57,10 @@ export function GoalPreview({ draft, onConfirm, onCancel }: GoalPreviewProps) {
 
       <div className="ignite-goal-preview-actions">
         <Button variant="primary" onClick={onConfirm}>
-          Confirm and Assign Notes
+          {confirmLabel}
         </Button>
         <Button variant="secondary" onClick={onCancel}>
-          Continue Editing
+          {cancelLabel}
         </Button>
       </div>
     </Card>
@@ -1,6 +1,14 @@
 import type React from 'react';
+import { useEffect, useRef, useState } from 'react';
 
-import type { Milestone } from '@/domain/goal/types';
+import {
+  addMilestone,
+  moveMilestone,
+  removeMilestone,
+  renameMilestone,
+} from '@/domain/goal/milestoneUtils';
+import type { Milestone, MilestoneActivity } from '@/domain/goal/types';
+import { Button } from '@/ui/components/shared/Button';
 
 /**
  * MilestoneList component props.
@@ -8,14 +16,78 @@ import type { Milestone } from '@/domain/goal/types';
 export interface MilestoneListProps {
   milestones: Milestone[];
   onToggle?: (milestoneId: string) => void;
+  /** Called with the full list after a milestone is added, renamed, deleted or moved; enables editing */
+  onChange?: (milestones: Milestone[]) => void;
+  /** Discussions and Q&A sessions scoped to each milestone, by milestone ID */
+  activity?: Record<string, MilestoneActivity>;
+  /** Start a discussion scoped to a milestone */
+  onDiscuss?: (milestoneId: string) => void;
+  /** Start a Q&A session scoped to a milestone */
+  onQuiz?: (milestoneId: string) => void;
+  /** Goal notes that can be assigned to milestones */
+  notePaths?: string[];
+  /** Called with a milestone's new note list; enables note assignment */
+  onAssignNotes?: (milestoneId: string, notesPaths: string[]) => void;
   readonly?: boolean;
 }
 
+/**
+ * Format a count with a singular or plural noun.
+ */
+function pluralize(count: number, singular: string, plural: string): string {
+  return `${count} ${count === 1 ? singular : plural}`;
+}
+
 /**
  * Editable milestone list with checkbox toggles.
+ *
+ * With onChange, milestones can be renamed inline, deleted, added and
+ * reordered by dragging the handle. The handle is also keyboard accessible:
+ * focus it and use the arrow keys, Home or End to move the milestone.
+ *
+ * Each milestone can also show its assigned notes and scoped activity, with
+ * buttons to discuss it, quiz on it or choose which goal notes belong to it.
  */
-export function MilestoneList({ milestones, onToggle, readonly = false }: MilestoneListProps) {
+export function MilestoneList({
+  milestones,
+  onToggle,
+  onChange,
+  activity,
+  onDiscuss,
+  onQuiz,
+  notePaths = [],
+  onAssignNotes,
+  readonly = false,
+}: MilestoneListProps) {
   const sortedMilestones = [...milestones].sort((a, b) => a.order - b.order);
+  const editable = !readonly && onChange !== undefined;
+
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editText, setEditText] = useState('');
+  const [newText, setNewText] = useState('');
+  const [draggedId, setDraggedId] = useState<string | null>(null);
+  const [dropTargetId, setDropTargetId] = useState<string | null>(null);
+  const [announcement, setAnnouncement] = useState('');
+  const [notesOpenId, setNotesOpenId] = useState<string | null>(null);
+  const handleRefs = useRef(new Map<string, HTMLButtonElement>());
+  const focusAfterMoveRef = useRef<string | null>(null);
+  const editInputRef = useRef<HTMLInputElement>(null);
+
+  // Keep focus on the moved milestone's handle once the new order is rendered
+  useEffect(() => {
+    const milestoneId = focusAfterMoveRef.current;
+    if (milestoneId && milestones.length > 0) {
+      handleRefs.current.get(milestoneId)?.focus();
+      focusAfterMoveRef.current = null;
+    }
+  }, [milestones]);
+
+  // Move focus into the edit input once it replaces the milestone text
+  useEffect(() => {
+    if (editingId) {
+      editInputRef.current?.focus();
+    }
+  }, [editingId]);
 
   const handleToggle = (milestoneId: string) => {
     if (!readonly && onToggle) {
@@ -30,33 +102,293 @@ export function MilestoneList({ milestones, onToggle, readonly = false }: Milest
     }
   };
 
+  const startEditing = (milestone: Milestone) => {
+    setEditingId(milestone.id);
+    setEditText(milestone.content);
+  };
+
+  const commitEdit = () => {
+    const milestone = sortedMilestones.find((m) => m.id === editingId);
+    setEditingId(null);
+    // Empty text keeps the old name; delete is a separate action
+    if (!milestone || !onChange || !editText.trim() || editText.trim() === milestone.content) {
+      return;
+    }
+    onChange(renameMilestone(milestones, milestone.id, editText));
+  };
+
+  const handleEditKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      commitEdit();
+    } else if (e.key === 'Escape') {
+      e.preventDefault();
+      setEditingId(null);
+    }
+  };
+
+  const handleDelete = (milestone: Milestone) => {
+    if (!onChange) return;
+    onChange(removeMilestone(milestones, milestone.id));
+    setAnnouncement(`Deleted "${milestone.content}"`);
+  };
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!onChange || !newText.trim()) return;
+    onChange(addMilestone(milestones, newText));
+    setNewText('');
+  };
+
+  const toggleNote = (milestone: Milestone, path: string) => {
+    if (!onAssignNotes) return;
+    const current = milestone.notesPaths ?? [];
+    onAssignNotes(
+      milestone.id,
+      current.includes(path) ? current.filter((p) => p !== path) : [...current, path],
+    );
+  };
+
+  const move = (milestone: Milestone, toIndex: number) => {
+    const fromIndex = sortedMilestones.findIndex((m) => m.id === milestone.id);
+    if (!onChange || toIndex === fromIndex || toIndex < 0 || toIndex >= sortedMilestones.length) {
+      return;
+    }
+    focusAfterMoveRef.current = milestone.id;
+    onChange(moveMilestone(milestones, milestone.id, toIndex));
+    setAnnouncement(
+      `Moved "${milestone.content}" to position ${toIndex + 1} of ${sortedMilestones.length}`,
+    );
+  };
+
+  const handleHandleKeyDown = (e: React.KeyboardEvent, milestone: Milestone, index: number) => {
+    const targets: Record<string, number> = {
+      ArrowUp: index - 1,
+      ArrowDown: index + 1,
+      Home: 0,
+      End: sortedMilestones.length - 1,
+    };
+    if (e.key in targets) {
+      e.preventDefault();
+      move(milestone, targets[e.key]);
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent, index: number) => {
+    e.preventDefault();
+    const dragged = sortedMilestones.find((m) => m.id === draggedId);
+    if (dragged) {
+      move(dragged, index);
+    }
+    setDraggedId(null);
+    setDropTargetId(null);
+  };
+
+  const showStudy =
+    activity !== undefined || onDiscuss !== undefined || onQuiz !== undefined || !!onAssignNotes;
+
+  const describeActivity = (milestone: Milestone) => {
+    const ownNotes = milestone.notesPaths?.length ?? 0;
+    const counts = activity?.[milestone.id] ?? { conversations: 0, qaSessions: 0 };
+    return [
+      ownNotes > 0 ? pluralize(ownNotes, 'note', 'notes') : 'All goal notes',
+      pluralize(counts.conversations, 'discussion', 'discussions'),
+      pluralize(counts.qaSessions, 'Q&A session', 'Q&A sessions'),
+    ].join(' · ');
+  };
+
   return (
     <div className="ignite-milestone-list">
       {sortedMilestones.length === 0 ? (
         <p className="ignite-milestone-list-empty">No milestones defined</p>
       ) : (
         <ul className="ignite-milestone-list-items">
-          {sortedMilestones.map((milestone) => (
-            <li key={milestone.id} className="ignite-milestone-item">
-              <label className="ignite-milestone-label">
-                <input
-                  type="checkbox"
-                  checked={milestone.completed}
-                  onChange={() => handleToggle(milestone.id)}
-                  onKeyDown={(e) => handleKeyDown(e, milestone.id)}
-                  disabled={readonly}
-                  className="ignite-milestone-checkbox"
-                />
-                <span
-                  className={`ignite-milestone-content ${milestone.completed ? 'ignite-milestone-content-completed' : ''}`}
-                >
-                  {milestone.content}
-                </span>
-              </label>
-            </li>
-          ))}
+          {sortedMilestones.map((milestone, index) => {
+            const dragClass =
+              milestone.id === draggedId
+                ? 'ignite-milestone-item-dragging'
+                : milestone.id === dropTargetId
+                  ? 'ignite-milestone-item-drop-target'
+                  : '';
+
+            return (
+              <li
+                key={milestone.id}
+                className={`ignite-milestone-item ${dragClass}`.trim()}
+                onDragOver={
+                  editable && draggedId
+                    ? (e) => {
+                        e.preventDefault();
+                        setDropTargetId(milestone.id);
+                      }
+                    : undefined
+                }
+                onDrop={editable ? (e) => handleDrop(e, index) : undefined}
+              >
+                {editable && (
+                  <button
+                    type="button"
+                    ref={(el) => {
+                      if (el) {
+                        handleRefs.current.set(milestone.id, el);
+                      } else {
+                        handleRefs.current.delete(milestone.id);
+                      }
+                    }}
+                    className="ignite-milestone-handle"
+                    draggable
+                    onDragStart={(e) => {
+                      e.dataTransfer.effectAllowed = 'move';
+                      setDraggedId(milestone.id);
+                    }}
+                    onDragEnd={() => {
+                      setDraggedId(null);
+                      setDropTargetId(null);
+                    }}
+                    onKeyDown={(e) => handleHandleKeyDown(e, milestone, index)}
+                    aria-label={`Reorder "${milestone.content}", position ${index + 1} of ${sortedMilestones.length}. Use arrow keys to move.`}
+                  >
+                    &#8942;&#8942;
+                  </button>
+                )}
+                {editingId === milestone.id ? (
+                  <input
+                    type="text"
+                    className="ignite-input ignite-milestone-edit-input"
+                    value={editText}
+                    onChange={(e) => setEditText(e.target.value)}
+                    onKeyDown={handleEditKeyDown}
+                    onBlur={commitEdit}
+                    aria-label="Milestone name"
+                    ref={editInputRef}
+                  />
+                ) : (
+                  <label className="ignite-milestone-label">
+                    <input
+                      type="checkbox"
+                      checked={milestone.completed}
+                      onChange={() => handleToggle(milestone.id)}
+                      onKeyDown={(e) => handleKeyDown(e, milestone.id)}
+                      disabled={readonly}
+                      className="ignite-milestone-checkbox"
+                    />
+                    <span
+                      className={`ignite-milestone-content ${milestone.completed ? 'ignite-milestone-content-completed' : ''}`}
+                    >
+                      {milestone.content}
+                    </span>
+                  </label>
+                )}
+                {editable && editingId !== milestone.id && (
+                  <span className="ignite-milestone-actions">
+                    <button
+                      type="button"
+                      className="ignite-milestone-action"
+                      onClick={() => startEditing(milestone)}
+                      aria-label={`Rename "${milestone.content}"`}
+                    >
+                      &#9998;
+                    </button>
+                    <button
+                      type="button"
+                      className="ignite-milestone-action"
+                      onClick={() => handleDelete(milestone)}
+                      disabled={sortedMilestones.length === 1}
+                      aria-label={`Delete "${milestone.content}"`}
+                      title={
+                        sortedMilestones.length === 1
+                          ? 'A goal needs at least one milestone'
+                          : undefined
+                      }
+                    >
+                      &#10005;
+                    </button>
+                  </span>
+                )}
+                {showStudy && editingId !== milestone.id && (
+                  <div className="ignite-milestone-study">
+                    <span className="ignite-milestone-activity">{describeActivity(milestone)}</span>
+                    {!readonly && (
+                      <span className="ignite-milestone-study-actions">
+                        {onDiscuss && (
+                          <button
+                            type="button"
+                            className="ignite-milestone-study-action"
+                            onClick={() => onDiscuss(milestone.id)}
+                            aria-label={`Discuss "${milestone.content}"`}
+                          >
+                            Discuss
+                          </button>
+                        )}
+                        {onQuiz && (
+                          <button
+                            type="button"
+                            className="ignite-milestone-study-action"
+                            onClick={() => onQuiz(milestone.id)}
+                            aria-label={`Q&A on "${milestone.content}"`}
+                          >
+                            Q&A
+                          </button>
+                        )}
+                        {onAssignNotes && notePaths.length > 0 && (
+                          <button
+                            type="button"
+                            className="ignite-milestone-study-action"
+                            onClick={() =>
+                              setNotesOpenId(notesOpenId === milestone.id ? null : milestone.id)
+                            }
+                            aria-expanded={notesOpenId === milestone.id}
+                            aria-label={`Choose notes for "${milestone.content}"`}
+                          >
+                            Notes
+                          </button>
+                        )}
+                      </span>
+                    )}
+                  </div>
+                )}
+                {notesOpenId === milestone.id && !readonly && onAssignNotes && (
+                  <fieldset className="ignite-milestone-notes">
+                    <legend className="ignite-milestone-notes-legend">
+                      Notes for this milestone (none checked uses all goal notes)
+                    </legend>
+                    {notePaths.map((path) => (
+                      <label key={path} className="ignite-milestone-notes-option">
+                        <input
+                          type="checkbox"
+                          checked={milestone.notesPaths?.includes(path) ?? false}
+                          onChange={() => toggleNote(milestone, path)}
+                        />
+                        <span>{path}</span>
+                      </label>
+                    ))}
+                  </fieldset>
+                )}
+              </li>
+            );
+          })}
         </ul>
       )}
+
+      {editable && (
+        <form className="ignite-milestone-add" onSubmit={handleAdd}>
+          <input
+            type="text"
+            className="ignite-input ignite-milestone-add-input"
+            value={newText}
+            onChange={(e) => setNewText(e.target.value)}
+            placeholder="Add a milestone..."
+            aria-label="New milestone"
+          />
+          <Button type="submit" variant="secondary" disabled={!newText.trim()}>
+            Add
+          </Button>
+        </form>
+      )}
+
+      <span className="ignite-milestone-announcement" aria-live="polite">
+        {announcement}
+      </span>
     </div>
   );
 }
@@ -0,0 +1,51 @@
+import type { MilestoneCompletionSuggestion } from '@/domain/goal/types';
+import { Button } from '@/ui/components/shared/Button';
+import { Card } from '@/ui/components/shared/Card';
+
+/**
+ * MilestoneSuggestionCard component props.
+ */
+export interface MilestoneSuggestionCardProps {
+  suggestion: MilestoneCompletionSuggestion;
+  onAccept: (milestoneId: string) => void;
+  onDismiss: (milestoneId: string) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Card proposing to mark a milestone complete, with the evidence behind it.
+ * Nothing changes until the user accepts.
+ */
+export function MilestoneSuggestionCard({
+  suggestion,
+  onAccept,
+  onDismiss,
+  disabled = false,
+}: MilestoneSuggestionCardProps) {
+  return (
+    <Card className="ignite-milestone-suggestion">
+      <div className="ignite-milestone-suggestion-text">
+        <h4 className="ignite-milestone-suggestion-title">
+          Ready to complete "{suggestion.milestoneContent}"?
+        </h4>
+        <p className="ignite-milestone-suggestion-explanation">{suggestion.explanation}</p>
+      </div>
+      <div className="ignite-milestone-suggestion-actions">
+        <Button
+          variant="secondary"
+          onClick={() => onDismiss(suggestion.milestoneId)}
+          disabled={disabled}
+        >
+          Not yet
+        </Button>
+        <Button
+          variant="primary"
+          onClick={() => onAccept(suggestion.milestoneId)}
+          disabled={disabled}
+        >
+          Mark complete
+        </Button>
+      </div>
+    </Card>
+  );
+}
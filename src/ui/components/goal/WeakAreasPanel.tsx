@@ -0,0 +1,128 @@
+import type { NoteMastery, WeakAreaAnalysis } from '@/domain/goal/types';
+import { Button } from '@/ui/components/shared/Button';
+import { Card } from '@/ui/components/shared/Card';
+import { ProgressBar } from '@/ui/components/shared/ProgressBar';
+
+/**
+ * WeakAreasPanel component props.
+ */
+export interface WeakAreasPanelProps {
+  analysis: WeakAreaAnalysis;
+  isFindingConcepts?: boolean;
+  onFindConcepts: () => void;
+  onPractice: (notePaths: string[]) => void;
+  onDiscuss: (notePaths: string[], topic: string) => void;
+}
+
+/**
+ * Get a display name for a note path.
+ */
+function getNoteName(notePath: string): string {
+  return notePath.split('/').pop()?.replace(/\.md$/, '') ?? notePath;
+}
+
+/**
+ * Describe how a note's latest session compares to its earlier results.
+ */
+function getTrendLabel(note: NoteMastery): string | null {
+  if (note.history.length < 2) return null;
+
+  const latest = note.history[note.history.length - 1];
+  const earlier = note.history.slice(0, -1);
+  const earlierCorrect = earlier.reduce((sum, s) => sum + s.correct, 0);
+  const earlierTotal = earlier.reduce((sum, s) => sum + s.total, 0);
+  const delta = latest.correct / latest.total - earlierCorrect / earlierTotal;
+
+  if (delta > 0.1) return 'Improving';
+  if (delta < -0.1) return 'Slipping';
+  return 'Steady';
+}
+
+/**
+ * Panel showing notes and concepts the user struggles with in Q&A,
+ * with shortcuts to practice or discuss them.
+ */
+export function WeakAreasPanel({
+  analysis,
+  isFindingConcepts = false,
+  onFindConcepts,
+  onPractice,
+  onDiscuss,
+}: WeakAreasPanelProps) {
+  if (analysis.notes.length === 0) {
+    return (
+      <p className="ignite-weak-areas-empty">
+        Complete a Q&A session to see which notes need more work.
+      </p>
+    );
+  }
+
+  if (analysis.weakNotes.length === 0) {
+    return (
+      <p className="ignite-weak-areas-empty">
+        No weak areas found across {analysis.sessionCount} session
+        {analysis.sessionCount !== 1 ? 's' : ''}. Keep it up!
+      </p>
+    );
+  }
+
+  const weakNotePaths = analysis.weakNotes.map((note) => note.notePath);
+
+  return (
+    <div className="ignite-weak-areas">
+      <div className="ignite-weak-areas-notes">
+        {analysis.weakNotes.map((note) => {
+          const trend = getTrendLabel(note);
+          return (
+            <Card key={note.notePath} className="ignite-weak-areas-note">
+              <div className="ignite-weak-areas-note-header">
+                <span className="ignite-weak-areas-note-name" title={note.notePath}>
+                  {getNoteName(note.notePath)}
+                </span>
+                {trend && <span className="ignite-weak-areas-note-trend">{trend}</span>}
+              </div>
+              <ProgressBar
+                value={note.correct}
+                max={note.attempts}
+                label={`${note.correct} of ${note.attempts} correct`}
+              />
+            </Card>
+          );
+        })}
+      </div>
+
+      {analysis.concepts.length > 0 && (
+        <ul className="ignite-weak-areas-concepts">
+          {analysis.concepts.map((concept) => (
+            <li key={concept.concept} className="ignite-weak-areas-concept">
+              <span className="ignite-weak-areas-concept-name">{concept.concept}</span>
+              <span className="ignite-weak-areas-concept-count">
+                {concept.incorrectCount} missed
+              </span>
+              <Button
+                variant="secondary"
+                onClick={() => onDiscuss(concept.notePaths, concept.concept)}
+              >
+                Discuss
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="ignite-weak-areas-actions">
+        {analysis.concepts.length === 0 && (
+          <Button variant="secondary" onClick={onFindConcepts} disabled={isFindingConcepts}>
+            {isFindingConcepts ? 'Analyzing...' : 'Find Weak Concepts'}
+          </Button>
+        )}
+        <Button variant="secondary" onClick={() => onDiscuss(weakNotePaths, 'Weak areas')}>
+          Discuss Weak Areas
+        </Button>
+        <Button variant="primary" onClick={() => onPractice(weakNotePaths)}>
+          Practice Weak Areas
+        </Button>
+      </div>
+    </div>
+  );
+}
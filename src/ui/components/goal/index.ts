@@ -2,9 +2,13 @@ export { GoalCard } from './GoalCard';
 export type { GoalCardProps } from './GoalCard';
 export { MilestoneList } from './MilestoneList';
 export type { MilestoneListProps } from './MilestoneList';
+export { MilestoneSuggestionCard } from './MilestoneSuggestionCard';
+export type { MilestoneSuggestionCardProps } from './MilestoneSuggestionCard';
 export { ActionCard } from './ActionCard';
 export type { ActionCardProps } from './ActionCard';
 export { CompletionDialog } from './CompletionDialog';
 export type { CompletionDialogProps } from './CompletionDialog';
 export { CelebrationBanner } from './CelebrationBanner';
 export type { CelebrationBannerProps } from './CelebrationBanner';
+export { WeakAreasPanel } from './WeakAreasPanel';
+export type { WeakAreasPanelProps } from './WeakAreasPanel';
@@ -5,8 +5,9 @@ import { Card } from '../shared/Card';
  */
 export interface NoteCardProps {
   path: string;
-  score: number;
-  reason: string;
+  /** Relevance score; omitted for notes that have not been scored */
+  score?: number;
+  reason?: string;
   selected: boolean;
   onToggle: (path: string) => void;
 }
@@ -15,8 +16,6 @@ export interface NoteCardProps {
  * Note card with relevance score and selection.
  */
 export function NoteCard({ path, score, reason, selected, onToggle }: NoteCardProps) {
-  const scoreColor = getScoreColor(score);
-
   return (
     <Card
       interactive={true}
@@ -32,9 +31,11 @@ export function NoteCard({ path, score, reason, selected, onToggle }: NoteCardPr
           onClick={(e) => e.stopPropagation()}
         />
         <div className="ignite-note-card-path">{path}</div>
-        <div className={`ignite-note-card-score ${scoreColor}`}>{score}</div>
+        {score !== undefined && (
+          <div className={`ignite-note-card-score ${getScoreColor(score)}`}>{score}</div>
+        )}
       </div>
-      <div className="ignite-note-card-reason">{reason}</div>
+      {reason && <div className="ignite-note-card-reason">{reason}</div>}
     </Card>
   );
 }
@@ -0,0 +1,111 @@
+import type { Answer, Question } from '@/domain/goal/types';
+import {
+  isClozeQuestion,
+  isMultiSelectQuestion,
+  isMultipleChoiceQuestion,
+  isOrderingQuestion,
+  isTrueFalseQuestion,
+} from '@/domain/goal/types';
+import { Card } from '@/ui/components/shared/Card';
+import { AnswerOption } from './AnswerOption';
+import { ClozeInput } from './ClozeInput';
+import { KeyPointList } from './KeyPointList';
+import { MultiSelectInput } from './MultiSelectInput';
+import { OrderingInput } from './OrderingInput';
+import { QuestionCard } from './QuestionCard';
+import { TrueFalseInput } from './TrueFalseInput';
+
+/**
+ * AnsweredQuestion component props.
+ */
+export interface AnsweredQuestionProps {
+  question: Question;
+  answer: Answer | null;
+  questionNumber: number;
+  totalQuestions: number;
+}
+
+/**
+ * Read-only view of a question with the user's answer, correctness and feedback.
+ */
+export function AnsweredQuestion({
+  question,
+  answer,
+  questionNumber,
+  totalQuestions,
+}: AnsweredQuestionProps) {
+  return (
+    <div className="ignite-answered-question">
+      <QuestionCard
+        question={question}
+        questionNumber={questionNumber}
+        totalQuestions={totalQuestions}
+      />
+
+      {isMultipleChoiceQuestion(question) ? (
+        <div className="ignite-qa-options">
+          {question.options.map((option, index) => {
+            const isSelected = answer?.type === 'multiple-choice' && answer.userAnswer === index;
+            const isCorrect = index === question.correctAnswer;
+
+            return (
+              <AnswerOption
+                key={`${question.id}-option-${option}`}
+                option={option}
+                index={index}
+                isSelected={isSelected}
+                isCorrect={isCorrect}
+                isIncorrect={isSelected && !isCorrect}
+                disabled
+                onSelect={() => {}}
+              />
+            );
+          })}
+        </div>
+      ) : isTrueFalseQuestion(question) ? (
+        answer?.type === 'true-false' && (
+          <TrueFalseInput question={question} answer={answer} onSubmit={() => {}} />
+        )
+      ) : isClozeQuestion(question) ? (
+        answer?.type === 'cloze' && (
+          <ClozeInput question={question} answer={answer} onSubmit={() => {}} />
+        )
+      ) : isOrderingQuestion(question) ? (
+        answer?.type === 'ordering' && (
+          <OrderingInput question={question} answer={answer} onSubmit={() => {}} />
+        )
+      ) : isMultiSelectQuestion(question) ? (
+        answer?.type === 'multi-select' && (
+          <MultiSelectInput question={question} answer={answer} onSubmit={() => {}} />
+        )
+      ) : (
+        answer?.type === 'open-ended' && (
+          <Card className="ignite-qa-user-answer">
+            <h4 className="ignite-qa-user-answer-title">Your Answer:</h4>
+            <p className="ignite-qa-user-answer-text">{answer.userAnswer}</p>
+          </Card>
+        )
+      )}
+
+      {answer ? (
+        <Card
+          className={`ignite-qa-feedback ${answer.isCorrect ? 'ignite-qa-feedback-correct' : 'ignite-qa-feedback-incorrect'}`}
+        >
+          <div className="ignite-qa-feedback-header">
+            <span
+              className={`ignite-qa-feedback-status ${answer.isCorrect ? 'ignite-status-correct' : 'ignite-status-incorrect'}`}
+            >
+              {answer.isCorrect ? 'Correct' : 'Incorrect'}
+            </span>
+          </div>
+          <p className="ignite-qa-feedback-explanation">{answer.explanation}</p>
+          {answer.type === 'open-ended' && answer.keyPoints && (
+            <KeyPointList keyPoints={answer.keyPoints} />
+          )}
+        </Card>
+      ) : (
+        <p className="ignite-answered-question-unanswered">Not answered</p>
+      )}
+    </div>
+  );
+}
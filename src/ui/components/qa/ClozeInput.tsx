@@ -0,0 +1,69 @@
+import type { Answer, Question } from '@/domain/goal/types';
+import { Button } from '@/ui/components/shared/Button';
+import { Card } from '@/ui/components/shared/Card';
+import { Input } from '@/ui/components/shared/Input';
+import { useState } from 'react';
+
+/**
+ * ClozeInput component props.
+ */
+export interface ClozeInputProps {
+  question: Question & { type: 'cloze' };
+  /** Show this answer read-only instead of accepting input */
+  answer?: (Answer & { type: 'cloze' }) | null;
+  disabled?: boolean;
+  onSubmit: (value: string) => void;
+}
+
+/**
+ * Component for filling in the blank of a cloze question.
+ */
+export function ClozeInput({ question, answer, disabled = false, onSubmit }: ClozeInputProps) {
+  const [value, setValue] = useState('');
+
+  if (answer) {
+    return (
+      <Card className="ignite-qa-user-answer">
+        <h4 className="ignite-qa-user-answer-title">Your Answer:</h4>
+        <p className="ignite-qa-user-answer-text">{answer.userAnswer}</p>
+        {!answer.isCorrect && (
+          <p className="ignite-qa-cloze-accepted">
+            Accepted: {question.acceptedAnswers.join(' / ')}
+          </p>
+        )}
+      </Card>
+    );
+  }
+
+  const handleSubmit = () => {
+    if (value.trim()) {
+      onSubmit(value.trim());
+    }
+  };
+
+  return (
+    <div className="ignite-qa-cloze">
+      <Input
+        label="Fill in the blank"
+        value={value}
+        onChange={(e) => setValue(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter') {
+            e.preventDefault();
+            handleSubmit();
+          }
+        }}
+        disabled={disabled}
+        fullWidth
+      />
+      <Button
+        variant="primary"
+        onClick={handleSubmit}
+        disabled={disabled || !value.trim()}
+        fullWidth
+      >
+        {disabled ? 'Checking...' : 'Submit Answer'}
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,31 @@
+import type { KeyPointResult } from '@/domain/goal/types';
+
+/**
+ * KeyPointList component props.
+ */
+export interface KeyPointListProps {
+  keyPoints: KeyPointResult[];
+}
+
+/**
+ * Checklist of rubric key points an open-ended answer hit or missed.
+ */
+export function KeyPointList({ keyPoints }: KeyPointListProps) {
+  if (keyPoints.length === 0) return null;
+
+  return (
+    <ul className="ignite-key-points">
+      {keyPoints.map((keyPoint) => (
+        <li
+          key={keyPoint.point}
+          className={`ignite-key-point ${keyPoint.hit ? 'ignite-key-point-hit' : 'ignite-key-point-missed'}`}
+        >
+          <span className="ignite-key-point-icon" aria-label={keyPoint.hit ? 'Covered' : 'Missed'}>
+            {keyPoint.hit ? '✓' : '✗'}
+          </span>
+          <span className="ignite-key-point-text">{keyPoint.point}</span>
+        </li>
+      ))}
+    </ul>
+  );
+}
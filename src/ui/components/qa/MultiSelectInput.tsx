@@ -0,0 +1,68 @@
+import type { Answer, Question } from '@/domain/goal/types';
+import { Button } from '@/ui/components/shared/Button';
+import { useState } from 'react';
+import { AnswerOption } from './AnswerOption';
+
+/**
+ * MultiSelectInput component props.
+ */
+export interface MultiSelectInputProps {
+  question: Question & { type: 'multi-select' };
+  /** Show this answer read-only instead of accepting input */
+  answer?: (Answer & { type: 'multi-select' }) | null;
+  disabled?: boolean;
+  onSubmit: (selected: number[]) => void;
+}
+
+/**
+ * Component for choosing every correct option of a multi-select question.
+ */
+export function MultiSelectInput({
+  question,
+  answer,
+  disabled = false,
+  onSubmit,
+}: MultiSelectInputProps) {
+  const [selected, setSelected] = useState<number[]>([]);
+
+  const handleToggle = (index: number) => {
+    setSelected((prev) =>
+      prev.includes(index) ? prev.filter((i) => i !== index) : [...prev, index],
+    );
+  };
+
+  return (
+    <div className="ignite-qa-options">
+      <span className="ignite-qa-input-hint">Select all that apply</span>
+
+      {question.options.map((option, index) => {
+        const isSelected = (answer ? answer.userAnswer : selected).includes(index);
+        const isCorrect = !!answer && question.correctAnswers.includes(index);
+
+        return (
+          <AnswerOption
+            key={`${question.id}-option-${index}`}
+            option={option}
+            index={index}
+            isSelected={isSelected}
+            isCorrect={isCorrect}
+            isIncorrect={!!answer && isSelected && !isCorrect}
+            disabled={!!answer || disabled}
+            onSelect={handleToggle}
+          />
+        );
+      })}
+
+      {!answer && (
+        <Button
+          variant="primary"
+          onClick={() => onSubmit([...selected].sort((a, b) => a - b))}
+          disabled={selected.length === 0 || disabled}
+          fullWidth
+        >
+          {disabled ? 'Checking...' : 'Submit Answer'}
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,110 @@
+import type { Answer, Question } from '@/domain/goal/types';
+import { Button } from '@/ui/components/shared/Button';
+import { useState } from 'react';
+
+/**
+ * OrderingInput component props.
+ */
+export interface OrderingInputProps {
+  question: Question & { type: 'ordering' };
+  /** Show this answer read-only instead of accepting input */
+  answer?: (Answer & { type: 'ordering' }) | null;
+  disabled?: boolean;
+  onSubmit: (order: number[]) => void;
+}
+
+/**
+ * Shuffle item indices deterministically from a seed, so the starting order
+ * stays the same when returning to a question. Never returns the correct order.
+ */
+function shuffleIndices(count: number, seed: string): number[] {
+  const indices = Array.from({ length: count }, (_, i) => i);
+  let state = 0;
+  for (const char of seed) {
+    state = (state * 31 + char.charCodeAt(0)) >>> 0;
+  }
+
+  for (let i = count - 1; i > 0; i--) {
+    state = (state * 1103515245 + 12345) >>> 0;
+    const j = state % (i + 1);
+    [indices[i], indices[j]] = [indices[j], indices[i]];
+  }
+
+  if (indices.every((item, i) => item === i)) {
+    indices.push(indices.shift() as number);
+  }
+  return indices;
+}
+
+/**
+ * Component for arranging the items of an ordering question.
+ * Items are moved with up/down buttons so the list is keyboard accessible.
+ */
+export function OrderingInput({
+  question,
+  answer,
+  disabled = false,
+  onSubmit,
+}: OrderingInputProps) {
+  const [order, setOrder] = useState(() => shuffleIndices(question.items.length, question.id));
+
+  const move = (position: number, offset: -1 | 1) => {
+    setOrder((prev) => {
+      const next = [...prev];
+      [next[position], next[position + offset]] = [next[position + offset], next[position]];
+      return next;
+    });
+  };
+
+  const shown = answer ? answer.userAnswer : order;
+
+  return (
+    <div className="ignite-qa-ordering">
+      <ol className="ignite-qa-ordering-list">
+        {shown.map((itemIndex, position) => {
+          const item = question.items[itemIndex];
+          const statusClass = answer
+            ? itemIndex === position
+              ? 'ignite-qa-ordering-item-correct'
+              : 'ignite-qa-ordering-item-incorrect'
+            : '';
+
+          return (
+            <li key={item} className={`ignite-qa-ordering-item ${statusClass}`.trim()}>
+              <span className="ignite-qa-ordering-position">{position + 1}</span>
+              <span className="ignite-qa-ordering-text">{item}</span>
+              {!answer && (
+                <span className="ignite-qa-ordering-controls">
+                  <button
+                    type="button"
+                    className="ignite-qa-ordering-move"
+                    onClick={() => move(position, -1)}
+                    disabled={disabled || position === 0}
+                    aria-label={`Move "${item}" up`}
+                  >
+                    &#8593;
+                  </button>
+                  <button
+                    type="button"
+                    className="ignite-qa-ordering-move"
+                    onClick={() => move(position, 1)}
+                    disabled={disabled || position === shown.length - 1}
+                    aria-label={`Move "${item}" down`}
+                  >
+                    &#8595;
+                  </button>
+                </span>
+              )}
+            </li>
+          );
+        })}
+      </ol>
+
+      {!answer && (
+        <Button variant="primary" onClick={() => onSubmit(order)} disabled={disabled} fullWidth>
+          {disabled ? 'Checking...' : 'Submit Answer'}
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,172 @@
+import {
+  DEFAULT_QA_SESSION_OPTIONS,
+  type Goal,
+  type QASessionOptions,
+  QA_QUESTION_COUNT_LIMITS,
+  QUESTION_DIFFICULTIES,
+  QUESTION_DIFFICULTY_LABELS,
+  QUESTION_TYPES,
+  QUESTION_TYPE_LABELS,
+  type QuestionDifficulty,
+  type QuestionType,
+} from '@/domain/goal/types';
+import { Button } from '@/ui/components/shared/Button';
+import { Card } from '@/ui/components/shared/Card';
+import { Input } from '@/ui/components/shared/Input';
+import { useState } from 'react';
+
+/**
+ * QASessionSettings component props.
+ */
+export interface QASessionSettingsProps {
+  goal: Goal;
+  initialOptions?: Partial<QASessionOptions>;
+  onStart: (options: QASessionOptions) => void;
+  onCancel: () => void;
+}
+
+/**
+ * Toggle a value in a list.
+ */
+function toggle<T>(values: T[], value: T): T[] {
+  return values.includes(value) ? values.filter((v) => v !== value) : [...values, value];
+}
+
+/**
+ * Pre-session panel for choosing question count, difficulty, types and focus.
+ * Leaving every note or milestone unchecked means no focus.
+ * A session scoped to a milestone through initialOptions keeps that scope.
+ */
+export function QASessionSettings({
+  goal,
+  initialOptions = {},
+  onStart,
+  onCancel,
+}: QASessionSettingsProps) {
+  const initial = { ...DEFAULT_QA_SESSION_OPTIONS, ...initialOptions };
+
+  const [questionCount, setQuestionCount] = useState(String(initial.questionCount));
+  const [difficulty, setDifficulty] = useState<QuestionDifficulty>(initial.difficulty);
+  const [questionTypes, setQuestionTypes] = useState<QuestionType[]>(initial.questionTypes);
+  const [focusNotePaths, setFocusNotePaths] = useState<string[]>(initial.focusNotePaths ?? []);
+  const [focusMilestoneIds, setFocusMilestoneIds] = useState<string[]>(
+    initial.focusMilestoneIds ?? [],
+  );
+
+  const count = Number(questionCount);
+  const countError =
+    Number.isInteger(count) &&
+    count >= QA_QUESTION_COUNT_LIMITS.min &&
+    count <= QA_QUESTION_COUNT_LIMITS.max
+      ? undefined
+      : `Enter a number from ${QA_QUESTION_COUNT_LIMITS.min} to ${QA_QUESTION_COUNT_LIMITS.max}`;
+  const typesError = questionTypes.length === 0 ? 'Select at least one question type' : undefined;
+
+  const handleStart = () => {
+    if (countError || typesError) return;
+
+    onStart({
+      questionCount: count,
+      difficulty,
+      questionTypes,
+      focusNotePaths: focusNotePaths.length > 0 ? focusNotePaths : undefined,
+      focusMilestoneIds: focusMilestoneIds.length > 0 ? focusMilestoneIds : undefined,
+      milestoneId: initial.milestoneId,
+    });
+  };
+
+  const milestones = [...goal.milestones].sort((a, b) => a.order - b.order);
+  const scopedMilestone = milestones.find((m) => m.id === initial.milestoneId);
+
+  return (
+    <Card className="ignite-qa-settings">
+      <h3 className="ignite-qa-settings-title">Session Settings</h3>
+      {scopedMilestone && (
+        <p className="ignite-qa-settings-scope">Milestone: {scopedMilestone.content}</p>
+      )}
+
+      <Input
+        type="number"
+        label="Number of questions"
+        min={QA_QUESTION_COUNT_LIMITS.min}
+        max={QA_QUESTION_COUNT_LIMITS.max}
+        value={questionCount}
+        onChange={(e) => setQuestionCount(e.target.value)}
+        error={countError}
+      />
+
+      <fieldset className="ignite-qa-settings-group">
+        <legend className="ignite-qa-settings-legend">Difficulty</legend>
+        <div className="ignite-mode-selector">
+          {QUESTION_DIFFICULTIES.map((option) => (
+            <button
+              key={option}
+              type="button"
+              className={`ignite-mode-selector-option ${option === difficulty ? 'ignite-mode-selector-option-active' : ''}`.trim()}
+              aria-pressed={option === difficulty}
+              onClick={() => setDifficulty(option)}
+            >
+              {QUESTION_DIFFICULTY_LABELS[option]}
+            </button>
+          ))}
+        </div>
+      </fieldset>
+
+      <fieldset className="ignite-qa-settings-group">
+        <legend className="ignite-qa-settings-legend">Question types</legend>
+        {QUESTION_TYPES.map((type) => (
+          <label key={type} className="ignite-qa-settings-option">
+            <input
+              type="checkbox"
+              checked={questionTypes.includes(type)}
+              onChange={() => setQuestionTypes((prev) => toggle(prev, type))}
+            />
+            <span>{QUESTION_TYPE_LABELS[type]}</span>
+          </label>
+        ))}
+        {typesError && <div className="ignite-input-error-message">{typesError}</div>}
+      </fieldset>
+
+      {goal.notesPaths.length > 1 && (
+        <fieldset className="ignite-qa-settings-group">
+          <legend className="ignite-qa-settings-legend">Focus on notes (optional)</legend>
+          {goal.notesPaths.map((path) => (
+            <label key={path} className="ignite-qa-settings-option">
+              <input
+                type="checkbox"
+                checked={focusNotePaths.includes(path)}
+                onChange={() => setFocusNotePaths((prev) => toggle(prev, path))}
+              />
+              <span>{path}</span>
+            </label>
+          ))}
+        </fieldset>
+      )}
+
+      {milestones.length > 0 && !scopedMilestone && (
+        <fieldset className="ignite-qa-settings-group">
+          <legend className="ignite-qa-settings-legend">Focus on milestones (optional)</legend>
+          {milestones.map((milestone) => (
+            <label key={milestone.id} className="ignite-qa-settings-option">
+              <input
+                type="checkbox"
+                checked={focusMilestoneIds.includes(milestone.id)}
+                onChange={() => setFocusMilestoneIds((prev) => toggle(prev, milestone.id))}
+              />
+              <span>{milestone.content}</span>
+            </label>
+          ))}
+        </fieldset>
+      )}
+
+      <div className="ignite-qa-settings-actions">
+        <Button variant="secondary" onClick={onCancel}>
+          Cancel
+        </Button>
+        <Button variant="primary" onClick={handleStart} disabled={!!countError || !!typesError}>
+          Start Session
+        </Button>
+      </div>
+    </Card>
+  );
+}
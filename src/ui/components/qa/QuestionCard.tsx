@@ -1,4 +1,4 @@
-import type { Question } from '@/domain/goal/types';
+import { QUESTION_TYPE_LABELS, type Question } from '@/domain/goal/types';
 import { Card } from '@/ui/components/shared/Card';
 
 /**
@@ -20,9 +20,7 @@ export function QuestionCard({ question, questionNumber, totalQuestions }: Quest
         <span className="ignite-question-number">
           Question {questionNumber} of {totalQuestions}
         </span>
-        <span className="ignite-question-type">
-          {question.type === 'multiple-choice' ? 'Multiple Choice' : 'Open Ended'}
-        </span>
+        <span className="ignite-question-type">{QUESTION_TYPE_LABELS[question.type]}</span>
       </div>
       <h3 className="ignite-question-text">{question.text}</h3>
       <div className="ignite-question-source">
@@ -1,7 +1,8 @@
-import type { Answer, QASession, Question } from '@/domain/goal/types';
+import { type Answer, type QASession, type Question, getAnswerCredit } from '@/domain/goal/types';
 import { Button } from '@/ui/components/shared/Button';
 import { Card } from '@/ui/components/shared/Card';
 import { ProgressBar } from '@/ui/components/shared/ProgressBar';
+import { KeyPointList } from './KeyPointList';
 
 /**
  * SessionSummary component props.
@@ -19,6 +20,8 @@ export function SessionSummary({ session, onFinish, onReview }: SessionSummaryPr
   const totalQuestions = session.questions.length;
   const correctAnswers = session.answers.filter((a) => a.isCorrect).length;
   const incorrectAnswers = totalQuestions - correctAnswers;
+  // Open-ended answers can earn partial credit
+  const points = session.answers.reduce((sum, a) => sum + getAnswerCredit(a), 0);
 
   const getScoreMessage = () => {
     const score = session.score;
@@ -47,9 +50,9 @@ export function SessionSummary({ session, onFinish, onReview }: SessionSummaryPr
         </div>
 
         <ProgressBar
-          value={correctAnswers}
+          value={points}
           max={totalQuestions}
-          label="Correct Answers"
+          label={`${Math.round(points * 10) / 10} of ${totalQuestions} points`}
           showPercentage={false}
         />
 
@@ -88,8 +91,16 @@ export function SessionSummary({ session, onFinish, onReview }: SessionSummaryPr
                   >
                     {answer?.isCorrect ? 'Correct' : 'Incorrect'}
                   </span>
+                  {answer?.type === 'open-ended' && answer.score !== undefined && (
+                    <span className="ignite-session-summary-question-score">
+                      {Math.round(answer.score * 100)}%
+                    </span>
+                  )}
                 </div>
                 <p className="ignite-session-summary-question-text">{question.text}</p>
+                {answer?.type === 'open-ended' && answer.keyPoints && (
+                  <KeyPointList keyPoints={answer.keyPoints} />
+                )}
                 {answer && (
                   <p className="ignite-session-summary-question-feedback">{answer.explanation}</p>
                 )}
@@ -0,0 +1,65 @@
+import type { Answer, Question } from '@/domain/goal/types';
+import { Button } from '@/ui/components/shared/Button';
+import { useState } from 'react';
+import { AnswerOption } from './AnswerOption';
+
+/**
+ * TrueFalseInput component props.
+ */
+export interface TrueFalseInputProps {
+  question: Question & { type: 'true-false' };
+  /** Show this answer read-only instead of accepting input */
+  answer?: (Answer & { type: 'true-false' }) | null;
+  disabled?: boolean;
+  onSubmit: (value: boolean) => void;
+}
+
+const CHOICES = [
+  { label: 'True', value: true },
+  { label: 'False', value: false },
+];
+
+/**
+ * Component for answering a true/false statement.
+ */
+export function TrueFalseInput({
+  question,
+  answer,
+  disabled = false,
+  onSubmit,
+}: TrueFalseInputProps) {
+  const [selected, setSelected] = useState<boolean | null>(null);
+
+  return (
+    <div className="ignite-qa-options">
+      {CHOICES.map((choice, index) => {
+        const isSelected = answer ? answer.userAnswer === choice.value : selected === choice.value;
+        const isCorrect = !!answer && choice.value === question.correctAnswer;
+
+        return (
+          <AnswerOption
+            key={choice.label}
+            option={choice.label}
+            index={index}
+            isSelected={isSelected}
+            isCorrect={isCorrect}
+            isIncorrect={!!answer && isSelected && !isCorrect}
+            disabled={!!answer || disabled}
+            onSelect={() => setSelected(choice.value)}
+          />
+        );
+      })}
+
+      {!answer && (
+        <Button
+          variant="primary"
+          onClick={() => selected !== null && onSubmit(selected)}
+          disabled={selected === null || disabled}
+          fullWidth
+        >
+          {disabled ? 'Checking...' : 'Submit Answer'}
+        </Button>
+      )}
+    </div>
+  );
+}
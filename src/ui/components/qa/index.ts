@@ -1,3 +1,5 @@
+export { AnsweredQuestion } from './AnsweredQuestion';
+export type { AnsweredQuestionProps } from './AnsweredQuestion';
 export { AnswerOption } from './AnswerOption';
 export type { AnswerOptionProps } from './AnswerOption';
 export { OpenEndedInput } from './OpenEndedInput';
@@ -6,3 +8,15 @@ export { QuestionCard } from './QuestionCard';
 export type { QuestionCardProps } from './QuestionCard';
 export { SessionSummary } from './SessionSummary';
 export type { SessionSummaryProps } from './SessionSummary';
+export { QASessionSettings } from './QASessionSettings';
+export type { QASessionSettingsProps } from './QASessionSettings';
+export { TrueFalseInput } from './TrueFalseInput';
+export type { TrueFalseInputProps } from './TrueFalseInput';
+export { ClozeInput } from './ClozeInput';
+export type { ClozeInputProps } from './ClozeInput';
+export { OrderingInput } from './OrderingInput';
+export type { OrderingInputProps } from './OrderingInput';
+export { MultiSelectInput } from './MultiSelectInput';
+export type { MultiSelectInputProps } from './MultiSelectInput';
+export { KeyPointList } from './KeyPointList';
+export type { KeyPointListProps } from './KeyPointList';
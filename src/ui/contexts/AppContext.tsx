@@ -1,3 +1,4 @@
+import type { EmbeddingCacheManager } from '@/domain/embedding';
 import type { ILLMProvider, IMetadataProvider, IStorageAdapter, IVaultProvider } from '@/ports';
 import type { IgniteSettings } from '@/settings';
 import type React from 'react';
@@ -12,6 +13,8 @@ export interface AppContextValue {
   metadataProvider: IMetadataProvider;
   llmProvider: ILLMProvider;
   settings: IgniteSettings;
+  /** The plugin's embedding cache for a provider, shared with the background indexer */
+  getEmbeddingCache?: (provider: string) => EmbeddingCacheManager;
 }
 
 const AppContext = createContext<AppContextValue | undefined>(undefined);
@@ -1,4 +1,5 @@
 import { GoalService } from '@/domain/goal/GoalService';
+import type { GoalDetails } from '@/domain/goal/goalValidation';
 import type { Goal, Milestone } from '@/domain/goal/types';
 import type React from 'react';
 import { createContext, useCallback, useContext, useEffect, useMemo, useState } from 'react';
@@ -25,9 +26,15 @@ export interface GoalContextValue {
   updateGoal: (goalId: string, updates: Partial<Omit<Goal, 'id' | 'createdAt'>>) => Promise<Goal>;
   deleteGoal: (goalId: string) => Promise<void>;
   completeGoal: (goalId: string) => Promise<Goal>;
+  updateGoalDetails: (goalId: string, details: GoalDetails) => Promise<Goal>;
   addNotesToGoal: (goalId: string, notesPaths: string[]) => Promise<Goal>;
   removeNotesFromGoal: (goalId: string, notesPaths: string[]) => Promise<Goal>;
   updateMilestones: (goalId: string, milestones: Milestone[]) => Promise<Goal>;
+  assignNotesToMilestone: (
+    goalId: string,
+    milestoneId: string,
+    notesPaths: string[],
+  ) => Promise<Goal>;
 }
 
 const GoalContext = createContext<GoalContextValue | undefined>(undefined);
@@ -133,6 +140,23 @@ export function GoalProvider({ children }: { children: React.ReactNode }) {
     [updateGoal],
   );
 
+  // Update name, description and deadline
+  const updateGoalDetails = useCallback(
+    async (goalId: string, details: GoalDetails) => {
+      setError(null);
+      try {
+        const updatedGoal = await goalService.updateGoalDetails(goalId, details);
+        setGoals((prev) => prev.map((g) => (g.id === goalId ? updatedGoal : g)));
+        return updatedGoal;
+      } catch (err) {
+        const message = err instanceof Error ? err.message : 'Failed to update goal';
+        setError(message);
+        throw new Error(message);
+      }
+    },
+    [goalService],
+  );
+
   // Add notes to goal
   const addNotesToGoal = useCallback(
     async (goalId: string, notesPaths: string[]) => {
@@ -184,6 +208,27 @@ export function GoalProvider({ children }: { children: React.ReactNode }) {
     [goalService],
   );
 
+  // Assign notes to a milestone
+  const assignNotesToMilestone = useCallback(
+    async (goalId: string, milestoneId: string, notesPaths: string[]) => {
+      setError(null);
+      try {
+        const updatedGoal = await goalService.assignNotesToMilestone(
+          goalId,
+          milestoneId,
+          notesPaths,
+        );
+        setGoals((prev) => prev.map((g) => (g.id === goalId ? updatedGoal : g)));
+        return updatedGoal;
+      } catch (err) {
+        const message = err instanceof Error ? err.message : 'Failed to assign notes to milestone';
+        setError(message);
+        throw new Error(message);
+      }
+    },
+    [goalService],
+  );
+
   const value: GoalContextValue = {
     goals,
     loading,
@@ -194,9 +239,11 @@ export function GoalProvider({ children }: { children: React.ReactNode }) {
     updateGoal,
     deleteGoal,
     completeGoal,
+    updateGoalDetails,
     addNotesToGoal,
     removeNotesFromGoal,
     updateMilestones,
+    assignNotesToMilestone,
   };
 
   return <GoalContext.Provider value={value}>{children}</GoalContext.Provider>;
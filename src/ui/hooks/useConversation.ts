@@ -1,3 +1,4 @@
+import type { DiscussMode } from '@/domain/goal/types';
 import { useState } from 'react';
 import type { Message } from '../components/chat';
 
@@ -11,11 +12,12 @@ export function useConversation() {
   /**
    * Add a user message to the conversation.
    */
-  const addUserMessage = (content: string): Message => {
+  const addUserMessage = (content: string, mode?: DiscussMode): Message => {
     const message: Message = {
       id: `user-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`,
       role: 'user',
       content,
+      mode,
     };
     setMessages((prev) => [...prev, message]);
     return message;
@@ -24,12 +26,17 @@ export function useConversation() {
   /**
    * Add an assistant message to the conversation.
    */
-  const addAssistantMessage = (content: string, sources?: string[]): Message => {
+  const addAssistantMessage = (
+    content: string,
+    sources?: string[],
+    mode?: DiscussMode,
+  ): Message => {
     const message: Message = {
       id: `assistant-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`,
       role: 'assistant',
       content,
       sources,
+      mode,
     };
     setMessages((prev) => [...prev, message]);
     return message;
@@ -0,0 +1,133 @@
+import { createEmbeddingProvider } from '@/adapters/createEmbeddingProvider';
+import type { GoalDraft } from '@/domain/goal/BrainstormService';
+import {
+  EmbeddingRelevanceService,
+  type RelevanceProgressCallback,
+} from '@/domain/goal/EmbeddingRelevanceService';
+import { GraphRelevanceService, type RelatedNote } from '@/domain/goal/GraphRelevanceService';
+import { NoteRelevanceService, type ScoredNote } from '@/domain/goal/NoteRelevanceService';
+import { useCallback, useState } from 'react';
+import { useApp } from '../contexts/AppContext';
+import { useLLM } from '../contexts/LLMContext';
+
+/**
+ * Progress state for embedding-based relevance scoring.
+ */
+export interface ProgressState {
+  phase: 'indexing' | 'searching' | 'explaining';
+  current: number;
+  total: number;
+  message: string;
+}
+
+/**
+ * Notes ranked for a goal.
+ */
+export interface NoteRelevanceResult {
+  /** Notes sorted by score (highest first), with link and tag boosts applied */
+  notes: ScoredNote[];
+  /** Notes pulled in only because they link to or from the best matches */
+  related: RelatedNote[];
+}
+
+/**
+ * Get a human-readable label for a progress phase.
+ */
+export function getPhaseLabel(phase: ProgressState['phase']): string {
+  switch (phase) {
+    case 'indexing':
+      return 'Indexing notes...';
+    case 'searching':
+      return 'Finding relevant notes...';
+    case 'explaining':
+      return 'Generating explanations...';
+    default:
+      return 'Processing...';
+  }
+}
+
+/**
+ * Hook for ranking vault notes by relevance to a goal.
+ * Uses embeddings when an embedding provider is configured and falls back to the LLM otherwise.
+ */
+export function useNoteRelevance() {
+  const { vaultProvider, storageAdapter, metadataProvider, settings, getEmbeddingCache } = useApp();
+  const { llmProvider } = useLLM();
+  const [progress, setProgress] = useState<ProgressState | null>(null);
+
+  /**
+   * Score the notes in the configured include/exclude scope against a goal.
+   */
+  const scoreNotes = useCallback(
+    async (goalDraft: GoalDraft): Promise<NoteRelevanceResult> => {
+      setProgress(null);
+
+      try {
+        let scored: ScoredNote[];
+
+        // Use embedding-based relevance if the selected embedding provider is configured
+        const embeddingProvider = createEmbeddingProvider(settings);
+        if (embeddingProvider) {
+          const embeddingRelevanceService = new EmbeddingRelevanceService(
+            vaultProvider,
+            embeddingProvider,
+            llmProvider,
+            storageAdapter,
+            { useChunks: true, lexicalWeight: settings.keywordSearchWeight },
+            getEmbeddingCache?.(embeddingProvider.getProviderName()),
+          );
+
+          const handleProgress: RelevanceProgressCallback = (phase, current, total, message) => {
+            setProgress({
+              phase,
+              current,
+              total,
+              message: message ?? getPhaseLabel(phase),
+            });
+          };
+
+          scored = await embeddingRelevanceService.scoreNotes(
+            goalDraft,
+            settings.includePaths,
+            settings.excludePaths,
+            handleProgress,
+          );
+        } else {
+          // Fall back to original LLM-only approach
+          const noteRelevanceService = new NoteRelevanceService(vaultProvider, llmProvider);
+          scored = await noteRelevanceService.scoreNotes(
+            goalDraft,
+            settings.includePaths,
+            settings.excludePaths,
+          );
+        }
+
+        // Boost notes connected to the best matches and pull in linked notes.
+        // Links are a bonus signal, so failures keep the content-based scores.
+        let related: RelatedNote[] = [];
+        try {
+          const graphRelevanceService = new GraphRelevanceService(vaultProvider, metadataProvider);
+          const graphResult = await graphRelevanceService.applyGraphSignals(
+            scored,
+            settings.includePaths,
+            settings.excludePaths,
+          );
+          scored = graphResult.notes;
+          related = graphResult.related;
+        } catch (graphError) {
+          console.warn('Failed to apply link and tag signals:', graphError);
+        }
+
+        return { notes: scored, related };
+      } finally {
+        setProgress(null);
+      }
+    },
+    [vaultProvider, llmProvider, storageAdapter, metadataProvider, settings, getEmbeddingCache],
+  );
+
+  return {
+    progress,
+    scoreNotes,
+  };
+}
@@ -1,5 +1,6 @@
 import { QAService } from '@/domain/goal/QAService';
-import type { Answer, Goal, QASession, Question } from '@/domain/goal/types';
+import { getMilestoneNotePaths } from '@/domain/goal/milestoneUtils';
+import type { Answer, Goal, QASession, QASessionOptions, Question } from '@/domain/goal/types';
 import type { ILLMProvider, IVaultProvider } from '@/ports';
 import { useCallback, useState } from 'react';
 
@@ -14,6 +15,29 @@ export interface QASessionState {
   error: string | null;
 }
 
+/**
+ * Load the contents of a goal's assigned notes, skipping notes that cannot be read.
+ */
+async function loadNoteContents(
+  vaultProvider: IVaultProvider,
+  goal: Goal,
+  notePaths: string[] = goal.notesPaths,
+): Promise<Array<{ path: string; content: string }>> {
+  const contents: Array<{ path: string; content: string }> = [];
+  for (const notePath of notePaths) {
+    try {
+      const exists = await vaultProvider.exists(notePath);
+      if (exists) {
+        const content = await vaultProvider.readFile(notePath);
+        contents.push({ path: notePath, content });
+      }
+    } catch (err) {
+      console.warn(`Failed to load note: ${notePath}`, err);
+    }
+  }
+  return contents;
+}
+
 /**
  * Hook for managing Q&A session state.
  */
@@ -30,32 +54,24 @@ export function useQASession(vaultProvider: IVaultProvider, llmProvider: ILLMPro
    * Start a new Q&A session for a goal.
    */
   const startSession = useCallback(
-    async (goal: Goal) => {
+    async (goal: Goal, options: Partial<QASessionOptions> = {}) => {
       setIsLoading(true);
       setError(null);
       setCurrentQuestionIndex(0);
 
       try {
-        // Load note contents
-        const contents: Array<{ path: string; content: string }> = [];
-        for (const notePath of goal.notesPaths) {
-          try {
-            const exists = await vaultProvider.exists(notePath);
-            if (exists) {
-              const content = await vaultProvider.readFile(notePath);
-              contents.push({ path: notePath, content });
-            }
-          } catch (err) {
-            console.warn(`Failed to load note: ${notePath}`, err);
-          }
-        }
+        const contents = await loadNoteContents(
+          vaultProvider,
+          goal,
+          options.focusNotePaths ?? getMilestoneNotePaths(goal, options.milestoneId),
+        );
         setNoteContents(contents);
 
         if (contents.length === 0) {
           throw new Error('No notes found for this goal. Please assign notes first.');
         }
 
-        const newSession = await qaService.createSession(goal, contents);
+        const newSession = await qaService.createSession(goal, contents, options);
         setSession(newSession);
         return newSession;
       } catch (err) {
@@ -69,6 +85,55 @@ export function useQASession(vaultProvider: IVaultProvider, llmProvider: ILLMPro
     [qaService, vaultProvider],
   );
 
+  /**
+   * Start a review session from questions that are due for spaced repetition.
+   */
+  const startReviewSession = useCallback(
+    async (goal: Goal) => {
+      setIsLoading(true);
+      setError(null);
+      setCurrentQuestionIndex(0);
+
+      try {
+        // Notes are still needed to evaluate open-ended answers
+        const contents = await loadNoteContents(vaultProvider, goal);
+        setNoteContents(contents);
+
+        const reviewSession = await qaService.createReviewSession(goal.id);
+        setSession(reviewSession);
+        return reviewSession;
+      } catch (err) {
+        const message = err instanceof Error ? err.message : 'Failed to start review';
+        setError(message);
+        throw err;
+      } finally {
+        setIsLoading(false);
+      }
+    },
+    [qaService, vaultProvider],
+  );
+
+  /**
+   * Find the most recent unfinished session for a goal, if any.
+   */
+  const findIncompleteSession = useCallback(
+    async (goalId: string): Promise<QASession | null> => {
+      setIsLoading(true);
+      setError(null);
+
+      try {
+        return await qaService.getIncompleteSession(goalId);
+      } catch (err) {
+        // Not being able to offer a resume should never block starting a new session
+        console.warn('Failed to look up incomplete Q&A sessions:', err);
+        return null;
+      } finally {
+        setIsLoading(false);
+      }
+    },
+    [qaService],
+  );
+
   /**
    * Load an existing Q&A session.
    */
@@ -78,19 +143,7 @@ export function useQASession(vaultProvider: IVaultProvider, llmProvider: ILLMPro
       setError(null);
 
       try {
-        // Load note contents
-        const contents: Array<{ path: string; content: string }> = [];
-        for (const notePath of goal.notesPaths) {
-          try {
-            const exists = await vaultProvider.exists(notePath);
-            if (exists) {
-              const content = await vaultProvider.readFile(notePath);
-              contents.push({ path: notePath, content });
-            }
-          } catch (err) {
-            console.warn(`Failed to load note: ${notePath}`, err);
-          }
-        }
+        const contents = await loadNoteContents(vaultProvider, goal);
         setNoteContents(contents);
 
         const loadedSession = await qaService.getSessionById(goalId, sessionId);
@@ -124,7 +177,7 @@ export function useQASession(vaultProvider: IVaultProvider, llmProvider: ILLMPro
    * Submit an answer to the current question.
    */
   const submitAnswer = useCallback(
-    async (userAnswer: number | string): Promise<Answer> => {
+    async (userAnswer: Answer['userAnswer']): Promise<Answer> => {
       if (!session) {
         throw new Error('No active session');
       }
@@ -237,6 +290,8 @@ export function useQASession(vaultProvider: IVaultProvider, llmProvider: ILLMPro
     isSubmitting,
     error,
     startSession,
+    startReviewSession,
+    findIncompleteSession,
     loadSession,
     submitAnswer,
     nextQuestion,
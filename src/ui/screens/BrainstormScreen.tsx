@@ -52,12 +52,16 @@ export function BrainstormScreen() {
           updateLastAssistantMessage(accumulatedResponse);
         },
         onComplete: () => {
-          setIsLoading(false);
-
           // Try to extract goal draft
           const draft = brainstormService.extractGoalDraft(accumulatedResponse);
           if (draft) {
+            setIsLoading(false);
             setGoalDraft(draft);
+          } else if (brainstormService.looksLikeGoalDraft(accumulatedResponse)) {
+            // The draft was malformed; ask for it again before giving up
+            void repairGoalDraft(history, accumulatedResponse);
+          } else {
+            setIsLoading(false);
           }
         },
         onError: (error: Error) => {
@@ -77,6 +81,22 @@ export function BrainstormScreen() {
     }
   };
 
+  const repairGoalDraft = async (
+    history: Array<{ role: 'user' | 'assistant'; content: string }>,
+    response: string,
+  ) => {
+    try {
+      const draft = await brainstormService.repairGoalDraft(history, response);
+      if (draft) {
+        setGoalDraft(draft);
+      }
+    } catch (error) {
+      console.warn('Failed to repair goal draft:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
   const handleConfirmGoal = () => {
     if (goalDraft) {
       // Navigate to note assignment screen with goal draft
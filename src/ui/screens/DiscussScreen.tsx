@@ -1,7 +1,11 @@
+import { createEmbeddingProvider } from '@/adapters/createEmbeddingProvider';
+import { EmbeddingCacheManager } from '@/domain/embedding';
 import { ConversationService } from '@/domain/goal/ConversationService';
-import type { ChatMessage, Conversation, Goal } from '@/domain/goal/types';
+import { NoteContextRetriever } from '@/domain/goal/NoteContextRetriever';
+import { getMilestoneNotePaths } from '@/domain/goal/milestoneUtils';
+import type { ChatMessage, Conversation, DiscussMode, Goal } from '@/domain/goal/types';
 import { useRouter } from '@/ui/Router';
-import { ChatInterface } from '@/ui/components/chat';
+import { ChatInterface, ModeSelector } from '@/ui/components/chat';
 import { Button } from '@/ui/components/shared/Button';
 import { LoadingSpinner } from '@/ui/components/shared/LoadingSpinner';
 import { useApp } from '@/ui/contexts/AppContext';
@@ -16,14 +20,26 @@ import { useCallback, useEffect, useState } from 'react';
 export interface DiscussScreenProps {
   goalId: string;
   conversationId?: string;
+  /** Limit the discussion to these notes instead of all the goal's notes */
+  notePaths?: string[];
+  /** Topic for a newly created conversation */
+  topic?: string;
+  /** Scope a newly created conversation to this milestone and its notes */
+  milestoneId?: string;
 }
 
 /**
  * Screen for discussing learning materials with AI.
  * Supports creating new conversations and resuming existing ones.
  */
-export function DiscussScreen({ goalId, conversationId }: DiscussScreenProps) {
-  const { vaultProvider } = useApp();
+export function DiscussScreen({
+  goalId,
+  conversationId,
+  notePaths,
+  topic,
+  milestoneId,
+}: DiscussScreenProps) {
+  const { vaultProvider, storageAdapter, settings, getEmbeddingCache } = useApp();
   const { llmProvider } = useLLM();
   const { goals } = useGoals();
   const { goBack } = useRouter();
@@ -38,10 +54,23 @@ export function DiscussScreen({ goalId, conversationId }: DiscussScreenProps) {
     setMessagesFromHistory,
   } = useConversation();
 
-  const [conversationService] = useState(() => new ConversationService(vaultProvider, llmProvider));
+  const [embeddingProvider] = useState(() => createEmbeddingProvider(settings));
+  const retrievalEnabled = embeddingProvider !== null;
+  const [conversationService] = useState(() => {
+    // Retrieve relevant note sections when embeddings are available, otherwise send whole notes
+    if (!embeddingProvider) {
+      return new ConversationService(vaultProvider, llmProvider);
+    }
+    const provider = embeddingProvider.getProviderName();
+    const cache =
+      getEmbeddingCache?.(provider) ?? new EmbeddingCacheManager(storageAdapter, { provider });
+    const contextRetriever = new NoteContextRetriever(embeddingProvider, llmProvider, cache);
+    return new ConversationService(vaultProvider, llmProvider, contextRetriever);
+  });
   const [currentConversation, setCurrentConversation] = useState<Conversation | null>(null);
   const [isInitializing, setIsInitializing] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [mode, setMode] = useState<DiscussMode>('explore');
   const [noteContents, setNoteContents] = useState<Array<{ path: string; content: string }>>([]);
 
   const goal = goals.find((g: Goal) => g.id === goalId);
@@ -59,9 +88,25 @@ export function DiscussScreen({ goalId, conversationId }: DiscussScreenProps) {
           return;
         }
 
-        // Load note contents
+        // Load existing conversation or create new one
+        let conversation: Conversation | null = null;
+
+        if (conversationId) {
+          conversation = await conversationService.getConversationById(goalId, conversationId);
+        }
+
+        if (!conversation) {
+          conversation = await conversationService.createConversation(
+            goalId,
+            topic,
+            'explore',
+            milestoneId,
+          );
+        }
+
+        // Load note contents; a resumed conversation keeps the milestone it was started for
         const contents: Array<{ path: string; content: string }> = [];
-        for (const notePath of goal.notesPaths) {
+        for (const notePath of notePaths ?? getMilestoneNotePaths(goal, conversation.milestoneId)) {
           try {
             const exists = await vaultProvider.exists(notePath);
             if (exists) {
@@ -74,18 +119,8 @@ export function DiscussScreen({ goalId, conversationId }: DiscussScreenProps) {
         }
         setNoteContents(contents);
 
-        // Load existing conversation or create new one
-        let conversation: Conversation | null = null;
-
-        if (conversationId) {
-          conversation = await conversationService.getConversationById(goalId, conversationId);
-        }
-
-        if (!conversation) {
-          conversation = await conversationService.createConversation(goalId);
-        }
-
         setCurrentConversation(conversation);
+        setMode(conversation.mode);
 
         // Load existing messages into state
         if (conversation.messages.length > 0) {
@@ -94,6 +129,7 @@ export function DiscussScreen({ goalId, conversationId }: DiscussScreenProps) {
             role: msg.role,
             content: msg.content,
             sources: msg.sources,
+            mode: msg.mode,
           }));
           setMessagesFromHistory(uiMessages);
         }
@@ -106,19 +142,49 @@ export function DiscussScreen({ goalId, conversationId }: DiscussScreenProps) {
     };
 
     initialize();
-  }, [goalId, conversationId, goal, conversationService, vaultProvider, setMessagesFromHistory]);
+  }, [
+    goalId,
+    conversationId,
+    notePaths,
+    topic,
+    milestoneId,
+    goal,
+    conversationService,
+    vaultProvider,
+    setMessagesFromHistory,
+  ]);
+
+  const handleModeChange = useCallback(
+    async (newMode: DiscussMode) => {
+      setMode(newMode);
+      if (!currentConversation) return;
+
+      try {
+        const updated = await conversationService.updateMode(
+          goalId,
+          currentConversation.id,
+          newMode,
+        );
+        setCurrentConversation(updated);
+      } catch (err) {
+        console.error('Failed to save discussion mode:', err);
+      }
+    },
+    [currentConversation, goalId, conversationService],
+  );
 
   const handleSendMessage = useCallback(
     async (userMessage: string) => {
       if (!currentConversation || !goal) return;
 
       // Add user message to UI
-      addUserMessage(userMessage);
+      addUserMessage(userMessage, mode);
 
       // Save user message to file
       const userChatMessage: Omit<ChatMessage, 'id' | 'timestamp'> = {
         role: 'user',
         content: userMessage,
+        mode,
       };
 
       try {
@@ -132,7 +198,7 @@ export function DiscussScreen({ goalId, conversationId }: DiscussScreenProps) {
       let accumulatedResponse = '';
 
       // Add empty assistant message to update during streaming
-      addAssistantMessage('');
+      addAssistantMessage('', undefined, mode);
 
       try {
         // Build conversation history for LLM
@@ -142,60 +208,69 @@ export function DiscussScreen({ goalId, conversationId }: DiscussScreenProps) {
             id: 'temp',
             role: 'user',
             content: userMessage,
+            mode,
             timestamp: new Date().toISOString(),
           },
         ];
 
-        await conversationService.streamDiscussionResponse(goal, history, noteContents, {
-          onToken: (token: string) => {
-            accumulatedResponse += token;
-            updateLastAssistantMessage(accumulatedResponse);
-          },
-          onComplete: async () => {
-            setIsLoading(false);
-
-            // Extract sources from response
-            const sources = conversationService.extractSources(
-              accumulatedResponse,
-              goal.notesPaths,
-            );
-
-            // Update the last assistant message with sources
-            updateLastAssistantMessage(accumulatedResponse, sources);
-
-            // Save assistant message to file
-            const assistantChatMessage: Omit<ChatMessage, 'id' | 'timestamp'> = {
-              role: 'assistant',
-              content: accumulatedResponse,
-              sources: sources.length > 0 ? sources : undefined,
-            };
-
-            try {
-              const updatedConversation = await conversationService.addMessage(
-                goalId,
-                currentConversation.id,
-                assistantChatMessage,
+        await conversationService.streamDiscussionResponse(
+          goal,
+          history,
+          noteContents,
+          {
+            onToken: (token: string) => {
+              accumulatedResponse += token;
+              updateLastAssistantMessage(accumulatedResponse);
+            },
+            onComplete: async () => {
+              setIsLoading(false);
+
+              // Extract sources from response
+              const sources = conversationService.extractSources(
+                accumulatedResponse,
+                goal.notesPaths,
               );
 
-              // Update topic if this is the first exchange
-              if (updatedConversation.messages.length === 2) {
-                const topic = await conversationService.generateTopic(updatedConversation);
-                await conversationService.updateTopic(goalId, currentConversation.id, topic);
+              // Update the last assistant message with sources
+              updateLastAssistantMessage(accumulatedResponse, sources);
+
+              // Save assistant message to file
+              const assistantChatMessage: Omit<ChatMessage, 'id' | 'timestamp'> = {
+                role: 'assistant',
+                content: accumulatedResponse,
+                sources: sources.length > 0 ? sources : undefined,
+                mode,
+              };
+
+              try {
+                const updatedConversation = await conversationService.addMessage(
+                  goalId,
+                  currentConversation.id,
+                  assistantChatMessage,
+                );
+
+                // Update topic if this is the first exchange
+                if (updatedConversation.messages.length === 2) {
+                  const topic = await conversationService.generateTopic(updatedConversation);
+                  await conversationService.updateTopic(goalId, currentConversation.id, topic);
+                }
+
+                setCurrentConversation(updatedConversation);
+              } catch (err) {
+                console.error('Failed to save assistant message:', err);
               }
-
-              setCurrentConversation(updatedConversation);
-            } catch (err) {
-              console.error('Failed to save assistant message:', err);
-            }
-          },
-          onError: (error: Error) => {
-            setIsLoading(false);
-            console.error('Discussion error:', error);
-            updateLastAssistantMessage(
-              `Sorry, I encountered an error: ${error.message}. Please try again.`,
-            );
+            },
+            onError: (error: Error) => {
+              setIsLoading(false);
+              console.error('Discussion error:', error);
+              updateLastAssistantMessage(
+                `Sorry, I encountered an error: ${error.message}. Please try again.`,
+              );
+            },
           },
-        });
+          mode,
+          currentConversation.milestoneId,
+        );
       } catch (err) {
         setIsLoading(false);
         console.error('Discussion error:', err);
@@ -209,6 +284,7 @@ export function DiscussScreen({ goalId, conversationId }: DiscussScreenProps) {
       goal,
       goalId,
       noteContents,
+      mode,
       conversationService,
       addUserMessage,
       addAssistantMessage,
@@ -258,18 +334,26 @@ export function DiscussScreen({ goalId, conversationId }: DiscussScreenProps) {
     );
   }
 
+  const scopedMilestone = goal.milestones.find((m) => m.id === currentConversation?.milestoneId);
+
   return (
     <div className="ignite-screen ignite-discuss-screen">
       <div className="ignite-screen-header">
         <div className="ignite-discuss-header-content">
           <h1 className="ignite-screen-title">{currentConversation?.topic ?? 'Discussion'}</h1>
-          <span className="ignite-discuss-goal-name">{goal.name}</span>
+          <span className="ignite-discuss-goal-name">
+            {scopedMilestone ? `${goal.name} · ${scopedMilestone.content}` : goal.name}
+          </span>
         </div>
         <Button variant="secondary" onClick={goBack}>
           Back
         </Button>
       </div>
 
+      <div className="ignite-discuss-mode-bar">
+        <ModeSelector mode={mode} onChange={handleModeChange} disabled={isLoading} />
+      </div>
+
       <div className="ignite-discuss-content">
         <ChatInterface
           messages={messages}
@@ -281,7 +365,8 @@ export function DiscussScreen({ goalId, conversationId }: DiscussScreenProps) {
 
       {noteContents.length > 0 && (
         <div className="ignite-discuss-notes-indicator">
-          Using {noteContents.length} note{noteContents.length !== 1 ? 's' : ''} as context
+          {retrievalEnabled ? 'Retrieving relevant sections from' : 'Using'} {noteContents.length}{' '}
+          note{noteContents.length !== 1 ? 's' : ''} as context
         </div>
       )}
     </div>
@@ -0,0 +1,217 @@
+import { BrainstormService, type GoalDraft } from '@/domain/goal/BrainstormService';
+import { GOAL_NAME_MAX_LENGTH, validateGoalDetails } from '@/domain/goal/goalValidation';
+import type { Goal } from '@/domain/goal/types';
+import { useRouter } from '@/ui/Router';
+import { GoalPreview } from '@/ui/components/goal/GoalPreview';
+import { Button } from '@/ui/components/shared/Button';
+import { Card } from '@/ui/components/shared/Card';
+import { EmptyState } from '@/ui/components/shared/EmptyState';
+import { ErrorMessage } from '@/ui/components/shared/ErrorMessage';
+import { Input } from '@/ui/components/shared/Input';
+import { useGoals } from '@/ui/contexts/GoalContext';
+import { useLLM } from '@/ui/contexts/LLMContext';
+import type React from 'react';
+import { useState } from 'react';
+
+/**
+ * EditGoalScreen component props.
+ */
+export interface EditGoalScreenProps {
+  goalId: string;
+}
+
+/**
+ * Screen for changing a goal's name, description and deadline after creation.
+ * The AI can propose a refined version, which only fills the form once accepted.
+ */
+export function EditGoalScreen({ goalId }: EditGoalScreenProps) {
+  const { goals, updateGoalDetails } = useGoals();
+  const { llmProvider } = useLLM();
+  const { goBack } = useRouter();
+
+  const goal = goals.find((g: Goal) => g.id === goalId);
+
+  const [brainstormService] = useState(() => new BrainstormService(llmProvider));
+  const [name, setName] = useState(goal?.name ?? '');
+  const [description, setDescription] = useState(goal?.description ?? '');
+  const [deadline, setDeadline] = useState(goal?.deadline ?? '');
+  const [showErrors, setShowErrors] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [saveError, setSaveError] = useState<string | null>(null);
+  const [refineInstructions, setRefineInstructions] = useState('');
+  const [isRefining, setIsRefining] = useState(false);
+  const [refineError, setRefineError] = useState<string | null>(null);
+  const [refinedDraft, setRefinedDraft] = useState<GoalDraft | null>(null);
+
+  if (!goal) {
+    return (
+      <div className="ignite-screen ignite-edit-goal-screen">
+        <div className="ignite-screen-header">
+          <Button variant="secondary" onClick={goBack}>
+            ← Back
+          </Button>
+        </div>
+        <div className="ignite-screen-content">
+          <EmptyState
+            icon="🔍"
+            title="Goal not found"
+            description="The goal you are looking for does not exist."
+            actionLabel="Go Back"
+            onAction={goBack}
+          />
+        </div>
+      </div>
+    );
+  }
+
+  const errors = validateGoalDetails({ name, description, deadline });
+  const hasErrors = Object.keys(errors).length > 0;
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setShowErrors(true);
+    if (hasErrors) return;
+
+    setIsSaving(true);
+    setSaveError(null);
+    try {
+      await updateGoalDetails(goal.id, { name, description, deadline });
+      goBack();
+    } catch (error) {
+      setSaveError(error instanceof Error ? error.message : 'Failed to save goal');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRefine = async () => {
+    setIsRefining(true);
+    setRefineError(null);
+    try {
+      // Seed the exchange with the form as it is now, including unsaved edits
+      const draft = await brainstormService.refineGoal(
+        { ...goal, name, description, deadline },
+        refineInstructions,
+      );
+      if (draft) {
+        setRefinedDraft(draft);
+      } else {
+        setRefineError('The AI did not return a usable goal. Please try again.');
+      }
+    } catch (error) {
+      setRefineError(error instanceof Error ? error.message : 'Failed to refine goal');
+    } finally {
+      setIsRefining(false);
+    }
+  };
+
+  const handleUseRefinement = () => {
+    if (!refinedDraft) return;
+    setName(refinedDraft.name);
+    setDescription(refinedDraft.description);
+    setDeadline(refinedDraft.deadline);
+    setRefinedDraft(null);
+    setRefineInstructions('');
+  };
+
+  return (
+    <div className="ignite-screen ignite-edit-goal-screen">
+      <div className="ignite-screen-header">
+        <h1 className="ignite-screen-title">Edit Goal</h1>
+        <Button variant="secondary" onClick={goBack}>
+          Back
+        </Button>
+      </div>
+
+      <div className="ignite-screen-content">
+        {refinedDraft ? (
+          <GoalPreview
+            draft={refinedDraft}
+            onConfirm={handleUseRefinement}
+            onCancel={() => setRefinedDraft(null)}
+            title="Suggested Changes"
+            confirmLabel="Use Suggestion"
+            cancelLabel="Keep My Version"
+          />
+        ) : (
+          <form className="ignite-edit-goal-form" onSubmit={handleSave} noValidate>
+            <Input
+              label="Goal name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              maxLength={GOAL_NAME_MAX_LENGTH}
+              error={showErrors ? errors.name : undefined}
+              fullWidth
+            />
+
+            <div className="ignite-input-container ignite-input-full-width">
+              <label htmlFor="ignite-edit-goal-description" className="ignite-input-label">
+                Description
+              </label>
+              <textarea
+                id="ignite-edit-goal-description"
+                className={`ignite-input ignite-edit-goal-description ${showErrors && errors.description ? 'ignite-input-error' : ''}`.trim()}
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                rows={5}
+              />
+              {showErrors && errors.description && (
+                <div className="ignite-input-error-message">{errors.description}</div>
+              )}
+            </div>
+
+            <Input
+              type="date"
+              label="Deadline"
+              value={deadline}
+              onChange={(e) => setDeadline(e.target.value)}
+              error={showErrors ? errors.deadline : undefined}
+            />
+
+            {saveError && (
+              <ErrorMessage
+                type="general"
+                message={saveError}
+                onDismiss={() => setSaveError(null)}
+              />
+            )}
+
+            <div className="ignite-edit-goal-actions">
+              <Button type="button" variant="secondary" onClick={goBack} disabled={isSaving}>
+                Cancel
+              </Button>
+              <Button type="submit" variant="primary" disabled={isSaving || isRefining}>
+                {isSaving ? 'Saving...' : 'Save Changes'}
+              </Button>
+            </div>
+          </form>
+        )}
+
+        {!refinedDraft && (
+          <Card className="ignite-edit-goal-refine">
+            <h3 className="ignite-edit-goal-refine-title">Ask AI to refine</h3>
+            <Input
+              label="What should change? (optional)"
+              value={refineInstructions}
+              onChange={(e) => setRefineInstructions(e.target.value)}
+              placeholder="e.g. make the deadline a month later"
+              disabled={isRefining}
+              fullWidth
+            />
+            {refineError && (
+              <ErrorMessage
+                type="api"
+                message={refineError}
+                onRetry={handleRefine}
+                onDismiss={() => setRefineError(null)}
+              />
+            )}
+            <Button variant="secondary" onClick={handleRefine} disabled={isRefining || isSaving}>
+              {isRefining ? 'Refining...' : 'Ask AI to Refine'}
+            </Button>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+}
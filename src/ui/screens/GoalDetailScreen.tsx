@@ -1,13 +1,25 @@
 import { ConversationService } from '@/domain/goal/ConversationService';
+import { MilestoneProgressService } from '@/domain/goal/MilestoneProgressService';
 import { QAService } from '@/domain/goal/QAService';
-import type { Conversation, Goal, QASession } from '@/domain/goal/types';
+import { ReviewService } from '@/domain/goal/ReviewService';
+import { WeakAreaService } from '@/domain/goal/WeakAreaService';
+import { countMilestoneActivity } from '@/domain/goal/milestoneUtils';
+import type {
+  Conversation,
+  Goal,
+  Milestone,
+  QASession,
+  WeakAreaAnalysis,
+} from '@/domain/goal/types';
 import { useRouter } from '@/ui/Router';
 import { ActionCard } from '@/ui/components/goal/ActionCard';
 import { CelebrationBanner } from '@/ui/components/goal/CelebrationBanner';
 import { CompletionDialog } from '@/ui/components/goal/CompletionDialog';
 import { ConversationList } from '@/ui/components/goal/ConversationList';
 import { MilestoneList } from '@/ui/components/goal/MilestoneList';
+import { MilestoneSuggestionCard } from '@/ui/components/goal/MilestoneSuggestionCard';
 import { QASessionList } from '@/ui/components/goal/QASessionList';
+import { WeakAreasPanel } from '@/ui/components/goal/WeakAreasPanel';
 import { Button } from '@/ui/components/shared/Button';
 import { EmptyState } from '@/ui/components/shared/EmptyState';
 import { ErrorMessage } from '@/ui/components/shared/ErrorMessage';
@@ -29,17 +41,24 @@ export interface GoalDetailScreenProps {
  * Goal detail screen showing milestones, notes, and action buttons.
  */
 export function GoalDetailScreen({ goalId }: GoalDetailScreenProps) {
-  const { goals, updateGoal } = useGoals();
+  const { goals, updateGoal, updateMilestones, assignNotesToMilestone } = useGoals();
   const { navigate, goBack } = useRouter();
   const { vaultProvider } = useApp();
   const { llmProvider } = useLLM();
 
   const [conversations, setConversations] = useState<Conversation[]>([]);
   const [qaSessions, setQASessions] = useState<QASession[]>([]);
+  const [dueReviewCount, setDueReviewCount] = useState(0);
+  const [weakAreas, setWeakAreas] = useState<WeakAreaAnalysis | null>(null);
+  const [isFindingConcepts, setIsFindingConcepts] = useState(false);
   const [isLoadingHistory, setIsLoadingHistory] = useState(true);
   const [historyError, setHistoryError] = useState<string | null>(null);
   const [isCompletionDialogOpen, setIsCompletionDialogOpen] = useState(false);
   const [isCompleting, setIsCompleting] = useState(false);
+  // Milestones before the last edit, for undo
+  const [previousMilestones, setPreviousMilestones] = useState<Milestone[] | null>(null);
+  const [milestoneError, setMilestoneError] = useState<string | null>(null);
+  const [isUpdatingSuggestion, setIsUpdatingSuggestion] = useState(false);
 
   const goal = goals.find((g: Goal) => g.id === goalId);
 
@@ -52,14 +71,20 @@ export function GoalDetailScreen({ goalId }: GoalDetailScreenProps) {
     try {
       const conversationService = new ConversationService(vaultProvider, llmProvider);
       const qaService = new QAService(vaultProvider, llmProvider);
+      const reviewService = new ReviewService(vaultProvider);
 
-      const [loadedConversations, loadedSessions] = await Promise.all([
+      const [loadedConversations, loadedSessions, dueItems] = await Promise.all([
         conversationService.getConversationsForGoal(goalId),
         qaService.getSessionsForGoal(goalId),
+        reviewService.getDueItems(goalId),
       ]);
 
       setConversations(loadedConversations);
       setQASessions(loadedSessions);
+      setDueReviewCount(dueItems.length);
+
+      const weakAreaService = new WeakAreaService(qaService, llmProvider);
+      setWeakAreas(await weakAreaService.analyzeSessions(loadedSessions));
     } catch (error) {
       console.error('Failed to load history:', error);
       setHistoryError(
@@ -105,12 +130,94 @@ export function GoalDetailScreen({ goalId }: GoalDetailScreenProps) {
       m.id === milestoneId ? { ...m, completed: !m.completed } : m,
     );
 
+    // Undo would also revert this toggle, so only the last edit can be undone
+    setPreviousMilestones(null);
     updateGoal(goal.id, {
       milestones: updatedMilestones,
       updatedAt: new Date().toISOString(),
     });
   };
 
+  const handleMilestonesChange = async (milestones: Milestone[]) => {
+    const previous = goal.milestones;
+    setMilestoneError(null);
+    try {
+      await updateMilestones(goal.id, milestones);
+      setPreviousMilestones(previous);
+    } catch (error) {
+      setMilestoneError(error instanceof Error ? error.message : 'Failed to update milestones');
+    }
+  };
+
+  const handleUndoMilestones = async () => {
+    if (!previousMilestones) return;
+    setMilestoneError(null);
+    try {
+      await updateMilestones(goal.id, previousMilestones);
+      setPreviousMilestones(null);
+    } catch (error) {
+      setMilestoneError(error instanceof Error ? error.message : 'Failed to undo milestone change');
+    }
+  };
+
+  const suggestions =
+    isLoadingHistory || isGoalCompleted
+      ? []
+      : new MilestoneProgressService().suggestCompletions(goal, qaSessions, conversations);
+
+  const handleAcceptSuggestion = async (milestoneId: string) => {
+    setIsUpdatingSuggestion(true);
+    setMilestoneError(null);
+    try {
+      await updateMilestones(
+        goal.id,
+        goal.milestones.map((m) => (m.id === milestoneId ? { ...m, completed: true } : m)),
+      );
+      setPreviousMilestones(null);
+    } catch (error) {
+      setMilestoneError(error instanceof Error ? error.message : 'Failed to complete milestone');
+    } finally {
+      setIsUpdatingSuggestion(false);
+    }
+  };
+
+  const handleDismissSuggestion = async (milestoneId: string) => {
+    setIsUpdatingSuggestion(true);
+    setMilestoneError(null);
+    try {
+      const dismissedAt = new Date().toISOString();
+      await updateMilestones(
+        goal.id,
+        goal.milestones.map((m) =>
+          m.id === milestoneId ? { ...m, suggestionDismissedAt: dismissedAt } : m,
+        ),
+      );
+      setPreviousMilestones(null);
+    } catch (error) {
+      setMilestoneError(error instanceof Error ? error.message : 'Failed to dismiss suggestion');
+    } finally {
+      setIsUpdatingSuggestion(false);
+    }
+  };
+
+  const handleAssignMilestoneNotes = async (milestoneId: string, notesPaths: string[]) => {
+    setMilestoneError(null);
+    try {
+      await assignNotesToMilestone(goal.id, milestoneId, notesPaths);
+      setPreviousMilestones(null);
+    } catch (error) {
+      setMilestoneError(error instanceof Error ? error.message : 'Failed to assign notes');
+    }
+  };
+
+  const handleDiscussMilestone = (milestoneId: string) => {
+    navigate({ type: 'discuss', goalId: goal.id, milestoneId });
+  };
+
+  const handleQAMilestone = (milestoneId: string) => {
+    navigate({ type: 'qa', goalId: goal.id, milestoneId });
+  };
+
   const handleDiscuss = () => {
     navigate({ type: 'discuss', goalId: goal.id });
   };
@@ -123,9 +230,43 @@ export function GoalDetailScreen({ goalId }: GoalDetailScreenProps) {
     navigate({ type: 'qa', goalId: goal.id });
   };
 
-  const handleSelectSession = (_sessionId: string) => {
-    // For now, just start a new session. In the future, this could resume an incomplete session.
-    navigate({ type: 'qa', goalId: goal.id });
+  const handleReview = () => {
+    navigate({ type: 'qa', goalId: goal.id, review: true });
+  };
+
+  const handleFindWeakConcepts = async () => {
+    setIsFindingConcepts(true);
+    try {
+      const weakAreaService = new WeakAreaService(
+        new QAService(vaultProvider, llmProvider),
+        llmProvider,
+      );
+      setWeakAreas(await weakAreaService.analyzeSessions(qaSessions, { includeConcepts: true }));
+    } finally {
+      setIsFindingConcepts(false);
+    }
+  };
+
+  const handlePracticeWeakAreas = (notePaths: string[]) => {
+    navigate({ type: 'qa', goalId: goal.id, notePaths });
+  };
+
+  const handleDiscussWeakAreas = (notePaths: string[], topic: string) => {
+    navigate({ type: 'discuss', goalId: goal.id, notePaths, topic });
+  };
+
+  const handleSelectSession = (sessionId: string) => {
+    // Resume unfinished sessions; completed ones open read-only
+    const selected = qaSessions.find((s) => s.id === sessionId);
+    if (selected && !selected.completedAt) {
+      navigate({ type: 'qa', goalId: goal.id, sessionId });
+    } else {
+      navigate({ type: 'qa-review', goalId: goal.id, sessionId });
+    }
+  };
+
+  const handleEdit = () => {
+    navigate({ type: 'edit-goal', goalId: goal.id });
   };
 
   const handleCompleteClick = () => {
@@ -167,9 +308,14 @@ export function GoalDetailScreen({ goalId }: GoalDetailScreenProps) {
           ← Back
         </Button>
         {!isGoalCompleted && (
-          <Button variant="primary" onClick={handleCompleteClick} disabled={isCompleting}>
-            {isCompleting ? 'Completing...' : 'Complete Goal'}
-          </Button>
+          <div className="ignite-goal-detail-header-actions">
+            <Button variant="secondary" onClick={handleEdit}>
+              Edit
+            </Button>
+            <Button variant="primary" onClick={handleCompleteClick} disabled={isCompleting}>
+              {isCompleting ? 'Completing...' : 'Complete Goal'}
+            </Button>
+          </div>
         )}
       </div>
 
@@ -212,11 +358,43 @@ export function GoalDetailScreen({ goalId }: GoalDetailScreenProps) {
 
         <div className="ignite-goal-detail-section">
           <h3 className="ignite-goal-detail-section-title">Milestones</h3>
+          {suggestions.map((suggestion) => (
+            <MilestoneSuggestionCard
+              key={suggestion.milestoneId}
+              suggestion={suggestion}
+              onAccept={handleAcceptSuggestion}
+              onDismiss={handleDismissSuggestion}
+              disabled={isUpdatingSuggestion}
+            />
+          ))}
           <MilestoneList
             milestones={goal.milestones}
             onToggle={handleMilestoneToggle}
+            onChange={handleMilestonesChange}
+            activity={
+              isLoadingHistory ? undefined : countMilestoneActivity(conversations, qaSessions)
+            }
+            onDiscuss={handleDiscussMilestone}
+            onQuiz={handleQAMilestone}
+            notePaths={goal.notesPaths}
+            onAssignNotes={handleAssignMilestoneNotes}
             readonly={isGoalCompleted}
           />
+          {previousMilestones && !isGoalCompleted && (
+            <div className="ignite-milestone-undo">
+              <span>Milestones updated.</span>
+              <Button variant="secondary" onClick={handleUndoMilestones}>
+                Undo
+              </Button>
+            </div>
+          )}
+          {milestoneError && (
+            <ErrorMessage
+              type="general"
+              message={milestoneError}
+              onDismiss={() => setMilestoneError(null)}
+            />
+          )}
         </div>
 
         {!isGoalCompleted && (
@@ -235,6 +413,14 @@ export function GoalDetailScreen({ goalId }: GoalDetailScreenProps) {
                 icon="❓"
                 onClick={handleQA}
               />
+              {dueReviewCount > 0 && (
+                <ActionCard
+                  title="Review"
+                  description={`${dueReviewCount} ${dueReviewCount === 1 ? 'question is' : 'questions are'} due for review`}
+                  icon="🔁"
+                  onClick={handleReview}
+                />
+              )}
             </div>
           </div>
         )}
@@ -267,9 +453,30 @@ export function GoalDetailScreen({ goalId }: GoalDetailScreenProps) {
           )}
         </div>
 
-        {goal.notesPaths.length > 0 && (
+        {!isGoalCompleted && !isLoadingHistory && weakAreas && qaSessions.length > 0 && (
           <div className="ignite-goal-detail-section">
+            <h3 className="ignite-goal-detail-section-title">Weak Areas</h3>
+            <WeakAreasPanel
+              analysis={weakAreas}
+              isFindingConcepts={isFindingConcepts}
+              onFindConcepts={handleFindWeakConcepts}
+              onPractice={handlePracticeWeakAreas}
+              onDiscuss={handleDiscussWeakAreas}
+            />
+          </div>
+        )}
+
+        <div className="ignite-goal-detail-section">
+          <div className="ignite-goal-detail-section-header">
             <h3 className="ignite-goal-detail-section-title">Assigned Notes</h3>
+            <Button
+              variant="secondary"
+              onClick={() => navigate({ type: 'manage-notes', goalId: goal.id })}
+            >
+              Manage Notes
+            </Button>
+          </div>
+          {goal.notesPaths.length > 0 ? (
             <ul className="ignite-goal-detail-notes-list">
               {goal.notesPaths.map((path) => (
                 <li key={path} className="ignite-goal-detail-notes-item">
@@ -277,8 +484,10 @@ export function GoalDetailScreen({ goalId }: GoalDetailScreenProps) {
                 </li>
               ))}
             </ul>
-          </div>
-        )}
+          ) : (
+            <p className="ignite-goal-detail-empty">No notes assigned yet.</p>
+          )}
+        </div>
       </div>
 
       <CompletionDialog
@@ -0,0 +1,299 @@
+import type { ScoredNote } from '@/domain/goal/NoteRelevanceService';
+import {
+  type NoteSuggestions,
+  searchNotes,
+  splitNoteSuggestions,
+} from '@/domain/goal/noteSuggestions';
+import type { Goal } from '@/domain/goal/types';
+import type { FileInfo } from '@/ports';
+import { useRouter } from '@/ui/Router';
+import { NoteCard, NoteList } from '@/ui/components/notes';
+import { Button } from '@/ui/components/shared/Button';
+import { EmptyState } from '@/ui/components/shared/EmptyState';
+import { ErrorMessage } from '@/ui/components/shared/ErrorMessage';
+import { Input } from '@/ui/components/shared/Input';
+import { LoadingSpinner } from '@/ui/components/shared/LoadingSpinner';
+import { useApp } from '@/ui/contexts/AppContext';
+import { useGoals } from '@/ui/contexts/GoalContext';
+import { getPhaseLabel, useNoteRelevance } from '@/ui/hooks/useNoteRelevance';
+import { useEffect, useMemo, useState } from 'react';
+
+/**
+ * ManageNotesScreen component props.
+ */
+export interface ManageNotesScreenProps {
+  goalId: string;
+}
+
+/**
+ * Screen for changing which notes belong to a goal after creation.
+ * Changes are collected as a selection and only written on save.
+ */
+export function ManageNotesScreen({ goalId }: ManageNotesScreenProps) {
+  const { vaultProvider, settings } = useApp();
+  const { goals, addNotesToGoal, removeNotesFromGoal } = useGoals();
+  const { goBack } = useRouter();
+  const { progress, scoreNotes } = useNoteRelevance();
+
+  const goal = goals.find((g: Goal) => g.id === goalId);
+
+  const [selectedPaths, setSelectedPaths] = useState<string[]>(goal?.notesPaths ?? []);
+  const [files, setFiles] = useState<FileInfo[]>([]);
+  const [query, setQuery] = useState('');
+  const [scores, setScores] = useState<Map<string, ScoredNote>>(new Map());
+  const [suggestions, setSuggestions] = useState<NoteSuggestions | null>(null);
+  const [isScoring, setIsScoring] = useState(false);
+  const [scoreError, setScoreError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [saveError, setSaveError] = useState<string | null>(null);
+
+  // Load the vault file list once for searching
+  useEffect(() => {
+    vaultProvider
+      .listMarkdownFiles()
+      .then(setFiles)
+      .catch((err) => console.warn('Failed to list vault notes:', err));
+  }, [vaultProvider]);
+
+  const searchResults = useMemo(
+    () =>
+      goal
+        ? searchNotes(files, query, goal.notesPaths, settings.includePaths, settings.excludePaths)
+        : [],
+    [goal, files, query, settings.includePaths, settings.excludePaths],
+  );
+
+  if (!goal) {
+    return (
+      <div className="ignite-screen ignite-manage-notes-screen">
+        <div className="ignite-screen-header">
+          <Button variant="secondary" onClick={goBack}>
+            ← Back
+          </Button>
+        </div>
+        <div className="ignite-screen-content">
+          <EmptyState
+            icon="🔍"
+            title="Goal not found"
+            description="The goal you are looking for does not exist."
+            actionLabel="Go Back"
+            onAction={goBack}
+          />
+        </div>
+      </div>
+    );
+  }
+
+  const selectedSet = new Set(selectedPaths);
+  const originalSet = new Set(goal.notesPaths);
+  const addedPaths = selectedPaths.filter((path) => !originalSet.has(path));
+  const removedPaths = goal.notesPaths.filter((path) => !selectedSet.has(path));
+  const hasChanges = addedPaths.length > 0 || removedPaths.length > 0;
+  // Removed notes stay listed (unchecked) so they can be restored before saving
+  const listedPaths = [...goal.notesPaths, ...addedPaths];
+
+  const handleToggle = (path: string) => {
+    setSelectedPaths((prev) =>
+      prev.includes(path) ? prev.filter((p) => p !== path) : [...prev, path],
+    );
+  };
+
+  const selectAllOf = (notes: ScoredNote[]) => {
+    setSelectedPaths((prev) => [...new Set([...prev, ...notes.map((note) => note.path)])]);
+  };
+
+  const deselectAllOf = (notes: ScoredNote[]) => {
+    const paths = new Set(notes.map((note) => note.path));
+    setSelectedPaths((prev) => prev.filter((p) => !paths.has(p)));
+  };
+
+  const handleFindSuggestions = async () => {
+    setIsScoring(true);
+    setScoreError(null);
+    try {
+      const milestones = [...goal.milestones]
+        .sort((a, b) => a.order - b.order)
+        .map((m) => m.content);
+      const { notes } = await scoreNotes({
+        name: goal.name,
+        description: goal.description,
+        deadline: goal.deadline,
+        milestones,
+      });
+      setScores(new Map(notes.map((note) => [note.path, note])));
+      setSuggestions(splitNoteSuggestions(goal, notes, files));
+    } catch (err) {
+      setScoreError(err instanceof Error ? err.message : 'Failed to score notes');
+    } finally {
+      setIsScoring(false);
+    }
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    setSaveError(null);
+    try {
+      if (removedPaths.length > 0) {
+        await removeNotesFromGoal(goal.id, removedPaths);
+      }
+      if (addedPaths.length > 0) {
+        await addNotesToGoal(goal.id, addedPaths);
+      }
+      goBack();
+    } catch (err) {
+      setSaveError(err instanceof Error ? err.message : 'Failed to update notes');
+      setIsSaving(false);
+    }
+  };
+
+  const renderNoteCard = (path: string) => (
+    <NoteCard
+      key={path}
+      path={path}
+      score={scores.get(path)?.score}
+      reason={scores.get(path)?.reason}
+      selected={selectedSet.has(path)}
+      onToggle={handleToggle}
+    />
+  );
+
+  return (
+    <div className="ignite-screen ignite-manage-notes-screen">
+      <div className="ignite-screen-header">
+        <h1 className="ignite-screen-title">Manage Notes</h1>
+        <Button variant="secondary" onClick={goBack}>
+          Back
+        </Button>
+      </div>
+
+      <div className="ignite-screen-content">
+        <div className="ignite-manage-notes-section">
+          <h3 className="ignite-manage-notes-title">{goal.name}</h3>
+          <p className="ignite-manage-notes-hint">
+            Uncheck notes to remove them from this goal. Removed notes are also taken off any
+            milestones that use them.
+          </p>
+          {listedPaths.length === 0 ? (
+            <p className="ignite-manage-notes-hint">No notes are assigned to this goal yet.</p>
+          ) : (
+            <div className="ignite-note-list-items">{listedPaths.map(renderNoteCard)}</div>
+          )}
+        </div>
+
+        <div className="ignite-manage-notes-section">
+          <h3 className="ignite-manage-notes-title">Add from your vault</h3>
+          <Input
+            type="search"
+            placeholder="Search notes by name or folder..."
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            fullWidth
+          />
+          {query.trim() &&
+            (searchResults.length === 0 ? (
+              <p className="ignite-manage-notes-hint">No matching notes.</p>
+            ) : (
+              <div className="ignite-note-list-items">
+                {searchResults.map((file) => renderNoteCard(file.path))}
+              </div>
+            ))}
+        </div>
+
+        <div className="ignite-manage-notes-section">
+          <h3 className="ignite-manage-notes-title">Suggested notes</h3>
+          <p className="ignite-manage-notes-hint">
+            Rank your vault against this goal again to find notes you have written since creating
+            it.
+          </p>
+          {scoreError && (
+            <ErrorMessage
+              type="api"
+              message={scoreError}
+              onRetry={handleFindSuggestions}
+              onDismiss={() => setScoreError(null)}
+            />
+          )}
+          {isScoring ? (
+            <div className="ignite-note-assignment-progress">
+              <LoadingSpinner />
+              {progress && (
+                <>
+                  <p className="ignite-progress-phase">{getPhaseLabel(progress.phase)}</p>
+                  {progress.total > 0 && (
+                    <div className="ignite-progress-bar-container">
+                      <div
+                        className="ignite-progress-bar"
+                        style={{ width: `${(progress.current / progress.total) * 100}%` }}
+                      />
+                    </div>
+                  )}
+                  <p className="ignite-progress-message">{progress.message}</p>
+                </>
+              )}
+            </div>
+          ) : (
+            <Button variant="secondary" onClick={handleFindSuggestions} disabled={isSaving}>
+              {suggestions ? 'Find Again' : 'Find Relevant Notes'}
+            </Button>
+          )}
+
+          {suggestions && !isScoring && (
+            <>
+              {suggestions.newNotes.length === 0 && suggestions.otherNotes.length === 0 && (
+                <p className="ignite-manage-notes-hint">No new relevant notes found.</p>
+              )}
+              {suggestions.newNotes.length > 0 && (
+                <div className="ignite-manage-notes-suggestions">
+                  <h4 className="ignite-manage-notes-subtitle">
+                    Written since you created this goal
+                  </h4>
+                  <NoteList
+                    notes={suggestions.newNotes}
+                    selectedPaths={suggestions.newNotes
+                      .map((note) => note.path)
+                      .filter((path) => selectedSet.has(path))}
+                    onToggle={handleToggle}
+                    onSelectAll={() => selectAllOf(suggestions.newNotes)}
+                    onDeselectAll={() => deselectAllOf(suggestions.newNotes)}
+                  />
+                </div>
+              )}
+              {suggestions.otherNotes.length > 0 && (
+                <div className="ignite-manage-notes-suggestions">
+                  <h4 className="ignite-manage-notes-subtitle">Other relevant notes</h4>
+                  <NoteList
+                    notes={suggestions.otherNotes}
+                    selectedPaths={suggestions.otherNotes
+                      .map((note) => note.path)
+                      .filter((path) => selectedSet.has(path))}
+                    onToggle={handleToggle}
+                    onSelectAll={() => selectAllOf(suggestions.otherNotes)}
+                    onDeselectAll={() => deselectAllOf(suggestions.otherNotes)}
+                  />
+                </div>
+              )}
+            </>
+          )}
+        </div>
+
+        {saveError && (
+          <ErrorMessage type="general" message={saveError} onDismiss={() => setSaveError(null)} />
+        )}
+
+        <div className="ignite-manage-notes-actions">
+          <span className="ignite-manage-notes-summary">
+            {hasChanges
+              ? `${addedPaths.length} to add, ${removedPaths.length} to remove`
+              : 'No changes'}
+          </span>
+          <Button variant="secondary" onClick={goBack} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button variant="primary" onClick={handleSave} disabled={!hasChanges || isSaving}>
+            {isSaving ? 'Saving...' : 'Save Changes'}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
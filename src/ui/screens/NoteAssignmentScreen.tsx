@@ -1,20 +1,15 @@
-import { VoyageEmbeddingAdapter } from '@/adapters/voyage/VoyageEmbeddingAdapter';
 import { BrainstormService } from '@/domain/goal/BrainstormService';
 import type { GoalDraft } from '@/domain/goal/BrainstormService';
-import {
-  EmbeddingRelevanceService,
-  type RelevanceProgressCallback,
-} from '@/domain/goal/EmbeddingRelevanceService';
-import { NoteRelevanceService, type ScoredNote } from '@/domain/goal/NoteRelevanceService';
-import { isVoyageApiKeyConfigured } from '@/settings';
+import type { RelatedNote } from '@/domain/goal/GraphRelevanceService';
+import type { ScoredNote } from '@/domain/goal/NoteRelevanceService';
 import { useEffect, useState } from 'react';
 import { useRouter } from '../Router';
 import { NoteList } from '../components/notes';
 import { Button } from '../components/shared/Button';
 import { LoadingSpinner } from '../components/shared/LoadingSpinner';
-import { useApp } from '../contexts/AppContext';
 import { useGoals } from '../contexts/GoalContext';
 import { useLLM } from '../contexts/LLMContext';
+import { getPhaseLabel, useNoteRelevance } from '../hooks/useNoteRelevance';
 
 /**
  * Note assignment screen props.
@@ -23,111 +18,45 @@ export interface NoteAssignmentScreenProps {
   goalDraft: GoalDraft;
 }
 
-/**
- * Progress state for embedding-based relevance scoring.
- */
-export interface ProgressState {
-  phase: 'indexing' | 'searching' | 'explaining';
-  current: number;
-  total: number;
-  message: string;
-}
-
-/**
- * Get a human-readable label for a progress phase.
- */
-function getPhaseLabel(phase: ProgressState['phase']): string {
-  switch (phase) {
-    case 'indexing':
-      return 'Indexing notes...';
-    case 'searching':
-      return 'Finding relevant notes...';
-    case 'explaining':
-      return 'Generating explanations...';
-    default:
-      return 'Processing...';
-  }
-}
-
 /**
  * Note assignment screen with AI-ranked notes.
  */
 export function NoteAssignmentScreen({ goalDraft }: NoteAssignmentScreenProps) {
   const router = useRouter();
-  const { vaultProvider, storageAdapter, settings } = useApp();
   const { llmProvider } = useLLM();
   const { createGoal } = useGoals();
+  const { progress, scoreNotes } = useNoteRelevance();
 
   const [scoredNotes, setScoredNotes] = useState<ScoredNote[]>([]);
+  const [relatedNotes, setRelatedNotes] = useState<RelatedNote[]>([]);
   const [selectedPaths, setSelectedPaths] = useState<string[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [isCreating, setIsCreating] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [progress, setProgress] = useState<ProgressState | null>(null);
 
   // Load and score notes on mount
   useEffect(() => {
-    const scoreNotes = async () => {
+    const loadScoredNotes = async () => {
       setIsLoading(true);
       setError(null);
-      setProgress(null);
 
       try {
-        let scored: ScoredNote[];
-
-        // Use embedding-based relevance if Voyage API key is configured
-        if (isVoyageApiKeyConfigured(settings)) {
-          const embeddingProvider = new VoyageEmbeddingAdapter({
-            apiKey: settings.voyageApiKey,
-          });
-
-          const embeddingRelevanceService = new EmbeddingRelevanceService(
-            vaultProvider,
-            embeddingProvider,
-            llmProvider,
-            storageAdapter,
-          );
-
-          const handleProgress: RelevanceProgressCallback = (phase, current, total, message) => {
-            setProgress({
-              phase,
-              current,
-              total,
-              message: message ?? getPhaseLabel(phase),
-            });
-          };
-
-          scored = await embeddingRelevanceService.scoreNotes(
-            goalDraft,
-            settings.includePaths,
-            settings.excludePaths,
-            handleProgress,
-          );
-        } else {
-          // Fall back to original LLM-only approach
-          const noteRelevanceService = new NoteRelevanceService(vaultProvider, llmProvider);
-          scored = await noteRelevanceService.scoreNotes(
-            goalDraft,
-            settings.includePaths,
-            settings.excludePaths,
-          );
-        }
-
-        setScoredNotes(scored);
+        const { notes, related } = await scoreNotes(goalDraft);
+        setScoredNotes(notes);
+        setRelatedNotes(related);
 
         // Auto-select notes with score >= 70
-        const highScorePaths = scored.filter((note) => note.score >= 70).map((note) => note.path);
+        const highScorePaths = notes.filter((note) => note.score >= 70).map((note) => note.path);
         setSelectedPaths(highScorePaths);
       } catch (err) {
         setError(err instanceof Error ? err.message : 'Failed to score notes');
       } finally {
         setIsLoading(false);
-        setProgress(null);
       }
     };
 
-    scoreNotes();
-  }, [goalDraft, vaultProvider, llmProvider, storageAdapter, settings]);
+    loadScoredNotes();
+  }, [goalDraft, scoreNotes]);
 
   const handleToggle = (path: string) => {
     setSelectedPaths((prev) =>
@@ -135,14 +64,18 @@ export function NoteAssignmentScreen({ goalDraft }: NoteAssignmentScreenProps) {
     );
   };
 
-  const handleSelectAll = () => {
-    setSelectedPaths(scoredNotes.map((note) => note.path));
+  // Select/deselect all only affects the list the buttons belong to
+  const selectAllOf = (notes: ScoredNote[]) => {
+    setSelectedPaths((prev) => [...new Set([...prev, ...notes.map((note) => note.path)])]);
   };
 
-  const handleDeselectAll = () => {
-    setSelectedPaths([]);
+  const deselectAllOf = (notes: ScoredNote[]) => {
+    const paths = new Set(notes.map((note) => note.path));
+    setSelectedPaths((prev) => prev.filter((p) => !paths.has(p)));
   };
 
+  const relatedPaths = new Set(relatedNotes.map((note) => note.path));
+
   const handleCreateGoal = async () => {
     setIsCreating(true);
     setError(null);
@@ -229,12 +162,29 @@ export function NoteAssignmentScreen({ goalDraft }: NoteAssignmentScreenProps) {
           <>
             <NoteList
               notes={scoredNotes}
-              selectedPaths={selectedPaths}
+              selectedPaths={selectedPaths.filter((p) => !relatedPaths.has(p))}
               onToggle={handleToggle}
-              onSelectAll={handleSelectAll}
-              onDeselectAll={handleDeselectAll}
+              onSelectAll={() => selectAllOf(scoredNotes)}
+              onDeselectAll={() => deselectAllOf(scoredNotes)}
             />
 
+            {relatedNotes.length > 0 && (
+              <div className="ignite-note-assignment-related">
+                <h3 className="ignite-note-assignment-related-title">Related via links</h3>
+                <p className="ignite-note-assignment-related-hint">
+                  These notes did not match the goal on their own, but are linked to or from your
+                  most relevant notes.
+                </p>
+                <NoteList
+                  notes={relatedNotes}
+                  selectedPaths={selectedPaths.filter((p) => relatedPaths.has(p))}
+                  onToggle={handleToggle}
+                  onSelectAll={() => selectAllOf(relatedNotes)}
+                  onDeselectAll={() => deselectAllOf(relatedNotes)}
+                />
+              </div>
+            )}
+
             <div className="ignite-note-assignment-actions">
               <Button
                 variant="primary"
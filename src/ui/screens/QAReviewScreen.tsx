@@ -0,0 +1,159 @@
+import { QAService } from '@/domain/goal/QAService';
+import type { Goal, QASession } from '@/domain/goal/types';
+import { useRouter } from '@/ui/Router';
+import { AnsweredQuestion } from '@/ui/components/qa';
+import { Button } from '@/ui/components/shared/Button';
+import { ErrorMessage } from '@/ui/components/shared/ErrorMessage';
+import { LoadingSpinner } from '@/ui/components/shared/LoadingSpinner';
+import { useApp } from '@/ui/contexts/AppContext';
+import { useGoals } from '@/ui/contexts/GoalContext';
+import { useLLM } from '@/ui/contexts/LLMContext';
+import { useCallback, useEffect, useState } from 'react';
+
+/**
+ * QAReviewScreen component props.
+ */
+export interface QAReviewScreenProps {
+  goalId: string;
+  sessionId: string;
+}
+
+/**
+ * Read-only review of a past Q&A session.
+ * Incorrectly answered questions can be retaken as a new session.
+ */
+export function QAReviewScreen({ goalId, sessionId }: QAReviewScreenProps) {
+  const { vaultProvider } = useApp();
+  const { llmProvider } = useLLM();
+  const { goals } = useGoals();
+  const { navigate, goBack } = useRouter();
+
+  const [qaService] = useState(() => new QAService(vaultProvider, llmProvider));
+  const [session, setSession] = useState<QASession | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isRetaking, setIsRetaking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const goal = goals.find((g: Goal) => g.id === goalId);
+
+  const loadSession = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const loaded = await qaService.getSessionById(goalId, sessionId);
+      if (!loaded) {
+        throw new Error('Session not found');
+      }
+      setSession(loaded);
+    } catch (err) {
+      console.error('Failed to load Q&A session:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load Q&A session');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [qaService, goalId, sessionId]);
+
+  useEffect(() => {
+    loadSession();
+  }, [loadSession]);
+
+  const handleRetake = useCallback(async () => {
+    setIsRetaking(true);
+    setError(null);
+    try {
+      const retake = await qaService.createRetakeSession(goalId, sessionId);
+      navigate({ type: 'qa', goalId, sessionId: retake.id });
+    } catch (err) {
+      console.error('Failed to create retake session:', err);
+      setError(err instanceof Error ? err.message : 'Failed to create retake session');
+    } finally {
+      setIsRetaking(false);
+    }
+  }, [qaService, goalId, sessionId, navigate]);
+
+  const header = (
+    <div className="ignite-screen-header">
+      <div className="ignite-qa-header-content">
+        <h1 className="ignite-screen-title">Session Review</h1>
+        {goal && <span className="ignite-qa-goal-name">{goal.name}</span>}
+      </div>
+      <Button variant="secondary" onClick={goBack}>
+        Back
+      </Button>
+    </div>
+  );
+
+  if (isLoading) {
+    return (
+      <div className="ignite-screen ignite-qa-review-screen">
+        {header}
+        <div className="ignite-screen-content">
+          <div className="ignite-loading-container">
+            <LoadingSpinner size="lg" />
+            <p className="ignite-loading-text">Loading session...</p>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  if (!session) {
+    return (
+      <div className="ignite-screen ignite-qa-review-screen">
+        {header}
+        <div className="ignite-screen-content">
+          <ErrorMessage
+            type="general"
+            message={error ?? 'Session not found'}
+            onRetry={loadSession}
+          />
+        </div>
+      </div>
+    );
+  }
+
+  const correctCount = session.answers.filter((a) => a.isCorrect).length;
+  const incorrectCount = session.answers.length - correctCount;
+
+  return (
+    <div className="ignite-screen ignite-qa-review-screen">
+      {header}
+      <div className="ignite-screen-content">
+        <div className="ignite-qa-review-summary">
+          <span className="ignite-qa-review-date">
+            {new Date(session.createdAt).toLocaleDateString(undefined, {
+              year: 'numeric',
+              month: 'short',
+              day: 'numeric',
+            })}
+          </span>
+          <span className="ignite-qa-review-score">
+            {session.score}% · {correctCount} of {session.questions.length} correct
+          </span>
+        </div>
+
+        {error && <ErrorMessage type="general" message={error} onDismiss={() => setError(null)} />}
+
+        <div className="ignite-qa-review-questions">
+          {session.questions.map((question, index) => (
+            <AnsweredQuestion
+              key={question.id}
+              question={question}
+              answer={session.answers.find((a) => a.questionId === question.id) ?? null}
+              questionNumber={index + 1}
+              totalQuestions={session.questions.length}
+            />
+          ))}
+        </div>
+
+        {incorrectCount > 0 && (
+          <div className="ignite-qa-review-actions">
+            <Button variant="primary" onClick={handleRetake} disabled={isRetaking}>
+              {isRetaking ? 'Preparing...' : `Retake ${incorrectCount} Incorrect`}
+            </Button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,7 +1,25 @@
-import type { Answer, Goal } from '@/domain/goal/types';
-import { isMultipleChoiceQuestion } from '@/domain/goal/types';
+import type { Answer, Goal, QASession, QASessionOptions } from '@/domain/goal/types';
+import {
+  isClozeQuestion,
+  isMultiSelectQuestion,
+  isMultipleChoiceQuestion,
+  isOpenEndedQuestion,
+  isOrderingQuestion,
+  isTrueFalseQuestion,
+} from '@/domain/goal/types';
 import { useRouter } from '@/ui/Router';
-import { AnswerOption, OpenEndedInput, QuestionCard, SessionSummary } from '@/ui/components/qa';
+import {
+  AnswerOption,
+  ClozeInput,
+  KeyPointList,
+  MultiSelectInput,
+  OpenEndedInput,
+  OrderingInput,
+  QASessionSettings,
+  QuestionCard,
+  SessionSummary,
+  TrueFalseInput,
+} from '@/ui/components/qa';
 import { Button } from '@/ui/components/shared/Button';
 import { Card } from '@/ui/components/shared/Card';
 import { LoadingSpinner } from '@/ui/components/shared/LoadingSpinner';
@@ -16,12 +34,28 @@ import { useCallback, useEffect, useState } from 'react';
  */
 export interface QAScreenProps {
   goalId: string;
+  /** Resume this session instead of starting a new one */
+  sessionId?: string;
+  review?: boolean;
+  /** Preselect these notes as the session focus */
+  notePaths?: string[];
+  /** Scope a new session to this milestone and its notes */
+  milestoneId?: string;
 }
 
 /**
  * Screen for Q&A sessions.
+ * In review mode, questions come from past sessions that are due for spaced repetition.
+ * Otherwise an unfinished session is offered for resuming, then session settings are shown
+ * before new questions are generated.
  */
-export function QAScreen({ goalId }: QAScreenProps) {
+export function QAScreen({
+  goalId,
+  sessionId,
+  review = false,
+  notePaths,
+  milestoneId,
+}: QAScreenProps) {
   const { vaultProvider } = useApp();
   const { llmProvider } = useLLM();
   const { goals } = useGoals();
@@ -34,6 +68,9 @@ export function QAScreen({ goalId }: QAScreenProps) {
     isSubmitting,
     error,
     startSession,
+    startReviewSession,
+    findIncompleteSession,
+    loadSession,
     submitAnswer,
     nextQuestion,
     previousQuestion,
@@ -48,15 +85,47 @@ export function QAScreen({ goalId }: QAScreenProps) {
   const [showFeedback, setShowFeedback] = useState(false);
   const [lastAnswer, setLastAnswer] = useState<Answer | null>(null);
   const [showSummary, setShowSummary] = useState(false);
+  const [hasStarted, setHasStarted] = useState(false);
+  const [resumableSession, setResumableSession] = useState<QASession | null>(null);
+  const [isResuming, setIsResuming] = useState(false);
+  const [isConfiguring, setIsConfiguring] = useState(false);
 
   const goal = goals.find((g: Goal) => g.id === goalId);
+  const title = review ? 'Review Session' : 'Q&A Session';
 
-  // Start session on mount
+  // Start, resume or offer to resume a session on mount
   useEffect(() => {
-    if (goal && !session && !isLoading) {
-      startSession(goal).catch(console.error);
-    }
-  }, [goal, session, isLoading, startSession]);
+    if (!goal || hasStarted) return;
+    setHasStarted(true);
+
+    const start = async () => {
+      if (sessionId) {
+        await loadSession(goal.id, sessionId, goal);
+      } else if (review) {
+        await startReviewSession(goal);
+      } else if (notePaths || milestoneId) {
+        setIsConfiguring(true);
+      } else {
+        const incomplete = await findIncompleteSession(goal.id);
+        if (incomplete) {
+          setResumableSession(incomplete);
+        } else {
+          setIsConfiguring(true);
+        }
+      }
+    };
+    start().catch(console.error);
+  }, [
+    goal,
+    hasStarted,
+    sessionId,
+    review,
+    notePaths,
+    milestoneId,
+    loadSession,
+    startReviewSession,
+    findIncompleteSession,
+  ]);
 
   const currentQuestion = getCurrentQuestion();
 
@@ -95,8 +164,8 @@ export function QAScreen({ goalId }: QAScreenProps) {
     }
   }, [selectedOption, submitAnswer]);
 
-  const handleSubmitOpenEnded = useCallback(
-    async (answer: string) => {
+  const handleSubmitAnswer = useCallback(
+    async (answer: Answer['userAnswer']) => {
       try {
         const result = await submitAnswer(answer);
         setLastAnswer(result);
@@ -121,6 +190,27 @@ export function QAScreen({ goalId }: QAScreenProps) {
     goToQuestion(0);
   }, [goToQuestion]);
 
+  const handleResume = useCallback(() => {
+    if (!goal || !resumableSession) return;
+    setResumableSession(null);
+    setIsResuming(true);
+    loadSession(goal.id, resumableSession.id, goal).catch(console.error);
+  }, [goal, resumableSession, loadSession]);
+
+  const handleStartNew = useCallback(() => {
+    setResumableSession(null);
+    setIsConfiguring(true);
+  }, []);
+
+  const handleStartWithOptions = useCallback(
+    (options: QASessionOptions) => {
+      if (!goal) return;
+      setIsConfiguring(false);
+      startSession(goal, options).catch(console.error);
+    },
+    [goal, startSession],
+  );
+
   const handleFinish = useCallback(() => {
     resetSession();
     goBack();
@@ -130,7 +220,7 @@ export function QAScreen({ goalId }: QAScreenProps) {
     return (
       <div className="ignite-screen ignite-qa-screen">
         <div className="ignite-screen-header">
-          <h1 className="ignite-screen-title">Q&A Session</h1>
+          <h1 className="ignite-screen-title">{title}</h1>
           <Button variant="secondary" onClick={goBack}>
             Back
           </Button>
@@ -151,7 +241,7 @@ export function QAScreen({ goalId }: QAScreenProps) {
     return (
       <div className="ignite-screen ignite-qa-screen">
         <div className="ignite-screen-header">
-          <h1 className="ignite-screen-title">Q&A Session</h1>
+          <h1 className="ignite-screen-title">{title}</h1>
           <Button variant="secondary" onClick={goBack}>
             Back
           </Button>
@@ -159,7 +249,13 @@ export function QAScreen({ goalId }: QAScreenProps) {
         <div className="ignite-screen-content">
           <div className="ignite-loading-container">
             <LoadingSpinner size="lg" />
-            <p className="ignite-loading-text">Generating questions from your notes...</p>
+            <p className="ignite-loading-text">
+              {review
+                ? 'Gathering questions due for review...'
+                : sessionId || isResuming
+                  ? 'Loading your session...'
+                  : 'Generating questions from your notes...'}
+            </p>
           </div>
         </div>
       </div>
@@ -170,7 +266,7 @@ export function QAScreen({ goalId }: QAScreenProps) {
     return (
       <div className="ignite-screen ignite-qa-screen">
         <div className="ignite-screen-header">
-          <h1 className="ignite-screen-title">Q&A Session</h1>
+          <h1 className="ignite-screen-title">{title}</h1>
           <Button variant="secondary" onClick={goBack}>
             Back
           </Button>
@@ -205,11 +301,74 @@ export function QAScreen({ goalId }: QAScreenProps) {
     );
   }
 
+  if (isConfiguring && !session) {
+    // Preselect the milestone's own notes; a milestone without notes uses all goal notes
+    const milestoneNotePaths = goal.milestones.find((m) => m.id === milestoneId)?.notesPaths;
+
+    return (
+      <div className="ignite-screen ignite-qa-screen">
+        <div className="ignite-screen-header">
+          <div className="ignite-qa-header-content">
+            <h1 className="ignite-screen-title">{title}</h1>
+            <span className="ignite-qa-goal-name">{goal.name}</span>
+          </div>
+          <Button variant="secondary" onClick={goBack}>
+            Back
+          </Button>
+        </div>
+        <div className="ignite-screen-content">
+          <QASessionSettings
+            goal={goal}
+            initialOptions={{
+              focusNotePaths: notePaths ?? milestoneNotePaths,
+              milestoneId,
+            }}
+            onStart={handleStartWithOptions}
+            onCancel={goBack}
+          />
+        </div>
+      </div>
+    );
+  }
+
+  if (resumableSession && !session) {
+    const answeredCount = resumableSession.answers.length;
+    const totalCount = resumableSession.questions.length;
+
+    return (
+      <div className="ignite-screen ignite-qa-screen">
+        <div className="ignite-screen-header">
+          <h1 className="ignite-screen-title">{title}</h1>
+          <Button variant="secondary" onClick={goBack}>
+            Back
+          </Button>
+        </div>
+        <div className="ignite-screen-content">
+          <Card className="ignite-qa-resume">
+            <h3 className="ignite-qa-resume-title">Unfinished session</h3>
+            <p className="ignite-qa-resume-description">
+              You answered {answeredCount} of {totalCount} question{totalCount !== 1 ? 's' : ''} in
+              a session started {new Date(resumableSession.createdAt).toLocaleDateString()}.
+            </p>
+            <div className="ignite-qa-resume-actions">
+              <Button variant="secondary" onClick={handleStartNew}>
+                Start New Session
+              </Button>
+              <Button variant="primary" onClick={handleResume}>
+                Resume Session
+              </Button>
+            </div>
+          </Card>
+        </div>
+      </div>
+    );
+  }
+
   if (!session || !currentQuestion) {
     return (
       <div className="ignite-screen ignite-qa-screen">
         <div className="ignite-screen-header">
-          <h1 className="ignite-screen-title">Q&A Session</h1>
+          <h1 className="ignite-screen-title">{title}</h1>
           <Button variant="secondary" onClick={goBack}>
             Back
           </Button>
@@ -233,7 +392,7 @@ export function QAScreen({ goalId }: QAScreenProps) {
     <div className="ignite-screen ignite-qa-screen">
       <div className="ignite-screen-header">
         <div className="ignite-qa-header-content">
-          <h1 className="ignite-screen-title">Q&A Session</h1>
+          <h1 className="ignite-screen-title">{title}</h1>
           <span className="ignite-qa-goal-name">{goal.name}</span>
         </div>
         <Button variant="secondary" onClick={goBack}>
@@ -285,11 +444,11 @@ export function QAScreen({ goalId }: QAScreenProps) {
                 </Button>
               )}
             </div>
-          ) : (
+          ) : isOpenEndedQuestion(currentQuestion) ? (
             <div className="ignite-qa-open-ended">
               {!showFeedback ? (
                 <OpenEndedInput
-                  onSubmit={handleSubmitOpenEnded}
+                  onSubmit={handleSubmitAnswer}
                   disabled={isSubmitting}
                   placeholder="Type your answer here..."
                 />
@@ -300,7 +459,39 @@ export function QAScreen({ goalId }: QAScreenProps) {
                 </Card>
               ) : null}
             </div>
-          )}
+          ) : isTrueFalseQuestion(currentQuestion) ? (
+            <TrueFalseInput
+              key={currentQuestion.id}
+              question={currentQuestion}
+              answer={showFeedback && lastAnswer?.type === 'true-false' ? lastAnswer : null}
+              disabled={isSubmitting}
+              onSubmit={handleSubmitAnswer}
+            />
+          ) : isClozeQuestion(currentQuestion) ? (
+            <ClozeInput
+              key={currentQuestion.id}
+              question={currentQuestion}
+              answer={showFeedback && lastAnswer?.type === 'cloze' ? lastAnswer : null}
+              disabled={isSubmitting}
+              onSubmit={handleSubmitAnswer}
+            />
+          ) : isOrderingQuestion(currentQuestion) ? (
+            <OrderingInput
+              key={currentQuestion.id}
+              question={currentQuestion}
+              answer={showFeedback && lastAnswer?.type === 'ordering' ? lastAnswer : null}
+              disabled={isSubmitting}
+              onSubmit={handleSubmitAnswer}
+            />
+          ) : isMultiSelectQuestion(currentQuestion) ? (
+            <MultiSelectInput
+              key={currentQuestion.id}
+              question={currentQuestion}
+              answer={showFeedback && lastAnswer?.type === 'multi-select' ? lastAnswer : null}
+              disabled={isSubmitting}
+              onSubmit={handleSubmitAnswer}
+            />
+          ) : null}
 
           {showFeedback && lastAnswer && (
             <Card
@@ -314,6 +505,9 @@ export function QAScreen({ goalId }: QAScreenProps) {
                 </span>
               </div>
               <p className="ignite-qa-feedback-explanation">{lastAnswer.explanation}</p>
+              {lastAnswer.type === 'open-ended' && lastAnswer.keyPoints && (
+                <KeyPointList keyPoints={lastAnswer.keyPoints} />
+              )}
             </Card>
           )}
 